@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+/**
+ * Offline stand-in for an OpenAI-compatible LLM server. Point the ai-screening
+ * function at it with LOCAL_LLM_BASE_URL=http://localhost:4010/v1 and use
+ * "local:<model>" reviewer models to run dual review without network access.
+ *
+ * The model name selects the canned behaviour:
+ *   *include*  -> include recommendation
+ *   *exclude*  -> exclude recommendation
+ *   *uncertain* -> uncertain recommendation
+ *   *invalid*  -> a reply that is not JSON
+ *   *repair*   -> not JSON at first, valid once re-asked with validation errors
+ *   *error*    -> HTTP 500
+ * Any other model answers with MOCK_LLM_DECISION (default "include").
+ * Arbiter prompts get an adjudication in the arbiter's response format.
+ */
+import { createServer } from 'node:http';
+
+const port = Number(process.env.MOCK_LLM_PORT || 4010);
+const DECISIONS = ['include', 'exclude', 'uncertain'];
+const defaultDecision = DECISIONS.includes(process.env.MOCK_LLM_DECISION) ? process.env.MOCK_LLM_DECISION : 'include';
+const PICOTT_ELEMENTS = ['population', 'intervention', 'comparator', 'outcome', 'timeframe', 'study_design'];
+
+function cannedReview(decision, prompt) {
+  // Quoting the title keeps the canned evidence verifiable against the screened reference
+  const title = prompt.match(/^Title: (.*)$/m)?.[1]?.trim() || '';
+  const picott = Object.fromEntries(PICOTT_ELEMENTS.map(element => [element, {
+    status: element === 'population' && title ? 'present' : 'unclear',
+    evidence: `Mock assessment of ${element.replace('_', ' ')}`,
+    ...(element === 'population' && title && { quote: title }),
+  }]));
+
+  return {
+    recommendation: decision,
+    confidence: { include: 0.8, exclude: 0.75, uncertain: 0.5 }[decision],
+    picott_assessment: picott,
+    criteria_assessment: { inclusion_criteria: [], exclusion_criteria: [] },
+    reasoning: `Mock reviewer recommends ${decision}.`,
+  };
+}
+
+function cannedVerdict(decision) {
+  return {
+    decision,
+    confidence: 0.7,
+    favoured_reviewer: 'neither',
+    points_of_disagreement: ['Mock disagreement'],
+    reasoning: `Mock arbiter adjudicates ${decision}.`,
+  };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  const path = req.url?.split('?')[0] ?? '';
+
+  if (req.method === 'GET' && path.endsWith('/models')) {
+    sendJson(res, 200, {
+      object: 'list',
+      data: ['mock-include', 'mock-exclude', 'mock-uncertain', 'mock-invalid', 'mock-repair', 'mock-error'].map(id => ({ id, object: 'model', owned_by: 'mock' })),
+    });
+    return;
+  }
+
+  if (req.method !== 'POST' || !path.endsWith('/chat/completions')) {
+    sendJson(res, 404, { error: { message: `No mock route for ${req.method} ${path}` } });
+    return;
+  }
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      sendJson(res, 400, { error: { message: 'Request body is not JSON' } });
+      return;
+    }
+
+    const model = String(body.model || 'mock');
+    const prompt = (body.messages || []).map(message => message.content).join('\n');
+    console.log(`${new Date().toISOString()} ${model} (${prompt.length} chars)`);
+
+    if (model.includes('error')) {
+      sendJson(res, 500, { error: { message: 'Mock server error' } });
+      return;
+    }
+
+    const decision = DECISIONS.find(candidate => model.includes(candidate)) ?? defaultDecision;
+    const isRepair = prompt.includes('YOUR PREVIOUS RESPONSE');
+    const isArbiter = prompt.includes('Adjudicate the conflict');
+    const content = model.includes('invalid') || (model.includes('repair') && !isRepair)
+      ? 'I am unable to produce JSON for this reference.'
+      : JSON.stringify(isArbiter ? cannedVerdict(decision) : cannedReview(decision, prompt));
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    sendJson(res, 200, {
+      id: `mock-${Date.now()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    });
+  });
+});
+
+// MOCK_LLM_PORT=0 picks a free port; the log line names the one in use
+server.listen(port, () => {
+  console.log(`Mock LLM server listening on http://localhost:${server.address().port}/v1`);
+});
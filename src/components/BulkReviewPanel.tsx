@@ -30,13 +30,16 @@ const BulkReviewPanel = ({ projectId, references, screeningResults, onReviewComp
   const [bulkDecision, setBulkDecision] = useState('');
   const [bulkNotes, setBulkNotes] = useState('');
   const [confidenceLevel, setConfidenceLevel] = useState('3');
-  const [filterType, setFilterType] = useState('conflicts');
+  const [filterType, setFilterType] = useState('needs-review');
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
   // Get references that need review based on filter
   const getFilteredReferences = () => {
     switch (filterType) {
+      case 'needs-review':
+        // Screening marks references it could not decide as uncertain or conflict
+        return references.filter(ref => ref.status === 'uncertain' || ref.status === 'conflict' || ref.ai_conflict_flag);
       case 'conflicts':
         return references.filter(ref => {
           const result = screeningResults.find(r => r.reference_id === ref.id);
@@ -53,7 +56,7 @@ const BulkReviewPanel = ({ projectId, references, screeningResults, onReviewComp
       case 'uncertain':
         return references.filter(ref => {
           const result = screeningResults.find(r => r.reference_id === ref.id);
-          return result && result.final_decision === 'uncertain';
+          return ref.status === 'uncertain' || (result && result.final_decision === 'uncertain');
         });
       case 'all-screened':
         return references.filter(ref => 
@@ -104,7 +107,7 @@ const BulkReviewPanel = ({ projectId, references, screeningResults, onReviewComp
           project_id: projectId,
           reference_id: referenceId,
           user_id: user.id,
-          original_ai_decision: result?.final_decision || 'unknown',
+          original_ai_decision: result?.final_decision || references.find(ref => ref.id === referenceId)?.status || 'unknown',
           user_decision: bulkDecision,
           decision_reason: 'Bulk review decision',
           confidence_level: parseInt(confidenceLevel),
@@ -159,7 +162,11 @@ const BulkReviewPanel = ({ projectId, references, screeningResults, onReviewComp
 
   const getStatusBadge = (reference: Reference) => {
     const result = screeningResults.find(r => r.reference_id === reference.id);
-    if (!result) return <Badge variant="outline">Pending</Badge>;
+    if (!result) {
+      if (reference.status === 'conflict') return <Badge variant="destructive">Conflict</Badge>;
+      if (reference.status === 'uncertain') return <Badge variant="secondary">Uncertain</Badge>;
+      return <Badge variant="outline">Pending</Badge>;
+    }
 
     if (!result.agreement) {
       return <Badge variant="destructive">Conflict</Badge>;
@@ -192,6 +199,7 @@ const BulkReviewPanel = ({ projectId, references, screeningResults, onReviewComp
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
+              <SelectItem value="needs-review">Needs Human Review</SelectItem>
               <SelectItem value="conflicts">Conflicts Only</SelectItem>
               <SelectItem value="low-confidence">Low Confidence</SelectItem>
               <SelectItem value="uncertain">Uncertain Decisions</SelectItem>
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Gauge, RefreshCw } from 'lucide-react';
+import { CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent } from '@/components/ui/chart';
+import { useToast } from '@/hooks/use-toast';
+import { CalibrationService, ModelCalibrationReport } from '@/services/calibrationService';
+import { MIN_CALIBRATION_SAMPLES } from '@shared/calibration';
+
+interface CalibrationPanelProps {
+  projectId: string;
+}
+
+const chartConfig = {
+  raw: { label: 'Stated confidence', color: 'hsl(var(--muted-foreground))' },
+  calibrated: { label: 'Calibrated', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const toPoints = (bins: ModelCalibrationReport['rawBins']) =>
+  bins.map(bin => ({ confidence: bin.meanConfidence, accuracy: bin.accuracy, count: bin.count }));
+
+const CalibrationPanel = ({ projectId }: CalibrationPanelProps) => {
+  const [reports, setReports] = useState<ModelCalibrationReport[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fitting, setFitting] = useState(false);
+  const { toast } = useToast();
+
+  const loadReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReports(await CalibrationService.getReports(projectId));
+    } catch (error) {
+      console.error('Error loading calibration:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const handleFit = async () => {
+    setFitting(true);
+    try {
+      const { fitted, skipped } = await CalibrationService.fitProject(projectId);
+      toast({
+        title: fitted.length > 0 ? "Calibration updated" : "Nothing to calibrate yet",
+        description: [
+          fitted.length > 0 && `Calibrated ${fitted.join(', ')}.`,
+          skipped.length > 0 && `Not enough usable human decisions for ${skipped.map(({ model, samples }) => `${model} (${samples})`).join(', ')}.`,
+        ].filter(Boolean).join(' ') || `Each model needs at least ${MIN_CALIBRATION_SAMPLES} human decisions on references it screened.`,
+      });
+      await loadReports();
+    } catch (error) {
+      console.error('Error fitting calibration:', error);
+      toast({
+        title: "Calibration failed",
+        description: error instanceof Error ? error.message : "Failed to fit calibration",
+        variant: "destructive",
+      });
+    } finally {
+      setFitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            Confidence Calibration
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={handleFit} disabled={fitting}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${fitting ? 'animate-spin' : ''}`} />
+            Refit from human decisions
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          How often each model's decisions matched the human decision at each stated confidence. Points on the
+          diagonal are well calibrated; calibrated confidences are used for conflict resolution.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-sm text-muted-foreground">Loading calibration...</div>
+        ) : reports.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No human decisions on AI-screened references yet. Each model needs at least {MIN_CALIBRATION_SAMPLES} to be calibrated.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {reports.map(report => (
+              <div key={report.model} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-medium text-sm truncate">{report.model}</h4>
+                  {report.parameters ? (
+                    <Badge variant="outline">{report.parameters.method === 'platt' ? 'Platt scaling' : 'Isotonic'}</Badge>
+                  ) : (
+                    <Badge variant="secondary">Uncalibrated</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {report.samples} human decisions · Brier score {report.brierRaw.toFixed(3)}
+                  {report.brierCalibrated !== null && ` → ${report.brierCalibrated.toFixed(3)} calibrated`}
+                  {report.fittedAt && ` · fitted ${new Date(report.fittedAt).toLocaleDateString()}`}
+                </div>
+                <ChartContainer config={chartConfig} className="aspect-square max-h-72 w-full">
+                  <ComposedChart margin={{ top: 8, right: 8, bottom: 8, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" dataKey="confidence" domain={[0, 1]} tickCount={6} />
+                    <YAxis type="number" dataKey="accuracy" domain={[0, 1]} tickCount={6} width={32} />
+                    <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} strokeDasharray="4 4" />
+                    <Line
+                      data={toPoints(report.rawBins)}
+                      dataKey="accuracy"
+                      name="raw"
+                      stroke="var(--color-raw)"
+                      dot={{ r: 3 }}
+                      isAnimationActive={false}
+                    />
+                    {report.calibratedBins.length > 0 && (
+                      <Line
+                        data={toPoints(report.calibratedBins)}
+                        dataKey="accuracy"
+                        name="calibrated"
+                        stroke="var(--color-calibrated)"
+                        dot={{ r: 3 }}
+                        isAnimationActive={false}
+                      />
+                    )}
+                    <ChartLegend content={<ChartLegendContent nameKey="name" />} />
+                  </ComposedChart>
+                </ChartContainer>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, GitMerge, Check, X, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useToast } from '@/hooks/use-toast';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  choosePrimaryRecord,
+  ClusterAction,
+  DeduplicationService,
+  DedupRecord,
+  PrismaIdentificationCounts,
+} from '@/services/deduplicationService';
+
+interface DuplicateReviewPanelProps {
+  projectId: string;
+  onDuplicatesResolved: () => void;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  doi: 'Same DOI',
+  pmid: 'Same PMID',
+  title: 'Similar title, year and author',
+};
+
+const DuplicateReviewPanel = ({ projectId, onDuplicatesResolved }: DuplicateReviewPanelProps) => {
+  const [clusters, setClusters] = useState<Tables<'duplicate_clusters'>[]>([]);
+  const [records, setRecords] = useState<Record<string, DedupRecord>>({});
+  const [primaryChoice, setPrimaryChoice] = useState<Record<string, string>>({});
+  const [counts, setCounts] = useState<PrismaIdentificationCounts | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadClusters = useCallback(async () => {
+    try {
+      const [pending, prismaCounts] = await Promise.all([
+        DeduplicationService.getClusters(projectId),
+        DeduplicationService.getPrismaCounts(projectId),
+      ]);
+      setClusters(pending);
+      setCounts(prismaCounts);
+
+      const ids = Array.from(new Set(pending.flatMap(cluster => cluster.reference_ids)));
+      const loaded = ids.length > 0 ? await DeduplicationService.getClusterReferences(ids) : [];
+      const byId: Record<string, DedupRecord> = {};
+      loaded.forEach(record => { byId[record.id] = record; });
+      setRecords(byId);
+
+      const choices: Record<string, string> = {};
+      pending.forEach(cluster => {
+        const members = cluster.reference_ids.map(id => byId[id]).filter(Boolean);
+        if (members.length > 0) choices[cluster.id] = choosePrimaryRecord(members).id;
+      });
+      setPrimaryChoice(choices);
+    } catch (error) {
+      console.error('Error loading duplicate clusters:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadClusters();
+  }, [loadClusters]);
+
+  const handleDetect = async () => {
+    setIsDetecting(true);
+    try {
+      const candidates = await DeduplicationService.detectDuplicates(projectId);
+      toast({
+        title: "Duplicate scan complete",
+        description: candidates.length > 0
+          ? `Found ${candidates.length} possible duplicate group(s) to review`
+          : "No likely duplicates found",
+      });
+      await loadClusters();
+    } catch (error) {
+      console.error('Duplicate detection failed:', error);
+      toast({
+        title: "Duplicate scan failed",
+        description: error instanceof Error ? error.message : "Could not scan references for duplicates",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handleResolve = async (clusterId: string, action: ClusterAction) => {
+    setResolvingId(clusterId);
+    try {
+      await DeduplicationService.resolveCluster(clusterId, action, primaryChoice[clusterId]);
+      await loadClusters();
+      if (action !== 'reject') onDuplicatesResolved();
+    } catch (error) {
+      console.error('Error resolving duplicate cluster:', error);
+      toast({
+        title: "Could not update duplicates",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Copy className="w-5 h-5" />
+            Duplicate Review ({clusters.length} pending)
+          </CardTitle>
+          <Button onClick={handleDetect} disabled={isDetecting} variant="outline">
+            <RefreshCw className={`w-4 h-4 mr-2 ${isDetecting ? 'animate-spin' : ''}`} />
+            {isDetecting ? 'Scanning...' : 'Scan for duplicates'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {counts && (
+          <div className="p-3 bg-secondary/50 rounded-md text-sm space-y-1">
+            <div className="font-medium text-foreground">PRISMA identification</div>
+            {Object.entries(counts.identifiedByDatabase).map(([database, count]) => (
+              <div key={database} className="flex justify-between text-muted-foreground">
+                <span>Records identified from {database}</span>
+                <span>{count}</span>
+              </div>
+            ))}
+            <div className="flex justify-between text-muted-foreground">
+              <span>Duplicate records removed</span>
+              <span>{counts.duplicatesRemoved}</span>
+            </div>
+            <div className="flex justify-between text-foreground">
+              <span>Records to screen</span>
+              <span>{counts.recordsAfterDeduplication}</span>
+            </div>
+          </div>
+        )}
+
+        {clusters.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No duplicate groups waiting for review. Run a scan after importing new files.
+          </div>
+        )}
+
+        {clusters.map(cluster => (
+          <div key={cluster.id} className="border rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{Math.round(cluster.similarity * 100)}% similar</Badge>
+              {(cluster.match_reasons || []).map(reason => (
+                <Badge key={reason} variant="secondary">{REASON_LABELS[reason] ?? reason}</Badge>
+              ))}
+            </div>
+
+            <RadioGroup
+              value={primaryChoice[cluster.id]}
+              onValueChange={value => setPrimaryChoice(prev => ({ ...prev, [cluster.id]: value }))}
+            >
+              {cluster.reference_ids.map(id => records[id]).filter(Boolean).map(record => (
+                <div key={record.id} className="flex items-start gap-3 p-2 rounded-md bg-muted/40">
+                  <RadioGroupItem value={record.id} id={`${cluster.id}-${record.id}`} className="mt-1" />
+                  <label htmlFor={`${cluster.id}-${record.id}`} className="flex-1 text-sm space-y-0.5 cursor-pointer">
+                    <div className="font-medium text-foreground">{record.title}</div>
+                    <div className="text-muted-foreground">
+                      {[record.authors, record.journal, record.year].filter(Boolean).join(' · ')}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {[
+                        record.source_database,
+                        record.doi && `DOI ${record.doi}`,
+                        record.pmid && `PMID ${record.pmid}`,
+                        record.abstract ? 'has abstract' : 'no abstract',
+                      ].filter(Boolean).join(' · ')}
+                    </div>
+                  </label>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">
+              The selected record is kept and screened; the others are marked as duplicates.
+            </p>
+
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={() => handleResolve(cluster.id, 'merge')} disabled={resolvingId === cluster.id}>
+                <GitMerge className="w-4 h-4 mr-2" />
+                Merge metadata
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleResolve(cluster.id, 'confirm')} disabled={resolvingId === cluster.id}>
+                <Check className="w-4 h-4 mr-2" />
+                Mark as duplicates
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleResolve(cluster.id, 'reject')} disabled={resolvingId === cluster.id}>
+                <X className="w-4 h-4 mr-2" />
+                Not duplicates
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DuplicateReviewPanel;
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CrossrefResolver,
+  EnrichmentService,
+  EutilsResolver,
+  LocalCacheResolver,
+  MetadataResolver,
+} from '@/services/enrichmentService';
+
+interface EnrichmentPanelProps {
+  projectId: string;
+  // Screenable references, used to show how many lack an abstract
+  references: { abstract?: string | null; doi?: string | null; pmid?: string | null }[];
+  onEnriched: () => void;
+}
+
+const EnrichmentPanel = ({ projectId, references, onEnriched }: EnrichmentPanelProps) => {
+  const [cacheFile, setCacheFile] = useState<File | null>(null);
+  const [useCrossref, setUseCrossref] = useState(false);
+  const [usePubMed, setUsePubMed] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const { toast } = useToast();
+
+  const enrichable = references.filter(ref => !ref.abstract?.trim() && (ref.doi || ref.pmid)).length;
+  if (enrichable === 0) return null;
+
+  const handleEnrich = async () => {
+    const resolvers: MetadataResolver[] = [cacheFile ? LocalCacheResolver.fromFile(cacheFile) : new LocalCacheResolver()];
+    if (usePubMed) resolvers.push(new EutilsResolver());
+    if (useCrossref) resolvers.push(new CrossrefResolver());
+
+    setProgress({ done: 0, total: 0 });
+    try {
+      const summary = await EnrichmentService.enrichProject(projectId, resolvers, (done, total) => setProgress({ done, total }));
+      const filled = Object.entries(summary.fieldsFilled).map(([field, count]) => `${count} ${field}`).join(', ');
+      toast({
+        title: summary.enriched > 0 ? "References enriched" : "Nothing to add",
+        description: summary.enriched > 0
+          ? `${summary.enriched} of ${summary.checked} references updated (${filled})`
+          : `None of the ${summary.checked} incomplete references were found in the selected sources`,
+      });
+      if (summary.failures.length > 0) {
+        toast({
+          title: `${summary.failures.length} lookup(s) failed`,
+          description: summary.failures[0].message,
+          variant: "destructive",
+        });
+      }
+      if (summary.enriched > 0) onEnriched();
+    } catch (error) {
+      console.error('Enrichment failed:', error);
+      toast({
+        title: "Enrichment failed",
+        description: error instanceof Error ? error.message : "Could not enrich references",
+        variant: "destructive",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5" />
+          Fill Missing Metadata
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {enrichable} references have a DOI or PMID but no abstract. Missing abstracts, journals, years, authors and
+          publication types can be filled from a local metadata cache, and optionally from online sources.
+        </p>
+
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="enrichment-cache" className="text-sm font-medium mb-1 block">
+              Metadata cache (JSON, optional)
+            </label>
+            <Input
+              id="enrichment-cache"
+              type="file"
+              accept=".json"
+              onChange={(event) => setCacheFile(event.target.files?.[0] ?? null)}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="enrich-pubmed" checked={usePubMed} onCheckedChange={(checked) => setUsePubMed(!!checked)} />
+            <label htmlFor="enrich-pubmed" className="text-sm">Look up PubMed (NCBI E-utilities)</label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="enrich-crossref" checked={useCrossref} onCheckedChange={(checked) => setUseCrossref(!!checked)} />
+            <label htmlFor="enrich-crossref" className="text-sm">Look up Crossref</label>
+          </div>
+        </div>
+
+        {progress && progress.total > 0 && (
+          <div className="space-y-1">
+            <Progress value={(progress.done / progress.total) * 100} />
+            <p className="text-xs text-muted-foreground">Checked {progress.done} of {progress.total} references</p>
+          </div>
+        )}
+
+        <Button onClick={handleEnrich} disabled={!!progress}>
+          <Sparkles className="w-4 h-4 mr-2" />
+          {progress ? 'Enriching...' : 'Enrich references'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EnrichmentPanel;
@@ -0,0 +1,513 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, ArrowRight, Download, FileText, RefreshCw, Save, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { IMPORT_FORMATS, ParsedFile } from "@/services/fileParserService";
+import { buildImportReport, downloadImportReportCsv, ISSUE_LABELS } from "@/services/importReportService";
+import { findMatchingTemplate, MappingTemplate, MappingTemplateService } from "@/services/mappingTemplateService";
+import { guessColumnMapping, parseSpreadsheet } from "@/services/parsers/spreadsheetParser";
+import {
+  applyColumnMapping,
+  ColumnMapping,
+  defaultSourceDatabase,
+  FailedChunk,
+  getUnmappedColumns,
+  hasMissingFields,
+  ImportProgress,
+  ImportSource,
+  MAPPABLE_FIELDS,
+  MappableField,
+  summarizeReferences,
+} from "@/services/referenceImportService";
+
+// Rows rendered in the preview table; the rest are still imported
+const PREVIEW_ROW_LIMIT = 100;
+
+export interface ParsedUpload {
+  file: File;
+  parsed: ParsedFile;
+}
+
+interface ImportPreviewProps {
+  uploads: ParsedUpload[];
+  isSaving: boolean;
+  saveProgress?: ImportProgress | null;
+  // Chunks of an already committed import that could not be saved
+  failedChunks?: FailedChunk[];
+  onCancel: () => void;
+  onConfirm: (sources: ImportSource[]) => void;
+  onRetryFailed?: () => void;
+  onSkipFailed?: () => void;
+}
+
+// Rows are keyed by file and position so exclusions survive re-filtering
+const rowKey = (source: number, index: number) => `${source}:${index}`;
+
+const ImportPreview = ({
+  uploads,
+  isSaving,
+  saveProgress,
+  failedChunks = [],
+  onCancel,
+  onConfirm,
+  onRetryFailed,
+  onSkipFailed,
+}: ImportPreviewProps) => {
+  // Spreadsheets start from the columns the parser recognised by name
+  const [mapping, setMapping] = useState<ColumnMapping>(() => Object.assign(
+    {},
+    ...uploads.filter(upload => upload.parsed.table).map(upload => guessColumnMapping(upload.parsed.table.headers))
+  ));
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [rowFilter, setRowFilter] = useState<"all" | "issues" | "excluded">("all");
+  const [sourceDatabases, setSourceDatabases] = useState<string[]>(
+    () => uploads.map(upload => defaultSourceDatabase(upload.parsed.format, upload.parsed.references))
+  );
+  const [templates, setTemplates] = useState<MappingTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [templateName, setTemplateName] = useState("");
+  const { toast } = useToast();
+
+  const spreadsheetHeaders = useMemo(
+    () => Array.from(new Set(uploads.flatMap(upload => upload.parsed.table?.headers.filter(Boolean) ?? []))),
+    [uploads]
+  );
+  // Spreadsheets are parsed again whenever their column mapping changes
+  const parsedFiles: ParsedFile[] = useMemo(
+    () => uploads.map(({ parsed }) => (parsed.table
+      ? { ...parsed, ...parseSpreadsheet(parsed.table, mapping, parsed.format === "xlsx" ? "xlsx" : "csv") }
+      : parsed)),
+    [uploads, mapping]
+  );
+
+  const allReferences = useMemo(
+    () => uploads.filter(upload => !upload.parsed.table).flatMap(upload => upload.parsed.references),
+    [uploads]
+  );
+  const unmappedColumns = useMemo(() => getUnmappedColumns(allReferences), [allReferences]);
+  const mappedUploads = useMemo(
+    () => parsedFiles.map(parsed => (parsed.table ? parsed.references : applyColumnMapping(parsed.references, mapping))),
+    [parsedFiles, mapping]
+  );
+  const summary = useMemo(() => summarizeReferences(mappedUploads.flat()), [mappedUploads]);
+  const warnings = parsedFiles.flatMap((parsed, source) => parsed.warnings.map(warning => ({ ...warning, fileName: uploads[source].file.name })));
+  const reports = useMemo(
+    () => parsedFiles.map((parsed, source) => buildImportReport(uploads[source].file.name, parsed.format, parsed)),
+    [uploads, parsedFiles]
+  );
+
+  useEffect(() => {
+    if (spreadsheetHeaders.length === 0) return;
+    MappingTemplateService.getTemplates()
+      .then(loaded => {
+        setTemplates(loaded);
+        // A template saved for this layout before is applied straight away
+        const match = findMatchingTemplate(loaded, spreadsheetHeaders);
+        if (match) {
+          setMapping(prev => ({ ...prev, ...match.mapping }));
+          setTemplateId(match.id);
+        }
+      })
+      .catch(error => console.error('Error loading mapping templates:', error));
+  }, [spreadsheetHeaders]);
+  const issueCounts = Object.entries(
+    warnings.reduce<Record<string, number>>((counts, warning) => {
+      counts[warning.code] = (counts[warning.code] ?? 0) + 1;
+      return counts;
+    }, {})
+  );
+  const formatLabel = (format: string) => IMPORT_FORMATS.find(option => option.value === format)?.label ?? format;
+
+  // Rows without a title cannot be stored, so they are never part of the import
+  const sourcesToImport: ImportSource[] = uploads.map((upload, source) => {
+    const references = mappedUploads[source].filter((reference, index) => !excluded.has(rowKey(source, index)) && reference.title?.trim());
+    return {
+      fileName: upload.file.name,
+      fileSize: upload.file.size,
+      format: upload.parsed.format,
+      sourceDatabase: sourceDatabases[source].trim() || 'Other',
+      references,
+      warningCount: parsedFiles[source].warnings.length,
+      report: { ...reports[source], importedRecords: references.length },
+    };
+  }).filter(source => source.references.length > 0);
+  const importCount = sourcesToImport.reduce((sum, source) => sum + source.references.length, 0);
+
+  const visibleRows = mappedUploads
+    .flatMap((references, source) => references.map((reference, index) => ({ reference, source, key: rowKey(source, index) })))
+    .filter(({ reference, key }) => {
+      if (rowFilter === "issues") return hasMissingFields(reference);
+      if (rowFilter === "excluded") return excluded.has(key);
+      return true;
+    });
+
+  const toggleRow = (key: string, include: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (include) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const excludeRowsWithIssues = () => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      mappedUploads.forEach((references, source) => references.forEach((reference, index) => {
+        if (hasMissingFields(reference)) next.add(rowKey(source, index));
+      }));
+      return next;
+    });
+  };
+
+  const updateMapping = (column: string, value: string) => {
+    setMapping(prev => ({ ...prev, [column]: value === "none" ? undefined : value as MappableField }));
+    // Re-parsed spreadsheets may gain or lose rows, so row positions no longer line up
+    if (spreadsheetHeaders.length > 0) setExcluded(new Set());
+  };
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find(candidate => candidate.id === id);
+    if (!template) return;
+    setTemplateId(id);
+    setTemplateName(template.name);
+    setMapping(Object.fromEntries(spreadsheetHeaders.map(header => [header, template.mapping[header]])));
+    setExcluded(new Set());
+  };
+
+  const saveTemplate = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+    try {
+      const spreadsheetMapping = Object.fromEntries(spreadsheetHeaders.map(header => [header, mapping[header]]));
+      const saved = await MappingTemplateService.saveTemplate(name, spreadsheetMapping, spreadsheetHeaders);
+      setTemplates(prev => [...prev.filter(template => template.name !== saved.name), saved]);
+      setTemplateId(saved.id);
+      toast({ title: "Template saved", description: `Spreadsheets with these columns will use "${saved.name}" automatically` });
+    } catch (error) {
+      console.error('Error saving mapping template:', error);
+      toast({ title: "Could not save template", description: "Please try again", variant: "destructive" });
+    }
+  };
+
+  const deleteTemplate = async () => {
+    if (!templateId) return;
+    try {
+      await MappingTemplateService.deleteTemplate(templateId);
+      setTemplates(prev => prev.filter(template => template.id !== templateId));
+      setTemplateId(null);
+    } catch (error) {
+      console.error('Error deleting mapping template:', error);
+      toast({ title: "Could not delete template", description: "Please try again", variant: "destructive" });
+    }
+  };
+
+  const renderMappingSelect = (column: string) => (
+    <div key={column} className="flex items-center gap-2">
+      <span className="text-sm flex-1 truncate" title={column}>{column}</span>
+      <Select value={mapping[column] ?? "none"} onValueChange={value => updateMapping(column, value)}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Keep as metadata</SelectItem>
+          {MAPPABLE_FIELDS.map(field => (
+            <SelectItem key={field} value={field}>{field}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const updateSourceDatabase = (source: number, value: string) => {
+    setSourceDatabases(prev => prev.map((database, i) => (i === source ? value : database)));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-2">
+          <FileText className="w-5 h-5 text-muted-foreground" />
+          <h3 className="text-lg font-semibold text-foreground">Review Import</h3>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div className="p-3 rounded-md bg-secondary/50">
+            <div className="text-2xl font-semibold">{summary.total}</div>
+            <div className="text-xs text-muted-foreground">Parsed records</div>
+          </div>
+          <div className="p-3 rounded-md bg-secondary/50">
+            <div className="text-2xl font-semibold">{summary.missingTitle}</div>
+            <div className="text-xs text-muted-foreground">Missing title</div>
+          </div>
+          <div className="p-3 rounded-md bg-secondary/50">
+            <div className="text-2xl font-semibold">{summary.missingAbstract}</div>
+            <div className="text-xs text-muted-foreground">Missing abstract</div>
+          </div>
+          <div className="p-3 rounded-md bg-secondary/50">
+            <div className="text-2xl font-semibold">{summary.withDoi}</div>
+            <div className="text-xs text-muted-foreground">With DOI</div>
+          </div>
+          <div className="p-3 rounded-md bg-secondary/50">
+            <div className="text-2xl font-semibold">{warnings.length}</div>
+            <div className="text-xs text-muted-foreground">Reported issues</div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-foreground">Files</Label>
+          <p className="text-xs text-muted-foreground">
+            Each file is recorded as a separate import batch. Check the source database used for PRISMA counts.
+          </p>
+          {uploads.map((upload, source) => (
+            <div key={`${upload.file.name}-${source}`} className="flex flex-wrap items-center gap-2 p-2 border rounded-md">
+              <span className="text-sm font-medium flex-1 min-w-0 truncate" title={upload.file.name}>{upload.file.name}</span>
+              <Badge variant="outline">{formatLabel(upload.parsed.format)}</Badge>
+              <span className="text-xs text-muted-foreground">{parsedFiles[source].references.length} records</span>
+              <Input
+                className="w-44 h-8"
+                value={sourceDatabases[source]}
+                onChange={(event) => updateSourceDatabase(source, event.target.value)}
+                aria-label={`Source database for ${upload.file.name}`}
+                maxLength={100}
+              />
+            </div>
+          ))}
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-sm font-medium text-foreground">Validation report</Label>
+              <Button variant="outline" size="sm" onClick={() => downloadImportReportCsv(reports, "import-report.csv")}>
+                <Download className="w-4 h-4 mr-2" />
+                Download CSV
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {issueCounts.map(([code, count]) => (
+                <Badge key={code} variant="secondary">
+                  {ISSUE_LABELS[code as keyof typeof ISSUE_LABELS] ?? code}: {count}
+                </Badge>
+              ))}
+            </div>
+            <ScrollArea className="h-32 rounded-md border p-2">
+              {warnings.slice(0, PREVIEW_ROW_LIMIT).map((warning, index) => (
+                <div key={index} className="flex items-start gap-2 text-sm py-0.5">
+                  <AlertTriangle className="w-4 h-4 text-warning shrink-0 mt-0.5" />
+                  <span>
+                    <span className="text-muted-foreground">
+                      {warning.fileName}{warning.line !== undefined && `, line ${warning.line}`}:{" "}
+                    </span>
+                    {warning.message}
+                    {warning.key && <span className="text-muted-foreground"> ({warning.key})</span>}
+                  </span>
+                </div>
+              ))}
+            </ScrollArea>
+            {warnings.length > PREVIEW_ROW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_ROW_LIMIT} of {warnings.length} issues. Download the report for the full list.
+              </p>
+            )}
+          </div>
+        )}
+
+        {unmappedColumns.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Column mapping</Label>
+            <p className="text-xs text-muted-foreground">
+              These columns were not recognised. Map them to a reference field or keep them as extra metadata.
+            </p>
+            <div className="grid md:grid-cols-2 gap-2">
+              {unmappedColumns.map(renderMappingSelect)}
+            </div>
+          </div>
+        )}
+
+        {spreadsheetHeaders.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Spreadsheet columns</Label>
+            <p className="text-xs text-muted-foreground">
+              Choose the reference field for each column. At least one column must be mapped to the title.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={templateId ?? undefined} onValueChange={applyTemplate} disabled={templates.length === 0}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder={templates.length > 0 ? "Apply a saved template" : "No saved templates"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {templateId && (
+                <Button variant="ghost" size="sm" onClick={deleteTemplate} aria-label="Delete template">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+              <Input
+                className="w-48 h-9"
+                placeholder="Template name"
+                value={templateName}
+                onChange={(event) => setTemplateName(event.target.value)}
+                maxLength={100}
+              />
+              <Button variant="outline" size="sm" onClick={saveTemplate} disabled={!templateName.trim()}>
+                <Save className="w-4 h-4 mr-2" />
+                Save mapping
+              </Button>
+            </div>
+            <div className="grid md:grid-cols-2 gap-2">
+              {spreadsheetHeaders.map(renderMappingSelect)}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label className="text-sm font-medium text-foreground">Records</Label>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={excludeRowsWithIssues}>
+                Exclude incomplete records
+              </Button>
+              <Select value={rowFilter} onValueChange={value => setRowFilter(value as typeof rowFilter)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  <SelectItem value="issues">Missing fields</SelectItem>
+                  <SelectItem value="excluded">Excluded</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <ScrollArea className="h-80 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Title</TableHead>
+                  {uploads.length > 1 && <TableHead>Source</TableHead>}
+                  <TableHead>Authors</TableHead>
+                  <TableHead className="w-16">Year</TableHead>
+                  <TableHead className="w-24">Abstract</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.slice(0, PREVIEW_ROW_LIMIT).map(({ reference, source, key }) => (
+                  <TableRow key={key} className={excluded.has(key) ? "opacity-50" : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!excluded.has(key)}
+                        onCheckedChange={checked => toggleRow(key, checked === true)}
+                        aria-label="Include record"
+                      />
+                    </TableCell>
+                    <TableCell className="max-w-md">
+                      <div className="line-clamp-2">
+                        {reference.title || <span className="text-destructive">No title</span>}
+                      </div>
+                    </TableCell>
+                    {uploads.length > 1 && (
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {sourceDatabases[source] || uploads[source].file.name}
+                      </TableCell>
+                    )}
+                    <TableCell className="max-w-xs">
+                      <div className="truncate">{reference.authors}</div>
+                    </TableCell>
+                    <TableCell>{reference.year ?? "—"}</TableCell>
+                    <TableCell>
+                      {reference.abstract ? (
+                        <Badge variant="secondary">Yes</Badge>
+                      ) : (
+                        <Badge variant="destructive">Missing</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+          {visibleRows.length > PREVIEW_ROW_LIMIT && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {PREVIEW_ROW_LIMIT} of {visibleRows.length} records.
+            </p>
+          )}
+        </div>
+
+        {saveProgress && saveProgress.total > 0 && (
+          <div className="space-y-1">
+            <Progress value={(saveProgress.inserted / saveProgress.total) * 100} />
+            <p className="text-xs text-muted-foreground">
+              Saved {saveProgress.inserted} of {saveProgress.total} references
+            </p>
+          </div>
+        )}
+
+        {failedChunks.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-foreground">Not saved</Label>
+            <p className="text-xs text-muted-foreground">
+              The rest of the import was saved. These records can be retried without creating duplicates.
+            </p>
+            <ScrollArea className="h-32 rounded-md border p-2">
+              {failedChunks.map(chunk => (
+                <div key={`${chunk.sourceIndex}:${chunk.start}`} className="flex items-start gap-2 text-sm py-0.5">
+                  <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                  <span>
+                    <span className="text-muted-foreground">
+                      {chunk.fileName}, records {chunk.start + 1}–{chunk.end}:{" "}
+                    </span>
+                    {chunk.message}
+                  </span>
+                </div>
+              ))}
+            </ScrollArea>
+          </div>
+        )}
+
+        {failedChunks.length > 0 ? (
+          <div className="flex items-center justify-between gap-2 pt-2">
+            <Button variant="outline" onClick={onSkipFailed} disabled={isSaving}>
+              Continue without them
+            </Button>
+            <Button onClick={onRetryFailed} disabled={isSaving}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isSaving ? "animate-spin" : ""}`} />
+              {isSaving ? "Retrying..." : "Retry failed records"}
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-2 pt-2">
+            <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+            <Button onClick={() => onConfirm(sourcesToImport)} disabled={isSaving || importCount === 0}>
+              {isSaving ? "Importing..." : (
+                <>
+                  Import {importCount} references
+                  <ArrowRight className="w-4 h-4 ml-2" />
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ImportPreview;
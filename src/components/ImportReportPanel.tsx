@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Download, FileWarning } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  downloadImportReportCsv,
+  ImportReportService,
+  isSkippedRecord,
+  ISSUE_LABELS,
+  StoredImportReport,
+} from '@/services/importReportService';
+
+interface ImportReportPanelProps {
+  projectId: string;
+}
+
+// Issues rendered per report; the CSV download always has all of them
+const ISSUE_ROW_LIMIT = 200;
+
+const ImportReportPanel = ({ projectId }: ImportReportPanelProps) => {
+  const [reports, setReports] = useState<StoredImportReport[]>([]);
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const [codeFilter, setCodeFilter] = useState('all');
+
+  useEffect(() => {
+    ImportReportService.getProjectReports(projectId)
+      .then(loaded => {
+        setReports(loaded);
+        setSelectedBatchId(loaded[0]?.batchId ?? null);
+      })
+      .catch(error => console.error('Error loading import reports:', error));
+  }, [projectId]);
+
+  if (reports.length === 0) return null;
+
+  const selected = reports.find(stored => stored.batchId === selectedBatchId) ?? reports[0];
+  const issues = selected.report.issues.filter(issue => codeFilter === 'all' || issue.code === codeFilter);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <FileWarning className="w-5 h-5" />
+            Import Reports
+          </CardTitle>
+          <Button
+            variant="outline"
+            onClick={() => downloadImportReportCsv(reports.map(stored => stored.report), 'import-report.csv')}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download all (CSV)
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {reports.map(({ batchId, sourceDatabase, report }) => (
+            <button
+              key={batchId}
+              type="button"
+              onClick={() => { setSelectedBatchId(batchId); setCodeFilter('all'); }}
+              className={`w-full flex flex-wrap items-center gap-2 p-2 border rounded-md text-left text-sm ${
+                batchId === selected.batchId ? 'border-primary bg-primary/5' : ''
+              }`}
+            >
+              <span className="font-medium flex-1 min-w-0 truncate" title={report.fileName}>{report.fileName}</span>
+              <Badge variant="outline">{sourceDatabase}</Badge>
+              <span className="text-muted-foreground">
+                {report.importedRecords} imported · {report.skippedRecords} skipped · {report.issues.length} issues
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(selected.report.issueCounts).map(([code, count]) => (
+              <Badge key={code} variant="secondary">
+                {ISSUE_LABELS[code as keyof typeof ISSUE_LABELS] ?? code}: {count}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={codeFilter} onValueChange={setCodeFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All issues</SelectItem>
+                {Object.keys(selected.report.issueCounts).map(code => (
+                  <SelectItem key={code} value={code}>{ISSUE_LABELS[code as keyof typeof ISSUE_LABELS] ?? code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadImportReportCsv([selected.report], `${selected.report.fileName}-report.csv`)}
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {issues.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">No issues were found in this file.</div>
+        ) : (
+          <ScrollArea className="h-80 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Line</TableHead>
+                  <TableHead className="w-24">Record</TableHead>
+                  <TableHead>Issue</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issues.slice(0, ISSUE_ROW_LIMIT).map((issue, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{issue.line ?? '—'}</TableCell>
+                    <TableCell className="text-xs">
+                      {issue.entry !== undefined ? `#${issue.entry + 1}` : '—'}
+                      {issue.key && <div className="text-muted-foreground truncate max-w-24" title={issue.key}>{issue.key}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={isSkippedRecord(issue) ? 'destructive' : 'secondary'}>
+                        {ISSUE_LABELS[issue.code] ?? issue.code}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{issue.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+        {issues.length > ISSUE_ROW_LIMIT && (
+          <p className="text-xs text-muted-foreground">
+            Showing the first {ISSUE_ROW_LIMIT} of {issues.length} issues. Download the CSV for the full list.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ImportReportPanel;
@@ -1,67 +1,128 @@
-import { useState } from "react";
-import { Upload, FileText, ArrowRight } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Upload, FileText, ArrowRight, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
 import { useProject } from "@/contexts/ProjectContext";
-import { FileParserService } from "@/services/fileParserService";
+import { FileParserService, IMPORT_FORMATS, ParseProgress } from "@/services/fileParserService";
+import { FailedChunk, ImportProgress, ImportSource, ReferenceImportService } from "@/services/referenceImportService";
+import ImportPreview, { ParsedUpload } from "@/components/ImportPreview";
 import { supabase } from "@/integrations/supabase/client";
 import { validateFile, sanitizeTextInput } from "@/lib/security";
 
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+// An import that was saved except for some chunks, kept so they can be retried
+interface PartialImport {
+  projectId: string;
+  sources: ImportSource[];
+  failedChunks: FailedChunk[];
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
 const ImportSection = () => {
   const [projectName, setProjectName] = useState("");
+  const [importTarget, setImportTarget] = useState<"new" | "existing">("new");
+  const [existingProjects, setExistingProjects] = useState<ProjectOption[]>([]);
+  const [targetProjectId, setTargetProjectId] = useState("");
   const [importFormat, setImportFormat] = useState("auto-detect");
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [preview, setPreview] = useState<ParsedUpload[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [parseProgress, setParseProgress] = useState<{ fileName: string; progress: ParseProgress } | null>(null);
+  const [saveProgress, setSaveProgress] = useState<ImportProgress | null>(null);
+  const [partialImport, setPartialImport] = useState<PartialImport | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { setProjectData } = useProject();
+  const { user } = useAuth();
+  const { setProjectData, loadProject } = useProject();
+
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from('review_projects')
+      .select('id, name')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading projects:', error);
+          return;
+        }
+        setExistingProjects(data || []);
+      });
+  }, [user]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
+
+    const accepted: File[] = [];
+    files.forEach(file => {
       // Enhanced security validation
-      const validation = validateFile(file, 'documents');
+      const validation = validateFile(file, 'references');
       
       if (!validation.isValid) {
         toast({
-          title: "File validation failed",
+          title: `File validation failed: ${file.name}`,
           description: validation.errors.join('. '),
           variant: "destructive",
         });
-        // Clear the input
-        event.target.value = '';
         return;
       }
+      accepted.push(file);
+    });
 
-      setUploadedFile(file);
-      toast({
-        title: "File uploaded",
-        description: `${file.name} is ready for processing`,
-      });
-    }
+    // Clear the input so the same file can be picked again after removing it
+    event.target.value = '';
+    if (accepted.length === 0) return;
+
+    setUploadedFiles(prev => [
+      ...prev,
+      ...accepted.filter(file => !prev.some(existing => existing.name === file.name && existing.size === file.size)),
+    ]);
+    toast({
+      title: accepted.length === 1 ? "File uploaded" : "Files uploaded",
+      description: accepted.length === 1
+        ? `${accepted[0].name} is ready for processing`
+        : `${accepted.length} files are ready for processing`,
+    });
   };
 
+  const removeFile = (index: number) => {
+    setUploadedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const hasTarget = importTarget === "new" ? !!sanitizeTextInput(projectName).trim() : !!targetProjectId;
+
+  // Parses every file and shows the preview; nothing is written until the user confirms
   const handleSubmit = async () => {
-    const sanitizedProjectName = sanitizeTextInput(projectName);
-    
-    if (!sanitizedProjectName.trim()) {
+    if (!hasTarget) {
       toast({
-        title: "Project name required",
-        description: "Please enter a valid project name to continue",
+        title: importTarget === "new" ? "Project name required" : "Project required",
+        description: importTarget === "new"
+          ? "Please enter a valid project name to continue"
+          : "Please choose the project to add references to",
         variant: "destructive",
       });
       return;
     }
 
-    if (!uploadedFile) {
+    if (uploadedFiles.length === 0) {
       toast({
         title: "File required",
-        description: "Please upload a reference file to continue",
+        description: "Please upload at least one reference file to continue",
         variant: "destructive",
       });
       return;
@@ -69,80 +130,98 @@ const ImportSection = () => {
 
     setIsLoading(true);
 
-    try {
-      // Parse the uploaded file
-      const references = await FileParserService.parseFile(uploadedFile, importFormat);
-
-      if (references.length === 0) {
+    const uploads: ParsedUpload[] = [];
+    for (const file of uploadedFiles) {
+      try {
+        const parsed = await FileParserService.parseFileInWorker(file, importFormat, progress => {
+          setParseProgress({ fileName: file.name, progress });
+        });
+        uploads.push({ file, parsed });
+      } catch (error) {
+        console.error('Parse error:', error);
         toast({
-          title: "No references found",
-          description: "The uploaded file doesn't contain any valid references",
+          title: `Could not read ${file.name}`,
+          description: error instanceof Error ? error.message : "There was an error reading your references. Please try again.",
           variant: "destructive",
         });
         setIsLoading(false);
+        setParseProgress(null);
         return;
       }
+    }
+    setIsLoading(false);
+    setParseProgress(null);
 
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser();
-
-      // Create project in database with sanitized input
-      const { data: project, error: projectError } = await supabase
-        .from('review_projects')
-        .insert({
-          name: sanitizedProjectName,
-          status: 'draft',
-          user_id: user?.id,
-          total_references: references.length
-        })
-        .select()
-        .single();
-
-      if (projectError) {
-        throw projectError;
-      }
-      
-      // Insert references into database
-      const referencesToInsert = references.map(ref => ({
-        project_id: project.id,
-        user_id: user?.id,
-        title: ref.title,
-        authors: ref.authors,
-        abstract: ref.abstract,
-        journal: ref.journal,
-        year: ref.year,
-        doi: ref.doi,
-        pmid: ref.pmid,
-        url: ref.url,
-        status: 'pending'
-      }));
-
-      const { error: referencesError } = await supabase
-        .from('references')
-        .insert(referencesToInsert);
-
-      if (referencesError) {
-        throw referencesError;
-      }
-
-      // Update project context with comprehensive data
-      setProjectData({
-        id: project.id,
-        name: sanitizedProjectName,
-        importFormat,
-        uploadedFile,
-        references,
-        status: 'draft',
-        total_references: references.length
+    if (uploads.every(upload => upload.parsed.references.length === 0)) {
+      toast({
+        title: "No references found",
+        description: "The uploaded files don't contain any valid references",
+        variant: "destructive",
       });
+      return;
+    }
+
+    setPreview(uploads);
+  };
+
+  // Opens the project once every reference has been saved (or the user gives up on the rest)
+  const finishImport = async (projectId: string, sources: ImportSource[]) => {
+    setPartialImport(null);
+
+    if (importTarget === "existing") {
+      await loadProject(projectId);
+      navigate('/screening');
+      return;
+    }
+
+    // Update project context with comprehensive data
+    const references = sources.flatMap(source => source.references);
+    setProjectData({
+      id: projectId,
+      name: sanitizeTextInput(projectName),
+      importFormat: sources.length === 1 ? sources[0].format : importFormat,
+      uploadedFile: uploadedFiles[0],
+      references,
+      status: 'draft',
+      total_references: references.length
+    });
+
+    // Navigate to criteria page
+    navigate('/criteria');
+  };
+
+  const reportFailedChunks = (failedChunks: FailedChunk[]) => {
+    const failedCount = failedChunks.reduce((sum, chunk) => sum + chunk.end - chunk.start, 0);
+    toast({
+      title: "Some references were not saved",
+      description: `${failedCount} references in ${failedChunks.length} chunk(s) could not be saved. Retry them or continue without them.`,
+      variant: "destructive",
+    });
+  };
+
+  const handleConfirmImport = async (sources: ImportSource[]) => {
+    const sanitizedProjectName = sanitizeTextInput(projectName);
+    setIsSaving(true);
+    setSaveProgress({ inserted: 0, total: sources.reduce((sum, source) => sum + source.references.length, 0) });
+
+    try {
+      const result = await ReferenceImportService.commitImport(
+        importTarget === "new"
+          ? { projectName: sanitizedProjectName, sources, onProgress: setSaveProgress }
+          : { projectId: targetProjectId, sources, onProgress: setSaveProgress }
+      );
+
+      if (result.failedChunks.length > 0) {
+        setPartialImport({ projectId: result.projectId, sources, failedChunks: result.failedChunks });
+        reportFailedChunks(result.failedChunks);
+        return;
+      }
 
       toast({
         title: "Import successful",
-        description: `${references.length} references imported successfully`,
+        description: `${result.insertedReferences} references imported from ${sources.length} file(s)`,
       });
-
-      // Navigate to criteria page
-      navigate('/criteria');
+      await finishImport(result.projectId, sources);
 
     } catch (error) {
       console.error('Import error:', error);
@@ -152,10 +231,62 @@ const ImportSection = () => {
         variant: "destructive",
       });
     } finally {
-      setIsLoading(false);
+      setIsSaving(false);
+      setSaveProgress(null);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    if (!partialImport) return;
+    setIsSaving(true);
+
+    try {
+      const result = await ReferenceImportService.retryFailedChunks(
+        partialImport.projectId,
+        partialImport.sources,
+        partialImport.failedChunks,
+        setSaveProgress
+      );
+
+      if (result.failedChunks.length > 0) {
+        setPartialImport({ ...partialImport, failedChunks: result.failedChunks });
+        reportFailedChunks(result.failedChunks);
+        return;
+      }
+
+      toast({
+        title: "Import successful",
+        description: `The remaining ${result.insertedReferences} references were saved`,
+      });
+      await finishImport(partialImport.projectId, partialImport.sources);
+    } catch (error) {
+      console.error('Retry error:', error);
+      toast({
+        title: "Retry failed",
+        description: "The remaining references could not be saved. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+      setSaveProgress(null);
     }
   };
 
+  if (preview) {
+    return (
+      <ImportPreview
+        uploads={preview}
+        isSaving={isSaving}
+        saveProgress={saveProgress}
+        failedChunks={partialImport?.failedChunks}
+        onCancel={() => setPreview(null)}
+        onConfirm={handleConfirmImport}
+        onRetryFailed={handleRetryFailed}
+        onSkipFailed={() => partialImport && finishImport(partialImport.projectId, partialImport.sources)}
+      />
+    );
+  }
+
   return (
     <Card>
       <CardHeader className="pb-4">
@@ -165,19 +296,54 @@ const ImportSection = () => {
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
-        <div>
-          <Label htmlFor="project-name" className="text-sm font-medium text-foreground">
-            Project Name
-          </Label>
-          <Input
-            id="project-name"
-            placeholder="Enter project name"
-            className="mt-1"
-            value={projectName}
-            onChange={(e) => setProjectName(e.target.value)}
-            maxLength={255}
-          />
-        </div>
+        {existingProjects.length > 0 && (
+          <div>
+            <Label htmlFor="import-target" className="text-sm font-medium text-foreground">
+              Import Into
+            </Label>
+            <Select value={importTarget} onValueChange={(value) => setImportTarget(value as "new" | "existing")}>
+              <SelectTrigger id="import-target" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="new">A new project</SelectItem>
+                <SelectItem value="existing">An existing project</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {importTarget === "new" ? (
+          <div>
+            <Label htmlFor="project-name" className="text-sm font-medium text-foreground">
+              Project Name
+            </Label>
+            <Input
+              id="project-name"
+              placeholder="Enter project name"
+              className="mt-1"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              maxLength={255}
+            />
+          </div>
+        ) : (
+          <div>
+            <Label htmlFor="target-project" className="text-sm font-medium text-foreground">
+              Project
+            </Label>
+            <Select value={targetProjectId} onValueChange={setTargetProjectId}>
+              <SelectTrigger id="target-project" className="mt-1">
+                <SelectValue placeholder="Choose a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {existingProjects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
         
         <div>
           <Label htmlFor="import-format" className="text-sm font-medium text-foreground">
@@ -189,50 +355,68 @@ const ImportSection = () => {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="auto-detect">Auto-detect</SelectItem>
-              <SelectItem value="pubmed">PubMed</SelectItem>
-              <SelectItem value="endnote">EndNote</SelectItem>
-              <SelectItem value="bibtex">BibTeX</SelectItem>
-              <SelectItem value="ris">RIS</SelectItem>
+              {IMPORT_FORMATS.map(format => (
+                <SelectItem key={format.value} value={format.value}>{format.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
 
         <div>
           <Label htmlFor="file-upload" className="text-sm font-medium text-foreground">
-            Reference File
+            Reference Files
           </Label>
           <div className="mt-1">
             <Input
               id="file-upload"
               type="file"
-              accept=".bib,.ris,.txt,.enw,.nbib,.pdf,.doc,.docx,.json,.csv"
+              accept=".bib,.ris,.txt,.enw,.nbib,.xml,.csv,.tsv,.xlsx"
+              multiple
               onChange={handleFileUpload}
               className="file:text-primary file:border-primary/20"
             />
-            {uploadedFile && (
-              <div className="flex items-center gap-2 mt-2 p-2 bg-secondary/50 rounded-md">
+            {uploadedFiles.map((file, index) => (
+              <div key={`${file.name}-${file.size}`} className="flex items-center gap-2 mt-2 p-2 bg-secondary/50 rounded-md">
                 <FileText className="w-4 h-4 text-primary" />
-                <span className="text-sm text-foreground">{uploadedFile.name}</span>
+                <span className="text-sm text-foreground">{file.name}</span>
                 <span className="text-xs text-muted-foreground">
-                  ({(uploadedFile.size / 1024).toFixed(1)} KB)
+                  ({file.size >= 1024 * 1024 ? formatMegabytes(file.size) : `${(file.size / 1024).toFixed(1)} KB`})
                 </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-6 w-6 p-0"
+                  onClick={() => removeFile(index)}
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
               </div>
-            )}
+            ))}
           </div>
         </div>
 
-        <div className="pt-4">
+        <div className="pt-4 space-y-3">
+          {parseProgress && (
+            <div className="space-y-1">
+              <Progress value={parseProgress.progress.totalBytes > 0 ? (parseProgress.progress.bytesRead / parseProgress.progress.totalBytes) * 100 : 100} />
+              <p className="text-xs text-muted-foreground">
+                Reading {parseProgress.fileName}: {formatMegabytes(parseProgress.progress.bytesRead)} of{" "}
+                {formatMegabytes(parseProgress.progress.totalBytes)}, {parseProgress.progress.recordsParsed} records so far
+              </p>
+            </div>
+          )}
           <Button 
             onClick={handleSubmit}
-            disabled={isLoading || !sanitizeTextInput(projectName).trim() || !uploadedFile}
+            disabled={isLoading || !hasTarget || uploadedFiles.length === 0}
             className="w-full"
             size="lg"
           >
             {isLoading ? (
-              "Processing..."
+              "Reading files..."
             ) : (
               <>
-                Next: Define Criteria
+                Next: Review Import
                 <ArrowRight className="w-4 h-4 ml-2" />
               </>
             )}
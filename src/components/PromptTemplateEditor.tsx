@@ -0,0 +1,289 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileText, History, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  buildScreeningPrompt,
+  DEFAULT_SYSTEM_PROMPT,
+  DEFAULT_USER_PROMPT_TEMPLATE,
+  findUnknownVariables,
+  PROMPT_VARIABLES,
+  PromptCriteria,
+  PromptReference,
+} from '@shared/prompts';
+import { createPromptGuard } from '@shared/injection';
+import { PromptDraft, PromptVersion, PromptVersionService, toInstructionList } from '@/services/promptVersionService';
+
+// The function draws new delimiters and canary for every reference; the preview keeps one set so it does not change between renders
+const PREVIEW_GUARD = createPromptGuard();
+
+interface PromptTemplateEditorProps {
+  projectId: string;
+  // Criteria as currently entered on the page, so the preview reflects unsaved edits
+  criteria: PromptCriteria;
+}
+
+// Used for the preview until the project has references with abstracts
+const EXAMPLE_REFERENCE: PromptReference & { id: string } = {
+  id: 'example',
+  title: 'Effect of a structured exercise programme on glycaemic control in adults with type 2 diabetes: a randomised controlled trial',
+  abstract: 'Background: Exercise is recommended for people with type 2 diabetes. Methods: We randomly assigned 240 adults aged 40-70 years to a 24-week supervised exercise programme or usual care. Results: HbA1c fell by 0.6% in the exercise group compared with usual care (p<0.001). Conclusions: Structured exercise improves glycaemic control.',
+  authors: 'Smith, J; Patel, R; Nguyen, T',
+  journal: 'Diabetes Care',
+  year: 2021,
+  doi: '10.0000/example.2021.001',
+};
+
+const emptyDraft = (): PromptDraft => ({
+  systemPrompt: '',
+  userPromptTemplate: DEFAULT_USER_PROMPT_TEMPLATE,
+  additionalInstructions: '',
+});
+
+const PromptTemplateEditor = ({ projectId, criteria }: PromptTemplateEditorProps) => {
+  const [draft, setDraft] = useState<PromptDraft>(emptyDraft);
+  const [saved, setSaved] = useState<PromptDraft>(emptyDraft);
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<PromptVersion[]>([]);
+  const [samples, setSamples] = useState<(PromptReference & { id: string })[]>([EXAMPLE_REFERENCE]);
+  const [sampleId, setSampleId] = useState(EXAMPLE_REFERENCE.id);
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    Promise.all([
+      PromptVersionService.getActivePrompt(projectId),
+      PromptVersionService.getVersions(projectId),
+      PromptVersionService.getSampleReferences(projectId),
+    ])
+      .then(([active, loadedVersions, loadedSamples]) => {
+        const loaded = {
+          ...active.draft,
+          userPromptTemplate: active.draft.userPromptTemplate || DEFAULT_USER_PROMPT_TEMPLATE,
+        };
+        setDraft(loaded);
+        setSaved(loaded);
+        setActiveVersionId(active.versionId);
+        setVersions(loadedVersions);
+        if (loadedSamples.length > 0) {
+          setSamples(loadedSamples);
+          setSampleId(loadedSamples[0].id);
+        }
+      })
+      .catch(error => console.error('Error loading prompt settings:', error));
+  }, [projectId]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const unknownVariables = findUnknownVariables(`${draft.systemPrompt}\n${draft.userPromptTemplate}`);
+  const sample = samples.find(reference => reference.id === sampleId) ?? samples[0];
+  const preview = buildScreeningPrompt(
+    {
+      systemPrompt: draft.systemPrompt,
+      userPromptTemplate: draft.userPromptTemplate,
+      additionalInstructions: toInstructionList(draft.additionalInstructions),
+    },
+    sample,
+    criteria,
+    undefined,
+    PREVIEW_GUARD
+  );
+
+  const updateDraft = (field: keyof PromptDraft, value: string) => setDraft(prev => ({ ...prev, [field]: value }));
+
+  // Inserts the placeholder at the cursor in the user prompt template
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = templateRef.current;
+    const template = draft.userPromptTemplate;
+    const start = textarea?.selectionStart ?? template.length;
+    const end = textarea?.selectionEnd ?? template.length;
+    updateDraft('userPromptTemplate', template.slice(0, start) + placeholder + template.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleLoadVersion = (versionId: string) => {
+    const version = versions.find(candidate => candidate.id === versionId);
+    if (version) {
+      setDraft({
+        systemPrompt: version.systemPrompt,
+        userPromptTemplate: version.userPromptTemplate,
+        additionalInstructions: version.additionalInstructions,
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const version = await PromptVersionService.saveVersion(projectId, draft, notes);
+      setVersions(prev => [version, ...prev]);
+      setActiveVersionId(version.id);
+      setSaved(draft);
+      setNotes('');
+      toast({ title: `Prompt version ${version.version} saved`, description: "New screening runs will use this prompt" });
+    } catch (error) {
+      console.error('Error saving prompt version:', error);
+      toast({
+        title: "Could not save prompt",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const activeVersion = versions.find(version => version.id === activeVersionId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Screening Prompt
+          </CardTitle>
+          <Badge variant="outline">
+            {activeVersion ? `Version ${activeVersion.version}` : 'Built-in default'}
+            {isDirty && ' (unsaved changes)'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="system-prompt">System prompt</Label>
+          <Textarea
+            id="system-prompt"
+            rows={2}
+            value={draft.systemPrompt}
+            placeholder={DEFAULT_SYSTEM_PROMPT}
+            onChange={(event) => updateDraft('systemPrompt', event.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="user-prompt-template">Prompt template</Label>
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_VARIABLES.map(variable => (
+              <Badge
+                key={variable.name}
+                variant="secondary"
+                className="cursor-pointer font-mono text-xs"
+                title={variable.description}
+                onClick={() => insertVariable(variable.name)}
+              >
+                {`{{${variable.name}}}`}
+              </Badge>
+            ))}
+          </div>
+          <Textarea
+            id="user-prompt-template"
+            ref={templateRef}
+            rows={14}
+            className="font-mono text-xs"
+            value={draft.userPromptTemplate}
+            onChange={(event) => updateDraft('userPromptTemplate', event.target.value)}
+          />
+          {unknownVariables.length > 0 && (
+            <p className="text-xs text-destructive">
+              Unknown variables will be sent as written: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            If the template leaves out {'{{response_format}}'}, the required JSON structure is appended automatically.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="additional-instructions">Additional instructions (one per line)</Label>
+          <Textarea
+            id="additional-instructions"
+            rows={3}
+            value={draft.additionalInstructions}
+            placeholder="e.g. Treat conference abstracts as eligible if they report outcome data"
+            onChange={(event) => updateDraft('additionalInstructions', event.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <Label>Preview</Label>
+            <Select value={sample.id} onValueChange={setSampleId}>
+              <SelectTrigger className="w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {samples.map(reference => (
+                  <SelectItem key={reference.id} value={reference.id}>
+                    <span className="truncate block max-w-64">{reference.title}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ScrollArea className="h-72 rounded-md border bg-muted/30">
+            <pre className="p-3 text-xs whitespace-pre-wrap font-mono">
+              <span className="text-muted-foreground">{preview.system}</span>
+              {'\n\n'}
+              {preview.prompt}
+            </pre>
+          </ScrollArea>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-48 space-y-1">
+            <Label htmlFor="prompt-version-notes">Version notes</Label>
+            <Input
+              id="prompt-version-notes"
+              value={notes}
+              placeholder="What changed?"
+              onChange={(event) => setNotes(event.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={() => setDraft(emptyDraft())}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Default
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !isDirty || !draft.userPromptTemplate.trim()}>
+            {isSaving ? 'Saving...' : 'Save as new version'}
+          </Button>
+        </div>
+
+        {versions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-muted-foreground" />
+            <Select value="" onValueChange={handleLoadVersion}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Load a previous version into the editor" />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map(version => (
+                  <SelectItem key={version.id} value={version.id}>
+                    Version {version.version}
+                    {version.createdAt && ` · ${new Date(version.createdAt).toLocaleDateString()}`}
+                    {version.notes && ` · ${version.notes}`}
+                    {version.id === activeVersionId && ' (active)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -5,7 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, ChevronUp, Brain, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { ChevronDown, ChevronUp, Brain, CheckCircle, XCircle, AlertCircle, Quote, ShieldAlert } from 'lucide-react';
+import { QuoteMatch, QuoteVerification, splitHighlights } from '@shared/quotes';
+import { InjectionCheck } from '@shared/injection';
 
 interface Reference {
   id: string;
@@ -20,10 +22,48 @@ interface Reference {
   ai_conflict_flag?: boolean;
 }
 
+// The parts of ai_screening_details.reviewer1 / reviewer2 used for quote verification
+interface ReviewerQuoteDetails {
+  confidence?: number;
+  reported_confidence?: number;
+  quote_verification?: QuoteVerification | null;
+}
+
 interface ReferenceDetailsPanelProps {
   references: Reference[];
 }
 
+// "picott_assessment.study_design" -> "Study design", "criteria_assessment.inclusion_criteria[0]" -> "Inclusion criterion 1"
+const describeQuotePath = (path: string) => {
+  const criterion = path.match(/(inclusion|exclusion)_criteria\[(\d+)\]$/);
+  if (criterion) {
+    return `${criterion[1] === 'inclusion' ? 'Inclusion' : 'Exclusion'} criterion ${Number(criterion[2]) + 1}`;
+  }
+  const element = path.split('.').pop() || path;
+  return element.charAt(0).toUpperCase() + element.slice(1).replace(/_/g, ' ');
+};
+
+// Verified quote positions from both reviewers for one field
+const verifiedMatches = (
+  aiDetails: { reviewer1?: ReviewerQuoteDetails; reviewer2?: ReviewerQuoteDetails } | null | undefined,
+  field: QuoteMatch['field']
+): QuoteMatch[] =>
+  [aiDetails?.reviewer1, aiDetails?.reviewer2].flatMap(reviewer =>
+    (reviewer?.quote_verification?.checks || [])
+      .filter(check => check.verified)
+      .flatMap(check => check.matches.filter(match => match.field === field))
+  );
+
+const HighlightedText = ({ text, matches }: { text: string; matches: QuoteMatch[] }) => (
+  <>
+    {splitHighlights(text, matches).map((run, index) =>
+      run.highlighted
+        ? <mark key={index} className="bg-warning/30 text-foreground rounded-sm px-0.5">{run.text}</mark>
+        : <React.Fragment key={index}>{run.text}</React.Fragment>
+    )}
+  </>
+);
+
 const ReferenceDetailsPanel: React.FC<ReferenceDetailsPanelProps> = ({ references }) => {
   const [selectedReference, setSelectedReference] = useState<Reference | null>(null);
   const [expandedSections, setExpandedSections] = useState<{ [key: string]: boolean }>({});
@@ -67,12 +107,73 @@ const ReferenceDetailsPanel: React.FC<ReferenceDetailsPanelProps> = ({ reference
         return <Badge variant="secondary">Exclude</Badge>;
       case 'maybe':
       case 'uncertain':
-        return <Badge variant="outline" className="border-warning text-warning">Maybe</Badge>;
+        return <Badge variant="outline" className="border-warning text-warning">Uncertain</Badge>;
       default:
         return <Badge variant="outline">Pending</Badge>;
     }
   };
 
+  const renderQuoteChecks = (reviewer: ReviewerQuoteDetails) => {
+    const verification = reviewer.quote_verification;
+    if (!verification || verification.checks.length === 0) return null;
+
+    return (
+      <div className="mt-3 space-y-1">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Quote className="w-3 h-3" />
+          Quotes: {verification.verified} of {verification.checks.length} found in the reference
+          {typeof reviewer.reported_confidence === 'number' && reviewer.reported_confidence !== reviewer.confidence && (
+            <span className="text-xs font-normal text-muted-foreground">
+              (confidence lowered from {Math.round(reviewer.reported_confidence * 100)}%)
+            </span>
+          )}
+        </div>
+        {verification.checks.map(check => (
+          <div key={check.path} className="flex items-start gap-2 text-xs">
+            {check.verified
+              ? <CheckCircle className="w-3 h-3 mt-0.5 shrink-0 text-success" />
+              : <XCircle className="w-3 h-3 mt-0.5 shrink-0 text-destructive" />}
+            <span>
+              <span className="font-medium">{describeQuotePath(check.path)}:</span>{' '}
+              <span className={check.verified ? 'text-muted-foreground' : 'text-destructive line-through'}>"{check.quote}"</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderInjectionCheck = (check: InjectionCheck | null | undefined) => {
+    if (!check?.suspected) return null;
+
+    return (
+      <div className="p-4 bg-destructive/5 border border-destructive/30 rounded-lg">
+        <div className="flex items-center gap-2 mb-2">
+          <ShieldAlert className="w-4 h-4 text-destructive" />
+          <span className="font-medium text-sm text-destructive">Possible prompt injection</span>
+        </div>
+        <p className="text-xs text-muted-foreground mb-2">
+          This reference contains text addressed to the screening models, so the AI decision was held for human review.
+        </p>
+        <div className="space-y-1 text-xs">
+          {check.findings.map((finding, index) => (
+            <div key={index}>
+              <span className="font-medium">{finding.field}</span>
+              <span className="text-muted-foreground"> ({finding.kind.replace('_', ' ')}): </span>
+              <span className="italic">"{finding.excerpt}"</span>
+            </div>
+          ))}
+          {check.canary_leaks.length > 0 && (
+            <div>
+              <span className="font-medium">Leaked prompt canary: </span>
+              {check.canary_leaks.join(', ')}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   const renderAIReasoningDetails = (aiDetails: any) => {
     if (!aiDetails) return null;
 
@@ -80,6 +181,8 @@ const ReferenceDetailsPanel: React.FC<ReferenceDetailsPanelProps> = ({ reference
 
     return (
       <div className="space-y-4">
+        {renderInjectionCheck(aiDetails.injection_check)}
+
         {reviewer1 && (
           <div className="p-4 bg-success/5 border border-success/20 rounded-lg">
             <div className="flex items-center gap-2 mb-3">
@@ -98,6 +201,7 @@ const ReferenceDetailsPanel: React.FC<ReferenceDetailsPanelProps> = ({ reference
               <span className="font-medium">Reasoning:</span>
               <p className="mt-1">{reviewer1.reasoning}</p>
             </div>
+            {renderQuoteChecks(reviewer1)}
           </div>
         )}
 
@@ -119,6 +223,7 @@ const ReferenceDetailsPanel: React.FC<ReferenceDetailsPanelProps> = ({ reference
               <span className="font-medium">Reasoning:</span>
               <p className="mt-1">{reviewer2.reasoning}</p>
             </div>
+            {renderQuoteChecks(reviewer2)}
           </div>
         )}
 
@@ -238,7 +343,12 @@ const ReferenceDetailsPanel: React.FC<ReferenceDetailsPanelProps> = ({ reference
                 <div>
                   <h4 className="text-sm font-medium mb-2">Title</h4>
                   <p className="text-sm text-muted-foreground leading-relaxed">
-                    {selectedReference.title || 'No title provided'}
+                    {selectedReference.title ? (
+                      <HighlightedText
+                        text={selectedReference.title}
+                        matches={verifiedMatches(selectedReference.ai_screening_details, 'title')}
+                      />
+                    ) : 'No title provided'}
                   </p>
                 </div>
 
@@ -275,7 +385,10 @@ const ReferenceDetailsPanel: React.FC<ReferenceDetailsPanelProps> = ({ reference
                     </CollapsibleTrigger>
                     <CollapsibleContent className="mt-2">
                       <p className="text-sm text-muted-foreground leading-relaxed">
-                        {selectedReference.abstract}
+                        <HighlightedText
+                          text={selectedReference.abstract}
+                          matches={verifiedMatches(selectedReference.ai_screening_details, 'abstract')}
+                        />
                       </p>
                     </CollapsibleContent>
                   </Collapsible>
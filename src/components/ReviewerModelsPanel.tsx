@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Cpu } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import {
+  AIScreeningConfigService,
+  DEFAULT_REVIEWER_MODELS,
+  ReviewerModels,
+  ReviewerSettings,
+  validateModelChain,
+} from '@/services/aiScreeningConfigService';
+import { CONFLICT_RESOLUTION_METHODS, ConflictResolutionMethod, DEFAULT_CONFLICT_RESOLUTION_METHOD } from '@shared/arbitration';
+import { DEFAULT_PERSONAS } from '@shared/personas';
+import ReviewerPersonaFields from './ReviewerPersonaFields';
+
+interface ReviewerModelsPanelProps {
+  projectId: string;
+}
+
+const REVIEWERS: { key: keyof ReviewerModels; index: 0 | 1; label: string }[] = [
+  { key: 'primary', index: 0, label: 'Reviewer 1' },
+  { key: 'secondary', index: 1, label: 'Reviewer 2' },
+];
+
+const ReviewerModelsPanel = ({ projectId }: ReviewerModelsPanelProps) => {
+  const [settings, setSettings] = useState<ReviewerSettings>({
+    models: { primary: '', secondary: '', arbiter: '' },
+    personas: DEFAULT_PERSONAS,
+    conflictResolution: DEFAULT_CONFLICT_RESOLUTION_METHOD,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    AIScreeningConfigService.getReviewerSettings(projectId)
+      .then(setSettings)
+      .catch(error => console.error('Error loading reviewer settings:', error));
+  }, [projectId]);
+
+  const { models, personas, conflictResolution } = settings;
+  const errors = {
+    primary: validateModelChain(models.primary),
+    secondary: validateModelChain(models.secondary),
+    arbiter: validateModelChain(models.arbiter),
+  };
+  const method = CONFLICT_RESOLUTION_METHODS.find(candidate => candidate.value === conflictResolution);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await AIScreeningConfigService.saveReviewerSettings(projectId, settings);
+      toast({ title: "Reviewer settings saved", description: "New screening runs will use these models and personas" });
+    } catch (error) {
+      console.error('Error saving reviewer settings:', error);
+      toast({
+        title: "Could not save reviewer settings",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="w-5 h-5" />
+          AI Reviewers
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          List models as provider:model, separated by commas. If a model is unavailable the next one in the list is
+          used. Leave a field empty to use the default chain. Use local:model-name for a self-hosted
+          OpenAI-compatible server (Ollama, vLLM, llama.cpp) so references and criteria never leave your network.
+          Each reviewer screens with its own persona, so give them different perspectives and inclusion biases to make
+          their agreement meaningful.
+        </p>
+        <div className="grid gap-6 md:grid-cols-2">
+          {REVIEWERS.map(({ key, index, label }) => (
+            <div key={key} className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor={`reviewer-models-${key}`}>{label} models</Label>
+                <Input
+                  id={`reviewer-models-${key}`}
+                  value={models[key]}
+                  placeholder={DEFAULT_REVIEWER_MODELS[key]}
+                  onChange={(event) => setSettings(prev => ({ ...prev, models: { ...prev.models, [key]: event.target.value } }))}
+                />
+                {errors[key] && <p className="text-xs text-destructive">{errors[key]}</p>}
+              </div>
+              <Separator />
+              <ReviewerPersonaFields
+                idPrefix={`reviewer-persona-${key}`}
+                persona={personas[index]}
+                onChange={(persona) => setSettings(prev => {
+                  const updated: ReviewerSettings['personas'] = [...prev.personas];
+                  updated[index] = persona;
+                  return { ...prev, personas: updated };
+                })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label>When reviewers disagree</Label>
+            <Select
+              value={conflictResolution}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, conflictResolution: value as ConflictResolutionMethod }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONFLICT_RESOLUTION_METHODS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {method && <p className="text-xs text-muted-foreground">{method.description}</p>}
+          </div>
+          {conflictResolution === 'arbiter_model' && (
+            <div className="space-y-1">
+              <Label htmlFor="reviewer-models-arbiter">Arbiter models</Label>
+              <Input
+                id="reviewer-models-arbiter"
+                value={models.arbiter}
+                placeholder={DEFAULT_REVIEWER_MODELS.arbiter}
+                onChange={(event) => setSettings(prev => ({ ...prev, models: { ...prev.models, arbiter: event.target.value } }))}
+              />
+              {errors.arbiter && <p className="text-xs text-destructive">{errors.arbiter}</p>}
+            </div>
+          )}
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={handleSave}
+          disabled={isSaving || !!errors.primary || !!errors.secondary || !!errors.arbiter}
+        >
+          {isSaving ? 'Saving...' : 'Save reviewer settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReviewerModelsPanel;
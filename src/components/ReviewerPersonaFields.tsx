@@ -0,0 +1,131 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  FewShotExample,
+  INCLUSION_BIAS_LABELS,
+  InclusionBias,
+  MAX_TEMPERATURE,
+  ReviewerPersona,
+} from '@shared/personas';
+
+interface ReviewerPersonaFieldsProps {
+  // Prefix for element ids, unique per reviewer
+  idPrefix: string;
+  persona: ReviewerPersona;
+  onChange: (persona: ReviewerPersona) => void;
+}
+
+const ReviewerPersonaFields = ({ idPrefix, persona, onChange }: ReviewerPersonaFieldsProps) => {
+  const update = (changes: Partial<ReviewerPersona>) => onChange({ ...persona, ...changes });
+
+  const updateExample = (index: number, changes: Partial<FewShotExample>) =>
+    update({
+      fewShotExamples: persona.fewShotExamples.map((example, i) => (i === index ? { ...example, ...changes } : example)),
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-name`}>Persona name</Label>
+          <Input id={`${idPrefix}-name`} value={persona.name} onChange={(event) => update({ name: event.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Inclusion bias</Label>
+          <Select value={persona.inclusionBias} onValueChange={(value) => update({ inclusionBias: value as InclusionBias })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(INCLUSION_BIAS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Temperature: {persona.temperature.toFixed(2)}</Label>
+        <Slider
+          min={0}
+          max={MAX_TEMPERATURE}
+          step={0.05}
+          value={[persona.temperature]}
+          onValueChange={([value]) => update({ temperature: value })}
+        />
+        <p className="text-xs text-muted-foreground">Ignored by reasoning models such as o3, which use a fixed temperature.</p>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`${idPrefix}-instructions`}>Instructions</Label>
+        <Textarea
+          id={`${idPrefix}-instructions`}
+          rows={3}
+          value={persona.instructions}
+          onChange={(event) => update({ instructions: event.target.value })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Few-shot examples</Label>
+        {persona.fewShotExamples.map((example, index) => (
+          <div key={index} className="space-y-2 p-3 border rounded-md">
+            <div className="flex items-center gap-2">
+              <Input
+                value={example.title}
+                placeholder="Title"
+                onChange={(event) => updateExample(index, { title: event.target.value })}
+              />
+              <Select value={example.decision} onValueChange={(value) => updateExample(index, { decision: value as FewShotExample['decision'] })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="include">Include</SelectItem>
+                  <SelectItem value="exclude">Exclude</SelectItem>
+                  <SelectItem value="uncertain">Uncertain</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => update({ fewShotExamples: persona.fewShotExamples.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <Textarea
+              rows={2}
+              value={example.abstract}
+              placeholder="Abstract (optional)"
+              onChange={(event) => updateExample(index, { abstract: event.target.value })}
+            />
+            <Input
+              value={example.rationale}
+              placeholder="Why this decision?"
+              onChange={(event) => updateExample(index, { rationale: event.target.value })}
+            />
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update({
+            fewShotExamples: [...persona.fewShotExamples, { title: '', abstract: '', decision: 'include', rationale: '' }],
+          })}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add example
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewerPersonaFields;
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
+import CalibrationPanel from '@/components/CalibrationPanel';
 
 interface AnalyticsData {
   totalScreened: number;
@@ -15,6 +16,7 @@ interface AnalyticsData {
     include: number;
     exclude: number;
     uncertain: number;
+    conflict: number;
   };
   conflictAnalysis: {
     total: number;
@@ -37,6 +39,22 @@ interface AnalyticsData {
   };
 }
 
+// Logged decisions are stored as included/excluded (final) or include/exclude (per reviewer)
+const normalizeDecision = (decision: string | null) => {
+  switch (decision) {
+    case 'include':
+    case 'included':
+      return 'include';
+    case 'exclude':
+    case 'excluded':
+      return 'exclude';
+    case 'conflict':
+      return 'conflict';
+    default:
+      return 'uncertain';
+  }
+};
+
 interface ScreeningAnalyticsProps {
   projectId: string;
 }
@@ -115,31 +133,34 @@ const ScreeningAnalytics = ({ projectId }: ScreeningAnalyticsProps) => {
 
     // Decision distribution
     const decisionDistribution = {
-      include: logs.filter(log => log.final_decision === 'include').length,
-      exclude: logs.filter(log => log.final_decision === 'exclude').length,
-      uncertain: logs.filter(log => log.final_decision === 'uncertain').length,
+      include: logs.filter(log => normalizeDecision(log.final_decision) === 'include').length,
+      exclude: logs.filter(log => normalizeDecision(log.final_decision) === 'exclude').length,
+      uncertain: logs.filter(log => normalizeDecision(log.final_decision) === 'uncertain').length,
+      conflict: logs.filter(log => normalizeDecision(log.final_decision) === 'conflict').length,
     };
 
     // Conflict analysis
     const conflicts = logs.filter(log => 
       log.primary_model_decision !== log.secondary_model_decision
     );
+    // Thresholds apply to calibrated confidences where the model has been calibrated
     const lowConfidenceConflicts = conflicts.filter(log => 
-      (log.primary_model_confidence < 0.7) || (log.secondary_model_confidence < 0.7)
+      ((log.primary_model_calibrated_confidence ?? log.primary_model_confidence) < 0.7) ||
+      ((log.secondary_model_calibrated_confidence ?? log.secondary_model_confidence) < 0.7)
     ).length;
     const highConfidenceConflicts = conflicts.length - lowConfidenceConflicts;
 
     // Model performance
     const openaiDecisions = {
-      include: logs.filter(log => log.primary_model_decision === 'include').length,
-      exclude: logs.filter(log => log.primary_model_decision === 'exclude').length,
-      uncertain: logs.filter(log => log.primary_model_decision === 'uncertain').length,
+      include: logs.filter(log => normalizeDecision(log.primary_model_decision) === 'include').length,
+      exclude: logs.filter(log => normalizeDecision(log.primary_model_decision) === 'exclude').length,
+      uncertain: logs.filter(log => normalizeDecision(log.primary_model_decision) === 'uncertain').length,
     };
 
     const geminiDecisions = {
-      include: logs.filter(log => log.secondary_model_decision === 'include').length,
-      exclude: logs.filter(log => log.secondary_model_decision === 'exclude').length,
-      uncertain: logs.filter(log => log.secondary_model_decision === 'uncertain').length,
+      include: logs.filter(log => normalizeDecision(log.secondary_model_decision) === 'include').length,
+      exclude: logs.filter(log => normalizeDecision(log.secondary_model_decision) === 'exclude').length,
+      uncertain: logs.filter(log => normalizeDecision(log.secondary_model_decision) === 'uncertain').length,
     };
 
     return {
@@ -286,6 +307,16 @@ const ScreeningAnalytics = ({ projectId }: ScreeningAnalyticsProps) => {
                     className="h-2"
                   />
                 </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Uncertain decisions</span>
+                    <span>{analytics.modelPerformance.openai.uncertain}</span>
+                  </div>
+                  <Progress 
+                    value={(analytics.modelPerformance.openai.uncertain / analytics.totalScreened) * 100} 
+                    className="h-2"
+                  />
+                </div>
               </div>
             </div>
 
@@ -316,6 +347,16 @@ const ScreeningAnalytics = ({ projectId }: ScreeningAnalyticsProps) => {
                     className="h-2"
                   />
                 </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span>Uncertain decisions</span>
+                    <span>{analytics.modelPerformance.gemini.uncertain}</span>
+                  </div>
+                  <Progress 
+                    value={(analytics.modelPerformance.gemini.uncertain / analytics.totalScreened) * 100} 
+                    className="h-2"
+                  />
+                </div>
               </div>
             </div>
           </div>
@@ -382,6 +423,27 @@ const ScreeningAnalytics = ({ projectId }: ScreeningAnalyticsProps) => {
               value={(analytics.decisionDistribution.uncertain / analytics.totalScreened) * 100}
               className="h-2"
             />
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
+                <span className="text-sm">Unresolved conflict</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm">{analytics.decisionDistribution.conflict}</span>
+                <Badge variant="outline">
+                  {((analytics.decisionDistribution.conflict / analytics.totalScreened) * 100).toFixed(1)}%
+                </Badge>
+              </div>
+            </div>
+            <Progress 
+              value={(analytics.decisionDistribution.conflict / analytics.totalScreened) * 100}
+              className="h-2"
+            />
+
+            <p className="text-xs text-muted-foreground">
+              Uncertain and unresolved references ({analytics.decisionDistribution.uncertain + analytics.decisionDistribution.conflict}) are in the human review queue.
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -418,6 +480,8 @@ const ScreeningAnalytics = ({ projectId }: ScreeningAnalyticsProps) => {
           )}
         </CardContent>
       </Card>
+
+      <CalibrationPanel projectId={projectId} />
     </div>
   );
 };
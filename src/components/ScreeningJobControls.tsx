@@ -0,0 +1,82 @@
+import { Pause, Play, Server, Square } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScreeningJob } from '@/services/screeningJobService';
+
+interface ScreeningJobControlsProps {
+  job: ScreeningJob;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+const ScreeningJobControls = ({ job, onPause, onResume, onCancel }: ScreeningJobControlsProps) => {
+  const done = job.completed_count + job.failed_count;
+  // Uncertain and conflict decisions both go to the human review queue
+  const reviewCount = job.uncertain_count + job.conflict_count;
+  const percentage = job.total_references > 0 ? (done / job.total_references) * 100 : 0;
+  const active = job.status === 'queued' || job.status === 'running' || job.status === 'paused';
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Server className="w-5 h-5" />
+            Screening Job
+            <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'running' ? 'default' : 'secondary'}>
+              {STATUS_LABELS[job.status] || job.status}
+            </Badge>
+          </CardTitle>
+          {active && (
+            <div className="flex gap-2">
+              {job.status === 'paused' ? (
+                <Button variant="outline" size="sm" onClick={onResume}>
+                  <Play className="w-4 h-4 mr-2" />
+                  Resume
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" onClick={onPause}>
+                  <Pause className="w-4 h-4 mr-2" />
+                  Pause
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={onCancel}>
+                <Square className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Screening runs on the server and continues if you close this page. Pausing lets the references being
+          screened finish; resuming carries on from the last completed reference.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Progress value={percentage} />
+        <div className="text-sm text-muted-foreground">
+          {done} of {job.total_references} references screened
+          {reviewCount > 0 && ` · ${reviewCount} for human review`}
+          {job.failed_count > 0 && ` · ${job.failed_count} failed after retries`}
+        </div>
+        {job.last_error && job.status !== 'completed' && (
+          <div className="text-xs text-destructive">Last error: {job.last_error}</div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScreeningJobControls;
@@ -9,6 +9,8 @@ interface ReadinessCheckProps {
   projectId?: string;
   criteriaData?: any;
   references: any[];
+  // How many of the references the selected run mode would screen; all of them when not given
+  referencesToScreen?: number;
   isScreening: boolean;
   onStartScreening: () => void;
   estimatedCost?: number;
@@ -27,6 +29,7 @@ export const ScreeningReadinessCheck = ({
   projectId,
   criteriaData,
   references,
+  referencesToScreen,
   isScreening,
   onStartScreening,
   estimatedCost,
@@ -184,7 +187,7 @@ export const ScreeningReadinessCheck = ({
                     <div className="text-xs text-muted-foreground">{estimatedTime}</div>
                   </div>
                 )}
-                {estimatedCost && (
+                {estimatedCost !== undefined && (
                   <div>
                     <DollarSign className="w-4 h-4 mx-auto mb-1 text-muted-foreground" />
                     <div className="text-sm font-medium">Est. Cost</div>
@@ -199,7 +202,7 @@ export const ScreeningReadinessCheck = ({
           <div className="pt-2">
             <Button 
               onClick={onStartScreening}
-              disabled={!canStartScreening || isScreening}
+              disabled={!canStartScreening || isScreening || referencesToScreen === 0}
               className="w-full"
               size="lg"
             >
@@ -211,7 +214,7 @@ export const ScreeningReadinessCheck = ({
               ) : canStartScreening ? (
                 <>
                   <Zap className="w-4 h-4 mr-2" />
-                  Start AI Screening ({references.length} references)
+                  Start AI Screening ({referencesToScreen ?? references.length} references)
                 </>
               ) : (
                 <>
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { ArrowRight, History } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { RunComparison, ScreeningRun, ScreeningRunService } from '@/services/screeningRunService';
+import type { ScreeningDecision } from '@shared/contract';
+
+interface ScreeningRunHistoryProps {
+  projectId: string;
+}
+
+// Rows rendered in the comparison table
+const ROW_LIMIT = 500;
+
+const DECISION_VARIANTS: Record<ScreeningDecision, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  included: 'default',
+  excluded: 'destructive',
+  uncertain: 'secondary',
+  conflict: 'outline',
+};
+
+const DecisionBadge = ({ decision }: { decision: ScreeningDecision | null }) =>
+  decision
+    ? <Badge variant={DECISION_VARIANTS[decision]}>{decision}</Badge>
+    : <span className="text-xs text-muted-foreground">not screened</span>;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const ScreeningRunHistory = ({ projectId }: ScreeningRunHistoryProps) => {
+  const [runs, setRuns] = useState<ScreeningRun[]>([]);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    ScreeningRunService.listRuns(projectId)
+      .then(loaded => {
+        setRuns(loaded);
+        // Runs are newest first; by default the latest is compared against the one before it
+        setCompareId(loaded[0]?.id ?? null);
+        setBaseId(loaded[1]?.id ?? null);
+      })
+      .catch(error => console.error('Error loading screening runs:', error));
+  }, [projectId]);
+
+  useEffect(() => {
+    const base = runs.find(run => run.id === baseId);
+    const compare = runs.find(run => run.id === compareId);
+    if (!base || !compare || base.id === compare.id) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    setComparing(true);
+    ScreeningRunService.compareRuns(base, compare)
+      .then(result => { if (!cancelled) setComparison(result); })
+      .catch(error => {
+        console.error('Error comparing screening runs:', error);
+        toast({
+          title: "Error comparing runs",
+          description: error.message,
+          variant: "destructive",
+        });
+      })
+      .finally(() => { if (!cancelled) setComparing(false); });
+
+    return () => { cancelled = true; };
+  }, [runs, baseId, compareId, toast]);
+
+  const rows = comparison
+    ? comparison.rows.filter(row => showUnchanged || row.base !== row.compare)
+    : [];
+  const changedCount = comparison ? comparison.rows.filter(row => row.base !== row.compare).length : 0;
+
+  const runSelect = (value: string | null, onChange: (id: string) => void) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger className="w-72">
+        <SelectValue placeholder="Select a run" />
+      </SelectTrigger>
+      <SelectContent>
+        {runs.map(run => (
+          <SelectItem key={run.id} value={run.id}>{run.run_name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Screening Runs
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Each run keeps the criteria, prompts, models and thresholds it started with. Compare two runs to see how
+          a change shifted the AI decisions.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {runs.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">No screening runs yet.</div>
+        ) : (
+          <div className="max-h-64 overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Screened</TableHead>
+                  <TableHead>Agreement</TableHead>
+                  <TableHead>Finished</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">{run.run_name}</TableCell>
+                    <TableCell><Badge variant="secondary">{run.status ?? 'unknown'}</Badge></TableCell>
+                    <TableCell>{run.completed_references ?? 0} of {run.total_references ?? 0}</TableCell>
+                    <TableCell>{run.agreement_rate !== null ? `${Math.round(run.agreement_rate * 100)}%` : '—'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{formatDate(run.end_time)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {runs.length > 1 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+              {runSelect(baseId, setBaseId)}
+              <ArrowRight className="w-4 h-4 text-muted-foreground" />
+              {runSelect(compareId, setCompareId)}
+            </div>
+
+            {baseId === compareId && (
+              <div className="text-sm text-muted-foreground">Select two different runs to compare.</div>
+            )}
+            {comparing && <div className="text-sm text-muted-foreground">Comparing runs...</div>}
+
+            {comparison && !comparing && (
+              <>
+                <div className="flex flex-wrap gap-2">
+                  {comparison.transitions.map(transition => (
+                    <Badge key={`${transition.from}>${transition.to}`} variant={transition.from === transition.to ? 'outline' : 'secondary'}>
+                      {transition.from ?? 'not screened'} → {transition.to ?? 'not screened'}: {transition.count}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">What changed between the runs</div>
+                  {comparison.settingChanges.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">Both runs used the same criteria and settings.</div>
+                  ) : (
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Setting</TableHead>
+                            <TableHead>Before</TableHead>
+                            <TableHead>After</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {comparison.settingChanges.map(change => (
+                            <TableRow key={change.setting}>
+                              <TableCell className="font-mono text-xs">{change.setting}</TableCell>
+                              <TableCell className="text-xs break-all">{change.base || '—'}</TableCell>
+                              <TableCell className="text-xs break-all">{change.compare || '—'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-sm font-medium">
+                      {changedCount} of {comparison.rows.length} references changed decision
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Switch checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                      Show unchanged
+                    </label>
+                  </div>
+                  {rows.length === 0 ? (
+                    <div className="text-center py-6 text-muted-foreground">No references changed decision.</div>
+                  ) : (
+                    <ScrollArea className="h-96 rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Reference</TableHead>
+                            <TableHead className="w-32">Before</TableHead>
+                            <TableHead className="w-32">After</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {rows.slice(0, ROW_LIMIT).map(row => (
+                            <TableRow key={row.referenceId}>
+                              <TableCell className="text-sm">{row.title}</TableCell>
+                              <TableCell><DecisionBadge decision={row.base} /></TableCell>
+                              <TableCell><DecisionBadge decision={row.compare} /></TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </ScrollArea>
+                  )}
+                  {rows.length > ROW_LIMIT && (
+                    <p className="text-xs text-muted-foreground">Showing the first {ROW_LIMIT} of {rows.length} references.</p>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScreeningRunHistory;
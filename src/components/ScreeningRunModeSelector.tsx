@@ -0,0 +1,64 @@
+import { ListFilter } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { RunPlan, SCREENING_RUN_MODES, ScreeningRunMode } from '@/services/screeningRunService';
+
+interface ScreeningRunModeSelectorProps {
+  value: ScreeningRunMode;
+  onChange: (mode: ScreeningRunMode) => void;
+  // null while the counts are being worked out
+  plans: Record<ScreeningRunMode, RunPlan> | null;
+  disabled?: boolean;
+}
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : `${tokens}`;
+
+const ScreeningRunModeSelector = ({ value, onChange, plans, disabled }: ScreeningRunModeSelectorProps) => {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListFilter className="w-5 h-5" />
+          What to Screen
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Token use and cost are estimates at list prices for the first model of each reviewer chain.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <RadioGroup
+          value={value}
+          onValueChange={mode => onChange(mode as ScreeningRunMode)}
+          disabled={disabled}
+          className="grid grid-cols-1 md:grid-cols-2 gap-3"
+        >
+          {SCREENING_RUN_MODES.map(mode => {
+            const plan = plans?.[mode.value];
+            return (
+              <div key={mode.value} className="flex items-start gap-3 p-3 rounded-md border bg-card/50">
+                <RadioGroupItem value={mode.value} id={`run-mode-${mode.value}`} className="mt-1" />
+                <label htmlFor={`run-mode-${mode.value}`} className="flex-1 text-sm space-y-1 cursor-pointer">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">{mode.label}</span>
+                    <span className="text-muted-foreground">
+                      {plan ? `${plan.references.length} references` : 'Counting...'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{mode.description}</div>
+                  {plan && plan.references.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      ~{formatTokens(plan.estimate.inputTokens + plan.estimate.outputTokens)} tokens · ~${plan.estimate.costUsd.toFixed(2)}
+                    </div>
+                  )}
+                </label>
+              </div>
+            );
+          })}
+        </RadioGroup>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScreeningRunModeSelector;
@@ -1,5 +1,6 @@
-import { useState, useCallback, useRef } from 'react';
-import { DualLLMScreener, ScreeningReference, ScreeningCriteria, DualScreeningResult } from '@/services/aiScreeningService';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ScreeningReference, ScreeningCriteria, DualScreeningResult } from '@/services/aiScreeningService';
+import { ACTIVE_JOB_STATUSES, ScreeningJob, ScreeningJobService, ScreeningJobStatus } from '@/services/screeningJobService';
 import { supabase } from '@/integrations/supabase/client';
 
 export interface ProgressStats {
@@ -8,6 +9,8 @@ export interface ProgressStats {
   percentage: number;
   included: number;
   excluded: number;
+  // Uncertain and conflict decisions both go to human review
+  uncertain: number;
   conflicts: number;
   estimatedTimeRemaining?: string;
 }
@@ -35,133 +38,134 @@ export interface ScreeningProgress {
   isComplete: boolean;
 }
 
+// A job writes three steps per reference; only the latest are shown
+const MAX_REASONING_STEPS = 300;
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+function toProgressStats(job: ScreeningJob): ProgressStats {
+  const done = job.completed_count + job.failed_count;
+  const elapsedSeconds = job.started_at ? (Date.now() - new Date(job.started_at).getTime()) / 1000 : 0;
+  const remainingSeconds = done > 0 && job.status === 'running'
+    ? Math.round(elapsedSeconds / done * (job.total_references - done))
+    : null;
+
+  return {
+    current: done,
+    total: job.total_references,
+    percentage: job.total_references > 0 ? (done / job.total_references) * 100 : 0,
+    included: job.included_count,
+    excluded: job.excluded_count,
+    uncertain: job.uncertain_count,
+    conflicts: job.conflict_count,
+    estimatedTimeRemaining: remainingSeconds !== null ? formatDuration(remainingSeconds) : undefined
+  };
+}
+
 export const useEnhancedScreening = () => {
   const [isScreening, setIsScreening] = useState(false);
   const [progress, setProgress] = useState<ScreeningProgress>({
     sessionId: '',
-    stats: { current: 0, total: 0, percentage: 0, included: 0, excluded: 0, conflicts: 0 },
+    stats: { current: 0, total: 0, percentage: 0, included: 0, excluded: 0, uncertain: 0, conflicts: 0 },
     reasoningSteps: [],
     isComplete: false
   });
   const [results, setResults] = useState<DualScreeningResult[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [job, setJob] = useState<ScreeningJob | null>(null);
   
   const progressPollingRef = useRef<NodeJS.Timeout>();
   const reasoningPollingRef = useRef<NodeJS.Timeout>();
+  // Completion time of the last result loaded, so each poll only fetches newer ones
+  const lastCompletedAtRef = useRef<string>();
+  const lastKickRef = useRef(0);
 
-  const startScreening = useCallback(async (
-    references: ScreeningReference[],
-    criteria: ScreeningCriteria,
-    projectId: string
-  ) => {
-    setIsScreening(true);
-    setError(null);
-    setResults([]);
-    
-    const sessionId = crypto.randomUUID();
-    setProgress(prev => ({ ...prev, sessionId }));
+  const stopPolling = useCallback(() => {
+    if (progressPollingRef.current) {
+      clearInterval(progressPollingRef.current);
+    }
+    if (reasoningPollingRef.current) {
+      clearInterval(reasoningPollingRef.current);
+    }
+  }, []);
 
-    try {
-      // Start polling for progress updates
-      startProgressPolling(sessionId);
-      startReasoningPolling(sessionId);
-
-      const screeningResults = await DualLLMScreener.bulkScreenReferences(
-        references,
-        criteria,
-        projectId,
-        (completed, total) => {
-          // This callback is less important now since we poll for updates
-          console.log(`Progress: ${completed}/${total}`);
-        },
-        (currentRef) => {
-          setProgress(prev => ({
-            ...prev,
-            currentReference: {
-              id: currentRef.id,
-              title: currentRef.title,
-              authors: currentRef.authors
-            }
-          }));
-        },
-        (step) => {
-          setProgress(prev => ({
-            ...prev,
-            reasoningSteps: [...prev.reasoningSteps, step]
-          }));
-        }
-      );
+  // The job carries on server-side; only the polling stops with the page
+  useEffect(() => stopPolling, [stopPolling]);
 
-      setResults(screeningResults);
-      setProgress(prev => ({ ...prev, isComplete: true }));
-      
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(errorMessage);
-    } finally {
-      setIsScreening(false);
-      stopPolling();
+  const applyJob = useCallback((current: ScreeningJob) => {
+    setJob(current);
+    setIsScreening(ACTIVE_JOB_STATUSES.includes(current.status as ScreeningJobStatus));
+    setProgress(prev => ({
+      ...prev,
+      sessionId: current.id,
+      stats: toProgressStats(current),
+      isComplete: current.status === 'completed'
+    }));
+    if (current.status === 'failed') {
+      setError(current.last_error || 'Screening job failed');
     }
   }, []);
 
-  const startProgressPolling = useCallback((sessionId: string) => {
+  const startProgressPolling = useCallback((jobId: string) => {
     const pollProgress = async () => {
       try {
-        const { data } = await supabase
-          .from('screening_progress')
-          .select('*')
-          .eq('session_id', sessionId)
-          .single();
+        const current = await ScreeningJobService.getJob(jobId);
+        const [{ results: newResults, lastCompletedAt }, currentReference] = await Promise.all([
+          ScreeningJobService.getCompletedResults(jobId, lastCompletedAtRef.current),
+          ScreeningJobService.getCurrentReference(jobId)
+        ]);
 
-        if (data) {
-          const stats: ProgressStats = {
-            current: data.completed_count,
-            total: data.total_references,
-            percentage: data.total_references > 0 ? (data.completed_count / data.total_references) * 100 : 0,
-            included: data.included_count,
-            excluded: data.excluded_count,
-            conflicts: data.conflict_count,
-            estimatedTimeRemaining: data.estimated_time_remaining ? `${Math.floor(data.estimated_time_remaining / 60)}m ${data.estimated_time_remaining % 60}s` : undefined
-          };
-
-          const currentReference = data.current_reference_id ? {
-            id: data.current_reference_id,
-            title: data.current_reference_title || 'Unknown Title',
-            authors: data.current_reference_authors || 'Unknown Authors'
-          } : undefined;
+        lastCompletedAtRef.current = lastCompletedAt;
+        // Results completed in the same instant as the last poll's final one come back again
+        if (newResults.length > 0) {
+          setResults(prev => {
+            const seen = new Set(prev.map(result => result.id));
+            const fresh = newResults.filter(result => !seen.has(result.id));
+            return fresh.length > 0 ? [...prev, ...fresh] : prev;
+          });
+        }
+        applyJob(current);
+        setProgress(prev => ({
+          ...prev,
+          currentReference: currentReference ? {
+            id: currentReference.id,
+            title: currentReference.title || 'Unknown Title',
+            authors: currentReference.authors || 'Unknown Authors'
+          } : undefined
+        }));
 
-          setProgress(prev => ({
-            ...prev,
-            stats,
-            currentReference,
-            isComplete: data.status === 'completed'
-          }));
+        // The worker chain broke, e.g. a failed self-invocation; starting a new worker carries on from the last completed reference
+        if (ScreeningJobService.isStale(current) && Date.now() - lastKickRef.current > 60_000) {
+          lastKickRef.current = Date.now();
+          console.warn(`Screening job ${jobId} has stalled, restarting its worker`);
+          ScreeningJobService.kickWorker(jobId);
+        }
 
-          if (data.status === 'completed') {
-            stopPolling();
-          }
+        if (!ACTIVE_JOB_STATUSES.includes(current.status as ScreeningJobStatus)) {
+          stopPolling();
         }
       } catch (error) {
         console.error('Error polling progress:', error);
       }
     };
 
-    // Poll every 500ms for real-time feel
-    progressPollingRef.current = setInterval(pollProgress, 500);
+    // The worker reports once per batch, so there is no point polling faster
+    progressPollingRef.current = setInterval(pollProgress, 2000);
     pollProgress(); // Initial poll
-  }, []);
+  }, [applyJob, stopPolling]);
 
-  const startReasoningPolling = useCallback((sessionId: string) => {
+  const startReasoningPolling = useCallback((jobId: string) => {
     const pollReasoning = async () => {
       try {
         const { data } = await supabase
           .from('screening_reasoning_steps')
           .select('*')
-          .eq('session_id', sessionId)
-          .order('created_at', { ascending: true });
+          .eq('job_id', jobId)
+          .order('created_at', { ascending: false })
+          .limit(MAX_REASONING_STEPS);
 
         if (data) {
-          const steps: ReasoningStep[] = data.map(step => ({
+          const steps: ReasoningStep[] = data.reverse().map(step => ({
             id: step.id,
             reviewer: step.reviewer,
             step: step.step_description,
@@ -185,25 +189,85 @@ export const useEnhancedScreening = () => {
     pollReasoning(); // Initial poll
   }, []);
 
-  const stopPolling = useCallback(() => {
-    if (progressPollingRef.current) {
-      clearInterval(progressPollingRef.current);
+  const followJob = useCallback((current: ScreeningJob) => {
+    stopPolling();
+    lastCompletedAtRef.current = undefined;
+    setResults([]);
+    setError(null);
+    applyJob(current);
+    startProgressPolling(current.id);
+    startReasoningPolling(current.id);
+  }, [applyJob, stopPolling, startProgressPolling, startReasoningPolling]);
+
+  /**
+   * Queues the references as a screening job. The screening-worker function
+   * screens them server-side, so the run carries on if this page is closed;
+   * the hook only follows the job's progress.
+   */
+  const startScreening = useCallback(async (
+    references: ScreeningReference[],
+    criteria: ScreeningCriteria,
+    projectId: string,
+    runId?: string
+  ) => {
+    setError(null);
+    try {
+      const created = await ScreeningJobService.createJob(projectId, references.map(reference => reference.id), criteria, runId);
+      followJob(created);
+      return created;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      setIsScreening(false);
+      return null;
     }
-    if (reasoningPollingRef.current) {
-      clearInterval(reasoningPollingRef.current);
+  }, [followJob]);
+
+  // Picks up the project's unfinished job, e.g. after the page was reloaded, and restarts its worker if it stalled
+  const resumeActiveJob = useCallback(async (projectId: string) => {
+    try {
+      const active = await ScreeningJobService.getActiveJob(projectId);
+      if (!active) return null;
+
+      followJob(active);
+      if (ScreeningJobService.isStale(active)) {
+        lastKickRef.current = Date.now();
+        await ScreeningJobService.kickWorker(active.id);
+      }
+      return active;
+    } catch (err) {
+      console.error('Error loading active screening job:', err);
+      return null;
     }
-  }, []);
+  }, [followJob]);
+
+  const runJobAction = useCallback(async (action: (jobId: string) => Promise<ScreeningJob>) => {
+    if (!job) return;
+    try {
+      applyJob(await action(job.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error occurred');
+    }
+  }, [job, applyJob]);
+
+  const pauseScreening = useCallback(() => runJobAction(jobId => ScreeningJobService.pauseJob(jobId)), [runJobAction]);
+
+  // Paused jobs are still polled, so following the resumed job needs nothing more
+  const resumeScreening = useCallback(() => runJobAction(jobId => ScreeningJobService.resumeJob(jobId)), [runJobAction]);
+
+  const cancelScreening = useCallback(() => runJobAction(jobId => ScreeningJobService.cancelJob(jobId)), [runJobAction]);
 
   const resetScreening = useCallback(() => {
     setIsScreening(false);
     setProgress({
       sessionId: '',
-      stats: { current: 0, total: 0, percentage: 0, included: 0, excluded: 0, conflicts: 0 },
+      stats: { current: 0, total: 0, percentage: 0, included: 0, excluded: 0, uncertain: 0, conflicts: 0 },
       reasoningSteps: [], // Keep reasoning steps for review even after completion
       isComplete: false
     });
     setResults([]);
     setError(null);
+    setJob(null);
     stopPolling();
   }, [stopPolling]);
 
@@ -219,7 +283,12 @@ export const useEnhancedScreening = () => {
     progress,
     results,
     error,
+    job,
     startScreening,
+    resumeActiveJob,
+    pauseScreening,
+    resumeScreening,
+    cancelScreening,
     resetScreening,
     clearReasoningHistory
   };
@@ -59,10 +59,55 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_prompt_versions: {
+        Row: {
+          additional_instructions: Json | null
+          created_at: string | null
+          id: string
+          notes: string | null
+          project_id: string
+          system_prompt: string | null
+          user_id: string | null
+          user_prompt_template: string
+          version: number
+        }
+        Insert: {
+          additional_instructions?: Json | null
+          created_at?: string | null
+          id?: string
+          notes?: string | null
+          project_id: string
+          system_prompt?: string | null
+          user_id?: string | null
+          user_prompt_template: string
+          version: number
+        }
+        Update: {
+          additional_instructions?: Json | null
+          created_at?: string | null
+          id?: string
+          notes?: string | null
+          project_id?: string
+          system_prompt?: string | null
+          user_id?: string | null
+          user_prompt_template?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_prompt_versions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "review_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ai_screening_config: {
         Row: {
           additional_instructions: Json | null
           agreement_threshold: number | null
+          arbiter_model_name: string | null
           confidence_threshold: number | null
           conflict_resolution_method: string | null
           created_at: string | null
@@ -70,6 +115,8 @@ export type Database = {
           model_type: Database["public"]["Enums"]["ai_model_type"]
           primary_model_name: string | null
           project_id: string | null
+          prompt_version_id: string | null
+          reviewer_personas: Json | null
           screening_stage: Database["public"]["Enums"]["screening_stage"]
           secondary_model_name: string | null
           system_prompt: string | null
@@ -79,6 +126,7 @@ export type Database = {
         Insert: {
           additional_instructions?: Json | null
           agreement_threshold?: number | null
+          arbiter_model_name?: string | null
           confidence_threshold?: number | null
           conflict_resolution_method?: string | null
           created_at?: string | null
@@ -86,6 +134,8 @@ export type Database = {
           model_type: Database["public"]["Enums"]["ai_model_type"]
           primary_model_name?: string | null
           project_id?: string | null
+          prompt_version_id?: string | null
+          reviewer_personas?: Json | null
           screening_stage: Database["public"]["Enums"]["screening_stage"]
           secondary_model_name?: string | null
           system_prompt?: string | null
@@ -95,6 +145,7 @@ export type Database = {
         Update: {
           additional_instructions?: Json | null
           agreement_threshold?: number | null
+          arbiter_model_name?: string | null
           confidence_threshold?: number | null
           conflict_resolution_method?: string | null
           created_at?: string | null
@@ -102,6 +153,8 @@ export type Database = {
           model_type?: Database["public"]["Enums"]["ai_model_type"]
           primary_model_name?: string | null
           project_id?: string | null
+          prompt_version_id?: string | null
+          reviewer_personas?: Json | null
           screening_stage?: Database["public"]["Enums"]["screening_stage"]
           secondary_model_name?: string | null
           system_prompt?: string | null
@@ -116,6 +169,13 @@ export type Database = {
             referencedRelation: "review_projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ai_screening_config_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ai_screening_log: {
@@ -124,15 +184,21 @@ export type Database = {
           decision_reason: Json | null
           final_decision: string | null
           id: string
+          injection_check: Json | null
+          injection_suspected: boolean
           model_agreement_score: number | null
+          primary_model_calibrated_confidence: number | null
           primary_model_confidence: number | null
           primary_model_decision: string | null
           processing_duration_ms: number | null
           project_id: string | null
+          prompt_version_id: string | null
           reference_id: string | null
+          run_id: string | null
           screening_end_time: string | null
           screening_stage: Database["public"]["Enums"]["screening_stage"]
           screening_start_time: string | null
+          secondary_model_calibrated_confidence: number | null
           secondary_model_confidence: number | null
           secondary_model_decision: string | null
           updated_at: string | null
@@ -142,15 +208,21 @@ export type Database = {
           decision_reason?: Json | null
           final_decision?: string | null
           id?: string
+          injection_check?: Json | null
+          injection_suspected?: boolean
           model_agreement_score?: number | null
+          primary_model_calibrated_confidence?: number | null
           primary_model_confidence?: number | null
           primary_model_decision?: string | null
           processing_duration_ms?: number | null
           project_id?: string | null
+          prompt_version_id?: string | null
           reference_id?: string | null
+          run_id?: string | null
           screening_end_time?: string | null
           screening_stage: Database["public"]["Enums"]["screening_stage"]
           screening_start_time?: string | null
+          secondary_model_calibrated_confidence?: number | null
           secondary_model_confidence?: number | null
           secondary_model_decision?: string | null
           updated_at?: string | null
@@ -160,15 +232,21 @@ export type Database = {
           decision_reason?: Json | null
           final_decision?: string | null
           id?: string
+          injection_check?: Json | null
+          injection_suspected?: boolean
           model_agreement_score?: number | null
+          primary_model_calibrated_confidence?: number | null
           primary_model_confidence?: number | null
           primary_model_decision?: string | null
           processing_duration_ms?: number | null
           project_id?: string | null
+          prompt_version_id?: string | null
           reference_id?: string | null
+          run_id?: string | null
           screening_end_time?: string | null
           screening_stage?: Database["public"]["Enums"]["screening_stage"]
           screening_start_time?: string | null
+          secondary_model_calibrated_confidence?: number | null
           secondary_model_confidence?: number | null
           secondary_model_decision?: string | null
           updated_at?: string | null
@@ -181,6 +259,13 @@ export type Database = {
             referencedRelation: "review_projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ai_screening_log_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ai_screening_log_reference_id_fkey"
             columns: ["reference_id"]
@@ -188,6 +273,13 @@ export type Database = {
             referencedRelation: "references"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ai_screening_log_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "screening_runs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       audit_log: {
@@ -220,6 +312,199 @@ export type Database = {
         }
         Relationships: []
       }
+      confidence_calibrations: {
+        Row: {
+          brier_calibrated: number | null
+          brier_raw: number | null
+          created_at: string | null
+          fitted_at: string
+          id: string
+          method: string
+          model: string
+          parameters: Json
+          project_id: string
+          sample_size: number
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          brier_calibrated?: number | null
+          brier_raw?: number | null
+          created_at?: string | null
+          fitted_at?: string
+          id?: string
+          method: string
+          model: string
+          parameters: Json
+          project_id: string
+          sample_size: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          brier_calibrated?: number | null
+          brier_raw?: number | null
+          created_at?: string | null
+          fitted_at?: string
+          id?: string
+          method?: string
+          model?: string
+          parameters?: Json
+          project_id?: string
+          sample_size?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "confidence_calibrations_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "review_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      duplicate_clusters: {
+        Row: {
+          created_at: string | null
+          id: string
+          match_reasons: string[] | null
+          primary_reference_id: string | null
+          project_id: string
+          reference_ids: string[]
+          resolved_at: string | null
+          similarity: number
+          status: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          match_reasons?: string[] | null
+          primary_reference_id?: string | null
+          project_id: string
+          reference_ids: string[]
+          resolved_at?: string | null
+          similarity: number
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          match_reasons?: string[] | null
+          primary_reference_id?: string | null
+          project_id?: string
+          reference_ids?: string[]
+          resolved_at?: string | null
+          similarity?: number
+          status?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "duplicate_clusters_primary_reference_id_fkey"
+            columns: ["primary_reference_id"]
+            isOneToOne: false
+            referencedRelation: "references"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "duplicate_clusters_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "review_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          created_at: string | null
+          file_name: string
+          file_size: number | null
+          format: string
+          id: string
+          project_id: string
+          record_count: number | null
+          report: Json | null
+          skipped_count: number | null
+          source_database: string
+          user_id: string | null
+          warning_count: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          file_name: string
+          file_size?: number | null
+          format: string
+          id?: string
+          project_id: string
+          record_count?: number | null
+          report?: Json | null
+          skipped_count?: number | null
+          source_database: string
+          user_id?: string | null
+          warning_count?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          file_name?: string
+          file_size?: number | null
+          format?: string
+          id?: string
+          project_id?: string
+          record_count?: number | null
+          report?: Json | null
+          skipped_count?: number | null
+          source_database?: string
+          user_id?: string | null
+          warning_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batches_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "review_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_mapping_templates: {
+        Row: {
+          created_at: string | null
+          headers: string[] | null
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          headers?: string[] | null
+          id?: string
+          mapping?: Json
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          headers?: string[] | null
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       paper_references: {
         Row: {
           created_at: string | null
@@ -300,7 +585,9 @@ export type Database = {
           authors: string | null
           created_at: string | null
           doi: string | null
+          duplicate_of: string | null
           id: string
+          import_batch_id: string | null
           journal: string | null
           metadata: Json | null
           pmid: string | null
@@ -311,6 +598,7 @@ export type Database = {
           reviewer2_confidence: number | null
           reviewer2_decision: string | null
           reviewer2_reasoning: string | null
+          source_database: string | null
           status: string | null
           tags: string[] | null
           title: string | null
@@ -335,7 +623,9 @@ export type Database = {
           authors?: string | null
           created_at?: string | null
           doi?: string | null
+          duplicate_of?: string | null
           id?: string
+          import_batch_id?: string | null
           journal?: string | null
           metadata?: Json | null
           pmid?: string | null
@@ -346,6 +636,7 @@ export type Database = {
           reviewer2_confidence?: number | null
           reviewer2_decision?: string | null
           reviewer2_reasoning?: string | null
+          source_database?: string | null
           status?: string | null
           tags?: string[] | null
           title?: string | null
@@ -370,7 +661,9 @@ export type Database = {
           authors?: string | null
           created_at?: string | null
           doi?: string | null
+          duplicate_of?: string | null
           id?: string
+          import_batch_id?: string | null
           journal?: string | null
           metadata?: Json | null
           pmid?: string | null
@@ -381,6 +674,7 @@ export type Database = {
           reviewer2_confidence?: number | null
           reviewer2_decision?: string | null
           reviewer2_reasoning?: string | null
+          source_database?: string | null
           status?: string | null
           tags?: string[] | null
           title?: string | null
@@ -392,6 +686,20 @@ export type Database = {
           year?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "references_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "references"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "references_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "references_project_id_fkey"
             columns: ["project_id"]
@@ -544,6 +852,156 @@ export type Database = {
           },
         ]
       }
+      screening_job_items: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          content_hash: string | null
+          created_at: string | null
+          decision: string | null
+          id: string
+          job_id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          leased_by: string | null
+          position: number
+          reference_id: string
+          result: Json | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          content_hash?: string | null
+          created_at?: string | null
+          decision?: string | null
+          id?: string
+          job_id: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          position: number
+          reference_id: string
+          result?: Json | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          content_hash?: string | null
+          created_at?: string | null
+          decision?: string | null
+          id?: string
+          job_id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          leased_by?: string | null
+          position?: number
+          reference_id?: string
+          result?: Json | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "screening_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "screening_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "screening_job_items_reference_id_fkey"
+            columns: ["reference_id"]
+            isOneToOne: false
+            referencedRelation: "references"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      screening_jobs: {
+        Row: {
+          completed_at: string | null
+          completed_count: number
+          conflict_count: number
+          created_at: string | null
+          criteria: Json
+          excluded_count: number
+          failed_count: number
+          heartbeat_at: string | null
+          id: string
+          included_count: number
+          last_error: string | null
+          project_id: string
+          run_id: string | null
+          started_at: string | null
+          status: string
+          total_references: number
+          uncertain_count: number
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          completed_count?: number
+          conflict_count?: number
+          created_at?: string | null
+          criteria: Json
+          excluded_count?: number
+          failed_count?: number
+          heartbeat_at?: string | null
+          id?: string
+          included_count?: number
+          last_error?: string | null
+          project_id: string
+          run_id?: string | null
+          started_at?: string | null
+          status?: string
+          total_references?: number
+          uncertain_count?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          completed_count?: number
+          conflict_count?: number
+          created_at?: string | null
+          criteria?: Json
+          excluded_count?: number
+          failed_count?: number
+          heartbeat_at?: string | null
+          id?: string
+          included_count?: number
+          last_error?: string | null
+          project_id?: string
+          run_id?: string | null
+          started_at?: string | null
+          status?: string
+          total_references?: number
+          uncertain_count?: number
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "screening_jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "review_projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "screening_jobs_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "screening_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       screening_progress: {
         Row: {
           completed_count: number
@@ -606,33 +1064,43 @@ export type Database = {
           confidence: number | null
           created_at: string
           id: string
+          job_id: string | null
           reasoning: string
           reference_id: string
           reviewer: string
-          session_id: string
+          session_id: string | null
           step_description: string
         }
         Insert: {
           confidence?: number | null
           created_at?: string
           id?: string
+          job_id?: string | null
           reasoning: string
           reference_id: string
           reviewer: string
-          session_id: string
+          session_id?: string | null
           step_description: string
         }
         Update: {
           confidence?: number | null
           created_at?: string
           id?: string
+          job_id?: string | null
           reasoning?: string
           reference_id?: string
           reviewer?: string
-          session_id?: string
+          session_id?: string | null
           step_description?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "screening_reasoning_steps_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "screening_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "screening_reasoning_steps_session_id_fkey"
             columns: ["session_id"]
@@ -799,6 +1267,12 @@ export type Database = {
         Args: { profile_user_id: string }
         Returns: boolean
       }
+      changed_screening_references: {
+        Args: { p_project_id: string }
+        Returns: {
+          reference_id: string
+        }[]
+      }
       check_admin_rate_limit: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -811,6 +1285,32 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      claim_screening_job_items: {
+        Args: {
+          p_job_id: string
+          p_lease_seconds: number
+          p_limit: number
+          p_max_attempts: number
+          p_worker: string
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          content_hash: string | null
+          created_at: string | null
+          decision: string | null
+          id: string
+          job_id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          leased_by: string | null
+          position: number
+          reference_id: string
+          result: Json | null
+          status: string
+          updated_at: string | null
+        }[]
+      }
       cleanup_old_audit_logs: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -943,6 +1443,34 @@ export type Database = {
         }
         Returns: undefined
       }
+      reference_content_hash: {
+        Args: { r: Database["public"]["Tables"]["references"]["Row"] }
+        Returns: string
+      }
+      refresh_screening_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          completed_at: string | null
+          completed_count: number
+          conflict_count: number
+          created_at: string | null
+          criteria: Json
+          excluded_count: number
+          failed_count: number
+          heartbeat_at: string | null
+          id: string
+          included_count: number
+          last_error: string | null
+          project_id: string
+          run_id: string | null
+          started_at: string | null
+          status: string
+          total_references: number
+          uncertain_count: number
+          updated_at: string | null
+          user_id: string | null
+        }
+      }
       search_papers: {
         Args:
           | { match_count?: number; query_text: string }
@@ -0,0 +1,19 @@
+// The API returns at most this many rows per request (max_rows in supabase/config.toml)
+export const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, read a page at a time until a short page. The query
+ * must be fully ordered, e.g. ending in .order('id'), so pages neither
+ * overlap nor skip rows.
+ */
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
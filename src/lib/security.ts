@@ -15,10 +15,28 @@ export const ALLOWED_FILE_TYPES = {
     'image/png',
     'image/gif',
     'image/webp'
+  ],
+  references: [
+    'text/plain',
+    'text/csv',
+    'text/tab-separated-values',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/xml',
+    'application/xml',
+    'application/x-research-info-systems',
+    'application/x-bibtex',
+    'text/x-bibtex',
+    'application/x-endnote-refer'
   ]
 };
 
+// Browsers often report no MIME type for bibliographic files, so these are accepted by extension
+export const REFERENCE_FILE_EXTENSIONS = ['.bib', '.ris', '.enw', '.nbib', '.txt', '.xml', '.csv', '.tsv', '.xlsx'];
+
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// Database exports of 20-50k records are parsed in a worker and can be much larger
+export const MAX_REFERENCE_FILE_SIZE = 250 * 1024 * 1024; // 250MB
 export const MAX_FILENAME_LENGTH = 255;
 
 // File validation utilities
@@ -26,6 +44,11 @@ export function validateFileType(file: File, allowedTypes: string[]): boolean {
   return allowedTypes.includes(file.type);
 }
 
+export function validateFileExtension(fileName: string, allowedExtensions: string[]): boolean {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  return fileName.includes('.') && allowedExtensions.includes(extension);
+}
+
 export function validateFileSize(file: File, maxSize: number = MAX_FILE_SIZE): boolean {
   return file.size <= maxSize;
 }
@@ -106,19 +129,24 @@ export function validateDOI(doi: string): boolean {
 }
 
 // Comprehensive file validation
-export function validateFile(file: File, type: 'documents' | 'images' = 'documents') {
+export function validateFile(file: File, type: keyof typeof ALLOWED_FILE_TYPES = 'documents') {
   const errors: string[] = [];
   
   if (!validateFileName(file.name)) {
     errors.push('Invalid file name. Avoid special characters and use a shorter name.');
   }
   
-  if (!validateFileType(file, ALLOWED_FILE_TYPES[type])) {
-    errors.push(`File type not allowed. Allowed types: ${ALLOWED_FILE_TYPES[type].join(', ')}`);
+  const typeAllowed = type === 'references'
+    ? validateFileType(file, ALLOWED_FILE_TYPES.references) || validateFileExtension(file.name, REFERENCE_FILE_EXTENSIONS)
+    : validateFileType(file, ALLOWED_FILE_TYPES[type]);
+  if (!typeAllowed) {
+    const allowed = type === 'references' ? REFERENCE_FILE_EXTENSIONS : ALLOWED_FILE_TYPES[type];
+    errors.push(`File type not allowed. Allowed types: ${allowed.join(', ')}`);
   }
   
-  if (!validateFileSize(file)) {
-    errors.push(`File size too large. Maximum size is ${Math.round(MAX_FILE_SIZE / 1024 / 1024)}MB.`);
+  const maxSize = type === 'references' ? MAX_REFERENCE_FILE_SIZE : MAX_FILE_SIZE;
+  if (!validateFileSize(file, maxSize)) {
+    errors.push(`File size too large. Maximum size is ${Math.round(maxSize / 1024 / 1024)}MB.`);
   }
   
   return {
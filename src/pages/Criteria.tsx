@@ -13,6 +13,8 @@ import { useProject } from "@/contexts/ProjectContext";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import Header from "@/components/Header";
+import PromptTemplateEditor from "@/components/PromptTemplateEditor";
+import ReviewerModelsPanel from "@/components/ReviewerModelsPanel";
 
 const studyTypes = [
   "Randomized Controlled Trial",
@@ -552,6 +554,26 @@ const Criteria = () => {
             </CardContent>
           </Card>
 
+          {/* AI Reviewer Models */}
+          <ReviewerModelsPanel projectId={projectData.id} />
+
+          {/* Screening Prompt */}
+          <PromptTemplateEditor
+            projectId={projectData.id}
+            criteria={{
+              population: criteriaData.population,
+              intervention: criteriaData.intervention,
+              comparator: criteriaData.comparator,
+              outcome: criteriaData.outcome,
+              studyDesigns: criteriaData.study_designs,
+              timeframeStart: criteriaData.timeframe_start,
+              timeframeEnd: criteriaData.timeframe_end,
+              timeframeDescription: criteriaData.timeframe_description,
+              inclusionCriteria: criteriaData.inclusion_criteria,
+              exclusionCriteria: criteriaData.exclusion_criteria,
+            }}
+          />
+
           {/* Navigation */}
           <div className="flex justify-between">
             <Button variant="outline" onClick={() => navigate('/')}>
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { Play, CheckCircle, XCircle, AlertCircle, BarChart3, Filter, Download, Users, Edit, FileText, Database, Settings, Clock } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Play, CheckCircle, XCircle, AlertCircle, BarChart3, Filter, Download, Users, Edit, FileText, Database, Settings, Clock, Copy, History } from 'lucide-react';
 import { TabNotification } from '@/components/TabNotification';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import Header from '@/components/Header';
@@ -9,8 +9,14 @@ import ScreeningLogs from '@/components/ScreeningLogs';
 import ScreeningAnalytics from '@/components/ScreeningAnalytics';
 import BulkReviewPanel from '@/components/BulkReviewPanel';
 import ExportPanel from '@/components/ExportPanel';
+import DuplicateReviewPanel from '@/components/DuplicateReviewPanel';
+import EnrichmentPanel from '@/components/EnrichmentPanel';
+import ImportReportPanel from '@/components/ImportReportPanel';
 
 import ReasoningDisplay from '@/components/ReasoningDisplay';
+import ScreeningJobControls from '@/components/ScreeningJobControls';
+import ScreeningRunModeSelector from '@/components/ScreeningRunModeSelector';
+import ScreeningRunHistory from '@/components/ScreeningRunHistory';
 import ReferenceDetailsPanel from '@/components/ReferenceDetailsPanel';
 import { SystemStatusDashboard } from '@/components/SystemStatusDashboard';
 import { EnhancedErrorDisplay } from '@/components/EnhancedErrorDisplay';
@@ -22,7 +28,9 @@ import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { DualLLMScreener } from '@/services/aiScreeningService';
+import { fetchAllPages } from '@/lib/pagination';
+import { DualLLMScreener, ScreeningCriteria } from '@/services/aiScreeningService';
+import { DEFAULT_SCREENING_RUN_MODE, RunPlan, SCREENING_RUN_MODES, ScreeningRunMode, ScreeningRunService } from '@/services/screeningRunService';
 import { useEnhancedScreening } from '@/hooks/useEnhancedScreening';
 import { useProject } from '@/contexts/ProjectContext';
 import { useNavigate, useSearchParams } from 'react-router-dom';
@@ -39,6 +47,8 @@ const Screening = () => {
   const [lastResultsCount, setLastResultsCount] = useState(0);
   const [initializationError, setInitializationError] = useState<string | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
+  const [runMode, setRunMode] = useState<ScreeningRunMode>(DEFAULT_SCREENING_RUN_MODE);
+  const [runPlans, setRunPlans] = useState<Record<ScreeningRunMode, RunPlan> | null>(null);
   
   const { toast } = useToast();
   const { projectData } = useProject();
@@ -51,9 +61,15 @@ const Screening = () => {
     progress,
     results: screeningResults,
     error: screeningError,
+    job: screeningJob,
     startScreening,
+    resumeActiveJob,
+    pauseScreening,
+    resumeScreening,
+    cancelScreening,
     resetScreening
   } = useEnhancedScreening();
+  const previousJobStatus = useRef<string | null>(null);
 
   useEffect(() => {
     const initializeScreen = async () => {
@@ -81,6 +97,13 @@ const Screening = () => {
     initializeScreen();
   }, [projectData]);
 
+  // Follow a screening job still running for the project, e.g. one started before the page was reloaded
+  useEffect(() => {
+    if (selectedProject?.id) {
+      resumeActiveJob(selectedProject.id);
+    }
+  }, [selectedProject?.id, resumeActiveJob]);
+
   // Auto-start screening if the autoStart flag is present and conditions are met
   useEffect(() => {
     const shouldAutoStart = searchParams.get('autoStart') === 'true';
@@ -225,23 +248,17 @@ const Screening = () => {
     }
   };
 
-  const loadReferences = async () => {
-    const projectId = projectData?.id || selectedProject?.id;
-    if (!projectId) return;
-    
-    await loadReferencesForProject(projectId);
-  };
-
-  const loadReferencesForProject = async (projectId: string) => {
+  const loadReferencesForProject = React.useCallback(async (projectId: string) => {
     try {
-      const { data, error } = await supabase
+      const loaded = await fetchAllPages((from, to) => supabase
         .from('references')
         .select('*')
         .eq('project_id', projectId)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setReferences(data || []);
+        .order('created_at', { ascending: false })
+        // References imported together share created_at; the id keeps pages from overlapping
+        .order('id', { ascending: true })
+        .range(from, to));
+      setReferences(loaded);
     } catch (error) {
       console.error('Error loading references:', error);
       toast({
@@ -250,10 +267,56 @@ const Screening = () => {
         variant: "destructive",
       });
     }
-  };
+  }, [toast]);
+
+  const loadReferences = React.useCallback(async () => {
+    const projectId = projectData?.id || selectedProject?.id;
+    if (!projectId) return;
+    
+    await loadReferencesForProject(projectId);
+  }, [projectData?.id, selectedProject?.id, loadReferencesForProject]);
+
+  // The job finishes server-side, so its completion is noticed by polling rather than by startScreening returning
+  const jobStatus = screeningJob?.status ?? null;
+  const jobCompletedCount = screeningJob?.completed_count ?? 0;
+  const jobFailedCount = screeningJob?.failed_count ?? 0;
+  useEffect(() => {
+    if (previousJobStatus.current && previousJobStatus.current !== jobStatus && jobStatus === 'completed') {
+      toast({
+        title: "Screening Complete",
+        description: `Processed ${jobCompletedCount} references${jobFailedCount > 0 ? `, ${jobFailedCount} failed` : ''}.`,
+      });
+      loadReferences(); // Reload to get updated results
+    }
+    previousJobStatus.current = jobStatus;
+  }, [jobStatus, jobCompletedCount, jobFailedCount, toast, loadReferences]);
+
+  // References marked as duplicates during deduplication are never sent to the AI reviewers
+  const screenableReferences = references.filter(ref => ref.status !== 'duplicate');
+  const duplicateCount = references.length - screenableReferences.length;
+
+  const screeningCriteria = useMemo<ScreeningCriteria | null>(() => criteriaData ? {
+    population: criteriaData.population,
+    intervention: criteriaData.intervention,
+    comparator: criteriaData.comparator,
+    outcome: criteriaData.outcome,
+    studyDesigns: criteriaData.study_designs || criteriaData.studyDesigns
+  } : null, [criteriaData]);
+
+  // Reference counts and cost estimates of each run mode, redone whenever the references are reloaded
+  useEffect(() => {
+    if (!selectedProject?.id || !screeningCriteria) return;
+
+    setRunPlans(null);
+    ScreeningRunService.planRuns(selectedProject.id, references.filter(ref => ref.status !== 'duplicate'), screeningCriteria)
+      .then(setRunPlans)
+      .catch(error => console.error('Error planning screening runs:', error));
+  }, [selectedProject?.id, references, screeningCriteria]);
+
+  const runPlan = runPlans?.[runMode];
 
   const handleStartScreening = async () => {
-    if (!criteriaData || references.length === 0) {
+    if (!screeningCriteria || screenableReferences.length === 0) {
       toast({
         title: "Cannot start screening",
         description: "Please ensure criteria are set and references are loaded.",
@@ -262,16 +325,28 @@ const Screening = () => {
       return;
     }
 
+    if (!runPlan || runPlan.references.length === 0) {
+      const label = SCREENING_RUN_MODES.find(mode => mode.value === runMode)?.label;
+      toast({
+        title: "Nothing to screen",
+        description: runPlan ? `No references match "${label}". Choose another mode to re-screen references.` : "Still counting the references to screen.",
+      });
+      return;
+    }
+
     // Add debug logging
     console.log('DEBUG: Starting screening process', {
-      referencesCount: references.length,
+      mode: runMode,
+      referencesCount: runPlan.references.length,
       criteria: criteriaData,
       projectId: selectedProject?.id
     });
 
     try {
-      await startScreening(
-        references.map(ref => ({
+      // The run records the mode and the estimate; the job screens its references
+      const run = await ScreeningRunService.createRun(selectedProject.id, runPlan, screeningCriteria);
+      const job = await startScreening(
+        runPlan.references.map(ref => ({
           id: ref.id,
           title: ref.title || '',
           abstract: ref.abstract || '',
@@ -280,22 +355,18 @@ const Screening = () => {
           year: ref.year,
           doi: ref.doi
         })),
-        {
-          population: criteriaData.population,
-          intervention: criteriaData.intervention,
-          comparator: criteriaData.comparator,
-          outcome: criteriaData.outcome,
-          studyDesigns: criteriaData.study_designs || criteriaData.studyDesigns
-        },
-        selectedProject.id
+        screeningCriteria,
+        selectedProject.id,
+        run.id
       );
       
-      if (!screeningError) {
+      if (job) {
         toast({
-          title: "Screening Complete",
-          description: `Processed ${references.length} references successfully.`,
+          title: "Screening started",
+          description: `Queued ${job.total_references} references. Screening continues on the server if you leave this page.`,
         });
-        loadReferences(); // Reload to get updated results
+      } else {
+        await ScreeningRunService.failRun(run.id);
       }
     } catch (error) {
       console.error('DEBUG: Error starting screening:', error);
@@ -313,6 +384,7 @@ const Screening = () => {
         return <CheckCircle className="w-4 h-4 text-success" />;
       case 'exclude':
         return <XCircle className="w-4 h-4 text-destructive" />;
+      case 'uncertain':
       case 'conflict':
         return <AlertCircle className="w-4 h-4 text-warning" />;
       default:
@@ -321,6 +393,9 @@ const Screening = () => {
   };
 
   const getStatusBadge = (status: string, agreement: boolean) => {
+    if (status === 'uncertain') {
+      return <Badge variant="outline" className="border-warning text-warning">Uncertain</Badge>;
+    }
     if (!agreement) {
       return <Badge variant="destructive">Conflict</Badge>;
     }
@@ -336,7 +411,7 @@ const Screening = () => {
   };
 
   // Filter references based on current filters
-  const filteredReferences = references.filter(ref => {
+  const filteredReferences = screenableReferences.filter(ref => {
     const result = screeningResults.find(r => r.id === ref.id);
     
     // Status filter
@@ -364,6 +439,7 @@ const Screening = () => {
   const conflictCount = progress.stats.conflicts || screeningResults.filter(result => !result.agreement).length;
   const includedCount = progress.stats.included || screeningResults.filter(result => result.finalDecision === 'include').length;
   const excludedCount = progress.stats.excluded || screeningResults.filter(result => result.finalDecision === 'exclude').length;
+  const uncertainCount = progress.stats.uncertain || screeningResults.filter(result => result.finalDecision === 'uncertain').length;
 
   return (
     <div className="min-h-screen bg-background">
@@ -441,18 +517,39 @@ const Screening = () => {
           </div>
         )}
 
+        {/* Run mode: which references this run screens */}
+        {screeningCriteria && screenableReferences.length > 0 && (
+          <ScreeningRunModeSelector
+            value={runMode}
+            onChange={setRunMode}
+            plans={runPlans}
+            disabled={isScreening}
+          />
+        )}
+
         {/* Screening Readiness Check */}
         <ScreeningReadinessCheck 
           projectId={selectedProject?.id}
           criteriaData={criteriaData}
-          references={references}
+          references={screenableReferences}
+          referencesToScreen={runPlan?.references.length}
           isScreening={isScreening}
           onStartScreening={handleStartScreening}
-          estimatedCost={references.length * 0.05} // Rough estimate
-          estimatedTime={`${Math.ceil(references.length * 0.1)} minutes`}
+          estimatedCost={runPlan?.estimate.costUsd}
+          estimatedTime={runPlan ? `${Math.ceil(runPlan.references.length * 0.1)} minutes` : undefined}
         />
 
 
+        {/* Durable screening job controls */}
+        {screeningJob && (
+          <ScreeningJobControls
+            job={screeningJob}
+            onPause={pauseScreening}
+            onResume={resumeScreening}
+            onCancel={cancelScreening}
+          />
+        )}
+
         {/* Live Reasoning Display */}
         <ReasoningDisplay 
           isVisible={isScreening || progress.reasoningSteps.length > 0}
@@ -462,8 +559,8 @@ const Screening = () => {
         />
 
         {/* Reference Details with AI Reasoning */}
-        {!isScreening && references.length > 0 && (
-          <ReferenceDetailsPanel references={references} />
+        {!isScreening && screenableReferences.length > 0 && (
+          <ReferenceDetailsPanel references={screenableReferences} />
         )}
 
         {/* Results Summary */}
@@ -475,10 +572,12 @@ const Screening = () => {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 sm:grid-cols-5 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-6 gap-4">
               <div className="text-center">
-                <div className="text-2xl font-bold text-primary">{references.length}</div>
-                <div className="text-sm text-muted-foreground">Total References</div>
+                <div className="text-2xl font-bold text-primary">{screenableReferences.length}</div>
+                <div className="text-sm text-muted-foreground">
+                  Total References{duplicateCount > 0 && ` (${duplicateCount} duplicates removed)`}
+                </div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-blue-600">{screeningResults.length}</div>
@@ -492,6 +591,10 @@ const Screening = () => {
                 <div className="text-2xl font-bold text-red-600">{excludedCount}</div>
                 <div className="text-sm text-muted-foreground">Excluded</div>
               </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-orange-600">{uncertainCount}</div>
+                <div className="text-sm text-muted-foreground">Uncertain</div>
+              </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-yellow-600">{conflictCount}</div>
                 <div className="text-sm text-muted-foreground">Conflicts</div>
@@ -510,7 +613,7 @@ const Screening = () => {
 
         {/* Tab Navigation */}
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="references" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               References
@@ -527,6 +630,14 @@ const Screening = () => {
                 Logs
               </TabNotification>
             </TabsTrigger>
+            <TabsTrigger value="runs" className="flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Runs
+            </TabsTrigger>
+            <TabsTrigger value="duplicates" className="flex items-center gap-2">
+              <Copy className="w-4 h-4" />
+              Duplicates
+            </TabsTrigger>
             <TabsTrigger value="review" className="flex items-center gap-2">
               <Users className="w-4 h-4" />
               Bulk Review
@@ -540,11 +651,18 @@ const Screening = () => {
 
           {/* Tab Content */}
           <TabsContent value="references">
+            {selectedProject && (
+              <EnrichmentPanel
+                projectId={selectedProject.id}
+                references={screenableReferences}
+                onEnriched={loadReferences}
+              />
+            )}
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <FileText className="w-5 h-5" />
-                  References ({filteredReferences.length} of {references.length})
+                  References ({filteredReferences.length} of {screenableReferences.length})
                 </CardTitle>
               </CardHeader>
            <CardContent>
@@ -562,6 +680,7 @@ const Screening = () => {
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="include">Include</SelectItem>
                   <SelectItem value="exclude">Exclude</SelectItem>
+                  <SelectItem value="uncertain">Uncertain</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={agreementFilter} onValueChange={setAgreementFilter}>
@@ -627,11 +746,27 @@ const Screening = () => {
             {selectedProject && <ScreeningLogs projectId={selectedProject.id} />}
           </TabsContent>
 
+          <TabsContent value="runs">
+            {selectedProject && <ScreeningRunHistory projectId={selectedProject.id} />}
+          </TabsContent>
+
+          <TabsContent value="duplicates" className="space-y-6">
+            {selectedProject && (
+              <>
+                <DuplicateReviewPanel
+                  projectId={selectedProject.id}
+                  onDuplicatesResolved={loadReferences}
+                />
+                <ImportReportPanel projectId={selectedProject.id} />
+              </>
+            )}
+          </TabsContent>
+
           <TabsContent value="review">
             {selectedProject && (
               <BulkReviewPanel 
                 projectId={selectedProject.id}
-                references={references}
+                references={screenableReferences}
                 screeningResults={screeningResults}
                 onReviewComplete={loadReferences}
               />
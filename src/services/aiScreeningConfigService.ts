@@ -0,0 +1,111 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, TablesUpdate } from '@/integrations/supabase/types';
+import { ConflictResolutionMethod, normalizeConflictResolutionMethod } from '@shared/arbitration';
+import { normalizePersonas, ReviewerPersona } from '@shared/personas';
+
+// Provider ids registered in supabase/functions/_shared/providers/registry.ts
+export const MODEL_PROVIDERS = ['openai', 'anthropic', 'groq', 'openrouter', 'gemini', 'local'];
+
+/**
+ * Each reviewer, and the arbiter, is a fallback chain of "provider:model"
+ * specs separated by commas. Empty values fall back to the defaults built
+ * into ai-screening.
+ */
+export interface ReviewerModels {
+  primary: string;
+  secondary: string;
+  arbiter: string;
+}
+
+// Mirrors DEFAULT_PRIMARY_CHAIN / DEFAULT_SECONDARY_CHAIN / DEFAULT_ARBITER_CHAIN in the ai-screening function
+export const DEFAULT_REVIEWER_MODELS: ReviewerModels = {
+  primary: 'openai:o3-2025-04-16, openrouter:deepseek/deepseek-r1-distill-llama-70b, groq:llama-3.3-70b-versatile',
+  secondary: 'anthropic:claude-3-5-sonnet-20241022, groq:deepseek-r1-distill-llama-70b, gemini:gemini-2.0-flash-exp',
+  arbiter: 'openai:gpt-4.1, gemini:gemini-2.0-flash-exp',
+};
+
+export interface ReviewerSettings {
+  models: ReviewerModels;
+  personas: [ReviewerPersona, ReviewerPersona];
+  conflictResolution: ConflictResolutionMethod;
+}
+
+export const SCREENING_STAGE = 'title_abstract_screening';
+
+// Returns an error message for the first malformed spec, or null when the chain is valid
+export function validateModelChain(value: string): string | null {
+  for (const spec of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const separator = spec.indexOf(':');
+    const provider = separator > 0 ? spec.slice(0, separator).trim().toLowerCase() : '';
+    if (!provider || !spec.slice(separator + 1).trim()) {
+      return `"${spec}" should be written as provider:model`;
+    }
+    if (!MODEL_PROVIDERS.includes(provider)) {
+      return `Unknown provider "${provider}" (available: ${MODEL_PROVIDERS.join(', ')})`;
+    }
+  }
+  return null;
+}
+
+export class AIScreeningConfigService {
+  static async getReviewerSettings(projectId: string): Promise<ReviewerSettings> {
+    const { data, error } = await supabase
+      .from('ai_screening_config')
+      .select('primary_model_name, secondary_model_name, arbiter_model_name, reviewer_personas, conflict_resolution_method')
+      .eq('project_id', projectId)
+      .eq('screening_stage', SCREENING_STAGE)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return {
+      models: {
+        primary: data?.primary_model_name ?? '',
+        secondary: data?.secondary_model_name ?? '',
+        arbiter: data?.arbiter_model_name ?? '',
+      },
+      personas: normalizePersonas(data?.reviewer_personas),
+      conflictResolution: normalizeConflictResolutionMethod(data?.conflict_resolution_method),
+    };
+  }
+
+  static async saveReviewerSettings(projectId: string, { models, personas, conflictResolution }: ReviewerSettings): Promise<void> {
+    await this.updateConfig(projectId, {
+      primary_model_name: models.primary.trim() || null,
+      secondary_model_name: models.secondary.trim() || null,
+      arbiter_model_name: models.arbiter.trim() || null,
+      conflict_resolution_method: conflictResolution,
+      reviewer_personas: normalizePersonas(personas) as unknown as Json,
+    });
+  }
+
+  // Updates the project's title/abstract config row, creating it on first save
+  static async updateConfig(projectId: string, changes: TablesUpdate<'ai_screening_config'>): Promise<void> {
+    const values = { ...changes, updated_at: new Date().toISOString() };
+
+    const { data: existing, error: lookupError } = await supabase
+      .from('ai_screening_config')
+      .select('id')
+      .eq('project_id', projectId)
+      .eq('screening_stage', SCREENING_STAGE)
+      .maybeSingle();
+
+    if (lookupError) {
+      throw lookupError;
+    }
+
+    const { error } = existing
+      ? await supabase.from('ai_screening_config').update(values).eq('id', existing.id)
+      : await supabase.from('ai_screening_config').insert({
+          ...values,
+          project_id: projectId,
+          screening_stage: SCREENING_STAGE,
+          model_type: 'zero_shot_classification',
+        });
+
+    if (error) {
+      throw error;
+    }
+  }
+}
@@ -1,4 +1,18 @@
 import { supabase } from "@/integrations/supabase/client";
+import {
+  checkContract,
+  MAX_BATCH_SIZE,
+  SCREENING_CONTRACT_VERSION,
+  ScreeningBatchItemResult,
+  ScreeningBatchRequest,
+  ScreeningBatchResponseSchema,
+  ScreeningDecision,
+  ScreeningErrorResponse,
+  ScreeningErrorResponseSchema,
+  ScreeningRequest,
+  ScreeningResponseSchema,
+  ScreeningSuccessResponse
+} from "@shared/contract";
 
 export interface ScreeningReference {
   id: string;
@@ -24,7 +38,7 @@ export interface ScreeningCriteria {
 }
 
 export interface AIReviewResult {
-  recommendation: 'include' | 'exclude' | 'maybe';
+  recommendation: 'include' | 'exclude' | 'uncertain';
   confidence: number;
   reasoning: string;
   reviewer: string;
@@ -34,22 +48,29 @@ export interface DualScreeningResult {
   id: string;
   title: string;
   primaryReviewer: {
-    decision: 'include' | 'exclude' | 'maybe';
+    decision: 'include' | 'exclude' | 'uncertain';
     confidence: number;
     reasoning: string;
     reviewer: string;
   };
   secondaryReviewer: {
-    decision: 'include' | 'exclude' | 'maybe';
+    decision: 'include' | 'exclude' | 'uncertain';
     confidence: number;
     reasoning: string;
     reviewer: string;
   };
-  finalDecision: 'include' | 'exclude' | 'maybe';
+  finalDecision: 'include' | 'exclude' | 'uncertain' | 'conflict';
   agreement: boolean;
   conflictResolution?: string | null;
 }
 
+const FINAL_DECISIONS: Record<ScreeningDecision, DualScreeningResult['finalDecision']> = {
+  included: 'include',
+  excluded: 'exclude',
+  uncertain: 'uncertain',
+  conflict: 'conflict'
+};
+
 export class DualLLMScreener {
   static async screenReference(
     reference: ScreeningReference,
@@ -70,36 +91,25 @@ export class DualLLMScreener {
         }
 
         // Call the AI screening edge function
-        const { data, error } = await supabase.functions.invoke('ai-screening', {
-          body: {
-            referenceId: reference.id,
-            reference: {
-              title: reference.title || 'No title provided',
-              abstract: reference.abstract || 'No abstract provided',
-              authors: reference.authors || 'No authors provided',
-              journal: reference.journal,
-              year: reference.year,
-              doi: reference.doi
-            },
-            criteria: {
-              population: criteria.population,
-              intervention: criteria.intervention,
-              comparator: criteria.comparator,
-              outcome: criteria.outcome,
-              studyDesigns: criteria.studyDesigns,
-              timeframeStart: criteria.timeframeStart,
-              timeframeEnd: criteria.timeframeEnd,
-              timeframeDescription: criteria.timeframeDescription,
-              inclusionCriteria: criteria.inclusionCriteria,
-              exclusionCriteria: criteria.exclusionCriteria
-            },
-            projectId
-          }
-        });
+        const request: ScreeningRequest = {
+          contractVersion: SCREENING_CONTRACT_VERSION,
+          referenceId: reference.id,
+          reference: this.toRequestReference(reference),
+          criteria: this.toRequestCriteria(criteria),
+          projectId
+        };
+        const { data, error } = await supabase.functions.invoke('ai-screening', { body: request });
 
         if (error) {
           console.error(`AI screening function error (attempt ${attempt}):`, error);
-          lastError = new Error(`AI screening failed: ${error.message}`);
+          const errorBody = await this.readErrorBody(error);
+          lastError = new Error(`AI screening failed: ${errorBody?.error || error.message}`);
+
+          // The request itself was rejected, so retrying cannot help
+          if (errorBody?.issues) {
+            console.error('Screening request rejected by the contract:', errorBody.issues);
+            break;
+          }
           
           if (attempt === maxRetries) {
             throw lastError;
@@ -109,19 +119,15 @@ export class DualLLMScreener {
           continue;
         }
 
-        if (!data) {
-          lastError = new Error('No data returned from AI screening function');
-          
-          if (attempt === maxRetries) {
-            throw lastError;
-          }
-          
-          await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-          continue;
+        const response = checkContract(ScreeningResponseSchema, data);
+        if (response.success === false) {
+          // A response the client cannot read means the function and the app were deployed from different versions
+          lastError = new Error(`AI screening response does not match contract v${SCREENING_CONTRACT_VERSION}: ${response.issues.join('; ')}`);
+          break;
         }
 
-        if (!data.success) {
-          lastError = new Error(`AI screening failed: ${data.error || 'Unknown error'}`);
+        if (response.data.success === false) {
+          lastError = new Error(`AI screening failed: ${response.data.error}`);
           
           if (attempt === maxRetries) {
             throw lastError;
@@ -131,35 +137,7 @@ export class DualLLMScreener {
           continue;
         }
 
-        // Validate the response structure
-        if (!data.reviewer1 || !data.reviewer2) {
-          throw new Error('Invalid response structure: missing reviewer data');
-        }
-
-        // Ensure all required fields are present with defaults
-        const primaryReviewer = {
-          decision: data.reviewer1.recommendation || 'maybe',
-          confidence: typeof data.reviewer1.confidence === 'number' ? data.reviewer1.confidence : 0,
-          reasoning: data.reviewer1.reasoning || 'No reasoning provided',
-          reviewer: data.reviewer1.reviewer || 'Primary Reviewer'
-        };
-
-        const secondaryReviewer = {
-          decision: data.reviewer2.recommendation || 'maybe',
-          confidence: typeof data.reviewer2.confidence === 'number' ? data.reviewer2.confidence : 0,
-          reasoning: data.reviewer2.reasoning || 'No reasoning provided',
-          reviewer: data.reviewer2.reviewer || 'Secondary Reviewer'
-        };
-
-        return {
-          id: reference.id,
-          title: reference.title || 'Untitled Reference',
-          primaryReviewer,
-          secondaryReviewer,
-          finalDecision: data.finalDecision || 'maybe',
-          agreement: data.agreement || false,
-          conflictResolution: data.agreement ? null : 'requires_manual_review'
-        };
+        return this.toDualResult(reference, response.data);
 
       } catch (error) {
         lastError = error as Error;
@@ -182,23 +160,136 @@ export class DualLLMScreener {
       id: reference.id,
       title: reference.title || 'Untitled Reference',
       primaryReviewer: {
-        decision: 'maybe',
+        decision: 'uncertain',
         confidence: 0,
         reasoning: `Error during screening: ${lastError?.message || 'Unknown error'}. Manual review required.`,
         reviewer: 'System (Error)'
       },
       secondaryReviewer: {
-        decision: 'maybe',
+        decision: 'uncertain',
         confidence: 0,
         reasoning: `Error during screening: ${lastError?.message || 'Unknown error'}. Manual review required.`,
         reviewer: 'System (Error)'
       },
-      finalDecision: 'maybe',
+      finalDecision: 'uncertain',
       agreement: false,
       conflictResolution: 'error_occurred'
     };
   }
 
+  /**
+   * Screens up to MAX_BATCH_SIZE references in one call to the ai-screening
+   * function. References the function reports as failed, or the whole batch
+   * when the call itself fails, are retried one at a time through
+   * screenReference.
+   */
+  static async screenBatch(
+    references: ScreeningReference[],
+    criteria: ScreeningCriteria,
+    projectId: string
+  ): Promise<DualScreeningResult[]> {
+    const request: ScreeningBatchRequest = {
+      contractVersion: SCREENING_CONTRACT_VERSION,
+      projectId,
+      references: references.map(reference => ({ referenceId: reference.id, reference: this.toRequestReference(reference) })),
+      criteria: this.toRequestCriteria(criteria)
+    };
+
+    let items: ScreeningBatchItemResult[] = [];
+    try {
+      const { data, error } = await supabase.functions.invoke('ai-screening', { body: request });
+      if (error) {
+        const errorBody = await this.readErrorBody(error);
+        console.error('Batch screening failed, screening references one at a time:', errorBody?.issues || errorBody?.error || error.message);
+      } else {
+        const response = checkContract(ScreeningBatchResponseSchema, data);
+        if (response.success === false) {
+          console.error(`Batch screening response does not match contract v${SCREENING_CONTRACT_VERSION}:`, response.issues);
+        } else if (response.data.success === false) {
+          console.error('Batch screening failed, screening references one at a time:', response.data.error);
+        } else {
+          items = response.data.results;
+          console.log(`Batch screened ${response.data.succeeded}/${references.length} references`, response.data.telemetry);
+        }
+      }
+    } catch (error) {
+      console.error('Batch screening failed, screening references one at a time:', error);
+    }
+
+    const results: DualScreeningResult[] = [];
+    for (const reference of references) {
+      const item = items.find(result => result.referenceId === reference.id);
+      if (item && item.success === true) {
+        results.push(this.toDualResult(reference, item));
+        continue;
+      }
+      if (item && item.success === false) {
+        console.warn(`Reference ${reference.id} failed in batch, retrying on its own:`, item.error);
+      }
+      results.push(await this.screenReference(reference, criteria, projectId));
+    }
+    return results;
+  }
+
+  private static toRequestReference(reference: ScreeningReference): ScreeningRequest['reference'] {
+    return {
+      // Missing fields stay missing; the prompt marks them as not provided, outside the reference text
+      title: reference.title || null,
+      abstract: reference.abstract || null,
+      authors: reference.authors || null,
+      journal: reference.journal,
+      year: reference.year,
+      doi: reference.doi
+    };
+  }
+
+  static toRequestCriteria(criteria: ScreeningCriteria): ScreeningRequest['criteria'] {
+    return {
+      population: criteria.population,
+      intervention: criteria.intervention,
+      comparator: criteria.comparator,
+      outcome: criteria.outcome,
+      studyDesigns: criteria.studyDesigns,
+      timeframeStart: criteria.timeframeStart,
+      timeframeEnd: criteria.timeframeEnd,
+      timeframeDescription: criteria.timeframeDescription,
+      inclusionCriteria: criteria.inclusionCriteria,
+      exclusionCriteria: criteria.exclusionCriteria
+    };
+  }
+
+  static toDualResult(
+    reference: ScreeningReference,
+    result: Omit<ScreeningSuccessResponse, 'contractVersion'>
+  ): DualScreeningResult {
+    const [primaryReviewer, secondaryReviewer] = result.reviewers.map(reviewer => ({
+      decision: reviewer.recommendation,
+      confidence: reviewer.confidence,
+      reasoning: reviewer.reasoning,
+      reviewer: reviewer.name
+    }));
+
+    return {
+      id: reference.id,
+      title: reference.title || 'Untitled Reference',
+      primaryReviewer,
+      secondaryReviewer,
+      finalDecision: FINAL_DECISIONS[result.decision],
+      agreement: result.agreement,
+      conflictResolution: result.conflict_resolution?.method ?? (result.requires_human_review ? 'requires_manual_review' : null)
+    };
+  }
+
+  // Non-2xx responses surface as an error whose context is the raw Response
+  private static async readErrorBody(error: unknown): Promise<ScreeningErrorResponse | null> {
+    const context = (error as { context?: unknown }).context;
+    if (!(context instanceof Response)) return null;
+
+    const body = await context.json().catch(() => null);
+    const checked = checkContract(ScreeningErrorResponseSchema, body);
+    return checked.success ? checked.data : null;
+  }
+
   static async updateProgress(
     sessionId: string,
     currentReference?: ScreeningReference,
@@ -231,7 +322,8 @@ export class DualLLMScreener {
     const results: DualScreeningResult[] = [];
     const sessionId = crypto.randomUUID();
     const startTime = Date.now();
-    const batchSize = 5; // Process in smaller batches
+    // One ai-screening call per batch; the function paces the model calls to each provider's rate limits
+    const batchSize = MAX_BATCH_SIZE;
     let completed = 0;
     
     console.log(`Starting bulk screening of ${references.length} references in batches of ${batchSize}`);
@@ -244,107 +336,31 @@ export class DualLLMScreener {
       const batch = references.slice(i, i + batchSize);
       console.log(`Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(references.length / batchSize)}`);
 
-      // Process batch with limited concurrency
-      const batchPromises = batch.map(async (reference, batchIndex) => {
-        const globalIndex = i + batchIndex;
-        
-        try {
-          // Add staggered delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, batchIndex * 300));
-          
-          // Update current reference
-          onCurrentReference?.(reference);
-          await this.updateProgress(sessionId, reference, 'running');
-          
-          // Add reasoning step for starting
-          await this.addReasoningStep(sessionId, reference.id, 'System', 'Starting AI screening', `Analyzing reference ${globalIndex + 1}/${references.length}: ${reference.title}`, 1.0);
-          onReasoningStep?.({
-            id: crypto.randomUUID(),
-            reviewer: 'System',
-            step: 'Starting AI screening',
-            reasoning: `Analyzing reference ${globalIndex + 1}/${references.length}: ${reference.title}`,
-            confidence: 1.0,
-            timestamp: new Date()
-          });
-          
-          const result = await this.screenReference(reference, criteria, projectId, sessionId);
-          
-          // Log detailed reasoning for both reviewers
-          await this.addReasoningStep(
-            sessionId, 
-            reference.id, 
-            result.primaryReviewer.reviewer, 
-            `Decision: ${result.primaryReviewer.decision}`, 
-            result.primaryReviewer.reasoning, 
-            result.primaryReviewer.confidence
-          );
-          onReasoningStep?.({
-            id: crypto.randomUUID(),
-            reviewer: result.primaryReviewer.reviewer,
-            step: `Decision: ${result.primaryReviewer.decision}`,
-            reasoning: result.primaryReviewer.reasoning,
-            confidence: result.primaryReviewer.confidence,
-            timestamp: new Date()
-          });
-
-          await this.addReasoningStep(
-            sessionId, 
-            reference.id, 
-            result.secondaryReviewer.reviewer, 
-            `Decision: ${result.secondaryReviewer.decision}`, 
-            result.secondaryReviewer.reasoning, 
-            result.secondaryReviewer.confidence
-          );
-          onReasoningStep?.({
-            id: crypto.randomUUID(),
-            reviewer: result.secondaryReviewer.reviewer,
-            step: `Decision: ${result.secondaryReviewer.decision}`,
-            reasoning: result.secondaryReviewer.reasoning,
-            confidence: result.secondaryReviewer.confidence,
-            timestamp: new Date()
-          });
-          
-          // Update progress counts
-          await this.updateProgressCounts(sessionId, result);
-          
-          // Add final consensus step
-          const consensusMessage = result.agreement 
-            ? `Both reviewers agreed on "${result.finalDecision}" (Confidence: ${Math.round(((result.primaryReviewer.confidence + result.secondaryReviewer.confidence) / 2) * 100)}%)`
-            : `Reviewers disagreed - ${result.primaryReviewer.reviewer}: ${result.primaryReviewer.decision}, ${result.secondaryReviewer.reviewer}: ${result.secondaryReviewer.decision}. Final: ${result.finalDecision}`;
-          
-          await this.addReasoningStep(sessionId, reference.id, 'System', 'Final consensus', consensusMessage, 1.0);
-          onReasoningStep?.({
-            id: crypto.randomUUID(),
-            reviewer: 'System',
-            step: 'Final consensus',
-            reasoning: consensusMessage,
-            confidence: 1.0,
-            timestamp: new Date()
-          });
-          
-          return result;
-        } catch (error) {
-          console.error(`Error screening reference ${reference.id}:`, error);
-          
-          return {
-            id: reference.id,
-            title: reference.title || 'Untitled Reference',
-            primaryReviewer: { decision: 'maybe' as const, confidence: 0, reasoning: `Error: ${error.message}`, reviewer: 'Error' },
-            secondaryReviewer: { decision: 'maybe' as const, confidence: 0, reasoning: `Error: ${error.message}`, reviewer: 'Error' },
-            finalDecision: 'maybe' as const,
-            agreement: false,
-            confidence: 0,
-            processingTime: 0
-          };
-        }
-      });
+      onCurrentReference?.(batch[0]);
+      await this.updateProgress(sessionId, batch[0], 'running');
+
+      // Add reasoning steps for starting
+      await Promise.all(batch.map((reference, batchIndex) => {
+        const reasoning = `Analyzing reference ${i + batchIndex + 1}/${references.length}: ${reference.title}`;
+        onReasoningStep?.({
+          id: crypto.randomUUID(),
+          reviewer: 'System',
+          step: 'Starting AI screening',
+          reasoning,
+          confidence: 1.0,
+          timestamp: new Date()
+        });
+        return this.addReasoningStep(sessionId, reference.id, 'System', 'Starting AI screening', reasoning, 1.0);
+      }));
+
+      const batchResults = await this.screenBatch(batch, criteria, projectId);
+      await Promise.all(batchResults.map(result => this.recordReasoning(sessionId, result, onReasoningStep)));
+      await this.updateProgressCounts(sessionId, batchResults);
 
-      const batchResults = await Promise.all(batchPromises);
       results.push(...batchResults);
       completed += batchResults.length;
       
       // Calculate progress and estimated time
-      const progress = (completed / references.length) * 100;
       const elapsedTime = Date.now() - startTime;
       const estimatedTimeRemaining = completed > 0 ? Math.round((elapsedTime / completed) * (references.length - completed) / 1000) : null;
       
@@ -358,11 +374,6 @@ export class DualLLMScreener {
         .eq('session_id', sessionId);
       
       onProgress?.(completed, references.length);
-      
-      // Longer delay between batches
-      if (i + batchSize < references.length) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
     }
     
     // Mark as completed
@@ -372,6 +383,38 @@ export class DualLLMScreener {
     return results;
   }
 
+  // Logs each reviewer's decision and the consensus as reasoning steps
+  private static async recordReasoning(
+    sessionId: string,
+    result: DualScreeningResult,
+    onReasoningStep?: (step: { id: string; reviewer: string; step: string; reasoning: string; confidence: number; timestamp: Date }) => void
+  ) {
+    const consensusMessage = result.agreement 
+      ? `Both reviewers agreed on "${result.finalDecision}" (Confidence: ${Math.round(((result.primaryReviewer.confidence + result.secondaryReviewer.confidence) / 2) * 100)}%)`
+      : `Reviewers disagreed - ${result.primaryReviewer.reviewer}: ${result.primaryReviewer.decision}, ${result.secondaryReviewer.reviewer}: ${result.secondaryReviewer.decision}. Final: ${result.finalDecision}`;
+    const steps = [
+      {
+        reviewer: result.primaryReviewer.reviewer,
+        step: `Decision: ${result.primaryReviewer.decision}`,
+        reasoning: result.primaryReviewer.reasoning,
+        confidence: result.primaryReviewer.confidence
+      },
+      {
+        reviewer: result.secondaryReviewer.reviewer,
+        step: `Decision: ${result.secondaryReviewer.decision}`,
+        reasoning: result.secondaryReviewer.reasoning,
+        confidence: result.secondaryReviewer.confidence
+      },
+      { reviewer: 'System', step: 'Final consensus', reasoning: consensusMessage, confidence: 1.0 }
+    ];
+
+    // In order, so the steps read reviewer 1, reviewer 2, consensus
+    for (const { reviewer, step, reasoning, confidence } of steps) {
+      await this.addReasoningStep(sessionId, result.id, reviewer, step, reasoning, confidence);
+      onReasoningStep?.({ id: crypto.randomUUID(), reviewer, step, reasoning, confidence, timestamp: new Date() });
+    }
+  }
+
   static async initializeProgress(sessionId: string, projectId: string, totalReferences: number) {
     try {
       await supabase
@@ -392,7 +435,8 @@ export class DualLLMScreener {
     }
   }
 
-  static async updateProgressCounts(sessionId: string, result: DualScreeningResult) {
+  // Counts a whole batch in one update, since concurrent read-then-write updates would lose counts
+  static async updateProgressCounts(sessionId: string, results: DualScreeningResult[]) {
     try {
       const { data: currentProgress } = await supabase
         .from('screening_progress')
@@ -402,10 +446,10 @@ export class DualLLMScreener {
 
       if (currentProgress) {
         const updates = {
-          completed_count: currentProgress.completed_count + 1,
-          included_count: result.finalDecision === 'include' ? currentProgress.included_count + 1 : currentProgress.included_count,
-          excluded_count: result.finalDecision === 'exclude' ? currentProgress.excluded_count + 1 : currentProgress.excluded_count,
-          conflict_count: !result.agreement ? currentProgress.conflict_count + 1 : currentProgress.conflict_count
+          completed_count: currentProgress.completed_count + results.length,
+          included_count: currentProgress.included_count + results.filter(result => result.finalDecision === 'include').length,
+          excluded_count: currentProgress.excluded_count + results.filter(result => result.finalDecision === 'exclude').length,
+          conflict_count: currentProgress.conflict_count + results.filter(result => !result.agreement).length
         };
 
         await supabase
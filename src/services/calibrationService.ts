@@ -0,0 +1,171 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllPages } from '@/lib/pagination';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  applyCalibration,
+  brierScore,
+  CalibrationParameters,
+  CalibrationSample,
+  fitCalibration,
+  normalizeCalibration,
+  ReliabilityBin,
+  reliabilityBins
+} from '@shared/calibration';
+
+export interface ModelCalibrationReport {
+  // provider:model spec
+  model: string;
+  samples: number;
+  // The calibration ai-screening currently applies; null when the model is uncalibrated
+  parameters: CalibrationParameters | null;
+  fittedAt: string | null;
+  brierRaw: number;
+  brierCalibrated: number | null;
+  rawBins: ReliabilityBin[];
+  calibratedBins: ReliabilityBin[];
+}
+
+export interface CalibrationFitResult {
+  fitted: string[];
+  // Models without enough human decisions, or whose decisions were all right or all wrong
+  skipped: { model: string; samples: number }[];
+}
+
+// Human decisions and logged reviewer decisions use include/exclude and included/excluded respectively
+const toDecision = (value: string | null): 'include' | 'exclude' | null => {
+  if (value === 'include' || value === 'included') return 'include';
+  if (value === 'exclude' || value === 'excluded') return 'exclude';
+  return null;
+};
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+/**
+ * The provider:model spec behind each reviewer of a log entry. Older entries
+ * predate decision_reason.calibration and only record primary_provider as
+ * "spec1 + spec2".
+ */
+function reviewerModels(decisionReason: Json | null): [string | null, string | null] {
+  const reason = asRecord(decisionReason);
+  const calibration = asRecord(reason.calibration);
+  const fromCalibration = [asRecord(calibration.reviewer1).model, asRecord(calibration.reviewer2).model];
+  const fromProvider = typeof reason.primary_provider === 'string' ? reason.primary_provider.split(' + ') : [];
+  return [0, 1].map(index => {
+    const model = fromCalibration[index] ?? fromProvider[index];
+    return typeof model === 'string' && model && model !== 'none' ? model : null;
+  }) as [string | null, string | null];
+}
+
+export class CalibrationService {
+  // Every logged reviewer decision on a reference a human has since decided, grouped by model
+  static async loadSamples(projectId: string): Promise<Map<string, CalibrationSample[]>> {
+    const [decisions, logs] = await Promise.all([
+      fetchAllPages((from, to) => supabase
+        .from('user_decisions')
+        .select('reference_id, user_decision, updated_at')
+        .eq('project_id', projectId)
+        .order('updated_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)),
+      fetchAllPages((from, to) => supabase
+        .from('ai_screening_log')
+        .select('reference_id, primary_model_decision, primary_model_confidence, secondary_model_decision, secondary_model_confidence, decision_reason')
+        .eq('project_id', projectId)
+        .order('id', { ascending: true })
+        .range(from, to))
+    ]);
+
+    // The latest human decision on a reference is the ground truth
+    const truth = new Map<string, 'include' | 'exclude'>();
+    decisions.forEach(decision => {
+      const value = toDecision(decision.user_decision);
+      if (value && decision.reference_id) truth.set(decision.reference_id, value);
+    });
+
+    const samples = new Map<string, CalibrationSample[]>();
+    logs.forEach(log => {
+      const human = log.reference_id ? truth.get(log.reference_id) : undefined;
+      if (!human) return;
+
+      const [primaryModel, secondaryModel] = reviewerModels(log.decision_reason);
+      ([
+        [primaryModel, log.primary_model_decision, log.primary_model_confidence],
+        [secondaryModel, log.secondary_model_decision, log.secondary_model_confidence]
+      ] as const).forEach(([model, decision, confidence]) => {
+        const predicted = toDecision(decision);
+        const value = Number(confidence);
+        // Uncertain and failed reviews state no decision to be right or wrong about
+        if (!model || !predicted || confidence === null || !Number.isFinite(value)) return;
+        if (!samples.has(model)) samples.set(model, []);
+        samples.get(model)!.push({ confidence: value, correct: predicted === human });
+      });
+    });
+    return samples;
+  }
+
+  static async getReports(projectId: string): Promise<ModelCalibrationReport[]> {
+    const [samples, { data: rows, error }] = await Promise.all([
+      this.loadSamples(projectId),
+      supabase
+        .from('confidence_calibrations')
+        .select('model, parameters, fitted_at')
+        .eq('project_id', projectId)
+    ]);
+
+    if (error) throw error;
+
+    const stored = new Map((rows || []).map(row => [row.model, row]));
+    const models = Array.from(new Set([...samples.keys(), ...stored.keys()])).sort();
+    return models.map(model => {
+      const modelSamples = samples.get(model) || [];
+      const parameters = normalizeCalibration(stored.get(model)?.parameters);
+      const calibrate = parameters ? (confidence: number) => applyCalibration(parameters, confidence) : null;
+      return {
+        model,
+        samples: modelSamples.length,
+        parameters,
+        fittedAt: stored.get(model)?.fitted_at ?? null,
+        brierRaw: brierScore(modelSamples),
+        brierCalibrated: calibrate ? brierScore(modelSamples, calibrate) : null,
+        rawBins: reliabilityBins(modelSamples),
+        calibratedBins: calibrate ? reliabilityBins(modelSamples, 10, calibrate) : []
+      };
+    });
+  }
+
+  // Refits every model with enough human decisions; ai-screening applies the new curves from the next reference on
+  static async fitProject(projectId: string): Promise<CalibrationFitResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('No authenticated user');
+
+    const samples = await this.loadSamples(projectId);
+    const result: CalibrationFitResult = { fitted: [], skipped: [] };
+
+    for (const [model, modelSamples] of samples) {
+      const parameters = fitCalibration(modelSamples);
+      if (!parameters) {
+        result.skipped.push({ model, samples: modelSamples.length });
+        continue;
+      }
+
+      const { error } = await supabase
+        .from('confidence_calibrations')
+        .upsert({
+          project_id: projectId,
+          user_id: user.id,
+          model,
+          method: parameters.method,
+          parameters: parameters as unknown as Json,
+          sample_size: modelSamples.length,
+          brier_raw: brierScore(modelSamples),
+          brier_calibrated: brierScore(modelSamples, confidence => applyCalibration(parameters, confidence)),
+          fitted_at: new Date().toISOString()
+        }, { onConflict: 'project_id,model' });
+
+      if (error) throw error;
+      result.fitted.push(model);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,481 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/pagination';
+import { ReferenceImportService } from './referenceImportService';
+
+// Fields the engine reads; matches the columns selected from `references`
+export interface DedupRecord {
+  id: string;
+  title: string | null;
+  authors: string | null;
+  abstract: string | null;
+  journal: string | null;
+  year: number | null;
+  doi: string | null;
+  pmid: string | null;
+  url: string | null;
+  metadata: Json | null;
+  source_database?: string | null;
+}
+
+export type MatchReason = 'doi' | 'pmid' | 'title';
+
+export interface DuplicateCandidate {
+  referenceIds: string[];
+  // Lowest pairwise score that joined the cluster, 0-1
+  similarity: number;
+  reasons: MatchReason[];
+}
+
+export interface DedupOptions {
+  // Minimum fuzzy score for a title/year/author match
+  threshold?: number;
+  // Pairs a reviewer already marked as distinct ("id1|id2", ids sorted)
+  rejectedPairs?: Set<string>;
+}
+
+export type ClusterAction = 'merge' | 'confirm' | 'reject';
+
+export interface PrismaIdentificationCounts {
+  identifiedByDatabase: Record<string, number>;
+  totalIdentified: number;
+  duplicatesRemoved: number;
+  recordsAfterDeduplication: number;
+}
+
+const DEFAULT_THRESHOLD = 0.9;
+
+export const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const stripDiacritics = (text: string) => text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+export function normalizeTitle(title: string | null | undefined): string {
+  if (!title) return '';
+  return stripDiacritics(title)
+    .toLowerCase()
+    // MEDLINE wraps translated titles in brackets: "[Title in English]."
+    .replace(/^\[(.*)\]\.?$/, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function normalizeDoiKey(doi: string | null | undefined): string {
+  return doi ? doi.trim().toLowerCase().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/, '').replace(/[.,;]+$/, '') : '';
+}
+
+// Surname of the first author for "Smith, John", "Smith J" and "John Smith" styles
+export function firstAuthorSurname(authors: string | null | undefined): string {
+  const first = authors?.split(/;|\band\b/)[0]?.trim();
+  if (!first) return '';
+  const surname = first.includes(',')
+    ? first.split(',')[0]
+    : (() => {
+      const tokens = first.split(/\s+/);
+      const last = tokens[tokens.length - 1];
+      // "Smith JA" puts initials last, "John Smith" puts the surname last
+      return tokens.length > 1 && /^[A-Z.-]{1,3}$/.test(last) ? tokens[0] : last;
+    })();
+  return stripDiacritics(surname).toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+// Sørensen–Dice coefficient over character bigrams
+export function titleSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  let sizeA = 0;
+  let sizeB = 0;
+  gramsA.forEach(count => { sizeA += count; });
+  gramsB.forEach((count, gram) => {
+    sizeB += count;
+    overlap += Math.min(count, gramsA.get(gram) ?? 0);
+  });
+  return sizeA + sizeB === 0 ? 0 : (2 * overlap) / (sizeA + sizeB);
+}
+
+interface PreparedRecord {
+  record: DedupRecord;
+  title: string;
+  doi: string;
+  pmid: string;
+  author: string;
+}
+
+/**
+ * Scores one pair. Identifier matches are conclusive; otherwise the title
+ * similarity is adjusted by year and first-author agreement.
+ */
+function scorePair(a: PreparedRecord, b: PreparedRecord): { score: number; reason: MatchReason } | null {
+  if (a.doi && a.doi === b.doi) return { score: 1, reason: 'doi' };
+  if (a.pmid && a.pmid === b.pmid) return { score: 1, reason: 'pmid' };
+
+  const { year: yearA } = a.record;
+  const { year: yearB } = b.record;
+  if (yearA && yearB && Math.abs(yearA - yearB) > 1) return null;
+
+  let score = titleSimilarity(a.title, b.title);
+  if (score < 0.75) return null;
+
+  // Online-first and print years often differ by one
+  if (yearA && yearB && yearA !== yearB) score -= 0.03;
+  if (a.author && b.author) score += a.author === b.author ? 0.05 : -0.15;
+  // Different DOIs usually mean different articles (e.g. a correction notice)
+  if (a.doi && b.doi) score -= 0.15;
+
+  return { score: Math.max(0, Math.min(1, score)), reason: 'title' };
+}
+
+// Blocking keys keep the number of fuzzy comparisons close to linear
+function blockingKeys(prepared: PreparedRecord): string[] {
+  const keys: string[] = [];
+  const compact = prepared.title.replace(/ /g, '');
+  if (compact.length >= 12) {
+    keys.push(`head:${compact.slice(0, 12)}`, `tail:${compact.slice(-12)}`);
+  } else if (compact) {
+    keys.push(`title:${compact}`);
+  }
+  if (prepared.author && prepared.record.year) keys.push(`author:${prepared.author}:${prepared.record.year}`);
+  return keys;
+}
+
+/**
+ * Groups likely duplicates into clusters. Records are linked when they share
+ * a normalized DOI or PMID, or when their titles are near-identical and the
+ * year and first author agree; linked records are merged transitively.
+ */
+export function findDuplicateClusters(records: DedupRecord[], options: DedupOptions = {}): DuplicateCandidate[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const rejected = options.rejectedPairs ?? new Set<string>();
+
+  const prepared: PreparedRecord[] = records.map(record => ({
+    record,
+    title: normalizeTitle(record.title),
+    doi: normalizeDoiKey(record.doi),
+    pmid: record.pmid?.trim() ?? '',
+    author: firstAuthorSurname(record.authors),
+  }));
+
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) block.push(index); else blocks.set(key, [index]);
+  };
+  prepared.forEach((item, index) => {
+    if (item.doi) addToBlock(`doi:${item.doi}`, index);
+    if (item.pmid) addToBlock(`pmid:${item.pmid}`, index);
+    blockingKeys(item).forEach(key => addToBlock(key, index));
+  });
+
+  // Union-find over record indexes
+  const parent = prepared.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const edges: { a: number; b: number; score: number; reason: MatchReason }[] = [];
+  const compared = new Set<string>();
+
+  blocks.forEach(members => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const a = members[i];
+        const b = members[j];
+        const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+        if (rejected.has(pairKey(prepared[a].record.id, prepared[b].record.id))) continue;
+
+        const match = scorePair(prepared[a], prepared[b]);
+        if (match && match.score >= threshold) {
+          edges.push({ a, b, ...match });
+          parent[find(a)] = find(b);
+        }
+      }
+    }
+  });
+
+  const clusters = new Map<number, { members: Set<number>; similarity: number; reasons: Set<MatchReason> }>();
+  edges.forEach(edge => {
+    const root = find(edge.a);
+    const cluster = clusters.get(root) ?? { members: new Set<number>(), similarity: 1, reasons: new Set<MatchReason>() };
+    cluster.members.add(edge.a).add(edge.b);
+    cluster.similarity = Math.min(cluster.similarity, edge.score);
+    cluster.reasons.add(edge.reason);
+    clusters.set(root, cluster);
+  });
+
+  return Array.from(clusters.values())
+    .map(cluster => ({
+      referenceIds: Array.from(cluster.members).sort((a, b) => a - b).map(index => prepared[index].record.id),
+      similarity: Math.round(cluster.similarity * 1000) / 1000,
+      reasons: Array.from(cluster.reasons),
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+// Higher means more complete metadata; used to pick the record that survives a merge
+function richness(record: DedupRecord): number {
+  let score = 0;
+  if (record.abstract?.trim()) score += 3 + Math.min(record.abstract.length, 3000) / 3000;
+  [record.doi, record.pmid, record.journal, record.authors, record.url].forEach(value => {
+    if (value?.trim()) score += 1;
+  });
+  if (record.year) score += 1;
+  return score;
+}
+
+export function choosePrimaryRecord(records: DedupRecord[]): DedupRecord {
+  return records.reduce((best, record) => (richness(record) > richness(best) ? record : best));
+}
+
+const asObject = (value: Json | null | undefined): Record<string, Json | undefined> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, Json | undefined> : {};
+
+const asStrings = (value: Json | undefined): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/**
+ * Fills gaps in the primary record from its duplicates: empty fields are
+ * taken from the first duplicate that has them, the longest abstract wins,
+ * and keywords and source databases are combined.
+ */
+export function mergeRecords(primary: DedupRecord, duplicates: DedupRecord[]): Partial<DedupRecord> {
+  const pick = <K extends keyof DedupRecord>(field: K) =>
+    primary[field] || duplicates.find(duplicate => duplicate[field])?.[field] || primary[field];
+
+  const abstracts = [primary, ...duplicates].map(record => record.abstract ?? '').filter(Boolean);
+  const longestAbstract = abstracts.sort((a, b) => b.length - a.length)[0] ?? primary.abstract;
+
+  const primaryMetadata = asObject(primary.metadata);
+  const keywords = new Set<string>();
+  const sources = new Set<string>();
+  [primary, ...duplicates].forEach(record => {
+    const metadata = asObject(record.metadata);
+    asStrings(metadata.keywords).forEach(keyword => keywords.add(keyword));
+    asStrings(metadata.source_databases).forEach(source => sources.add(source));
+    if (record.source_database) sources.add(record.source_database);
+  });
+
+  return {
+    title: pick('title'),
+    authors: pick('authors'),
+    abstract: longestAbstract,
+    journal: pick('journal'),
+    year: pick('year'),
+    doi: pick('doi'),
+    pmid: pick('pmid'),
+    url: pick('url'),
+    metadata: {
+      ...primaryMetadata,
+      keywords: Array.from(keywords),
+      source_databases: Array.from(sources),
+      merged_from: [
+        ...asStrings(primaryMetadata.merged_from),
+        ...duplicates.map(duplicate => duplicate.id),
+      ],
+    },
+  };
+}
+
+const DEDUP_COLUMNS = 'id, title, authors, abstract, journal, year, doi, pmid, url, metadata, source_database';
+
+export class DeduplicationService {
+  /**
+   * Runs detection over the project's non-duplicate references and replaces
+   * the pending clusters with the new candidates. Clusters a reviewer already
+   * rejected are not proposed again.
+   */
+  static async detectDuplicates(projectId: string, options: Omit<DedupOptions, 'rejectedPairs'> = {}) {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    // Multi-database imports run to tens of thousands of references, far past a single page
+    const references = await fetchAllPages((from, to) => supabase
+      .from('references')
+      .select(DEDUP_COLUMNS)
+      .eq('project_id', projectId)
+      .neq('status', 'duplicate')
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const rejectedClusters = await fetchAllPages((from, to) => supabase
+      .from('duplicate_clusters')
+      .select('reference_ids')
+      .eq('project_id', projectId)
+      .eq('status', 'rejected')
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const rejectedPairs = new Set<string>();
+    rejectedClusters.forEach(({ reference_ids }) => {
+      reference_ids.forEach((a, i) => reference_ids.slice(i + 1).forEach(b => rejectedPairs.add(pairKey(a, b))));
+    });
+
+    const candidates = findDuplicateClusters(references, { ...options, rejectedPairs });
+
+    const { error: deleteError } = await supabase
+      .from('duplicate_clusters')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('status', 'pending');
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    if (candidates.length > 0) {
+      const { error: insertError } = await supabase
+        .from('duplicate_clusters')
+        .insert(candidates.map(candidate => ({
+          project_id: projectId,
+          user_id: user?.id,
+          reference_ids: candidate.referenceIds,
+          similarity: candidate.similarity,
+          match_reasons: candidate.reasons,
+          status: 'pending'
+        })));
+
+      if (insertError) {
+        throw insertError;
+      }
+    }
+
+    return candidates;
+  }
+
+  static async getClusters(projectId: string, status = 'pending') {
+    const { data, error } = await supabase
+      .from('duplicate_clusters')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('status', status)
+      .order('similarity', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+    return data || [];
+  }
+
+  static async getClusterReferences(referenceIds: string[]): Promise<DedupRecord[]> {
+    const { data, error } = await supabase
+      .from('references')
+      .select(DEDUP_COLUMNS)
+      .in('id', referenceIds);
+
+    if (error) {
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * Applies a reviewer decision. "merge" copies the best metadata onto the
+   * primary record, "confirm" keeps the primary as-is; both mark the other
+   * records as duplicates so they are skipped by AI screening. "reject"
+   * records that the references are distinct.
+   */
+  static async resolveCluster(clusterId: string, action: ClusterAction, primaryReferenceId?: string) {
+    const { data: cluster, error: clusterError } = await supabase
+      .from('duplicate_clusters')
+      .select('*')
+      .eq('id', clusterId)
+      .single();
+
+    if (clusterError) {
+      throw clusterError;
+    }
+
+    if (action === 'reject') {
+      const { error } = await supabase
+        .from('duplicate_clusters')
+        .update({ status: 'rejected', resolved_at: new Date().toISOString() })
+        .eq('id', clusterId);
+      if (error) throw error;
+      return;
+    }
+
+    const records = await this.getClusterReferences(cluster.reference_ids);
+    const primary = records.find(record => record.id === primaryReferenceId) ?? choosePrimaryRecord(records);
+    const duplicates = records.filter(record => record.id !== primary.id);
+
+    if (action === 'merge') {
+      const { error } = await supabase
+        .from('references')
+        .update(mergeRecords(primary, duplicates))
+        .eq('id', primary.id);
+      if (error) throw error;
+    }
+
+    const { error: duplicatesError } = await supabase
+      .from('references')
+      .update({ status: 'duplicate', duplicate_of: primary.id })
+      .in('id', duplicates.map(duplicate => duplicate.id));
+
+    if (duplicatesError) {
+      throw duplicatesError;
+    }
+
+    const { error: updateError } = await supabase
+      .from('duplicate_clusters')
+      .update({
+        status: action === 'merge' ? 'merged' : 'confirmed',
+        primary_reference_id: primary.id,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', clusterId);
+
+    if (updateError) {
+      throw updateError;
+    }
+  }
+
+  // Counts for the PRISMA identification box
+  static async getPrismaCounts(projectId: string): Promise<PrismaIdentificationCounts> {
+    const identifiedByDatabase = await ReferenceImportService.getIdentificationCounts(projectId);
+
+    const { count: totalCount, error: totalError } = await supabase
+      .from('references')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId);
+
+    if (totalError) {
+      throw totalError;
+    }
+
+    const { count: duplicateCount, error: duplicateError } = await supabase
+      .from('references')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId)
+      .eq('status', 'duplicate');
+
+    if (duplicateError) {
+      throw duplicateError;
+    }
+
+    const totalIdentified = totalCount ?? 0;
+    const duplicatesRemoved = duplicateCount ?? 0;
+    return {
+      identifiedByDatabase,
+      totalIdentified,
+      duplicatesRemoved,
+      recordsAfterDeduplication: totalIdentified - duplicatesRemoved,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { decodeXmlEntities } from '../parsers/xml';
+import { RequestThrottle } from './requestThrottle';
+import type { MetadataResolver, ReferenceIdentifiers, ResolvedMetadata } from './types';
+
+const CROSSREF_API = 'https://api.crossref.org/works/';
+
+// Crossref's limits for the public pool and for the polite pool (requests with a contact address)
+const REQUESTS_PER_SECOND = { polite: 10, public: 5 };
+
+interface CrossrefWork {
+  abstract?: string;
+  'container-title'?: string[];
+  issued?: { 'date-parts'?: number[][] };
+  author?: { family?: string; given?: string; name?: string }[];
+  type?: string;
+}
+
+// Crossref abstracts are JATS XML fragments ("<jats:p>...</jats:p>")
+const stripJats = (abstract: string) =>
+  decodeXmlEntities(abstract.replace(/<jats:title>[^<]*<\/jats:title>/g, '').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+/**
+ * Resolves DOIs through the public Crossref REST API. Passing a contact
+ * address puts requests in Crossref's "polite" pool, which allows more
+ * requests per second.
+ */
+export class CrossrefResolver implements MetadataResolver {
+  readonly name = 'crossref';
+  private throttle: RequestThrottle;
+
+  constructor(private mailto?: string) {
+    this.throttle = new RequestThrottle(mailto ? REQUESTS_PER_SECOND.polite : REQUESTS_PER_SECOND.public);
+  }
+
+  async resolve({ doi }: ReferenceIdentifiers): Promise<ResolvedMetadata | null> {
+    if (!doi) return null;
+
+    const query = this.mailto ? `?mailto=${encodeURIComponent(this.mailto)}` : '';
+    const response = await this.throttle.fetch(`${CROSSREF_API}${encodeURIComponent(doi)}${query}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Crossref lookup failed for ${doi} (${response.status})`);
+    }
+
+    const { message: work } = await response.json() as { message: CrossrefWork };
+    const authors = (work.author || [])
+      .map(author => author.family ? [author.family, author.given].filter(Boolean).join(', ') : author.name)
+      .filter(Boolean);
+
+    return {
+      abstract: work.abstract ? stripJats(work.abstract) : undefined,
+      journal: work['container-title']?.[0],
+      year: work.issued?.['date-parts']?.[0]?.[0] ?? undefined,
+      authors: authors.length > 0 ? authors.join('; ') : undefined,
+      publicationType: work.type,
+    };
+  }
+}
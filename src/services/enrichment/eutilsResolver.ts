@@ -0,0 +1,58 @@
+import { parsePubMedXml } from '../parsers/pubmedXmlParser';
+import { RequestThrottle } from './requestThrottle';
+import type { MetadataResolver, ReferenceIdentifiers, ResolvedMetadata } from './types';
+
+const EUTILS_API = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/';
+
+// NCBI's limits per client, with and without an API key
+const REQUESTS_PER_SECOND = { withKey: 10, withoutKey: 3 };
+
+/**
+ * Resolves PMIDs with NCBI E-utilities efetch and reads the response with the
+ * PubMed XML import parser. References with only a DOI are looked up through
+ * esearch first. Requests are spaced to NCBI's limit of three per second
+ * without an API key and ten with one.
+ */
+export class EutilsResolver implements MetadataResolver {
+  readonly name = 'pubmed-eutils';
+  private throttle: RequestThrottle;
+
+  constructor(private apiKey?: string) {
+    this.throttle = new RequestThrottle(apiKey ? REQUESTS_PER_SECOND.withKey : REQUESTS_PER_SECOND.withoutKey);
+  }
+
+  async resolve({ doi, pmid }: ReferenceIdentifiers): Promise<ResolvedMetadata | null> {
+    const id = pmid || (doi ? await this.findPmid(doi) : undefined);
+    if (!id) return null;
+
+    const xml = await this.request('efetch.fcgi', { db: 'pubmed', id, retmode: 'xml' });
+    const [reference] = parsePubMedXml(await xml.text()).references;
+    if (!reference) return null;
+
+    const publicationTypes = reference.metadata?.publication_types;
+    return {
+      abstract: reference.abstract,
+      journal: reference.journal,
+      year: reference.year,
+      authors: reference.authors || undefined,
+      publicationType: Array.isArray(publicationTypes) ? publicationTypes.join('; ') : undefined,
+    };
+  }
+
+  private async findPmid(doi: string): Promise<string | undefined> {
+    const response = await this.request('esearch.fcgi', { db: 'pubmed', term: `${doi}[doi]`, retmode: 'json' });
+    const result = await response.json() as { esearchresult?: { idlist?: string[] } };
+    const ids = result.esearchresult?.idlist ?? [];
+    // Several hits means the DOI search was ambiguous; better to leave the record alone
+    return ids.length === 1 ? ids[0] : undefined;
+  }
+
+  private async request(endpoint: string, params: Record<string, string>): Promise<Response> {
+    const query = new URLSearchParams(this.apiKey ? { ...params, api_key: this.apiKey } : params);
+    const response = await this.throttle.fetch(`${EUTILS_API}${endpoint}?${query}`);
+    if (!response.ok) {
+      throw new Error(`PubMed E-utilities request failed (${response.status})`);
+    }
+    return response;
+  }
+}
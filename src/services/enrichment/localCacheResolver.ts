@@ -0,0 +1,52 @@
+import { normalizeDoi } from '../parsers/utils';
+import type { MetadataResolver, ReferenceIdentifiers, ResolvedMetadata } from './types';
+
+// Served from public/, so enrichment works without network access to external APIs
+export const DEFAULT_CACHE_URL = '/enrichment-cache.json';
+
+/**
+ * Cache file layout: an object keyed by "doi:<doi>" (lower case) or
+ * "pmid:<pmid>", each value a ResolvedMetadata record.
+ */
+export type MetadataCache = Record<string, ResolvedMetadata>;
+
+export const cacheKey = (type: 'doi' | 'pmid', value: string) =>
+  type === 'doi' ? `doi:${normalizeDoi(value).toLowerCase()}` : `pmid:${value.trim()}`;
+
+export class LocalCacheResolver implements MetadataResolver {
+  readonly name = 'local-cache';
+  private entries: Promise<MetadataCache>;
+
+  constructor(source: MetadataCache | string = DEFAULT_CACHE_URL) {
+    this.entries = typeof source === 'string' ? LocalCacheResolver.load(source) : Promise.resolve(source);
+  }
+
+  // A cache the user picked from disk instead of the bundled one
+  static fromFile(file: File): LocalCacheResolver {
+    const resolver = new LocalCacheResolver({});
+    resolver.entries = file.text().then(text => LocalCacheResolver.validate(JSON.parse(text)));
+    return resolver;
+  }
+
+  async resolve({ doi, pmid }: ReferenceIdentifiers): Promise<ResolvedMetadata | null> {
+    const entries = await this.entries;
+    return (doi && entries[cacheKey('doi', doi)]) || (pmid && entries[cacheKey('pmid', pmid)]) || null;
+  }
+
+  private static async load(url: string): Promise<MetadataCache> {
+    const response = await fetch(url);
+    // No cache deployed is the same as an empty cache (SPA hosts answer with index.html)
+    if (response.status === 404 || !response.headers.get('content-type')?.includes('json')) return {};
+    if (!response.ok) {
+      throw new Error(`Could not load metadata cache (${response.status})`);
+    }
+    return LocalCacheResolver.validate(await response.json());
+  }
+
+  private static validate(data: unknown): MetadataCache {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Metadata cache must be a JSON object keyed by "doi:..." or "pmid:..."');
+    }
+    return data as MetadataCache;
+  }
+}
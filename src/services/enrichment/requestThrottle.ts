@@ -0,0 +1,35 @@
+// Attempts per request while the source answers 429 Too Many Requests
+const MAX_ATTEMPTS = 4;
+// Wait before the first retry when the source sends no Retry-After; doubled for each further retry
+const RETRY_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Spaces a resolver's requests to the source's published rate limit and
+ * retries those the source still rejects as too many, honouring
+ * Retry-After. Each resolver instance holds its own throttle.
+ */
+export class RequestThrottle {
+  private nextSlot = 0;
+
+  constructor(private requestsPerSecond: number) {}
+
+  async fetch(url: string): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForSlot();
+      const response = await fetch(url);
+      if (response.status !== 429 || attempt >= MAX_ATTEMPTS) return response;
+
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      await sleep(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  private async waitForSlot() {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 1000 / this.requestsPerSecond;
+    if (slot > now) await sleep(slot - now);
+  }
+}
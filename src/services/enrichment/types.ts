@@ -0,0 +1,30 @@
+// Shared types for metadata resolvers used by EnrichmentService
+
+// Fields a resolver may fill; only missing values are ever written
+export const ENRICHABLE_FIELDS = ['abstract', 'journal', 'year', 'authors', 'publicationType'] as const;
+export type EnrichableField = typeof ENRICHABLE_FIELDS[number];
+
+export interface ResolvedMetadata {
+  abstract?: string;
+  journal?: string;
+  year?: number;
+  // "Surname Initials; ..." like the parsers produce
+  authors?: string;
+  publicationType?: string;
+}
+
+export interface ReferenceIdentifiers {
+  doi?: string;
+  pmid?: string;
+}
+
+/**
+ * Looks up metadata for one reference. Returns null when the identifiers are
+ * unknown to the source; throws only for failures worth reporting (network,
+ * malformed cache).
+ */
+export interface MetadataResolver {
+  // Recorded in references.metadata.enrichment as the source of each field
+  readonly name: string;
+  resolve(identifiers: ReferenceIdentifiers): Promise<ResolvedMetadata | null>;
+}
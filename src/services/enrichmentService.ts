@@ -0,0 +1,158 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/pagination';
+import { LocalCacheResolver } from './enrichment/localCacheResolver';
+import { ENRICHABLE_FIELDS, EnrichableField, MetadataResolver, ResolvedMetadata } from './enrichment/types';
+
+export { CrossrefResolver } from './enrichment/crossrefResolver';
+export { EutilsResolver } from './enrichment/eutilsResolver';
+export { LocalCacheResolver } from './enrichment/localCacheResolver';
+export type { EnrichableField, MetadataResolver, ResolvedMetadata } from './enrichment/types';
+
+export type EnrichmentCandidate = Pick<Tables<'references'>, 'id' | 'doi' | 'pmid' | 'abstract' | 'journal' | 'year' | 'authors' | 'metadata'>;
+
+export interface EnrichmentFailure {
+  referenceId: string;
+  resolver: string;
+  message: string;
+}
+
+export interface EnrichmentSummary {
+  checked: number;
+  enriched: number;
+  fieldsFilled: Partial<Record<EnrichableField, number>>;
+  failures: EnrichmentFailure[];
+}
+
+type ReferenceMetadata = Record<string, Json | undefined>;
+
+// A resolver that keeps failing (offline, still rate limited after retries, broken cache) is dropped for the rest of the run
+const MAX_RESOLVER_FAILURES = 5;
+
+const asMetadata = (metadata: Json | null): ReferenceMetadata =>
+  metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata as ReferenceMetadata : {};
+
+const hasValue = (value: unknown) =>
+  value !== null && value !== undefined && !(typeof value === 'string' && !value.trim()) && !(Array.isArray(value) && value.length === 0);
+
+// Fields still empty on a stored reference; publication type lives in metadata.publication_types
+export function missingFields(reference: EnrichmentCandidate): EnrichableField[] {
+  const metadata = asMetadata(reference.metadata);
+  return ENRICHABLE_FIELDS.filter(field =>
+    field === 'publicationType' ? !hasValue(metadata.publication_types) : !hasValue(reference[field])
+  );
+}
+
+/**
+ * Builds the update that fills `fields` from a resolver result. Existing
+ * values are never overwritten; each filled field is recorded in
+ * metadata.enrichment with its source so reviewers can tell it apart from
+ * what the database export contained.
+ */
+export function applyEnrichment(
+  reference: EnrichmentCandidate,
+  resolved: ResolvedMetadata,
+  source: string,
+  fields: EnrichableField[] = missingFields(reference)
+): { update: TablesUpdate<'references'>; filled: EnrichableField[] } {
+  const metadata = { ...asMetadata(reference.metadata) };
+  const enrichment = { ...asMetadata(metadata.enrichment as Json) };
+  const update: TablesUpdate<'references'> = {};
+  const filled: EnrichableField[] = [];
+  const enrichedAt = new Date().toISOString();
+
+  fields.forEach(field => {
+    const value = resolved[field];
+    if (!hasValue(value)) return;
+
+    if (field === 'publicationType') {
+      metadata.publication_types = String(value).split(/\s*;\s*/).filter(Boolean);
+    } else if (field === 'year') {
+      update.year = Number(value);
+    } else {
+      update[field] = String(value).trim();
+    }
+    enrichment[field] = { source, enriched_at: enrichedAt };
+    filled.push(field);
+  });
+
+  if (filled.length > 0) {
+    update.metadata = { ...metadata, enrichment } as Json;
+  }
+  return { update, filled };
+}
+
+export class EnrichmentService {
+  // Offline by default; online resolvers are opt-in because they send identifiers to third parties
+  static defaultResolvers(): MetadataResolver[] {
+    return [new LocalCacheResolver()];
+  }
+
+  // References with an identifier and at least one empty enrichable field
+  static async getCandidates(projectId: string): Promise<EnrichmentCandidate[]> {
+    const references = await fetchAllPages((from, to) => supabase
+      .from('references')
+      .select('id, doi, pmid, abstract, journal, year, authors, metadata')
+      .eq('project_id', projectId)
+      .neq('status', 'duplicate')
+      .or('doi.not.is.null,pmid.not.is.null')
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    return references.filter(reference => missingFields(reference).length > 0);
+  }
+
+  /**
+   * Asks each resolver in order for the fields that are still missing and
+   * writes what was found. A resolver failing for one reference is recorded
+   * and the next resolver is tried.
+   */
+  static async enrichProject(
+    projectId: string,
+    resolvers: MetadataResolver[] = this.defaultResolvers(),
+    onProgress?: (done: number, total: number) => void
+  ): Promise<EnrichmentSummary> {
+    const candidates = await this.getCandidates(projectId);
+    const summary: EnrichmentSummary = { checked: candidates.length, enriched: 0, fieldsFilled: {}, failures: [] };
+    const failureCounts = new Map<MetadataResolver, number>();
+
+    for (const [index, reference] of candidates.entries()) {
+      let current = reference;
+      let changed = false;
+
+      for (const resolver of resolvers) {
+        const fields = missingFields(current);
+        if (fields.length === 0) break;
+        if ((failureCounts.get(resolver) ?? 0) >= MAX_RESOLVER_FAILURES) continue;
+
+        try {
+          const resolved = await resolver.resolve({ doi: current.doi ?? undefined, pmid: current.pmid ?? undefined });
+          if (!resolved) continue;
+
+          const { update, filled } = applyEnrichment(current, resolved, resolver.name, fields);
+          if (filled.length === 0) continue;
+
+          const { error } = await supabase.from('references').update(update).eq('id', current.id);
+          if (error) {
+            throw error;
+          }
+          current = { ...current, ...update };
+          changed = true;
+          filled.forEach(field => { summary.fieldsFilled[field] = (summary.fieldsFilled[field] ?? 0) + 1; });
+        } catch (error) {
+          failureCounts.set(resolver, (failureCounts.get(resolver) ?? 0) + 1);
+          summary.failures.push({
+            referenceId: reference.id,
+            resolver: resolver.name,
+            message: error instanceof Error ? error.message : (error as { message?: string })?.message ?? 'Lookup failed',
+          });
+        }
+      }
+
+      if (changed) summary.enriched++;
+      onProgress?.(index + 1, candidates.length);
+    }
+
+    return summary;
+  }
+}
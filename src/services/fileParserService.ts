@@ -1,135 +1,218 @@
-export interface ParsedReference {
-  title: string;
-  authors: string;
-  abstract?: string;
-  journal?: string;
-  year?: number;
-  doi?: string;
-  pmid?: string;
-  url?: string;
+import { parseBibTeX } from './parsers/bibtexParser';
+import { parseCochrane } from './parsers/cochraneParser';
+import { detectFormat, ImportFormat } from './parsers/detectFormat';
+import { parseEmbase } from './parsers/embaseParser';
+import { parseMedline } from './parsers/medlineParser';
+import { parsePubMedXml } from './parsers/pubmedXmlParser';
+import { parseRIS } from './parsers/risParser';
+import { parseScopusCsv } from './parsers/scopusCsvParser';
+import { guessColumnMapping, parseSpreadsheet, readSpreadsheetText } from './parsers/spreadsheetParser';
+import { ChunkedParseResult, findRecordBoundary } from './parsers/streaming';
+import type { ParsedReference, ParseResult, ParseWarning } from './parsers/types';
+import { createFileDecoder, decodeFileBuffer, normalizeText } from './parsers/utils';
+import { checkReferenceFields } from './parsers/validation';
+import { readXlsxTable } from './parsers/xlsxReader';
+import { isZip } from './parsers/zip';
+import { parseWebOfScience } from './parsers/webOfScienceParser';
+
+export type { ImportIssueCode, ParsedReference, ParseResult, ParseWarning } from './parsers/types';
+export { SKIPPED_RECORD_CODES } from './parsers/types';
+export { IMPORT_FORMATS } from './parsers/detectFormat';
+export type { ImportFormat } from './parsers/detectFormat';
+
+// Parse result together with the format that was used (resolved when auto-detecting)
+export interface ParsedFile extends ParseResult {
+  format: ImportFormat;
 }
 
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  recordsParsed: number;
+}
+
+// Messages posted by workers/referenceParser.worker.ts
+export type ParserWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'result'; parsed: ParsedFile }
+  | { type: 'error'; message: string };
+
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+// Enough text for detectFormat to see its signatures
+const DETECT_SAMPLE_LENGTH = 64 * 1024;
+
 export class FileParserService {
-  static async parseFile(file: File, format: string): Promise<ParsedReference[]> {
-    const text = await file.text();
-    
-    switch (format) {
-      case 'bibtex':
-        return this.parseBibTeX(text);
-      case 'ris':
-        return this.parseRIS(text);
-      case 'endnote':
-        return this.parseEndNote(text);
-      case 'pubmed':
-        return this.parsePubMed(text);
-      case 'auto-detect':
-        return this.autoDetectAndParse(text);
-      default:
-        throw new Error(`Unsupported format: ${format}`);
+  static async parseFile(file: File, format: string): Promise<ParsedFile> {
+    const buffer = await file.arrayBuffer();
+    if (this.isWorkbook(format, new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 4)))) {
+      return this.parseXlsx(buffer);
     }
+    const text = normalizeText(decodeFileBuffer(buffer));
+    return this.parseText(text, format);
   }
 
-  private static autoDetectAndParse(text: string): ParsedReference[] {
-    // Simple auto-detection based on file content patterns
-    if (text.includes('@article') || text.includes('@inproceedings')) {
-      return this.parseBibTeX(text);
-    }
-    if (text.includes('TY  -') || text.includes('AU  -')) {
-      return this.parseRIS(text);
+  /**
+   * Parses a file off the main thread so large exports do not freeze the tab.
+   * Falls back to incremental parsing in place where workers are unavailable.
+   */
+  static parseFileInWorker(file: File, format: string, onProgress?: (progress: ParseProgress) => void): Promise<ParsedFile> {
+    if (typeof Worker === 'undefined') {
+      return this.parseFileIncrementally(file, format, onProgress);
     }
-    if (text.includes('PMID-') || text.includes('%A ')) {
-      return this.parseEndNote(text);
-    }
-    // Default to treating as plain text with basic parsing
-    return this.parseGeneric(text);
-  }
 
-  private static parseBibTeX(text: string): ParsedReference[] {
-    const references: ParsedReference[] = [];
-    const entries = text.split('@').filter(entry => entry.trim());
-
-    entries.forEach(entry => {
-      const titleMatch = entry.match(/title\s*=\s*[{"](.*?)["}]/i);
-      const authorMatch = entry.match(/author\s*=\s*[{"](.*?)["}]/i);
-      const journalMatch = entry.match(/journal\s*=\s*[{"](.*?)["}]/i);
-      const yearMatch = entry.match(/year\s*=\s*[{"]*(\d{4})["}]*/i);
-      const doiMatch = entry.match(/doi\s*=\s*[{"](.*?)["}]/i);
-
-      if (titleMatch) {
-        references.push({
-          title: titleMatch[1],
-          authors: authorMatch ? authorMatch[1] : '',
-          journal: journalMatch ? journalMatch[1] : undefined,
-          year: yearMatch ? parseInt(yearMatch[1]) : undefined,
-          doi: doiMatch ? doiMatch[1] : undefined,
-        });
-      }
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../workers/referenceParser.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ParserWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') {
+          onProgress?.(message.progress);
+          return;
+        }
+        worker.terminate();
+        if (message.type === 'result') {
+          resolve(message.parsed);
+        } else {
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        worker.terminate();
+        reject(new Error(event.message || `Could not parse ${file.name}`));
+      };
+      worker.postMessage({ file, format });
     });
-
-    return references;
   }
 
-  private static parseRIS(text: string): ParsedReference[] {
-    const references: ParsedReference[] = [];
-    const entries = text.split('ER  -').filter(entry => entry.trim());
+  /**
+   * Reads the file in slices and parses every complete record as soon as it
+   * has been read, so memory holds one slice of text rather than the whole
+   * file. Formats without a safe record boundary are parsed at the end.
+   */
+  static async parseFileIncrementally(file: File, format: string, onProgress?: (progress: ParseProgress) => void): Promise<ParsedFile> {
+    const firstBytes = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    if (this.isWorkbook(format, firstBytes)) {
+      // Workbooks are compressed archives and have to be read whole
+      const parsed = await this.parseXlsx(await file.arrayBuffer());
+      onProgress?.({ bytesRead: file.size, totalBytes: file.size, recordsParsed: parsed.references.length });
+      return parsed;
+    }
 
-    entries.forEach(entry => {
-      const lines = entry.split('\n');
-      const reference: Partial<ParsedReference> = {};
+    const decoder = createFileDecoder(firstBytes);
+    let resolvedFormat = format === 'auto-detect' ? null : format as ImportFormat;
+    let collected = resolvedFormat ? new ChunkedParseResult(resolvedFormat) : null;
+    let pending = '';
+    let carriageReturn = '';
+
+    for (let offset = 0; offset < file.size || offset === 0; offset += READ_CHUNK_SIZE) {
+      const isLast = offset + READ_CHUNK_SIZE >= file.size;
+      const bytes = await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer();
+      let text = carriageReturn + decoder.decode(bytes, { stream: !isLast });
+
+      // A "\r\n" split across slices must not become two line breaks
+      carriageReturn = !isLast && text.endsWith('\r') ? '\r' : '';
+      if (carriageReturn) text = text.slice(0, -1);
+      pending += normalizeText(text);
+
+      if (!resolvedFormat && (pending.length >= DETECT_SAMPLE_LENGTH || isLast)) {
+        resolvedFormat = detectFormat(pending);
+        if (!resolvedFormat) {
+          throw new Error('Could not detect the file format. Please choose the export format manually.');
+        }
+        collected = new ChunkedParseResult(resolvedFormat);
+      }
 
-      lines.forEach(line => {
-        const [tag, ...valueParts] = line.split(' - ');
-        const value = valueParts.join(' - ').trim();
-
-        switch (tag.trim()) {
-          case 'TI': {
-            reference.title = value;
-            break;
-          }
-          case 'AU': {
-            reference.authors = reference.authors ? `${reference.authors}; ${value}` : value;
-            break;
-          }
-          case 'JO':
-          case 'JF': {
-            reference.journal = value;
-            break;
-          }
-          case 'PY': {
-            const yearMatch = value.match(/(\d{4})/);
-            if (yearMatch) reference.year = parseInt(yearMatch[1]);
-            break;
-          }
-          case 'DO': {
-            reference.doi = value;
-            break;
-          }
-          case 'AB': {
-            reference.abstract = value;
-            break;
-          }
-          case 'UR': {
-            reference.url = value;
-            break;
-          }
+      if (collected && !isLast) {
+        const boundary = findRecordBoundary(resolvedFormat, pending);
+        if (boundary > 0) {
+          const complete = pending.slice(0, boundary);
+          pending = pending.slice(boundary);
+          collected.add(complete, this.parseWithFormat(complete, resolvedFormat));
         }
+      }
+
+      onProgress?.({
+        bytesRead: Math.min(offset + READ_CHUNK_SIZE, file.size),
+        totalBytes: file.size,
+        recordsParsed: collected?.recordsParsed ?? 0,
       });
+    }
+
+    if (pending.trim()) {
+      collected.add(pending, this.parseWithFormat(pending, resolvedFormat));
+    }
+    return { ...collected.toResult(), format: resolvedFormat };
+  }
 
-      if (reference.title) {
-        references.push(reference as ParsedReference);
+  static parseText(text: string, format: string): ParsedFile {
+    if (format === 'auto-detect') {
+      return this.autoDetectAndParse(text);
+    }
+    return { ...this.parseWithFormat(text, format), format: format as ImportFormat };
+  }
+
+  private static parseWithFormat(text: string, format: string): ParseResult {
+    switch (format) {
+      case 'bibtex':
+        return parseBibTeX(text);
+      case 'ris':
+        return parseRIS(text);
+      case 'embase':
+        return parseEmbase(text);
+      case 'endnote':
+        return this.parseEndNote(text);
+      case 'pubmed':
+        return parseMedline(text);
+      case 'pubmed-xml':
+        return parsePubMedXml(text);
+      case 'wos':
+        return parseWebOfScience(text);
+      case 'scopus':
+        return parseScopusCsv(text);
+      case 'cochrane':
+        return parseCochrane(text);
+      case 'csv': {
+        const table = readSpreadsheetText(text);
+        return parseSpreadsheet(table, guessColumnMapping(table.headers), 'csv');
       }
-    });
+      case 'xlsx':
+        throw new Error('Excel workbooks are binary files; read them with parseFile');
+      default:
+        throw new Error(`Unsupported format: ${format}`);
+    }
+  }
+
+  private static isWorkbook(format: string, firstBytes: Uint8Array): boolean {
+    return format === 'xlsx' || (format === 'auto-detect' && isZip(firstBytes));
+  }
 
-    return references;
+  private static async parseXlsx(buffer: ArrayBuffer): Promise<ParsedFile> {
+    const table = await readXlsxTable(buffer);
+    return { ...parseSpreadsheet(table, guessColumnMapping(table.headers), 'xlsx'), format: 'xlsx' };
   }
 
-  private static parseEndNote(text: string): ParsedReference[] {
+  private static autoDetectAndParse(text: string): ParsedFile {
+    const format = detectFormat(text);
+    if (!format) {
+      throw new Error('Could not detect the file format. Please choose the export format manually.');
+    }
+    return { ...this.parseWithFormat(text, format), format };
+  }
+
+  private static parseEndNote(text: string): ParseResult {
     const references: ParsedReference[] = [];
-    const entries = text.split('\n\n').filter(entry => entry.trim());
+    const warnings: ParseWarning[] = [];
+    let lineNumber = 1;
+    let entryIndex = 0;
+
+    text.split('\n\n').forEach(entry => {
+      const entryLine = lineNumber + (entry.match(/^\n*/)?.[0].length ?? 0);
+      lineNumber += entry.split('\n').length + 1;
+      if (!entry.trim()) return;
 
-    entries.forEach(entry => {
+      const index = entryIndex++;
       const lines = entry.split('\n');
       const reference: Partial<ParsedReference> = {};
+      let rawYear: string | undefined;
 
       lines.forEach(line => {
         if (line.startsWith('%T ')) {
@@ -139,7 +222,8 @@ export class FileParserService {
         } else if (line.startsWith('%J ')) {
           reference.journal = line.substring(3);
         } else if (line.startsWith('%D ')) {
-          const year = parseInt(line.substring(3));
+          rawYear = line.substring(3);
+          const year = parseInt(rawYear);
           if (!isNaN(year)) reference.year = year;
         } else if (line.startsWith('%X ')) {
           reference.abstract = line.substring(3);
@@ -148,65 +232,17 @@ export class FileParserService {
         }
       });
 
-      if (reference.title) {
-        references.push(reference as ParsedReference);
-      }
-    });
-
-    return references;
-  }
-
-  private static parsePubMed(text: string): ParsedReference[] {
-    const references: ParsedReference[] = [];
-    const entries = text.split('\n\n').filter(entry => entry.trim());
-
-    entries.forEach(entry => {
-      const lines = entry.split('\n');
-      const reference: Partial<ParsedReference> = {};
-
-      lines.forEach(line => {
-        if (line.startsWith('TI  - ')) {
-          reference.title = line.substring(6);
-        } else if (line.startsWith('AU  - ')) {
-          reference.authors = reference.authors ? `${reference.authors}; ${line.substring(6)}` : line.substring(6);
-        } else if (line.startsWith('SO  - ')) {
-          reference.journal = line.substring(6);
-        } else if (line.startsWith('DP  - ')) {
-          const yearMatch = line.substring(6).match(/(\d{4})/);
-          if (yearMatch) reference.year = parseInt(yearMatch[1]);
-        } else if (line.startsWith('AB  - ')) {
-          reference.abstract = line.substring(6);
-        } else if (line.startsWith('LID - ')) {
-          const doiMatch = line.substring(6).match(/\S+/);
-          if (doiMatch) reference.doi = doiMatch[0];
-        } else if (line.startsWith('PMID- ')) {
-          reference.pmid = line.substring(6);
-        }
-      });
-
-      if (reference.title) {
-        references.push(reference as ParsedReference);
+      if (!reference.title) {
+        warnings.push({ entry: index, line: entryLine, code: 'missing_title', message: 'Record has no title and was not imported' });
+        return;
       }
-    });
-
-    return references;
-  }
-
-  private static parseGeneric(text: string): ParsedReference[] {
-    // Basic fallback parser for unrecognized formats
-    const lines = text.split('\n').filter(line => line.trim());
-    const references: ParsedReference[] = [];
-    
-    // Simple heuristic: assume each non-empty line might be a title
-    lines.forEach((line) => {
-      if (line.trim() && line.length > 10) {
-        references.push({
-          title: line.trim(),
-          authors: '', // Will need manual entry
-        });
+      if (rawYear && reference.year === undefined) {
+        warnings.push({ entry: index, line: entryLine, code: 'invalid_year', field: 'year', message: `Could not read a year from "${rawYear}"` });
       }
+      warnings.push(...checkReferenceFields(reference as ParsedReference, { entry: index, line: entryLine }));
+      references.push(reference as ParsedReference);
     });
 
-    return references;
+    return { references, warnings };
   }
-}
\ No newline at end of file
+}
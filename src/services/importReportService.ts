@@ -0,0 +1,122 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ImportFormat } from './parsers/detectFormat';
+import { ImportIssueCode, ParseResult, ParseWarning, SKIPPED_RECORD_CODES } from './parsers/types';
+
+// Validation report for one imported file, stored on import_batches.report
+export interface ImportReport {
+  fileName: string;
+  format: ImportFormat;
+  createdAt: string;
+  // Records read from the file, including skipped ones
+  parsedRecords: number;
+  importedRecords: number;
+  skippedRecords: number;
+  issueCounts: Partial<Record<ImportIssueCode, number>>;
+  issues: ParseWarning[];
+}
+
+export interface StoredImportReport {
+  batchId: string;
+  sourceDatabase: string;
+  report: ImportReport;
+}
+
+export const ISSUE_LABELS: Record<ImportIssueCode, string> = {
+  missing_title: 'Skipped: no title',
+  malformed_record: 'Skipped: malformed record',
+  missing_terminator: 'Missing record terminator',
+  malformed_row: 'Wrong number of columns',
+  duplicate_field: 'Duplicate field',
+  undefined_macro: 'Undefined BibTeX macro',
+  missing_abstract: 'Missing abstract',
+  missing_pmid: 'Missing PMID',
+  invalid_year: 'Unreadable year',
+  invalid_doi: 'Invalid DOI',
+  invalid_pmid: 'Non-numeric PMID',
+  encoding: 'Encoding problem',
+};
+
+export const isSkippedRecord = (issue: ParseWarning) => SKIPPED_RECORD_CODES.includes(issue.code);
+
+/**
+ * Summarises parser issues for one file. `importedRecords` is the number
+ * actually sent to the database, which is lower than the parsed count when
+ * rows were excluded in the preview.
+ */
+export function buildImportReport(
+  fileName: string,
+  format: ImportFormat,
+  parsed: ParseResult,
+  importedRecords = parsed.references.length
+): ImportReport {
+  const skippedRecords = parsed.warnings.filter(isSkippedRecord).length;
+  const issueCounts: Partial<Record<ImportIssueCode, number>> = {};
+  parsed.warnings.forEach(issue => {
+    issueCounts[issue.code] = (issueCounts[issue.code] ?? 0) + 1;
+  });
+
+  return {
+    fileName,
+    format,
+    createdAt: new Date().toISOString(),
+    parsedRecords: parsed.references.length + skippedRecords,
+    importedRecords,
+    skippedRecords,
+    issueCounts,
+    issues: parsed.warnings,
+  };
+}
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per issue, with 1-based record numbers so they match the source export
+export function importReportToCsv(reports: ImportReport[]): string {
+  const header = ['File', 'Line', 'Record', 'Record ID', 'Code', 'Issue', 'Field', 'Skipped', 'Message'];
+  const rows = reports.flatMap(report => report.issues.map(issue => [
+    report.fileName,
+    issue.line,
+    issue.entry !== undefined ? issue.entry + 1 : undefined,
+    issue.key,
+    issue.code,
+    ISSUE_LABELS[issue.code] ?? issue.code,
+    issue.field,
+    isSkippedRecord(issue) ? 'yes' : 'no',
+    issue.message,
+  ].map(csvCell).join(',')));
+  return [header.join(','), ...rows].join('\n');
+}
+
+export function downloadImportReportCsv(reports: ImportReport[], filename: string) {
+  const blob = new Blob([importReportToCsv(reports)], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+export class ImportReportService {
+  static async getProjectReports(projectId: string): Promise<StoredImportReport[]> {
+    const { data, error } = await supabase
+      .from('import_batches')
+      .select('id, source_database, report')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || [])
+      .filter(batch => batch.report)
+      .map(batch => ({
+        batchId: batch.id,
+        sourceDatabase: batch.source_database,
+        report: batch.report as unknown as ImportReport,
+      }));
+  }
+}
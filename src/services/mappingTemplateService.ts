@@ -0,0 +1,73 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { mappingMatchesHeaders } from './parsers/spreadsheetParser';
+import type { ColumnMapping } from './parsers/types';
+
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  // Headers of the spreadsheet the template was saved from
+  headers: string[];
+}
+
+// The most specific saved template whose mapped columns all exist in the spreadsheet
+export function findMatchingTemplate(templates: MappingTemplate[], headers: string[]): MappingTemplate | undefined {
+  return templates
+    .filter(template => mappingMatchesHeaders(template.mapping, headers))
+    .sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length)[0];
+}
+
+export class MappingTemplateService {
+  static async getTemplates(): Promise<MappingTemplate[]> {
+    const { data, error } = await supabase
+      .from('import_mapping_templates')
+      .select('id, name, mapping, headers')
+      .order('name');
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(template => ({
+      id: template.id,
+      name: template.name,
+      mapping: template.mapping as ColumnMapping,
+      headers: template.headers ?? [],
+    }));
+  }
+
+  // Saving under an existing name replaces that template
+  static async saveTemplate(name: string, mapping: ColumnMapping, headers: string[]): Promise<MappingTemplate> {
+    const { data: { user } } = await supabase.auth.getUser();
+    // Only mapped columns are stored; "keep as metadata" is the default anyway
+    const stored = Object.fromEntries(Object.entries(mapping).filter(([, field]) => field));
+
+    const { data, error } = await supabase
+      .from('import_mapping_templates')
+      .upsert({
+        user_id: user?.id,
+        name,
+        mapping: stored as Json,
+        headers
+      }, { onConflict: 'user_id,name' })
+      .select('id, name, mapping, headers')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return { id: data.id, name: data.name, mapping: data.mapping as ColumnMapping, headers: data.headers ?? [] };
+  }
+
+  static async deleteTemplate(id: string) {
+    const { error } = await supabase
+      .from('import_mapping_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
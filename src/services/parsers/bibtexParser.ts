@@ -0,0 +1,353 @@
+import { decodeLatex } from './latex';
+import type { ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { normalizeDoi, normalizeText } from './utils';
+import { checkReferenceFields } from './validation';
+
+// Month macros predefined by every BibTeX style
+const PREDEFINED_MACROS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+};
+
+// Fields mapped onto ParsedReference; everything else is kept in metadata.fields
+const CORE_FIELDS = new Set([
+  'title', 'author', 'abstract', 'journal', 'journaltitle', 'booktitle', 'year', 'date',
+  'doi', 'pmid', 'url', 'keywords',
+]);
+
+// Fields whose raw value must not go through LaTeX decoding
+const VERBATIM_FIELDS = new Set(['url', 'doi', 'file', 'eprint']);
+
+class BibTeXSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'BibTeXSyntaxError';
+  }
+}
+
+interface RawEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+  position: number;
+  // Zero-based index among the "@type{" blocks in the file, counting skipped and @string/@comment ones
+  ordinal: number;
+}
+
+/**
+ * Tokenizer-based BibTeX reader. Handles nested braces, quoted values,
+ * @string macros with # concatenation, @comment/@preamble blocks and
+ * recovers from malformed entries by resynchronising at the next "@".
+ */
+class BibTeXReader {
+  private pos = 0;
+  // Ordinal of the block being read, reported as the warnings' entry
+  private ordinal = -1;
+  private macros: Record<string, string> = { ...PREDEFINED_MACROS };
+  private lineStarts: number[] = [0];
+  readonly entries: RawEntry[] = [];
+  readonly warnings: ParseWarning[] = [];
+
+  constructor(private text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  read() {
+    while (this.seekEntry()) {
+      const start = this.pos;
+      // Text outside entries is a comment in BibTeX, so a stray "@" (e.g. an email) is not an entry
+      if (!/^@\s*[A-Za-z]+\s*[{(]/.test(this.text.slice(start, start + 64))) {
+        this.pos++;
+        continue;
+      }
+      this.ordinal++;
+      try {
+        this.readBlock(start);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.warnings.push({
+          entry: this.ordinal,
+          line: this.lineAt(start),
+          code: 'malformed_record',
+          message: `Skipped malformed entry: ${message}`,
+        });
+        this.pos = start + 1;
+      }
+    }
+  }
+
+  lineAt(position: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+
+  private seekEntry(): boolean {
+    const next = this.text.indexOf('@', this.pos);
+    if (next === -1) return false;
+    this.pos = next;
+    return true;
+  }
+
+  private readBlock(start: number) {
+    this.pos++; // skip "@"
+    const type = this.readIdentifier().toLowerCase();
+    if (!type) throw new BibTeXSyntaxError('missing entry type after "@"', start);
+    this.skipWhitespace();
+
+    const open = this.text[this.pos];
+    if (open !== '{' && open !== '(') {
+      throw new BibTeXSyntaxError(`expected "{" or "(" after @${type}`, this.pos);
+    }
+    const close = open === '{' ? '}' : ')';
+    this.pos++;
+
+    if (type === 'comment') {
+      this.skipBalanced(open, close);
+      return;
+    }
+    if (type === 'preamble') {
+      this.skipWhitespace();
+      this.readValue();
+      this.expectClose(close);
+      return;
+    }
+    if (type === 'string') {
+      this.skipWhitespace();
+      const name = this.readIdentifier().toLowerCase();
+      this.skipWhitespace();
+      this.expect('=');
+      this.macros[name] = this.readValue();
+      this.skipWhitespace();
+      if (this.text[this.pos] === ',') this.pos++;
+      this.expectClose(close);
+      return;
+    }
+
+    this.skipWhitespace();
+    const key = this.readKey(close);
+    const fields: Record<string, string> = {};
+
+    this.skipWhitespace();
+    while (this.text[this.pos] === ',') {
+      this.pos++;
+      this.skipWhitespace();
+      if (this.text[this.pos] === close) break;
+
+      const name = this.readIdentifier().toLowerCase();
+      if (!name) throw new BibTeXSyntaxError('expected a field name', this.pos);
+      this.skipWhitespace();
+      this.expect('=');
+      const value = this.readValue();
+      if (name in fields) {
+        this.warnings.push({
+          entry: this.ordinal,
+          line: this.lineAt(start),
+          key,
+          code: 'duplicate_field',
+          field: name,
+          message: `Duplicate field "${name}" ignored`,
+        });
+      } else {
+        fields[name] = value;
+      }
+      this.skipWhitespace();
+    }
+
+    this.expectClose(close);
+    this.entries.push({ type, key, fields, position: start, ordinal: this.ordinal });
+  }
+
+  private readKey(close: string): string {
+    const begin = this.pos;
+    while (this.pos < this.text.length && !/[,\s]/.test(this.text[this.pos]) && this.text[this.pos] !== close) {
+      this.pos++;
+    }
+    return this.text.slice(begin, this.pos);
+  }
+
+  private readIdentifier(): string {
+    const match = /^[^\s"#%'(),={}@]+/.exec(this.text.slice(this.pos, this.pos + 256));
+    if (!match) return '';
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  // value = part ("#" part)*
+  private readValue(): string {
+    let value = '';
+    for (;;) {
+      this.skipWhitespace();
+      value += this.readValuePart();
+      this.skipWhitespace();
+      if (this.text[this.pos] !== '#') break;
+      this.pos++;
+    }
+    return value;
+  }
+
+  private readValuePart(): string {
+    const char = this.text[this.pos];
+    if (char === '{') {
+      const begin = ++this.pos;
+      this.skipBalanced('{', '}');
+      return this.text.slice(begin, this.pos - 1);
+    }
+    if (char === '"') {
+      const begin = ++this.pos;
+      let depth = 0;
+      while (this.pos < this.text.length) {
+        const current = this.text[this.pos];
+        if (current === '\\') {
+          this.pos += 2;
+          continue;
+        }
+        if (current === '{') depth++;
+        else if (current === '}') depth--;
+        else if (current === '"' && depth === 0) break;
+        this.pos++;
+      }
+      if (this.pos >= this.text.length) throw new BibTeXSyntaxError('unterminated quoted value', begin);
+      this.pos++;
+      return this.text.slice(begin, this.pos - 1);
+    }
+    if (/\d/.test(char ?? '')) {
+      const match = /^\d+/.exec(this.text.slice(this.pos, this.pos + 32));
+      this.pos += match![0].length;
+      return match![0];
+    }
+    const name = this.readIdentifier();
+    if (!name) throw new BibTeXSyntaxError('expected a value', this.pos);
+    const macro = this.macros[name.toLowerCase()];
+    if (macro === undefined) {
+      this.warnings.push({ entry: this.ordinal, line: this.lineAt(this.pos), code: 'undefined_macro', message: `Undefined macro "${name}"` });
+      return name;
+    }
+    return macro;
+  }
+
+  // Advances past the matching close delimiter, honouring nesting and escapes
+  private skipBalanced(open: string, close: string) {
+    let depth = 1;
+    const begin = this.pos;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === '\\') {
+        this.pos++;
+      } else if (char === open) {
+        depth++;
+      } else if (char === close && --depth === 0) {
+        return;
+      }
+    }
+    throw new BibTeXSyntaxError('unbalanced braces', begin);
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private expect(char: string) {
+    if (this.text[this.pos] !== char) {
+      throw new BibTeXSyntaxError(`expected "${char}" but found "${this.text[this.pos] ?? 'end of file'}"`, this.pos);
+    }
+    this.pos++;
+  }
+
+  private expectClose(close: string) {
+    this.skipWhitespace();
+    this.expect(close);
+  }
+}
+
+// Splits "A and B and {Barnes and Noble}" on top-level "and" only
+function splitAuthors(raw: string): string[] {
+  const authors: string[] = [];
+  let depth = 0;
+  let current = '';
+  const tokens = raw.split(/(\s+and\s+|[{}])/i);
+  for (const token of tokens) {
+    if (token === '{') depth++;
+    if (token === '}') depth--;
+    if (depth === 0 && /^\s+and\s+$/i.test(token)) {
+      authors.push(current);
+      current = '';
+    } else {
+      current += token;
+    }
+  }
+  authors.push(current);
+  return authors.map(author => decodeLatex(author)).filter(author => author && author.toLowerCase() !== 'others');
+}
+
+function toReference(entry: RawEntry): ParsedReference {
+  const { fields } = entry;
+  const decode = (name: string) => (fields[name] !== undefined ? decodeLatex(fields[name]) : undefined);
+
+  const yearSource = fields.year ?? fields.date;
+  const yearMatch = yearSource?.match(/\d{4}/);
+
+  const metadataFields: Record<string, string> = {};
+  Object.entries(fields).forEach(([name, value]) => {
+    if (!CORE_FIELDS.has(name)) {
+      metadataFields[name] = VERBATIM_FIELDS.has(name) ? value.trim() : decodeLatex(value);
+    }
+  });
+
+  const metadata: ReferenceMetadata = {
+    source_format: 'bibtex',
+    entry_type: entry.type,
+    citation_key: entry.key,
+  };
+  if (Object.keys(metadataFields).length > 0) metadata.fields = metadataFields;
+
+  return {
+    title: decode('title') ?? '',
+    authors: fields.author ? splitAuthors(fields.author).join('; ') : '',
+    abstract: decode('abstract') || undefined,
+    journal: decode('journal') || decode('journaltitle') || decode('booktitle') || undefined,
+    year: yearMatch ? parseInt(yearMatch[0]) : undefined,
+    doi: fields.doi ? normalizeDoi(fields.doi) : undefined,
+    pmid: fields.pmid?.trim() || undefined,
+    url: fields.url?.trim() || undefined,
+    keywords: fields.keywords
+      ? fields.keywords.split(/[;,]/).map(keyword => decodeLatex(keyword)).filter(Boolean)
+      : undefined,
+    metadata,
+  };
+}
+
+export function parseBibTeX(text: string): ParseResult {
+  const reader = new BibTeXReader(normalizeText(text));
+  reader.read();
+
+  const references: ParsedReference[] = [];
+  const warnings = [...reader.warnings];
+
+  reader.entries.forEach(entry => {
+    const reference = toReference(entry);
+    const line = reader.lineAt(entry.position);
+    const index = entry.ordinal;
+
+    if (!reference.title) {
+      warnings.push({ entry: index, line, key: entry.key, code: 'missing_title', message: 'Entry has no title and was not imported' });
+      return;
+    }
+    const yearSource = entry.fields.year ?? entry.fields.date;
+    if (yearSource && reference.year === undefined) {
+      warnings.push({ entry: index, line, key: entry.key, code: 'invalid_year', field: 'year', message: `Could not read a year from "${yearSource}"` });
+    }
+    warnings.push(...checkReferenceFields(reference, { entry: index, line, key: entry.key }));
+    references.push(reference);
+  });
+
+  warnings.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return { references, warnings };
+}
@@ -0,0 +1,83 @@
+import { collectUnmappedTags, getFirst, getValues, readTaggedRecords, TaggedRecord } from './taggedFormat';
+import type { ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { normalizeDoi, normalizeText, parseYear, uniqueValues } from './utils';
+import { checkReferenceFields } from './validation';
+
+// "ID: CN-01234567", "DOI: 10.1002/..."
+const COCHRANE_TAG_LINE = /^([A-Z]{2,3}): ?(.*)$/;
+
+// "Record #3 of 120" separators; blanked out (not removed) so line numbers stay accurate
+const RECORD_SEPARATOR = /^Record #\d+ of \d+[ \t]*$/gm;
+
+const MAPPED_TAGS = new Set(['ID', 'AU', 'TI', 'SO', 'YR', 'VL', 'NO', 'PG', 'XR', 'PT', 'KY', 'DOI', 'AB', 'US', 'PM', 'CC', 'ED', 'LA']);
+
+function toReference(record: TaggedRecord): ParsedReference {
+  const accession = getFirst(record, 'ID');
+  // "PUBMED 31234567"
+  const pubmed = /(\d{1,9})/.exec(getValues(record, 'PM').join(' '));
+  const doi = getFirst(record, 'DOI');
+
+  const metadata: ReferenceMetadata = { source_format: 'cochrane' };
+  const assign = (key: string, value: string | string[] | undefined) => {
+    if (value !== undefined && (!Array.isArray(value) || value.length > 0)) metadata[key] = value;
+  };
+
+  assign('accession_number', accession);
+  assign('volume', getFirst(record, 'VL'));
+  assign('issue', getFirst(record, 'NO'));
+  assign('pages', getFirst(record, 'PG'));
+  assign('publication_types', getValues(record, 'PT'));
+  assign('cross_references', getValues(record, 'XR'));
+  assign('cochrane_groups', getValues(record, 'CC'));
+  assign('editors', getValues(record, 'ED'));
+  assign('language', getFirst(record, 'LA'));
+
+  const unmapped = collectUnmappedTags(record, MAPPED_TAGS);
+  if (Object.keys(unmapped).length > 0) metadata.tags = unmapped;
+
+  const keywords = uniqueValues(getValues(record, 'KY').flatMap(value => value.split(/\s*;\s*/)));
+
+  return {
+    title: getFirst(record, 'TI') ?? '',
+    authors: uniqueValues(getValues(record, 'AU')).join('; '),
+    abstract: getFirst(record, 'AB'),
+    journal: getFirst(record, 'SO'),
+    year: parseYear(getFirst(record, 'YR')),
+    doi: doi ? normalizeDoi(doi) : undefined,
+    pmid: pubmed?.[1],
+    url: getFirst(record, 'US'),
+    keywords: keywords.length > 0 ? keywords : undefined,
+    metadata,
+  };
+}
+
+/**
+ * Parses Cochrane Library (CENTRAL) plain-text exports.
+ */
+export function parseCochrane(text: string): ParseResult {
+  const records = readTaggedRecords(normalizeText(text).replace(RECORD_SEPARATOR, ''), {
+    tagLine: COCHRANE_TAG_LINE,
+    startTag: 'ID',
+  });
+
+  const references: ParsedReference[] = [];
+  const warnings: ParseWarning[] = [];
+
+  records.forEach((record, index) => {
+    const reference = toReference(record);
+    const key = getFirst(record, 'ID');
+
+    if (!reference.title) {
+      warnings.push({ entry: index, line: record.line, key, code: 'missing_title', message: 'Record has no title and was not imported' });
+      return;
+    }
+    const rawYear = getFirst(record, 'YR');
+    if (rawYear && reference.year === undefined) {
+      warnings.push({ entry: index, line: record.line, key, code: 'invalid_year', field: 'year', message: `Could not read a year from "${rawYear}"` });
+    }
+    warnings.push(...checkReferenceFields(reference, { entry: index, line: record.line, key }));
+    references.push(reference);
+  });
+
+  return { references, warnings };
+}
@@ -0,0 +1,89 @@
+// RFC 4180 reader for comma- and tab-delimited exports
+
+export interface DelimitedRow {
+  values: string[];
+  // 1-based line on which the row starts (quoted fields may span lines)
+  line: number;
+}
+
+export interface DelimitedTable {
+  headers: string[];
+  rows: DelimitedRow[];
+}
+
+/**
+ * Reads delimited text honouring quoted fields, doubled quotes and line
+ * breaks inside quotes. Blank lines are skipped.
+ */
+export function readDelimitedRows(text: string, delimiter = ','): DelimitedRow[] {
+  const rows: DelimitedRow[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  let fieldStarted = false;
+
+  const endRow = () => {
+    values.push(field);
+    if (values.length > 1 || values[0].trim() !== '') rows.push({ values, line: rowLine });
+    values = [];
+    field = '';
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !fieldStarted) {
+      inQuotes = true;
+      fieldStarted = true;
+    } else if (char === delimiter) {
+      values.push(field);
+      field = '';
+      fieldStarted = false;
+    } else if (char === '\n') {
+      endRow();
+      line++;
+      rowLine = line;
+    } else if (char !== '\r') {
+      field += char;
+      fieldStarted = true;
+    }
+  }
+
+  if (field !== '' || values.length > 0) endRow();
+  return rows;
+}
+
+export function readDelimitedTable(text: string, delimiter = ','): DelimitedTable {
+  const [header, ...rows] = readDelimitedRows(text, delimiter);
+  return {
+    headers: header ? header.values.map(value => value.trim()) : [],
+    rows,
+  };
+}
+
+// Picks a delimiter by counting candidates in the header line
+export function sniffDelimiter(text: string): string {
+  const header = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  const candidates = [',', '\t', ';'];
+  return candidates.reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+}
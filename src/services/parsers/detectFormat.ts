@@ -0,0 +1,61 @@
+import { isScopusCsv } from './scopusCsvParser';
+import { isGenericSpreadsheet } from './spreadsheetParser';
+import { isWebOfScienceTabDelimited } from './webOfScienceParser';
+
+export type ImportFormat =
+  | 'pubmed'
+  | 'pubmed-xml'
+  | 'ris'
+  | 'embase'
+  | 'wos'
+  | 'scopus'
+  | 'cochrane'
+  | 'bibtex'
+  | 'endnote'
+  | 'csv'
+  | 'xlsx';
+
+export const IMPORT_FORMATS: { value: ImportFormat; label: string }[] = [
+  { value: 'pubmed', label: 'PubMed (MEDLINE / .nbib)' },
+  { value: 'pubmed-xml', label: 'PubMed XML' },
+  { value: 'wos', label: 'Web of Science (plain text / tab-delimited)' },
+  { value: 'scopus', label: 'Scopus CSV' },
+  { value: 'embase', label: 'Embase RIS' },
+  { value: 'cochrane', label: 'Cochrane CENTRAL' },
+  { value: 'ris', label: 'RIS' },
+  { value: 'bibtex', label: 'BibTeX' },
+  { value: 'endnote', label: 'EndNote (Refer / .enw)' },
+  { value: 'csv', label: 'Spreadsheet (CSV / TSV)' },
+  { value: 'xlsx', label: 'Excel workbook (.xlsx)' },
+];
+
+// Signatures are checked against the start of the file so large exports are not scanned in full
+const SAMPLE_LENGTH = 64 * 1024;
+
+/**
+ * Identifies an export format from its content. Returns null when no known
+ * signature matches; callers should ask the user to pick a format.
+ */
+export function detectFormat(text: string): ImportFormat | null {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  const head = sample.trimStart();
+
+  if (head.startsWith('<')) {
+    return /<(?:!DOCTYPE\s+)?PubmedArticleSet\b/.test(sample) ? 'pubmed-xml' : null;
+  }
+  if (/^FN (?:Clarivate|Thomson Reuters)/.test(head) || (/^PT [A-Z]\s*$/m.test(sample) && /^ER\s*$/m.test(sample))) {
+    return 'wos';
+  }
+  if (isWebOfScienceTabDelimited(head)) return 'wos';
+  if (isScopusCsv(head)) return 'scopus';
+  if (/^Record #\d+ of \d+/m.test(sample) || /^ID: CN-\d+/m.test(sample)) return 'cochrane';
+  if (/^PMID- ?\d+/m.test(sample)) return 'pubmed';
+  if (/^TY {2}- /m.test(sample)) {
+    return /^(?:DB {2}- Embase|U2 {2}- L\d+)|embase\.com/im.test(sample) ? 'embase' : 'ris';
+  }
+  if (/^\s*@[A-Za-z]+\s*[{(]/m.test(sample)) return 'bibtex';
+  if (/^%0 /m.test(sample) || (/^%T /m.test(sample) && /^%A /m.test(sample))) return 'endnote';
+  if (isGenericSpreadsheet(head)) return 'csv';
+
+  return null;
+}
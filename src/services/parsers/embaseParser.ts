@@ -0,0 +1,38 @@
+import { parseRIS } from './risParser';
+import { getFirst, getValues, TaggedRecord } from './taggedFormat';
+import type { ParsedReference, ParseResult } from './types';
+import { uniqueValues } from './utils';
+
+const PMID_PATTERN = /(?:PMID[:\s]+|pubmed\.ncbi\.nlm\.nih\.gov\/|ncbi\.nlm\.nih\.gov\/pubmed\/?(?:\?term=)?)(\d{1,9})/i;
+
+function findPmid(record: TaggedRecord): string | undefined {
+  // Embase.com writes the PubMed ID to C5; Ovid and older exports only mention it in notes or links
+  const c5 = getFirst(record, 'C5');
+  if (c5 && /^\d{1,9}$/.test(c5)) return c5;
+  const match = PMID_PATTERN.exec(getValues(record, 'N1', 'UR', 'L2', 'LK', 'C5').join(' '));
+  return match?.[1];
+}
+
+function refineReference(reference: ParsedReference, record: TaggedRecord) {
+  const emtreeAccession = getFirst(record, 'U2');
+  const pmid = reference.pmid ?? findPmid(record);
+
+  // Emtree terms arrive as KW lines; major descriptors are starred ("*cancer")
+  const terms = getValues(record, 'KW');
+  const majorTerms = uniqueValues(terms.filter(term => term.startsWith('*')).map(term => term.slice(1).trim()));
+  const keywords = uniqueValues(terms.map(term => term.replace(/^\*\s*/, '')));
+
+  reference.pmid = pmid;
+  reference.keywords = keywords.length > 0 ? keywords : undefined;
+  if (emtreeAccession) reference.metadata.embase_accession = emtreeAccession;
+  if (majorTerms.length > 0) reference.metadata.emtree_major_terms = majorTerms;
+  if (getValues(record, 'DB').length > 1) reference.metadata.databases = getValues(record, 'DB');
+}
+
+/**
+ * Parses Embase RIS exports from Embase.com or Ovid. Builds on the RIS parser
+ * and adds the Embase accession number, Emtree major terms and PubMed IDs.
+ */
+export function parseEmbase(text: string): ParseResult {
+  return parseRIS(text, 'embase', refineReference);
+}
@@ -0,0 +1,146 @@
+// LaTeX-to-Unicode decoding for BibTeX field values
+
+// Accent commands mapped to Unicode combining characters
+const COMBINING_ACCENTS: Record<string, string> = {
+  '"': '\u0308',
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  u: '\u0306',
+  v: '\u030C',
+  H: '\u030B',
+  c: '\u0327',
+  k: '\u0328',
+  r: '\u030A',
+  d: '\u0323',
+  b: '\u0331',
+};
+
+const NAMED_SYMBOLS: Record<string, string> = {
+  ss: 'ß',
+  o: 'ø',
+  O: 'Ø',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  aa: 'å',
+  AA: 'Å',
+  l: 'ł',
+  L: 'Ł',
+  i: 'ı',
+  j: 'ȷ',
+  ldots: '…',
+  dots: '…',
+  textendash: '–',
+  textemdash: '—',
+  textquoteleft: '‘',
+  textquoteright: '’',
+  textquotedblleft: '“',
+  textquotedblright: '”',
+  textregistered: '®',
+  texttrademark: '™',
+  copyright: '©',
+  textdegree: '°',
+  textpm: '±',
+  pm: '±',
+  times: '×',
+  leq: '≤',
+  le: '≤',
+  geq: '≥',
+  ge: '≥',
+  neq: '≠',
+  approx: '≈',
+  textless: '<',
+  textgreater: '>',
+  textasciitilde: '~',
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  Gamma: 'Γ',
+  delta: 'δ',
+  Delta: 'Δ',
+  epsilon: 'ε',
+  varepsilon: 'ε',
+  zeta: 'ζ',
+  eta: 'η',
+  theta: 'θ',
+  kappa: 'κ',
+  lambda: 'λ',
+  mu: 'μ',
+  nu: 'ν',
+  xi: 'ξ',
+  pi: 'π',
+  rho: 'ρ',
+  sigma: 'σ',
+  Sigma: 'Σ',
+  tau: 'τ',
+  phi: 'φ',
+  chi: 'χ',
+  psi: 'ψ',
+  omega: 'ω',
+  Omega: 'Ω',
+};
+
+// Commands whose argument should be kept as plain text
+const FORMATTING_COMMANDS = [
+  'textit', 'textbf', 'textsc', 'textrm', 'texttt', 'textsf', 'textup', 'textmd', 'textnormal',
+  'emph', 'mathrm', 'mathit', 'mathbf', 'mathsf', 'mbox', 'hbox', 'url', 'textsuperscript', 'textsubscript',
+];
+
+const ESCAPED_OPEN_BRACE = '\uE000';
+const ESCAPED_CLOSE_BRACE = '\uE001';
+const ESCAPED_DOLLAR = '\uE002';
+
+const accent = (command: string, letter: string): string => {
+  const base = letter === '\\i' ? 'i' : letter === '\\j' ? 'j' : letter;
+  return (base + COMBINING_ACCENTS[command]).normalize('NFC');
+};
+
+/**
+ * Converts a raw BibTeX field value (LaTeX markup, protective braces, accent
+ * macros) into plain Unicode text.
+ */
+export function decodeLatex(input: string): string {
+  if (!input) return '';
+
+  let text = input
+    .replace(/\\\{/g, ESCAPED_OPEN_BRACE)
+    .replace(/\\\}/g, ESCAPED_CLOSE_BRACE)
+    .replace(/\\\$/g, ESCAPED_DOLLAR);
+
+  // Braced accents: \"{u}, \'{\i}, {\"u}
+  text = text.replace(/\\(["'`^~=.uvHckrdb])\s*\{\s*(\\[ij](?![a-zA-Z])|[a-zA-Z])\s*\}/g, (_, cmd, letter) => accent(cmd, letter));
+  // Symbolic accents directly followed by a letter: \"u, \'e
+  text = text.replace(/\\(["'`^~=.])\s*(\\[ij](?![a-zA-Z])|[a-zA-Z])/g, (_, cmd, letter) => accent(cmd, letter));
+  // Letter accents need a separating space: \c c, \v s
+  text = text.replace(/\\([uvHckrdb])\s+([a-zA-Z])(?![a-zA-Z])/g, (_, cmd, letter) => accent(cmd, letter));
+
+  const formatting = new RegExp(`\\\\(?:${FORMATTING_COMMANDS.join('|')})\\s*(?=\\{)`, 'g');
+  text = text.replace(formatting, '');
+
+  text = text.replace(/\\([a-zA-Z]+)(?![a-zA-Z])\s?/g, (match, name: string) => (
+    name in NAMED_SYMBOLS ? NAMED_SYMBOLS[name] : name
+  ));
+
+  text = text
+    .replace(/\\([&%#_])/g, '$1')
+    .replace(/\\\\/g, ' ')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/``/g, '“')
+    .replace(/''/g, '”')
+    .replace(/(?<!\\)~/g, ' ')
+    .replace(/\$/g, '')
+    .replace(/[{}]/g, '')
+    .replace(new RegExp(ESCAPED_OPEN_BRACE, 'g'), '{')
+    .replace(new RegExp(ESCAPED_CLOSE_BRACE, 'g'), '}')
+    .replace(new RegExp(ESCAPED_DOLLAR, 'g'), '$')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text.normalize('NFC');
+}
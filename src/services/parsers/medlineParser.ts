@@ -0,0 +1,111 @@
+import { collectUnmappedTags, getFirst, getValues, readTaggedRecords, TaggedRecord } from './taggedFormat';
+import type { ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { normalizeText, parseYear, uniqueValues } from './utils';
+import { checkReferenceFields } from './validation';
+
+// Tags are left-aligned in a four character column: "PMID- ", "TI  - ", "FAU - "
+const MEDLINE_TAG_LINE = /^([A-Z][A-Z0-9]{1,3}) *- (.*)$/;
+
+const MAPPED_TAGS = new Set([
+  'PMID', 'TI', 'BTI', 'TT', 'AB', 'AU', 'FAU', 'AD', 'JT', 'TA', 'SO', 'DP', 'LID', 'AID',
+  'MH', 'OT', 'PT', 'LA', 'IS', 'VI', 'IP', 'PG', 'PMC', 'GR', 'RN', 'CI', 'PHST', 'DEP', 'JID',
+  'STAT', 'OWN', 'DCOM', 'LR', 'CRDT', 'EDAT', 'MHDA', 'PST', 'OTO', 'CN', 'COIS', 'IR', 'FIR',
+]);
+
+// "10.1056/NEJMoa1207363 [doi]" -> { id, kind: "doi" }
+function parseArticleId(value: string): { id: string; kind: string } {
+  const match = value.match(/^(.*?)\s*\[([a-z-]+)\]\s*$/i);
+  return match ? { id: match[1].trim(), kind: match[2].toLowerCase() } : { id: value.trim(), kind: '' };
+}
+
+function findArticleId(record: TaggedRecord, kind: string): string | undefined {
+  return getValues(record, 'LID', 'AID')
+    .map(parseArticleId)
+    .find(articleId => articleId.kind === kind)?.id;
+}
+
+function toReference(record: TaggedRecord): ParsedReference {
+  const metadata: ReferenceMetadata = { source_format: 'medline' };
+  const assign = (key: string, value: string | string[] | undefined) => {
+    if (value !== undefined && (!Array.isArray(value) || value.length > 0)) metadata[key] = value;
+  };
+
+  assign('full_authors', getValues(record, 'FAU'));
+  assign('collective_author', getFirst(record, 'CN'));
+  assign('affiliations', uniqueValues(getValues(record, 'AD')));
+  assign('journal_abbreviation', getFirst(record, 'TA'));
+  assign('source', getFirst(record, 'SO'));
+  assign('publication_date', getFirst(record, 'DP'));
+  assign('mesh_terms', getValues(record, 'MH'));
+  assign('publication_types', getValues(record, 'PT'));
+  assign('language', getValues(record, 'LA'));
+  assign('issn', getValues(record, 'IS'));
+  assign('volume', getFirst(record, 'VI'));
+  assign('issue', getFirst(record, 'IP'));
+  assign('pages', getFirst(record, 'PG'));
+  assign('pmcid', getFirst(record, 'PMC'));
+  assign('pii', findArticleId(record, 'pii'));
+  assign('grants', getValues(record, 'GR'));
+  assign('chemicals', getValues(record, 'RN'));
+  assign('conflict_of_interest', getFirst(record, 'COIS'));
+  assign('book_title', getFirst(record, 'BTI'));
+  assign('transliterated_title', getFirst(record, 'TT'));
+  assign('status', getFirst(record, 'STAT'));
+
+  const unmapped = collectUnmappedTags(record, MAPPED_TAGS);
+  if (Object.keys(unmapped).length > 0) metadata.tags = unmapped;
+
+  const keywords = uniqueValues(getValues(record, 'OT'));
+  const authors = getValues(record, 'AU');
+  const collective = getFirst(record, 'CN');
+
+  return {
+    title: getFirst(record, 'TI', 'BTI', 'TT') ?? '',
+    authors: (authors.length > 0 ? authors : collective ? [collective] : []).join('; '),
+    abstract: getFirst(record, 'AB'),
+    journal: getFirst(record, 'JT', 'TA', 'SO'),
+    year: parseYear(getFirst(record, 'DP', 'DEP', 'EDAT')),
+    doi: findArticleId(record, 'doi'),
+    pmid: getFirst(record, 'PMID'),
+    url: getFirst(record, 'PMID') ? `https://pubmed.ncbi.nlm.nih.gov/${getFirst(record, 'PMID')}/` : undefined,
+    keywords: keywords.length > 0 ? keywords : undefined,
+    metadata,
+  };
+}
+
+/**
+ * Parses PubMed's MEDLINE (.nbib / "PubMed format") export. Continuation
+ * lines indented by six spaces are joined onto the preceding tag.
+ */
+export function parseMedline(text: string): ParseResult {
+  const records = readTaggedRecords(normalizeText(text), {
+    tagLine: MEDLINE_TAG_LINE,
+    startTag: 'PMID',
+    blankLineEndsRecord: true,
+    indentedContinuation: true,
+  });
+
+  const references: ParsedReference[] = [];
+  const warnings: ParseWarning[] = [];
+
+  records.forEach((record, index) => {
+    const reference = toReference(record);
+    const key = reference.pmid;
+
+    if (!reference.title) {
+      warnings.push({ entry: index, line: record.line, key, code: 'missing_title', message: 'Record has no title and was not imported' });
+      return;
+    }
+    if (!reference.pmid) {
+      warnings.push({ entry: index, line: record.line, code: 'missing_pmid', field: 'pmid', message: 'Record has no PMID' });
+    }
+    const rawYear = getFirst(record, 'DP', 'DEP', 'EDAT');
+    if (rawYear && reference.year === undefined) {
+      warnings.push({ entry: index, line: record.line, key, code: 'invalid_year', field: 'year', message: `Could not read a year from "${rawYear}"` });
+    }
+    warnings.push(...checkReferenceFields(reference, { entry: index, line: record.line, key }));
+    references.push(reference);
+  });
+
+  return { references, warnings };
+}
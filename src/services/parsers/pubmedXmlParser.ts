@@ -0,0 +1,117 @@
+import type { ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { parseYear } from './utils';
+import { checkReferenceFields } from './validation';
+import { childElements, findElement, parseXml, textContent, XmlElement } from './xml';
+
+function formatAuthor(author: XmlElement): string {
+  const collective = textContent(findElement(author, 'CollectiveName'));
+  if (collective) return collective;
+  const lastName = textContent(findElement(author, 'LastName'));
+  const initials = textContent(findElement(author, 'Initials')) || textContent(findElement(author, 'ForeName'));
+  return [lastName, initials].filter(Boolean).join(' ');
+}
+
+function formatAbstract(abstract: XmlElement | undefined): string | undefined {
+  const sections = childElements(abstract, 'AbstractText').map(section => {
+    const label = section.attributes.Label;
+    const text = textContent(section);
+    return label ? `${label}: ${text}` : text;
+  });
+  return sections.length > 0 ? sections.join(' ') : undefined;
+}
+
+function articleIds(article: XmlElement): Record<string, string> {
+  const ids: Record<string, string> = {};
+  const lists = [
+    findElement(article, 'PubmedData', 'ArticleIdList'),
+    findElement(article, 'PubmedBookData', 'ArticleIdList'),
+  ];
+  lists.forEach(list => {
+    childElements(list, 'ArticleId').forEach(id => {
+      const type = id.attributes.IdType;
+      if (type && !ids[type]) ids[type] = textContent(id);
+    });
+  });
+  return ids;
+}
+
+function toReference(article: XmlElement): ParsedReference {
+  const citation = findElement(article, 'MedlineCitation') ?? findElement(article, 'BookDocument');
+  const details = findElement(citation, 'Article') ?? citation;
+  const journal = findElement(details, 'Journal');
+  const issue = findElement(journal, 'JournalIssue');
+  const pubDate = findElement(issue, 'PubDate') ?? findElement(details, 'Book', 'PubDate');
+  const ids = articleIds(article);
+
+  const doi = childElements(details, 'ELocationID').find(location => location.attributes.EIdType === 'doi');
+  const pmid = textContent(findElement(citation, 'PMID')) || ids.pubmed;
+
+  const metadata: ReferenceMetadata = { source_format: 'pubmed-xml' };
+  const assign = (key: string, value: string | string[] | undefined) => {
+    if (value && (!Array.isArray(value) || value.length > 0)) metadata[key] = value;
+  };
+
+  assign('journal_abbreviation', textContent(findElement(journal, 'ISOAbbreviation')));
+  assign('issn', textContent(findElement(journal, 'ISSN')));
+  assign('volume', textContent(findElement(issue, 'Volume')));
+  assign('issue', textContent(findElement(issue, 'Issue')));
+  assign('pages', textContent(findElement(details, 'Pagination', 'MedlinePgn')));
+  assign('publication_date', textContent(pubDate));
+  assign('language', childElements(details, 'Language').map(textContent));
+  assign('publication_types', childElements(findElement(details, 'PublicationTypeList'), 'PublicationType').map(textContent));
+  assign('mesh_terms', childElements(findElement(citation, 'MeshHeadingList'), 'MeshHeading')
+    .map(heading => textContent(findElement(heading, 'DescriptorName'))));
+  assign('pmcid', ids.pmc);
+  assign('pii', ids.pii);
+  assign('book_title', textContent(findElement(details, 'Book', 'BookTitle')));
+
+  const keywords = childElements(findElement(citation, 'KeywordList'), 'Keyword').map(textContent).filter(Boolean);
+  const authorList = findElement(details, 'AuthorList');
+
+  return {
+    title: textContent(findElement(details, 'ArticleTitle')) || textContent(findElement(details, 'Book', 'BookTitle')),
+    authors: childElements(authorList, 'Author').map(formatAuthor).filter(Boolean).join('; '),
+    abstract: formatAbstract(findElement(details, 'Abstract')),
+    journal: textContent(findElement(journal, 'Title')) || undefined,
+    year: parseYear(textContent(findElement(pubDate, 'Year')) || textContent(findElement(pubDate, 'MedlineDate'))),
+    doi: (doi && textContent(doi)) || ids.doi,
+    pmid: pmid || undefined,
+    url: pmid ? `https://pubmed.ncbi.nlm.nih.gov/${pmid}/` : undefined,
+    keywords: keywords.length > 0 ? keywords : undefined,
+    metadata,
+  };
+}
+
+/**
+ * Parses PubMed XML (efetch "xml" or the website's "PubMed XML" export),
+ * including PubmedBookArticle records.
+ */
+export function parsePubMedXml(text: string): ParseResult {
+  const warnings: ParseWarning[] = [];
+  let document: XmlElement;
+  try {
+    document = parseXml(text);
+  } catch (error) {
+    throw new Error(`Invalid PubMed XML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const articleSet = findElement(document, 'PubmedArticleSet');
+  if (!articleSet) {
+    throw new Error('Invalid PubMed XML: missing <PubmedArticleSet> root element');
+  }
+
+  const references: ParsedReference[] = [];
+  childElements(articleSet)
+    .filter(element => element.name === 'PubmedArticle' || element.name === 'PubmedBookArticle')
+    .forEach((article, index) => {
+      const reference = toReference(article);
+      if (!reference.title) {
+        warnings.push({ entry: index, key: reference.pmid, code: 'missing_title', message: 'Article has no title and was not imported' });
+        return;
+      }
+      warnings.push(...checkReferenceFields(reference, { entry: index, key: reference.pmid }));
+      references.push(reference);
+    });
+
+  return { references, warnings };
+}
@@ -0,0 +1,121 @@
+import { collectUnmappedTags, getFirst, getValues, readTaggedRecords, TaggedRecord } from './taggedFormat';
+import type { ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { extractDoi, normalizeDoi, normalizeText, parseYear, uniqueValues } from './utils';
+import { checkReferenceFields } from './validation';
+
+// "TY  - JOUR"; the value is optional for "ER  -"
+const RIS_TAG_LINE = /^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/;
+
+const MAPPED_TAGS = new Set([
+  'TY', 'TI', 'T1', 'CT', 'BT', 'T2', 'T3', 'AU', 'A1', 'A2', 'A3', 'A4', 'ED',
+  'AB', 'N2', 'JF', 'JO', 'JA', 'J1', 'J2', 'PY', 'Y1', 'DA', 'Y2', 'DO', 'UR', 'L1', 'L2', 'LK',
+  'SP', 'EP', 'VL', 'IS', 'CP', 'SN', 'KW', 'PB', 'CY', 'LA', 'AN', 'DB', 'DP', 'N1', 'M3', 'ET', 'ID',
+]);
+
+const isPubMedDatabase = (record: TaggedRecord) =>
+  /pubmed|medline/i.test(`${getFirst(record, 'DB') ?? ''} ${getFirst(record, 'DP') ?? ''}`);
+
+function toReference(record: TaggedRecord, format: string): ParsedReference {
+  const type = getFirst(record, 'TY');
+  const title = getFirst(record, 'TI', 'T1', 'CT', 'BT');
+  const journal = getFirst(record, 'JF', 'T2', 'JO', 'JA', 'J2', 'J1');
+  const urls = uniqueValues(getValues(record, 'UR', 'L2', 'LK'));
+  const doiField = getFirst(record, 'DO');
+  const doi = doiField
+    ? normalizeDoi(doiField)
+    : extractDoi(getValues(record, 'M3', 'UR', 'L2', 'N1').join(' '));
+  const accession = getFirst(record, 'AN');
+  const startPage = getFirst(record, 'SP');
+  const endPage = getFirst(record, 'EP');
+
+  const metadata: ReferenceMetadata = { source_format: format };
+  const assign = (key: string, value: string | string[] | undefined) => {
+    if (value !== undefined && (!Array.isArray(value) || value.length > 0)) metadata[key] = value;
+  };
+
+  assign('type', type);
+  assign('secondary_title', getFirst(record, 'T2'));
+  assign('series_title', getFirst(record, 'T3'));
+  assign('journal_abbreviation', getFirst(record, 'JA', 'J2', 'J1', 'JO'));
+  assign('editors', uniqueValues(getValues(record, 'A2', 'ED')));
+  assign('tertiary_authors', uniqueValues(getValues(record, 'A3', 'A4')));
+  assign('volume', getFirst(record, 'VL'));
+  assign('issue', getFirst(record, 'IS', 'CP'));
+  assign('start_page', startPage);
+  assign('end_page', endPage);
+  assign('pages', startPage && endPage ? `${startPage}-${endPage}` : startPage);
+  assign('issn', getFirst(record, 'SN'));
+  assign('publisher', getFirst(record, 'PB'));
+  assign('place_published', getFirst(record, 'CY'));
+  assign('language', getFirst(record, 'LA'));
+  assign('edition', getFirst(record, 'ET'));
+  assign('accession_number', accession);
+  assign('database', getFirst(record, 'DB'));
+  assign('database_provider', getFirst(record, 'DP'));
+  assign('notes', getValues(record, 'N1'));
+  assign('record_id', getFirst(record, 'ID'));
+  assign('date', getFirst(record, 'DA', 'Y1'));
+  assign('access_date', getFirst(record, 'Y2'));
+  assign('file_links', getValues(record, 'L1'));
+  if (urls.length > 1) assign('urls', urls);
+
+  const unmapped = collectUnmappedTags(record, MAPPED_TAGS);
+  if (Object.keys(unmapped).length > 0) metadata.tags = unmapped;
+
+  // Some exporters put several keywords on one KW line separated by semicolons
+  const keywords = uniqueValues(getValues(record, 'KW').flatMap(value => value.split(/\s*;\s*/)));
+
+  return {
+    title: title ?? '',
+    authors: uniqueValues(getValues(record, 'AU', 'A1')).join('; '),
+    abstract: getFirst(record, 'AB', 'N2'),
+    journal,
+    year: parseYear(getFirst(record, 'PY', 'Y1', 'DA')),
+    doi,
+    pmid: accession && /^\d+$/.test(accession) && isPubMedDatabase(record) ? accession : undefined,
+    url: urls[0],
+    keywords: keywords.length > 0 ? keywords : undefined,
+    metadata,
+  };
+}
+
+// Lets database-specific parsers (e.g. Embase) refine a reference using the raw record
+export type RISRecordHook = (reference: ParsedReference, record: TaggedRecord) => void;
+
+/**
+ * Parses RIS exports (EndNote, Zotero, Embase, Ovid, Scopus). Handles wrapped
+ * continuation lines, CRLF files and byte order marks; tags without a
+ * dedicated field are kept in metadata.
+ */
+export function parseRIS(text: string, format = 'ris', onRecord?: RISRecordHook): ParseResult {
+  const records = readTaggedRecords(normalizeText(text), {
+    tagLine: RIS_TAG_LINE,
+    startTag: 'TY',
+    endTag: 'ER',
+  });
+
+  const references: ParsedReference[] = [];
+  const warnings: ParseWarning[] = [];
+
+  records.forEach((record, index) => {
+    const reference = toReference(record, format);
+    onRecord?.(reference, record);
+    const key = getFirst(record, 'ID', 'AN');
+
+    if (!record.terminated) {
+      warnings.push({ entry: index, line: record.line, key, code: 'missing_terminator', message: 'Record is missing its "ER  -" terminator' });
+    }
+    if (!reference.title) {
+      warnings.push({ entry: index, line: record.line, key, code: 'missing_title', message: 'Record has no title and was not imported' });
+      return;
+    }
+    const rawYear = getFirst(record, 'PY', 'Y1', 'DA');
+    if (rawYear && reference.year === undefined) {
+      warnings.push({ entry: index, line: record.line, key, code: 'invalid_year', field: 'year', message: `Could not read a year from "${rawYear}"` });
+    }
+    warnings.push(...checkReferenceFields(reference, { entry: index, line: record.line, key }));
+    references.push(reference);
+  });
+
+  return { references, warnings };
+}
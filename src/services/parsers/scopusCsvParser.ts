@@ -0,0 +1,114 @@
+import { readDelimitedTable } from './csv';
+import type { ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { normalizeDoi, normalizeText, parseYear, uniqueValues } from './utils';
+import { checkReferenceFields } from './validation';
+
+// Columns consumed by the parser; any other column is kept under metadata.columns
+const MAPPED_COLUMNS = new Set([
+  'Authors', 'Author full names', 'Author(s) ID', 'Title', 'Year', 'Source title', 'Volume', 'Issue',
+  'Art. No.', 'Page start', 'Page end', 'Page count', 'Cited by', 'DOI', 'Link', 'Affiliations',
+  'Abstract', 'Author Keywords', 'Index Keywords', 'ISSN', 'ISBN', 'PubMed ID', 'Language of Original Document',
+  'Abbreviated Source Title', 'Document Type', 'Publication Stage', 'Open Access', 'Source', 'EID', 'Publisher',
+]);
+
+const splitList = (value: string | undefined) =>
+  value ? uniqueValues(value.split(/\s*;\s*/)) : [];
+
+export function isScopusCsv(text: string): boolean {
+  const header = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  return /(^|,)"?Authors"?,/.test(header) && /"?Source title"?/.test(header) && /"?EID"?/.test(header);
+}
+
+function toReference(row: Record<string, string>): ParsedReference {
+  const get = (column: string) => row[column]?.trim() || undefined;
+  const startPage = get('Page start');
+  const endPage = get('Page end');
+
+  const metadata: ReferenceMetadata = { source_format: 'scopus' };
+  const assign = (key: string, value: string | string[] | undefined) => {
+    if (value !== undefined && (!Array.isArray(value) || value.length > 0)) metadata[key] = value;
+  };
+
+  assign('document_type', get('Document Type'));
+  assign('full_authors', splitList(get('Author full names')));
+  assign('scopus_author_ids', splitList(get('Author(s) ID')));
+  assign('affiliations', splitList(get('Affiliations')));
+  assign('index_keywords', splitList(get('Index Keywords')));
+  assign('journal_abbreviation', get('Abbreviated Source Title'));
+  assign('volume', get('Volume'));
+  assign('issue', get('Issue'));
+  assign('article_number', get('Art. No.'));
+  assign('start_page', startPage);
+  assign('end_page', endPage);
+  assign('pages', startPage && endPage ? `${startPage}-${endPage}` : startPage);
+  assign('issn', get('ISSN'));
+  assign('isbn', get('ISBN'));
+  assign('publisher', get('Publisher'));
+  assign('language', get('Language of Original Document'));
+  assign('publication_stage', get('Publication Stage'));
+  assign('open_access', get('Open Access'));
+  assign('times_cited', get('Cited by'));
+  assign('accession_number', get('EID'));
+
+  const extra: Record<string, string> = {};
+  Object.entries(row).forEach(([column, value]) => {
+    if (!MAPPED_COLUMNS.has(column) && value.trim()) extra[column] = value.trim();
+  });
+  if (Object.keys(extra).length > 0) metadata.columns = extra;
+
+  const doi = get('DOI');
+  const keywords = splitList(get('Author Keywords'));
+  const abstract = get('Abstract');
+
+  return {
+    title: get('Title') ?? '',
+    authors: splitList(get('Authors')).join('; '),
+    // Scopus writes a placeholder when the abstract is missing
+    abstract: abstract && abstract !== '[No abstract available]' ? abstract : undefined,
+    journal: get('Source title'),
+    year: parseYear(get('Year')),
+    doi: doi ? normalizeDoi(doi) : undefined,
+    pmid: get('PubMed ID'),
+    url: get('Link'),
+    keywords: keywords.length > 0 ? keywords : undefined,
+    metadata,
+  };
+}
+
+/**
+ * Parses the Scopus "CSV export". Columns without a dedicated field are kept
+ * under metadata.columns so they can be mapped during import.
+ */
+export function parseScopusCsv(text: string): ParseResult {
+  const { headers, rows } = readDelimitedTable(normalizeText(text), ',');
+  const references: ParsedReference[] = [];
+  const warnings: ParseWarning[] = [];
+
+  if (!headers.includes('Title')) {
+    throw new Error('Invalid Scopus CSV: missing "Title" column');
+  }
+
+  rows.forEach((row, index) => {
+    const values: Record<string, string> = {};
+    headers.forEach((header, column) => {
+      if (header) values[header] = row.values[column] ?? '';
+    });
+    if (row.values.length !== headers.length) {
+      warnings.push({ entry: index, line: row.line, code: 'malformed_row', message: `Row has ${row.values.length} columns, expected ${headers.length}` });
+    }
+
+    const reference = toReference(values);
+    const key = values.EID || undefined;
+    if (!reference.title) {
+      warnings.push({ entry: index, line: row.line, key, code: 'missing_title', message: 'Row has no title and was not imported' });
+      return;
+    }
+    if (values.Year?.trim() && reference.year === undefined) {
+      warnings.push({ entry: index, line: row.line, key, code: 'invalid_year', field: 'year', message: `Could not read a year from "${values.Year}"` });
+    }
+    warnings.push(...checkReferenceFields(reference, { entry: index, line: row.line, key }));
+    references.push(reference);
+  });
+
+  return { references, warnings };
+}
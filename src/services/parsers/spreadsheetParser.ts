@@ -0,0 +1,115 @@
+import { DelimitedTable, readDelimitedTable, sniffDelimiter } from './csv';
+import { ColumnMapping, MAPPABLE_FIELDS, MappableField, ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { normalizeDoi, normalizeText, parseYear, uniqueValues } from './utils';
+import { checkReferenceFields } from './validation';
+
+// Header names commonly used for each field in hand-made spreadsheets and reference manager exports
+const HEADER_ALIASES: Record<MappableField, RegExp> = {
+  title: /^(?:(?:article|document|study|paper) )?title$|^ti$/i,
+  authors: /^(?:authors?|author names?|au|creators?)$/i,
+  abstract: /^(?:abstract|abstract note|summary|ab)$/i,
+  journal: /^(?:journal|journal title|source|source title|publication(?: title)?|so|venue)$/i,
+  year: /^(?:year|publication year|pub(?:lication)? ?year|py|date)$/i,
+  doi: /^(?:doi|di)$/i,
+  pmid: /^(?:pmid|pubmed id|pubmed)$/i,
+  url: /^(?:url|link)$/i,
+  keywords: /^(?:keywords?|author keywords|manual tags|de)$/i,
+};
+
+// Maps each field to the first header that looks like it; the user can change this in the preview
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  MAPPABLE_FIELDS.forEach(field => {
+    const header = headers.find(candidate => !mapping[candidate] && HEADER_ALIASES[field].test(candidate.trim()));
+    if (header) mapping[header] = field;
+  });
+  return mapping;
+}
+
+// A saved mapping fits a spreadsheet when every column it maps is present
+export function mappingMatchesHeaders(mapping: ColumnMapping, headers: string[]): boolean {
+  const mapped = Object.keys(mapping).filter(column => mapping[column]);
+  return mapped.length > 0 && mapped.every(column => headers.includes(column));
+}
+
+export function assignMappedField(reference: ParsedReference, field: MappableField, value: string) {
+  switch (field) {
+    case 'year': {
+      const year = parseYear(value);
+      if (year !== undefined) reference.year = year;
+      break;
+    }
+    case 'doi':
+      reference.doi = normalizeDoi(value);
+      break;
+    case 'keywords':
+      reference.keywords = uniqueValues([...(reference.keywords ?? []), ...value.split(/\s*;\s*/)]);
+      break;
+    case 'authors':
+      reference.authors = reference.authors ? `${reference.authors}; ${value}` : value;
+      break;
+    default:
+      reference[field] = value;
+  }
+}
+
+// Generic CSV/TSV is only auto-detected when one of its headers is recognisably a title column
+export function isGenericSpreadsheet(text: string): boolean {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  const headers = readDelimitedTable(firstLine, sniffDelimiter(firstLine)).headers;
+  return headers.length > 1 && Object.values(guessColumnMapping(headers)).includes('title');
+}
+
+export function readSpreadsheetText(text: string): DelimitedTable {
+  const normalized = normalizeText(text);
+  return readDelimitedTable(normalized, sniffDelimiter(normalized));
+}
+
+/**
+ * Turns spreadsheet rows into references using a column mapping. Columns that
+ * are not mapped are kept under metadata.columns. The table is returned with
+ * the result so the preview can parse it again with a different mapping.
+ */
+export function parseSpreadsheet(table: DelimitedTable, mapping: ColumnMapping, format: 'csv' | 'xlsx' = 'csv'): ParseResult {
+  const references: ParsedReference[] = [];
+  const warnings: ParseWarning[] = [];
+  const { headers } = table;
+  const yearColumn = headers.find(header => mapping[header] === 'year');
+
+  table.rows.forEach((row, index) => {
+    const reference: ParsedReference = { title: '', authors: '' };
+    const columns: Record<string, string> = {};
+
+    headers.forEach((header, column) => {
+      const value = row.values[column]?.trim();
+      if (!header || !value) return;
+      const field = mapping[header];
+      if (field) {
+        assignMappedField(reference, field, value);
+      } else {
+        columns[header] = value;
+      }
+    });
+
+    const metadata: ReferenceMetadata = { source_format: format };
+    if (Object.keys(columns).length > 0) metadata.columns = columns;
+    reference.metadata = metadata;
+
+    const context = { entry: index, line: row.line };
+    if (row.values.length !== headers.length) {
+      warnings.push({ ...context, code: 'malformed_row', message: `Row has ${row.values.length} columns, expected ${headers.length}` });
+    }
+    if (!reference.title) {
+      warnings.push({ ...context, code: 'missing_title', message: 'Row has no title and was not imported' });
+      return;
+    }
+    const rawYear = yearColumn ? row.values[headers.indexOf(yearColumn)]?.trim() : undefined;
+    if (rawYear && reference.year === undefined) {
+      warnings.push({ ...context, code: 'invalid_year', field: 'year', message: `Could not read a year from "${rawYear}"` });
+    }
+    warnings.push(...checkReferenceFields(reference, context));
+    references.push(reference);
+  });
+
+  return { references, warnings, table };
+}
@@ -0,0 +1,79 @@
+import type { ImportFormat } from './detectFormat';
+import type { ParseResult } from './types';
+
+/**
+ * Returns the offset just past the last complete record in `text`, or -1 when
+ * no record has finished yet. Formats without an unambiguous record boundary
+ * (BibTeX macros, CSV quoting, XML nesting, EndNote) return -1 and are parsed
+ * once the whole file has been read.
+ */
+export function findRecordBoundary(format: ImportFormat, text: string): number {
+  switch (format) {
+    case 'ris':
+    case 'embase': {
+      const end = text.lastIndexOf('\nER  -');
+      const newline = end === -1 ? -1 : text.indexOf('\n', end + 1);
+      return newline === -1 ? -1 : newline + 1;
+    }
+    case 'wos': {
+      // Tab-delimited exports have no record terminator
+      if (text.startsWith('PT\t')) return -1;
+      const end = text.lastIndexOf('\nER\n');
+      return end === -1 ? -1 : end + 4;
+    }
+    case 'pubmed': {
+      const end = text.lastIndexOf('\n\n');
+      return end === -1 ? -1 : end + 2;
+    }
+    case 'cochrane': {
+      const start = text.lastIndexOf('\nRecord #');
+      return start <= 0 ? -1 : start + 1;
+    }
+    default:
+      return -1;
+  }
+}
+
+// Lines that start (or end) one record, used to keep entry indexes file-wide
+const RECORD_MARKERS: Partial<Record<ImportFormat, RegExp>> = {
+  ris: /^ER {2}-/gm,
+  embase: /^ER {2}-/gm,
+  wos: /^ER$/gm,
+  pubmed: /^PMID-/gm,
+  cochrane: /^Record #/gm,
+};
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+/**
+ * Collects results of consecutive chunks into one ParseResult, shifting
+ * warning line numbers and entry indexes so they refer to the whole file.
+ */
+export class ChunkedParseResult {
+  private result: ParseResult = { references: [], warnings: [] };
+  private lineOffset = 0;
+  private entryOffset = 0;
+
+  constructor(private format: ImportFormat) {}
+
+  add(chunk: string, parsed: ParseResult) {
+    if (parsed.table) this.result.table = parsed.table;
+    parsed.references.forEach(reference => this.result.references.push(reference));
+    parsed.warnings.forEach(warning => this.result.warnings.push({
+      ...warning,
+      line: warning.line !== undefined ? warning.line + this.lineOffset : undefined,
+      entry: warning.entry !== undefined ? warning.entry + this.entryOffset : undefined,
+    }));
+    this.lineOffset += countMatches(chunk, /\n/g);
+    const marker = RECORD_MARKERS[this.format];
+    if (marker) this.entryOffset += countMatches(chunk, marker);
+  }
+
+  get recordsParsed() {
+    return this.result.references.length;
+  }
+
+  toResult(): ParseResult {
+    return this.result;
+  }
+}
@@ -0,0 +1,121 @@
+// Generic reader for line-tagged formats (RIS, MEDLINE, Web of Science, Cochrane)
+
+export interface TaggedField {
+  tag: string;
+  value: string;
+  line: number;
+}
+
+export interface TaggedRecord {
+  fields: TaggedField[];
+  // 1-based line of the first field in the record
+  line: number;
+  // False when the file ended (or a new record started) before the end tag
+  terminated: boolean;
+}
+
+export interface TaggedFormatOptions {
+  // Must capture the tag in group 1 and the value in group 2
+  tagLine: RegExp;
+  // Tag that opens a new record (e.g. "TY" or "PMID")
+  startTag?: string;
+  // Tag that closes a record (e.g. "ER")
+  endTag?: string;
+  // Blank lines close the current record (MEDLINE)
+  blankLineEndsRecord?: boolean;
+  // Continuation lines must start with whitespace; other untagged lines are ignored
+  indentedContinuation?: boolean;
+  // Tags that are ignored entirely (e.g. file headers such as "FN", "VR", "EF")
+  ignoredTags?: string[];
+  // Tags whose continuation lines are separate values rather than wrapped text (Web of Science AU, CR)
+  repeatedTags?: string[];
+}
+
+/**
+ * Splits normalized text into records of tag/value pairs. Untagged lines are
+ * treated as continuations of the previous field and joined with a space.
+ */
+export function readTaggedRecords(text: string, options: TaggedFormatOptions): TaggedRecord[] {
+  const records: TaggedRecord[] = [];
+  const ignored = new Set(options.ignoredTags ?? []);
+  const repeated = new Set(options.repeatedTags ?? []);
+  let current: TaggedRecord | null = null;
+  let lastField: TaggedField | null = null;
+
+  const close = (terminated: boolean) => {
+    if (current && current.fields.length > 0) {
+      current.terminated = terminated;
+      records.push(current);
+    }
+    current = null;
+    lastField = null;
+  };
+
+  text.split('\n').forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/\s+$/, '');
+
+    if (!line.trim()) {
+      if (options.blankLineEndsRecord) close(true);
+      lastField = null;
+      return;
+    }
+
+    const match = options.tagLine.exec(line);
+    if (match) {
+      const tag = match[1];
+      const value = (match[2] ?? '').trim();
+      if (ignored.has(tag)) return;
+
+      if (tag === options.endTag) {
+        close(true);
+        return;
+      }
+      if (tag === options.startTag && current && current.fields.length > 0) {
+        close(false);
+      }
+      if (!current) current = { fields: [], line: lineNumber, terminated: false };
+
+      lastField = { tag, value, line: lineNumber };
+      current.fields.push(lastField);
+      return;
+    }
+
+    const isIndented = /^\s/.test(rawLine);
+    if (lastField && (!options.indentedContinuation || isIndented)) {
+      const continuation = line.trim();
+      if (repeated.has(lastField.tag)) {
+        lastField = { tag: lastField.tag, value: continuation, line: lineNumber };
+        current.fields.push(lastField);
+      } else {
+        lastField.value = lastField.value ? `${lastField.value} ${continuation}` : continuation;
+      }
+    }
+  });
+
+  close(options.endTag === undefined);
+  return records;
+}
+
+export function getValues(record: TaggedRecord, ...tags: string[]): string[] {
+  return record.fields.filter(field => tags.includes(field.tag) && field.value).map(field => field.value);
+}
+
+// Returns the first non-empty value, trying tags in priority order
+export function getFirst(record: TaggedRecord, ...tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const field = record.fields.find(candidate => candidate.tag === tag && candidate.value);
+    if (field) return field.value;
+  }
+  return undefined;
+}
+
+// Collects fields not consumed by a parser, keyed by tag
+export function collectUnmappedTags(record: TaggedRecord, mapped: Set<string>): Record<string, string[]> {
+  const extra: Record<string, string[]> = {};
+  record.fields.forEach(field => {
+    if (mapped.has(field.tag) || !field.value) return;
+    (extra[field.tag] ??= []).push(field.value);
+  });
+  return extra;
+}
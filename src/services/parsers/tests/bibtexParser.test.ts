@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { parseBibTeX } from '../bibtexParser';
+import { decodeLatex } from '../latex';
+import { readFixture } from './fixtures';
+
+describe('parseBibTeX', () => {
+  const { references, warnings } = parseBibTeX(readFixture('sample.bib'));
+
+  it('imports each entry with a title and skips @string, @preamble and @comment blocks', () => {
+    expect(references.map(reference => reference.metadata.citation_key)).toEqual(['smith2020', 'garcia2019', 'lee2016']);
+  });
+
+  it('expands macros, # concatenation and LaTeX markup', () => {
+    expect(references[0]).toEqual({
+      title: 'Effects of β-blockers on survival — a review',
+      authors: 'Smith, John; Müller, Jörg; Barnes and Noble',
+      abstract: 'Beta blockers reduce mortality.',
+      journal: 'New England Journal of Medicine',
+      year: 2020,
+      doi: '10.1056/NEJMoa2000001',
+      pmid: '32000001',
+      url: 'https://example.org/a_b%20c',
+      keywords: ['heart failure', 'beta blockers'],
+      metadata: {
+        source_format: 'bibtex',
+        entry_type: 'article',
+        citation_key: 'smith2020',
+        fields: { month: 'January', volume: '382', pages: '1–10' },
+      },
+    });
+  });
+
+  it('reads parenthesised entries, quoted values and drops "others" from the authors', () => {
+    expect(references[1]).toMatchObject({
+      title: 'Naïve approaches in Curaçao',
+      authors: 'García, Ana',
+      journal: 'Proceedings of the Conference',
+      year: 2019,
+      metadata: { entry_type: 'inproceedings', fields: { note: 'Edition & notes at 50%' } },
+    });
+  });
+
+  it('keeps the first of repeated fields', () => {
+    expect(references[2].title).toBe('Repeated fields');
+  });
+
+  it('reports skipped entries and field problems in file order', () => {
+    expect(warnings.map(({ code, line, key }) => ({ code, line, key }))).toEqual([
+      { code: 'missing_abstract', line: 23, key: 'garcia2019' },
+      { code: 'malformed_record', line: 31, key: undefined },
+      { code: 'missing_title', line: 36, key: 'untitled2017' },
+      { code: 'undefined_macro', line: 38, key: undefined },
+      { code: 'duplicate_field', line: 42, key: 'lee2016' },
+      { code: 'invalid_year', line: 42, key: 'lee2016' },
+    ]);
+  });
+
+  it('numbers entries by their position in the file, counting blocks that were skipped', () => {
+    // @string, @preamble and @comment are blocks 0-2, so smith2020 is entry 3
+    expect(warnings.map(({ code, entry }) => ({ code, entry }))).toEqual([
+      { code: 'missing_abstract', entry: 4 },
+      { code: 'malformed_record', entry: 5 },
+      { code: 'missing_title', entry: 6 },
+      { code: 'undefined_macro', entry: 6 },
+      { code: 'duplicate_field', entry: 7 },
+      { code: 'invalid_year', entry: 7 },
+    ]);
+  });
+});
+
+describe('decodeLatex', () => {
+  it('turns accent commands into composed characters', () => {
+    expect(decodeLatex('\\"{u} \\\'e \\c c \\v{s} {\\"\\i} \\ss{}')).toBe('ü é ç š ï ß');
+  });
+
+  it('keeps escaped braces and dollars but drops protective ones', () => {
+    expect(decodeLatex('{DNA} \\{x\\} costs \\$5~each')).toBe('DNA {x} costs $5 each');
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseCochrane } from '../cochraneParser';
+import { readFixture } from './fixtures';
+
+describe('parseCochrane', () => {
+  const { references, warnings } = parseCochrane(readFixture('cochrane.txt'));
+
+  it('reads CENTRAL records separated by "Record #n of m" lines', () => {
+    expect(references).toEqual([{
+      title: 'A cluster trial of hand washing',
+      authors: 'Smith J; Jones M',
+      abstract: 'Hand washing reduced infections.',
+      journal: 'Trials',
+      year: 2020,
+      doi: '10.1186/s13063-020-0001-1',
+      pmid: '32001234',
+      url: 'https://www.cochranelibrary.com/central/doi/10.1002/central/CN-01234567/full',
+      keywords: ['hand hygiene', 'infection'],
+      metadata: {
+        source_format: 'cochrane',
+        accession_number: 'CN-01234567',
+        volume: '21',
+        issue: '3',
+        pages: '100-110',
+        publication_types: ['Journal Article'],
+        cross_references: ['EMBASE 2000123456'],
+      },
+    }]);
+  });
+
+  it('keeps line numbers of the original file', () => {
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'missing_title', entry: 1, line: 20, key: 'CN-07654321' }),
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { readDelimitedRows, readDelimitedTable, sniffDelimiter } from '../csv';
+
+describe('readDelimitedRows', () => {
+  it('follows RFC 4180 quoting', () => {
+    const rows = readDelimitedRows('a,"b, with comma","say ""hi"""\r\n"multi\nline",,last\n');
+
+    expect(rows).toEqual([
+      { values: ['a', 'b, with comma', 'say "hi"'], line: 1 },
+      { values: ['multi\nline', '', 'last'], line: 2 },
+    ]);
+  });
+
+  it('skips blank lines but keeps counting them', () => {
+    const rows = readDelimitedRows('x\n\n"y\nz"\n\nw');
+
+    expect(rows.map(row => row.line)).toEqual([1, 3, 6]);
+  });
+
+  it('treats a quote inside an unquoted field as text', () => {
+    expect(readDelimitedRows('5" floppy,ok')[0].values).toEqual(['5" floppy', 'ok']);
+  });
+});
+
+describe('readDelimitedTable', () => {
+  it('splits off the trimmed header row', () => {
+    const table = readDelimitedTable(' Title \tYear\nA\t2020\n', '\t');
+
+    expect(table).toEqual({ headers: ['Title', 'Year'], rows: [{ values: ['A', '2020'], line: 2 }] });
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('picks the delimiter that splits the header most', () => {
+    expect(sniffDelimiter('Title;Authors;Year\na,b;c;d')).toBe(';');
+    expect(sniffDelimiter('Title\tAuthors, et al.\tYear')).toBe('\t');
+    expect(sniffDelimiter('Title,Year')).toBe(',');
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormat } from '../detectFormat';
+import { readFixture } from './fixtures';
+
+describe('detectFormat', () => {
+  it.each([
+    ['sample.bib', 'bibtex'],
+    ['sample.ris', 'ris'],
+    ['embase.ris', 'embase'],
+    ['sample.nbib', 'pubmed'],
+    ['pubmed.xml', 'pubmed-xml'],
+    ['sample-wos.txt', 'wos'],
+    ['sample-wos-tab.txt', 'wos'],
+    ['cochrane.txt', 'cochrane'],
+    ['scopus.csv', 'scopus'],
+    ['spreadsheet.tsv', 'csv'],
+  ])('recognises %s as %s', (name, format) => {
+    expect(detectFormat(readFixture(name))).toBe(format);
+  });
+
+  it('returns null for unknown content', () => {
+    expect(detectFormat('<html><body>Not an export</body></html>')).toBeNull();
+    expect(detectFormat('Just some notes')).toBeNull();
+  });
+});
@@ -0,0 +1,7 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+// Sample exports live in ./fixtures, one per format
+export const readFixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+export const readFixtureBuffer = (name: string): ArrayBuffer => Uint8Array.from(readFileSync(path.join(__dirname, 'fixtures', name))).buffer;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseMedline } from '../medlineParser';
+import { readFixture } from './fixtures';
+
+describe('parseMedline', () => {
+  const { references, warnings } = parseMedline(readFixture('sample.nbib'));
+
+  it('joins indented continuation lines onto the preceding tag', () => {
+    expect(references[0]).toMatchObject({
+      title: 'Long titles in MEDLINE wrap onto continuation lines that are indented by six spaces.',
+      abstract: 'Background: the abstract also wraps across lines.',
+    });
+  });
+
+  it('reads identifiers from the LID lines and the PMID', () => {
+    expect(references[0]).toMatchObject({
+      authors: 'Smith J; Jones M',
+      journal: 'Journal of Examples',
+      year: 2019,
+      doi: '10.1000/jex.2019.1',
+      pmid: '31000001',
+      url: 'https://pubmed.ncbi.nlm.nih.gov/31000001/',
+      keywords: ['physical activity'],
+      metadata: {
+        source_format: 'medline',
+        full_authors: ['Smith, John', 'Jones, Mary'],
+        affiliations: ['University Hospital.'],
+        mesh_terms: ['Humans', '*Exercise'],
+        pii: 'S0000-0000(19)00001-1',
+        tags: { XX: ['An unknown tag'] },
+      },
+    });
+  });
+
+  it('ends records at blank lines and reports missing PMIDs and titles', () => {
+    expect(references.map(reference => reference.title)).toEqual([
+      'Long titles in MEDLINE wrap onto continuation lines that are indented by six spaces.',
+      'Record without a PMID',
+    ]);
+    expect(warnings.map(({ code, entry, line }) => ({ code, entry, line }))).toEqual([
+      { code: 'missing_pmid', entry: 1, line: 28 },
+      { code: 'missing_title', entry: 2, line: 32 },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parsePubMedXml } from '../pubmedXmlParser';
+import { decodeXmlEntities, findElement, parseXml, textContent } from '../xml';
+import { readFixture } from './fixtures';
+
+describe('parseXml', () => {
+  it('builds an element tree with attributes, entities and CDATA', () => {
+    const document = parseXml('<?xml version="1.0"?><!-- note --><a x="1 &amp; 2"><b>t&lt;1</b><![CDATA[<raw>]]><c/></a>');
+    const root = findElement(document, 'a');
+
+    expect(root.attributes).toEqual({ x: '1 & 2' });
+    expect(root.children).toEqual([
+      { name: 'b', attributes: {}, children: ['t<1'] },
+      '<raw>',
+      { name: 'c', attributes: {}, children: [] },
+    ]);
+  });
+
+  it('keeps whitespace between inline elements but not between top-level nodes', () => {
+    const document = parseXml('<?xml version="1.0"?>\n<title>Effects of <i>alpha</i> <i>beta</i></title>\n');
+
+    expect(document.children).toHaveLength(1);
+    expect(textContent(findElement(document, 'title'))).toBe('Effects of alpha beta');
+  });
+
+  it('skips a DOCTYPE with an internal subset', () => {
+    const document = parseXml('<!DOCTYPE a [<!ENTITY e "x">]><a>text</a>');
+
+    expect(textContent(findElement(document, 'a'))).toBe('text');
+  });
+
+  it('rejects an unterminated tag', () => {
+    expect(() => parseXml('<a><b')).toThrow('Unterminated tag');
+  });
+
+  it('decodes numeric character references', () => {
+    expect(decodeXmlEntities('&#233;&#xE9;&unknown;')).toBe('éé&unknown;');
+  });
+});
+
+describe('parsePubMedXml', () => {
+  const { references, warnings } = parsePubMedXml(readFixture('pubmed.xml'));
+
+  it('reads an article with inline markup, labelled abstract sections and entities', () => {
+    expect(references[0]).toMatchObject({
+      title: 'Effects of alpha & beta agonists on CO2 retention.',
+      authors: 'Müller J; Example Study Group',
+      abstract: 'BACKGROUND: Some background. RESULTS: Retention fell by <5%.',
+      journal: 'Journal of Examples',
+      year: 2021,
+      doi: '10.1000/xml.2021.10',
+      pmid: '34000001',
+      url: 'https://pubmed.ncbi.nlm.nih.gov/34000001/',
+      keywords: ['agonists'],
+      metadata: {
+        source_format: 'pubmed-xml',
+        journal_abbreviation: 'J Ex',
+        issn: '0000-0001',
+        volume: '10',
+        issue: '2',
+        pages: '1-9',
+        publication_date: '2021 Feb',
+        language: ['eng'],
+        publication_types: ['Journal Article'],
+        mesh_terms: ['Humans'],
+        pmcid: 'PMC8000001',
+      },
+    });
+  });
+
+  it('reads book articles and reports articles without a title', () => {
+    expect(references[1]).toMatchObject({ title: 'Handbook of Examples', year: 2020, doi: '10.1000/book.2020', pmid: '34000002' });
+    expect(references).toHaveLength(2);
+    expect(warnings).toContainEqual(expect.objectContaining({ code: 'missing_title', entry: 2, key: '34000003' }));
+  });
+
+  it('rejects XML that is not a PubMed article set', () => {
+    expect(() => parsePubMedXml('<eSearchResult><Count>0</Count></eSearchResult>')).toThrow('missing <PubmedArticleSet>');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseEmbase } from '../embaseParser';
+import { parseRIS } from '../risParser';
+import { readFixture } from './fixtures';
+
+describe('parseRIS', () => {
+  const { references, warnings } = parseRIS(readFixture('sample.ris'));
+
+  it('reads a CRLF file with a byte order mark and joins continuation lines', () => {
+    expect(references).toHaveLength(2);
+    expect(references[0]).toMatchObject({
+      title: 'A randomised trial of exercise in older adults',
+      authors: 'Smith, John; Jones, Mary',
+      journal: 'J Aging Res',
+      year: 2021,
+      doi: '10.1000/jar.2021.12',
+      pmid: '33445566',
+      abstract: 'Exercise reduced falls.',
+      url: 'https://example.org/1',
+      keywords: ['exercise', 'ageing', 'falls'],
+    });
+  });
+
+  it('keeps tags without a dedicated field in metadata', () => {
+    expect(references[0].metadata).toMatchObject({
+      source_format: 'ris',
+      type: 'JOUR',
+      volume: '12',
+      pages: '101-110',
+      record_id: 'ref-1',
+      urls: ['https://example.org/1', 'https://example.org/2'],
+      tags: { C7: ['e1234'] },
+    });
+  });
+
+  it('reports unterminated records, unreadable years and records without a title', () => {
+    expect(warnings.map(({ code, entry, line }) => ({ code, entry, line }))).toEqual([
+      { code: 'missing_terminator', entry: 1, line: 24 },
+      { code: 'invalid_year', entry: 1, line: 24 },
+      { code: 'missing_abstract', entry: 1, line: 24 },
+      { code: 'missing_title', entry: 2, line: 28 },
+    ]);
+  });
+});
+
+describe('parseEmbase', () => {
+  const { references } = parseEmbase(readFixture('embase.ris'));
+
+  it('adds the Embase accession, Emtree major terms and the PubMed ID from C5', () => {
+    expect(references[0]).toMatchObject({
+      pmid: '31112222',
+      keywords: ['statin', 'cognitive defect'],
+      metadata: {
+        source_format: 'embase',
+        embase_accession: 'L2001234567',
+        emtree_major_terms: ['statin'],
+        databases: ['Embase', 'Medline'],
+      },
+    });
+  });
+
+  it('finds a PubMed ID mentioned in the notes', () => {
+    expect(references[1].pmid).toBe('29998877');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { parseScopusCsv } from '../scopusCsvParser';
+import { guessColumnMapping, isGenericSpreadsheet, mappingMatchesHeaders, parseSpreadsheet, readSpreadsheetText } from '../spreadsheetParser';
+import { readFixture } from './fixtures';
+
+describe('parseSpreadsheet', () => {
+  const table = readSpreadsheetText(readFixture('spreadsheet.tsv'));
+  const mapping = guessColumnMapping(table.headers);
+
+  it('guesses the mapping from common header names', () => {
+    expect(mapping).toEqual({ 'Study Title': 'title', Author: 'authors', 'Publication Year': 'year', Abstract: 'abstract', DOI: 'doi' });
+    expect(mappingMatchesHeaders(mapping, table.headers)).toBe(true);
+    expect(mappingMatchesHeaders(mapping, ['Title', 'Year'])).toBe(false);
+  });
+
+  it('maps columns onto fields and keeps the rest under metadata.columns', () => {
+    const { references, warnings } = parseSpreadsheet(table, mapping);
+
+    expect(references[0]).toEqual({
+      title: 'Tab-separated study',
+      authors: 'Smith, J',
+      year: 2018,
+      abstract: 'An abstract.',
+      doi: '10.1000/tsv.1',
+      metadata: { source_format: 'csv', columns: { Notes: 'first' } },
+    });
+    expect(references.map(reference => reference.title)).toEqual(['Tab-separated study', 'Another study']);
+    expect(warnings.map(({ code, entry, line }) => ({ code, entry, line }))).toEqual([
+      { code: 'missing_title', entry: 1, line: 3 },
+      { code: 'invalid_year', entry: 2, line: 4 },
+      { code: 'missing_abstract', entry: 2, line: 4 },
+    ]);
+  });
+
+  it('parses the same table again with another mapping', () => {
+    const { references } = parseSpreadsheet(table, { ...mapping, Notes: 'keywords' });
+
+    expect(references[0].keywords).toEqual(['first']);
+    expect(references[0].metadata).toEqual({ source_format: 'csv' });
+  });
+
+  it('is only detected when a column looks like a title', () => {
+    expect(isGenericSpreadsheet('Study Title\tAuthor\n')).toBe(true);
+    expect(isGenericSpreadsheet('Name,Email\n')).toBe(false);
+  });
+});
+
+describe('parseScopusCsv', () => {
+  const { references, warnings } = parseScopusCsv(readFixture('scopus.csv'));
+
+  it('reads quoted fields with doubled quotes and line breaks', () => {
+    expect(references[0]).toMatchObject({
+      title: 'Trial of "usual care", revisited',
+      authors: 'Smith J.; Jones M.',
+      abstract: 'First paragraph.\nSecond paragraph.',
+      journal: 'Journal of Examples',
+      year: 2021,
+      doi: '10.1000/sco.2021.9',
+      pmid: '33000001',
+      url: 'https://www.scopus.com/record/1',
+      keywords: ['exercise', 'falls'],
+      metadata: {
+        source_format: 'scopus',
+        full_authors: ['Smith, John', 'Jones, Mary'],
+        pages: '1-12',
+        accession_number: '2-s2.0-85000000001',
+        columns: { 'Funding Details': 'Grant 12' },
+      },
+    });
+  });
+
+  it('reports short rows with the line they start on', () => {
+    expect(warnings).toContainEqual(expect.objectContaining({ code: 'malformed_row', entry: 1, line: 4 }));
+  });
+
+  it('rejects a file without a Title column', () => {
+    expect(() => parseScopusCsv('Authors,Year\nSmith,2020\n')).toThrow('missing "Title" column');
+  });
+});
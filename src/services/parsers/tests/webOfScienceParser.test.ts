@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseWebOfScience } from '../webOfScienceParser';
+import { readFixture } from './fixtures';
+
+describe('parseWebOfScience', () => {
+  it('reads the plain text export, one value per continuation line for author tags', () => {
+    const { references, warnings } = parseWebOfScience(readFixture('sample-wos.txt'));
+
+    expect(references[0]).toMatchObject({
+      title: 'A title that wraps onto a second line',
+      authors: 'Smith, J; Jones, M',
+      journal: 'JOURNAL OF EXAMPLES',
+      year: 2020,
+      doi: '10.1000/wos.2020.5',
+      pmid: '32000002',
+      keywords: ['exercise', 'falls', 'older adults'],
+      url: 'https://www.webofscience.com/wos/woscc/full-record/WOS:000500000000001',
+      metadata: {
+        source_format: 'wos',
+        full_authors: ['Smith, John', 'Jones, Mary'],
+        keywords_plus: ['PHYSICAL-ACTIVITY'],
+        pages: '10-20',
+      },
+    });
+    expect(warnings.map(({ code, entry }) => ({ code, entry }))).toEqual([
+      { code: 'missing_terminator', entry: 1 },
+      { code: 'missing_abstract', entry: 1 },
+    ]);
+  });
+
+  it('reads the tab-delimited export with "; "-separated authors', () => {
+    const { references } = parseWebOfScience(readFixture('sample-wos-tab.txt'));
+
+    expect(references).toEqual([expect.objectContaining({
+      title: 'Tab-delimited title',
+      authors: 'Smith, J; Jones, M',
+      keywords: ['exercise', 'falls'],
+      doi: '10.1000/wos.2020.6',
+      metadata: expect.objectContaining({ source_format: 'wos-tab', accession_number: 'WOS:000500000000002' }),
+    })]);
+  });
+});
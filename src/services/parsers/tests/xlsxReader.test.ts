@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { guessColumnMapping, parseSpreadsheet } from '../spreadsheetParser';
+import { readXlsxTable } from '../xlsxReader';
+import { isZip, ZipArchive } from '../zip';
+import { readFixtureBuffer } from './fixtures';
+
+describe('ZipArchive', () => {
+  const buffer = readFixtureBuffer('sample.xlsx');
+
+  it('lists entries and inflates both stored and deflated ones', async () => {
+    const archive = new ZipArchive(buffer);
+
+    expect(isZip(new Uint8Array(buffer))).toBe(true);
+    expect(archive.has('xl/workbook.xml')).toBe(true);
+    expect(archive.has('xl/missing.xml')).toBe(false);
+    expect(await archive.readText('xl/sharedStrings.xml')).toContain('<t>Title</t>');
+    expect(await archive.readText('xl/worksheets/data.xml')).toContain('<sheetData>');
+    await expect(archive.readText('xl/missing.xml')).rejects.toThrow('Missing xl/missing.xml');
+  });
+
+  it('rejects data that is not an archive', () => {
+    expect(() => new ZipArchive(new TextEncoder().encode('Title,Year\n').buffer)).toThrow('Not a valid ZIP archive');
+  });
+});
+
+describe('readXlsxTable', () => {
+  it('reads the first sheet through the workbook relationships', async () => {
+    const table = await readXlsxTable(readFixtureBuffer('sample.xlsx'));
+
+    expect(table).toEqual({
+      headers: ['Title', 'Authors', 'Year', 'Abstract', 'Peer reviewed'],
+      rows: [
+        { values: ['Rich text title', 'Smith, J', '2022', 'First paragraph.\nSecond paragraph.', 'TRUE'], line: 2 },
+        { values: ['Sparse row', '', '2019', '', ''], line: 5 },
+      ],
+    });
+  });
+
+  it('feeds the spreadsheet parser with sheet row numbers as lines', async () => {
+    const table = await readXlsxTable(readFixtureBuffer('sample.xlsx'));
+    const { references, warnings } = parseSpreadsheet(table, guessColumnMapping(table.headers), 'xlsx');
+
+    expect(references[0]).toMatchObject({ title: 'Rich text title', year: 2022, metadata: { source_format: 'xlsx', columns: { 'Peer reviewed': 'TRUE' } } });
+    expect(warnings).toContainEqual(expect.objectContaining({ code: 'missing_abstract', line: 5 }));
+  });
+});
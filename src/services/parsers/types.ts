@@ -0,0 +1,63 @@
+// Shared types for the reference file parsers
+import type { Json } from '@/integrations/supabase/types';
+import type { DelimitedTable } from './csv';
+
+export type ReferenceMetadata = { [key: string]: Json | undefined };
+
+export interface ParsedReference {
+  title: string;
+  authors: string;
+  abstract?: string;
+  journal?: string;
+  year?: number;
+  doi?: string;
+  pmid?: string;
+  url?: string;
+  keywords?: string[];
+  // Format-specific extras (volume, pages, entry type, ...) stored in references.metadata
+  metadata?: ReferenceMetadata;
+}
+
+// Problems found while reading a file; the first two mean the record was not imported
+export type ImportIssueCode =
+  | 'missing_title'
+  | 'malformed_record'
+  | 'missing_terminator'
+  | 'malformed_row'
+  | 'duplicate_field'
+  | 'undefined_macro'
+  | 'missing_abstract'
+  | 'missing_pmid'
+  | 'invalid_year'
+  | 'invalid_doi'
+  | 'invalid_pmid'
+  | 'encoding';
+
+export const SKIPPED_RECORD_CODES: ImportIssueCode[] = ['missing_title', 'malformed_record'];
+
+export interface ParseWarning {
+  code: ImportIssueCode;
+  // Zero-based index of the entry in the source file, when known
+  entry?: number;
+  // 1-based line number where the entry starts
+  line?: number;
+  // Citation key or record identifier, when the format has one
+  key?: string;
+  // Reference field the problem is about, for field-level issues
+  field?: string;
+  message: string;
+}
+
+export interface ParseResult {
+  references: ParsedReference[];
+  warnings: ParseWarning[];
+  // Raw rows of spreadsheet imports, kept so the column mapping can be changed after parsing
+  table?: DelimitedTable;
+}
+
+// ParsedReference fields that a spreadsheet or unrecognised CSV column can be mapped onto
+export const MAPPABLE_FIELDS = ['title', 'authors', 'abstract', 'journal', 'year', 'doi', 'pmid', 'url', 'keywords'] as const;
+export type MappableField = typeof MAPPABLE_FIELDS[number];
+
+// Column name -> target field; unmapped columns stay in metadata.columns
+export type ColumnMapping = Record<string, MappableField | undefined>;
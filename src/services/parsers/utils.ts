@@ -0,0 +1,40 @@
+// Helpers shared by the reference file parsers
+
+// Strips a UTF-8 byte order mark and converts CRLF/CR line endings to LF
+export function normalizeText(text: string): string {
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+const DOI_PATTERN = /10\.\d{4,9}\/[^\s"<>]+/;
+
+// Removes resolver prefixes ("https://doi.org/", "doi:") from a DOI value
+export function normalizeDoi(raw: string): string {
+  return raw.trim().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/i, '');
+}
+
+// Finds a DOI inside free text such as a URL or a note field
+export function extractDoi(text: string | undefined): string | undefined {
+  const match = text?.match(DOI_PATTERN);
+  return match ? match[0].replace(/[.,;]+$/, '') : undefined;
+}
+
+export function parseYear(text: string | undefined): number | undefined {
+  const match = text?.match(/\b(1[5-9]\d{2}|2\d{3})\b/);
+  return match ? parseInt(match[1]) : undefined;
+}
+
+export function uniqueValues(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+}
+
+// Honours UTF-16 byte order marks (Web of Science and EndNote on Windows), UTF-8 otherwise
+export function createFileDecoder(firstBytes: Uint8Array): TextDecoder {
+  if (firstBytes[0] === 0xff && firstBytes[1] === 0xfe) return new TextDecoder('utf-16le');
+  if (firstBytes[0] === 0xfe && firstBytes[1] === 0xff) return new TextDecoder('utf-16be');
+  return new TextDecoder('utf-8');
+}
+
+// Decodes a whole uploaded file
+export function decodeFileBuffer(buffer: ArrayBuffer): string {
+  return createFileDecoder(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 2))).decode(buffer);
+}
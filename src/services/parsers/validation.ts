@@ -0,0 +1,33 @@
+import type { ParsedReference, ParseWarning } from './types';
+
+const DOI_SYNTAX = /^10\.\d{4,9}\/\S+$/;
+// U+FFFD comes from bytes that were not valid UTF-8; "Ã©"-style pairs are UTF-8 read as Latin-1
+const MISDECODED_TEXT = /\uFFFD|\u00C3[\u0080-\u00BF]|\u00E2\u20AC/;
+const TEXT_FIELDS = ['title', 'authors', 'abstract', 'journal'] as const;
+
+type RecordContext = Pick<ParseWarning, 'entry' | 'line' | 'key'>;
+
+/**
+ * Field-level checks shared by every parser, run on records that are imported.
+ * Problems are reported only; the values are stored as they were read.
+ */
+export function checkReferenceFields(reference: ParsedReference, context: RecordContext): ParseWarning[] {
+  const issues: ParseWarning[] = [];
+
+  if (!reference.abstract?.trim()) {
+    issues.push({ ...context, code: 'missing_abstract', field: 'abstract', message: 'Record has no abstract' });
+  }
+  if (reference.doi && !DOI_SYNTAX.test(reference.doi)) {
+    issues.push({ ...context, code: 'invalid_doi', field: 'doi', message: `"${reference.doi}" is not a valid DOI` });
+  }
+  if (reference.pmid && !/^\d+$/.test(reference.pmid)) {
+    issues.push({ ...context, code: 'invalid_pmid', field: 'pmid', message: `PMID "${reference.pmid}" is not numeric` });
+  }
+  TEXT_FIELDS.forEach(field => {
+    if (reference[field] && MISDECODED_TEXT.test(reference[field])) {
+      issues.push({ ...context, code: 'encoding', field, message: `The ${field} contains characters that were not decoded correctly` });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,143 @@
+import { readDelimitedTable } from './csv';
+import { collectUnmappedTags, getFirst, getValues, readTaggedRecords, TaggedField, TaggedRecord } from './taggedFormat';
+import type { ParsedReference, ParseResult, ParseWarning, ReferenceMetadata } from './types';
+import { normalizeDoi, normalizeText, parseYear, uniqueValues } from './utils';
+import { checkReferenceFields } from './validation';
+
+// "PT J", "AU Smith, J"; "ER" has no value and continuation lines are indented by three spaces
+const WOS_TAG_LINE = /^([A-Z][A-Z0-9])(?: (.*))?$/;
+
+// Tags that hold one value per line in plain text and "; "-separated values in tab-delimited files
+const MULTI_VALUE_TAGS = ['AU', 'AF', 'BA', 'BF', 'CA', 'GP', 'BE', 'CR', 'C1', 'EM', 'RI', 'OI', 'FU'];
+
+const MAPPED_TAGS = new Set([
+  'PT', 'AU', 'AF', 'CA', 'GP', 'BE', 'TI', 'SO', 'SE', 'BS', 'LA', 'DT', 'DE', 'ID', 'AB', 'C1', 'RP', 'EM',
+  'PU', 'PI', 'PA', 'SN', 'EI', 'BN', 'J9', 'JI', 'PD', 'PY', 'VL', 'IS', 'BP', 'EP', 'AR', 'DI', 'PM',
+  'UT', 'OA', 'WC', 'SC', 'TC', 'Z9', 'NR', 'CR', 'DA', 'RI', 'OI', 'FU', 'FX', 'CT', 'CY', 'HO',
+]);
+
+const splitKeywords = (values: string[]) =>
+  uniqueValues(values.flatMap(value => value.split(/\s*;\s*/)));
+
+function toReference(record: TaggedRecord, format: string): ParsedReference {
+  const startPage = getFirst(record, 'BP');
+  const endPage = getFirst(record, 'EP');
+  const accession = getFirst(record, 'UT');
+
+  const metadata: ReferenceMetadata = { source_format: format };
+  const assign = (key: string, value: string | string[] | undefined) => {
+    if (value !== undefined && (!Array.isArray(value) || value.length > 0)) metadata[key] = value;
+  };
+
+  assign('publication_type', getFirst(record, 'PT'));
+  assign('document_type', getFirst(record, 'DT'));
+  assign('full_authors', getValues(record, 'AF'));
+  assign('group_authors', getValues(record, 'CA', 'GP'));
+  assign('editors', getValues(record, 'BE'));
+  assign('keywords_plus', splitKeywords(getValues(record, 'ID')));
+  assign('addresses', getValues(record, 'C1'));
+  assign('reprint_address', getFirst(record, 'RP'));
+  assign('emails', getValues(record, 'EM'));
+  assign('publisher', getFirst(record, 'PU'));
+  assign('issn', getFirst(record, 'SN'));
+  assign('eissn', getFirst(record, 'EI'));
+  assign('isbn', getFirst(record, 'BN'));
+  assign('journal_abbreviation', getFirst(record, 'JI', 'J9'));
+  assign('series_title', getFirst(record, 'SE'));
+  assign('publication_date', getFirst(record, 'PD'));
+  assign('volume', getFirst(record, 'VL'));
+  assign('issue', getFirst(record, 'IS'));
+  assign('start_page', startPage);
+  assign('end_page', endPage);
+  assign('pages', startPage && endPage ? `${startPage}-${endPage}` : startPage);
+  assign('article_number', getFirst(record, 'AR'));
+  assign('language', getFirst(record, 'LA'));
+  assign('accession_number', accession);
+  assign('research_areas', getValues(record, 'WC', 'SC'));
+  assign('times_cited', getFirst(record, 'TC', 'Z9'));
+  assign('open_access', getFirst(record, 'OA'));
+  assign('conference_title', getFirst(record, 'CT'));
+
+  const unmapped = collectUnmappedTags(record, MAPPED_TAGS);
+  if (Object.keys(unmapped).length > 0) metadata.tags = unmapped;
+
+  const keywords = splitKeywords(getValues(record, 'DE'));
+  const doi = getFirst(record, 'DI');
+  const authors = getValues(record, 'AU');
+
+  return {
+    title: getFirst(record, 'TI') ?? '',
+    authors: (authors.length > 0 ? authors : getValues(record, 'CA', 'GP')).join('; '),
+    abstract: getFirst(record, 'AB'),
+    journal: getFirst(record, 'SO', 'SE', 'BS'),
+    year: parseYear(getFirst(record, 'PY', 'PD')),
+    doi: doi ? normalizeDoi(doi) : undefined,
+    pmid: getFirst(record, 'PM'),
+    url: accession ? `https://www.webofscience.com/wos/woscc/full-record/${accession}` : undefined,
+    keywords: keywords.length > 0 ? keywords : undefined,
+    metadata,
+  };
+}
+
+// Builds tagged records from the tab-delimited export, whose header row uses the same field tags
+function readTabDelimitedRecords(text: string): TaggedRecord[] {
+  const { headers, rows } = readDelimitedTable(text, '\t');
+  return rows.map(row => {
+    const fields: TaggedField[] = [];
+    headers.forEach((tag, column) => {
+      const value = row.values[column]?.trim();
+      if (!tag || !value) return;
+      const values = MULTI_VALUE_TAGS.includes(tag) ? value.split(/\s*;\s*/) : [value];
+      values.forEach(item => fields.push({ tag, value: item, line: row.line }));
+    });
+    return { fields, line: row.line, terminated: true };
+  });
+}
+
+export function isWebOfScienceTabDelimited(text: string): boolean {
+  return /^PT\tAU\t/.test(text);
+}
+
+/**
+ * Parses Web of Science exports in either the "Plain text" (tagged) or
+ * "Tab-delimited" layout.
+ */
+export function parseWebOfScience(text: string): ParseResult {
+  const normalized = normalizeText(text);
+  const tabDelimited = isWebOfScienceTabDelimited(normalized);
+  const format = tabDelimited ? 'wos-tab' : 'wos';
+  const records = tabDelimited
+    ? readTabDelimitedRecords(normalized)
+    : readTaggedRecords(normalized, {
+      tagLine: WOS_TAG_LINE,
+      startTag: 'PT',
+      endTag: 'ER',
+      indentedContinuation: true,
+      ignoredTags: ['FN', 'VR', 'EF'],
+      repeatedTags: MULTI_VALUE_TAGS,
+    });
+
+  const references: ParsedReference[] = [];
+  const warnings: ParseWarning[] = [];
+
+  records.forEach((record, index) => {
+    const reference = toReference(record, format);
+    const key = getFirst(record, 'UT');
+
+    if (!record.terminated) {
+      warnings.push({ entry: index, line: record.line, key, code: 'missing_terminator', message: 'Record is missing its "ER" terminator' });
+    }
+    if (!reference.title) {
+      warnings.push({ entry: index, line: record.line, key, code: 'missing_title', message: 'Record has no title and was not imported' });
+      return;
+    }
+    const rawYear = getFirst(record, 'PY');
+    if (rawYear && reference.year === undefined) {
+      warnings.push({ entry: index, line: record.line, key, code: 'invalid_year', field: 'year', message: `Could not read a year from "${rawYear}"` });
+    }
+    warnings.push(...checkReferenceFields(reference, { entry: index, line: record.line, key }));
+    references.push(reference);
+  });
+
+  return { references, warnings };
+}
@@ -0,0 +1,93 @@
+import type { DelimitedRow, DelimitedTable } from './csv';
+import { childElements, parseXml, XmlElement } from './xml';
+import { ZipArchive } from './zip';
+
+// Elements may carry a namespace prefix ("x:row") depending on the generator
+const localName = (element: XmlElement) => element.name.slice(element.name.indexOf(':') + 1);
+
+const children = (element: XmlElement | undefined, name: string) =>
+  childElements(element).filter(child => localName(child) === name);
+
+const descendant = (element: XmlElement | undefined, ...path: string[]): XmlElement | undefined => {
+  let current = element;
+  for (const name of path) {
+    current = children(current, name)[0];
+    if (!current) return undefined;
+  }
+  return current;
+};
+
+// Cell text without collapsing whitespace, so multi-paragraph abstracts keep their breaks
+const rawText = (element: XmlElement | undefined): string =>
+  element ? element.children.map(child => (typeof child === 'string' ? child : rawText(child))).join('') : '';
+
+// "BC12" -> 54 (zero-based column index)
+const columnIndex = (reference: string) => {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? '';
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+function resolveFirstSheetPath(workbook: XmlElement, relationships: XmlElement | undefined): string {
+  const sheet = children(descendant(workbook, 'workbook', 'sheets'), 'sheet')[0];
+  const relationId = sheet && Object.entries(sheet.attributes).find(([name]) => name.endsWith(':id'))?.[1];
+  const relation = children(descendant(relationships, 'Relationships'), 'Relationship')
+    .find(candidate => candidate.attributes.Id === relationId);
+  const target = relation?.attributes.Target ?? 'worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Reads the first worksheet of an .xlsx workbook into the same table shape as
+ * the CSV reader. Row numbers from the sheet are used as line numbers so
+ * issues point at the spreadsheet row.
+ */
+export async function readXlsxTable(buffer: ArrayBuffer): Promise<DelimitedTable> {
+  const archive = new ZipArchive(buffer);
+  if (!archive.has('xl/workbook.xml')) {
+    throw new Error('Invalid Excel file: missing workbook');
+  }
+
+  const workbook = parseXml(await archive.readText('xl/workbook.xml'));
+  const relationships = archive.has('xl/_rels/workbook.xml.rels')
+    ? parseXml(await archive.readText('xl/_rels/workbook.xml.rels'))
+    : undefined;
+  const sheetPath = resolveFirstSheetPath(workbook, relationships);
+
+  const sharedStrings = archive.has('xl/sharedStrings.xml')
+    ? children(descendant(parseXml(await archive.readText('xl/sharedStrings.xml')), 'sst'), 'si').map(item => {
+        const plain = descendant(item, 't');
+        return plain ? rawText(plain) : children(item, 'r').map(run => rawText(descendant(run, 't'))).join('');
+      })
+    : [];
+
+  const sheet = parseXml(await archive.readText(sheetPath));
+  const rows: DelimitedRow[] = children(descendant(sheet, 'worksheet', 'sheetData'), 'row').map((row, index) => {
+    const values: string[] = [];
+    children(row, 'c').forEach((cell, position) => {
+      const column = cell.attributes.r ? columnIndex(cell.attributes.r) : position;
+      const value = rawText(descendant(cell, 'v'));
+      switch (cell.attributes.t) {
+        case 's':
+          values[column] = sharedStrings[Number(value)] ?? '';
+          break;
+        case 'inlineStr':
+          values[column] = rawText(descendant(cell, 'is', 't'));
+          break;
+        case 'b':
+          values[column] = value === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          values[column] = value;
+      }
+    });
+    return { values: Array.from(values, value => value ?? ''), line: Number(row.attributes.r) || index + 1 };
+  }).filter(row => row.values.some(value => value.trim()));
+
+  const [header, ...dataRows] = rows;
+  const headers = header ? header.values.map(value => value.trim()) : [];
+  // Trailing empty cells are not stored in the sheet, so pad rows to the header width
+  dataRows.forEach(row => {
+    while (row.values.length < headers.length) row.values.push('');
+  });
+  return { headers, rows: dataRows };
+}
@@ -0,0 +1,117 @@
+// Minimal XML reader for export files. Unlike DOMParser it also works inside Web Workers.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attributes[match[1]] = decodeXmlEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parses a well-formed XML document into a lightweight element tree.
+ * Comments, processing instructions and DOCTYPE declarations are skipped.
+ */
+export function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  while (pos < text.length) {
+    const open = text.indexOf('<', pos);
+    if (open === -1) break;
+    if (open > pos) {
+      const content = text.slice(pos, open);
+      // Whitespace inside an element can separate words ("<i>alpha</i> <i>beta</i>"); only that between top-level nodes is dropped
+      if (content.trim() || stack.length > 1) stack[stack.length - 1].children.push(decodeXmlEntities(content));
+    }
+
+    if (text.startsWith('<!--', open)) {
+      const end = text.indexOf('-->', open);
+      pos = end === -1 ? text.length : end + 3;
+    } else if (text.startsWith('<![CDATA[', open)) {
+      const end = text.indexOf(']]>', open);
+      stack[stack.length - 1].children.push(text.slice(open + 9, end === -1 ? text.length : end));
+      pos = end === -1 ? text.length : end + 3;
+    } else if (text.startsWith('<?', open)) {
+      const end = text.indexOf('?>', open);
+      pos = end === -1 ? text.length : end + 2;
+    } else if (text.startsWith('<!', open)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      const bracket = text.indexOf('[', open);
+      const close = text.indexOf('>', open);
+      const end = bracket !== -1 && bracket < close ? text.indexOf(']>', bracket) + 1 : close;
+      pos = end <= 0 ? text.length : end + 1;
+    } else if (text[open + 1] === '/') {
+      const end = text.indexOf('>', open);
+      const name = text.slice(open + 2, end).trim();
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      pos = end === -1 ? text.length : end + 1;
+    } else {
+      const end = text.indexOf('>', open);
+      if (end === -1) throw new Error(`Unterminated tag at offset ${open}`);
+      const selfClosing = text[end - 1] === '/';
+      const body = text.slice(open + 1, selfClosing ? end - 1 : end);
+      const nameMatch = /^[^\s/>]+/.exec(body);
+      if (!nameMatch) throw new Error(`Malformed tag at offset ${open}`);
+      const element: XmlElement = {
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        children: [],
+      };
+      stack[stack.length - 1].children.push(element);
+      if (!selfClosing) stack.push(element);
+      pos = end + 1;
+    }
+  }
+
+  return root;
+}
+
+export function childElements(element: XmlElement | undefined, name?: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.filter((child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name));
+}
+
+// Follows a path of element names, e.g. find(article, 'Journal', 'JournalIssue', 'Volume')
+export function findElement(element: XmlElement | undefined, ...path: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of path) {
+    current = childElements(current, name)[0];
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+// Concatenated text of an element including inline markup such as <i> or <sup>
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) return '';
+  return element.children
+    .map(child => (typeof child === 'string' ? child : textContent(child)))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,80 @@
+// Minimal ZIP reader for .xlsx files; inflating uses the platform DecompressionStream
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+export class ZipArchive {
+  private view: DataView;
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(private buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+    this.readCentralDirectory();
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  async readText(name: string): Promise<string> {
+    const entry = this.entries.get(name);
+    if (!entry) throw new Error(`Missing ${name} in archive`);
+
+    const offset = entry.localHeaderOffset;
+    if (this.view.getUint32(offset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt archive entry ${name}`);
+    }
+    // The local header repeats the name and may carry a different extra field length
+    const dataStart = offset + 30 + this.view.getUint16(offset + 26, true) + this.view.getUint16(offset + 28, true);
+    const data = new Uint8Array(this.buffer, dataStart, entry.compressedSize);
+
+    if (entry.method === 0) return new TextDecoder().decode(data);
+    if (entry.method !== 8) throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+  }
+
+  private readCentralDirectory() {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = this.buffer.byteLength - 22; i >= Math.max(0, this.buffer.byteLength - 22 - 0xffff); i--) {
+      if (this.view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) throw new Error('Not a valid ZIP archive');
+
+    const count = this.view.getUint16(end + 10, true);
+    let offset = this.view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const name = decoder.decode(new Uint8Array(this.buffer, offset + 46, nameLength));
+      this.entries.set(name, {
+        method: this.view.getUint16(offset + 10, true),
+        compressedSize: this.view.getUint32(offset + 20, true),
+        localHeaderOffset: this.view.getUint32(offset + 42, true),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { formatAdditionalInstructions, PromptReference } from '@shared/prompts';
+import { AIScreeningConfigService, SCREENING_STAGE } from './aiScreeningConfigService';
+
+export interface PromptDraft {
+  systemPrompt: string;
+  userPromptTemplate: string;
+  // One instruction per line in the editor; stored as a JSON array
+  additionalInstructions: string;
+}
+
+export interface PromptVersion extends PromptDraft {
+  id: string;
+  version: number;
+  notes: string | null;
+  createdAt: string | null;
+}
+
+export interface ActivePrompt {
+  draft: PromptDraft;
+  versionId: string | null;
+}
+
+// Editor text back to the list form the edge function reads from additional_instructions
+export const toInstructionList = (text: string) => text.split('\n').map(line => line.replace(/^\s*[-*]\s*/, '').trim()).filter(Boolean);
+
+const toDraftInstructions = (value: Json | null) => formatAdditionalInstructions(value).replace(/^- /gm, '');
+
+const toPromptVersion = (row: Tables<'ai_prompt_versions'>): PromptVersion => ({
+  id: row.id,
+  version: row.version,
+  systemPrompt: row.system_prompt ?? '',
+  userPromptTemplate: row.user_prompt_template,
+  additionalInstructions: toDraftInstructions(row.additional_instructions),
+  notes: row.notes,
+  createdAt: row.created_at,
+});
+
+export class PromptVersionService {
+  static async getVersions(projectId: string): Promise<PromptVersion[]> {
+    const { data, error } = await supabase
+      .from('ai_prompt_versions')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(toPromptVersion);
+  }
+
+  // The prompt the edge function will use; empty fields mean the built-in default
+  static async getActivePrompt(projectId: string): Promise<ActivePrompt> {
+    const { data, error } = await supabase
+      .from('ai_screening_config')
+      .select('system_prompt, user_prompt_template, additional_instructions, prompt_version_id')
+      .eq('project_id', projectId)
+      .eq('screening_stage', SCREENING_STAGE)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return {
+      draft: {
+        systemPrompt: data?.system_prompt ?? '',
+        userPromptTemplate: data?.user_prompt_template ?? '',
+        additionalInstructions: toDraftInstructions(data?.additional_instructions ?? null),
+      },
+      versionId: data?.prompt_version_id ?? null,
+    };
+  }
+
+  /**
+   * Stores the draft as the next version and makes it the project's active
+   * prompt. Versions are never edited, so logged decisions keep pointing at
+   * the exact prompt that produced them.
+   */
+  static async saveVersion(projectId: string, draft: PromptDraft, notes?: string): Promise<PromptVersion> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data: latest, error: latestError } = await supabase
+      .from('ai_prompt_versions')
+      .select('version')
+      .eq('project_id', projectId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw latestError;
+    }
+
+    const instructions = toInstructionList(draft.additionalInstructions);
+    const { data, error } = await supabase
+      .from('ai_prompt_versions')
+      .insert({
+        project_id: projectId,
+        user_id: user?.id,
+        version: (latest?.version ?? 0) + 1,
+        system_prompt: draft.systemPrompt.trim() || null,
+        user_prompt_template: draft.userPromptTemplate,
+        additional_instructions: instructions.length > 0 ? instructions : null,
+        notes: notes?.trim() || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    await AIScreeningConfigService.updateConfig(projectId, {
+      system_prompt: data.system_prompt,
+      user_prompt_template: data.user_prompt_template,
+      additional_instructions: data.additional_instructions,
+      prompt_version_id: data.id,
+    });
+    return toPromptVersion(data);
+  }
+
+  // A few real references to preview the rendered prompt against
+  static async getSampleReferences(projectId: string, limit = 10): Promise<(PromptReference & { id: string })[]> {
+    const { data, error } = await supabase
+      .from('references')
+      .select('id, title, abstract, authors, journal, year, doi')
+      .eq('project_id', projectId)
+      .neq('status', 'duplicate')
+      .not('abstract', 'is', null)
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).map(reference => ({
+      id: reference.id,
+      title: reference.title,
+      abstract: reference.abstract ?? undefined,
+      authors: reference.authors ?? undefined,
+      journal: reference.journal ?? undefined,
+      year: reference.year ?? undefined,
+      doi: reference.doi ?? undefined,
+    }));
+  }
+}
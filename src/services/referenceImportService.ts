@@ -0,0 +1,367 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { ImportReport } from './importReportService';
+import type { ImportFormat } from './parsers/detectFormat';
+import { assignMappedField } from './parsers/spreadsheetParser';
+import type { ColumnMapping, ParsedReference } from './parsers/types';
+
+export { MAPPABLE_FIELDS } from './parsers/types';
+export type { ColumnMapping, MappableField } from './parsers/types';
+
+export interface ImportSummary {
+  total: number;
+  missingTitle: number;
+  missingAbstract: number;
+  missingAuthors: number;
+  missingYear: number;
+  withDoi: number;
+}
+
+// One uploaded file after parsing and review
+export interface ImportSource {
+  fileName: string;
+  fileSize?: number;
+  format: ImportFormat;
+  sourceDatabase: string;
+  references: ParsedReference[];
+  warningCount: number;
+  report?: ImportReport;
+}
+
+export interface ImportProgress {
+  inserted: number;
+  total: number;
+}
+
+// A range of one source's references that could not be inserted
+export interface FailedChunk {
+  sourceIndex: number;
+  fileName: string;
+  // Missing when the import batch itself could not be created
+  batchId?: string;
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface CommitImportOptions {
+  // Either an existing project to add to, or the name of a project to create
+  projectId?: string;
+  projectName?: string;
+  sources: ImportSource[];
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface CommitImportResult {
+  projectId: string;
+  batchIds: string[];
+  totalReferences: number;
+  insertedReferences: number;
+  failedChunks: FailedChunk[];
+}
+
+// Rows per insert request; keeps each request well below the API payload limit
+export const INSERT_CHUNK_SIZE = 500;
+const INSERT_ATTEMPTS = 3;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const DEFAULT_SOURCE_DATABASES: Record<ImportFormat, string> = {
+  'pubmed': 'PubMed',
+  'pubmed-xml': 'PubMed',
+  'wos': 'Web of Science',
+  'scopus': 'Scopus',
+  'embase': 'Embase',
+  'cochrane': 'Cochrane CENTRAL',
+  'ris': 'Other',
+  'bibtex': 'Other',
+  'endnote': 'Other',
+  'csv': 'Other',
+  'xlsx': 'Other',
+};
+
+// Best guess of the database a file came from; generic formats need the user to say
+export function defaultSourceDatabase(format: ImportFormat, references: ParsedReference[] = []): string {
+  if (format === 'ris') {
+    const database = references.find(reference => typeof reference.metadata?.database === 'string')?.metadata?.database;
+    if (typeof database === 'string' && database.trim()) return database.trim();
+  }
+  return DEFAULT_SOURCE_DATABASES[format] ?? 'Other';
+}
+
+const getColumns = (reference: ParsedReference): Record<string, string> => {
+  const columns = reference.metadata?.columns;
+  return columns && typeof columns === 'object' && !Array.isArray(columns) ? columns as Record<string, string> : {};
+};
+
+// Lists metadata.columns keys across all references, in first-seen order
+export function getUnmappedColumns(references: ParsedReference[]): string[] {
+  const columns = new Set<string>();
+  references.forEach(reference => Object.keys(getColumns(reference)).forEach(column => columns.add(column)));
+  return Array.from(columns);
+}
+
+// References whose fields are too sparse to screen reliably
+export function hasMissingFields(reference: ParsedReference): boolean {
+  return !reference.title?.trim() || !reference.abstract?.trim();
+}
+
+export function summarizeReferences(references: ParsedReference[]): ImportSummary {
+  return {
+    total: references.length,
+    missingTitle: references.filter(reference => !reference.title?.trim()).length,
+    missingAbstract: references.filter(reference => !reference.abstract?.trim()).length,
+    missingAuthors: references.filter(reference => !reference.authors?.trim()).length,
+    missingYear: references.filter(reference => reference.year === undefined).length,
+    withDoi: references.filter(reference => reference.doi).length,
+  };
+}
+
+/**
+ * Moves values of mapped columns out of metadata.columns and onto the chosen
+ * fields. Returns new reference objects; the input is left untouched.
+ */
+export function applyColumnMapping(references: ParsedReference[], mapping: ColumnMapping): ParsedReference[] {
+  const mapped = Object.entries(mapping).filter(([, field]) => field);
+  if (mapped.length === 0) return references;
+
+  return references.map(original => {
+    const columns = { ...getColumns(original) };
+    const reference: ParsedReference = { ...original, metadata: { ...original.metadata } };
+
+    mapped.forEach(([column, field]) => {
+      const value = columns[column]?.trim();
+      if (!value) return;
+      assignMappedField(reference, field, value);
+      delete columns[column];
+    });
+
+    if (Object.keys(columns).length > 0) {
+      reference.metadata.columns = columns;
+    } else {
+      delete reference.metadata.columns;
+    }
+    return reference;
+  });
+}
+
+export class ReferenceImportService {
+  /**
+   * Writes one import batch per source file and inserts its references in
+   * chunks of INSERT_CHUNK_SIZE. When no projectId is given the project is
+   * created first. Chunks that still fail after retrying are returned in
+   * failedChunks so they can be passed to retryFailedChunks; only when nothing
+   * at all was inserted is everything written by this call removed again.
+   */
+  static async commitImport({ projectId, projectName, sources, onProgress }: CommitImportOptions): Promise<CommitImportResult> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const totalReferences = sources.reduce((sum, source) => sum + source.references.length, 0);
+    const batchIds: string[] = [];
+    const failedChunks: FailedChunk[] = [];
+    let createdProjectId: string | undefined;
+    let insertedReferences = 0;
+
+    try {
+      let targetProjectId = projectId;
+      if (!targetProjectId) {
+        const { data: project, error: projectError } = await supabase
+          .from('review_projects')
+          .insert({
+            name: projectName,
+            status: 'draft',
+            user_id: user?.id,
+            total_references: 0
+          })
+          .select()
+          .single();
+
+        if (projectError) {
+          throw projectError;
+        }
+        createdProjectId = targetProjectId = project.id;
+      }
+
+      for (const [sourceIndex, source] of sources.entries()) {
+        let batchId: string;
+        try {
+          batchId = await this.createBatch(targetProjectId, user?.id, source);
+        } catch (error) {
+          failedChunks.push(this.failedChunk(sourceIndex, source, undefined, 0, source.references.length, error));
+          continue;
+        }
+        batchIds.push(batchId);
+
+        for (let start = 0; start < source.references.length; start += INSERT_CHUNK_SIZE) {
+          const end = Math.min(start + INSERT_CHUNK_SIZE, source.references.length);
+          try {
+            await this.insertChunk(this.buildRows(source, start, end, targetProjectId, user?.id, batchId));
+            insertedReferences += end - start;
+            onProgress?.({ inserted: insertedReferences, total: totalReferences });
+          } catch (error) {
+            failedChunks.push(this.failedChunk(sourceIndex, source, batchId, start, end, error));
+          }
+        }
+      }
+
+      if (insertedReferences === 0) {
+        throw new Error(failedChunks[0]?.message ?? 'No references were imported');
+      }
+      await this.incrementReferenceCount(targetProjectId, insertedReferences);
+
+      return { projectId: targetProjectId, batchIds, totalReferences, insertedReferences, failedChunks };
+    } catch (error) {
+      if (insertedReferences === 0) {
+        await this.rollback(createdProjectId, batchIds);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Inserts the chunks a previous commitImport could not write. The sources
+   * must be the same list that was passed to commitImport.
+   */
+  static async retryFailedChunks(
+    projectId: string,
+    sources: ImportSource[],
+    failedChunks: FailedChunk[],
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<Pick<CommitImportResult, 'batchIds' | 'insertedReferences' | 'failedChunks'>> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const total = failedChunks.reduce((sum, chunk) => sum + chunk.end - chunk.start, 0);
+    const createdBatches = new Map<number, string>();
+    const stillFailing: FailedChunk[] = [];
+    let insertedReferences = 0;
+
+    for (const chunk of failedChunks) {
+      const source = sources[chunk.sourceIndex];
+      let batchId = chunk.batchId ?? createdBatches.get(chunk.sourceIndex);
+      try {
+        if (!batchId) {
+          batchId = await this.createBatch(projectId, user?.id, source);
+          createdBatches.set(chunk.sourceIndex, batchId);
+        }
+        // Batch failures covered the whole source; split them into normal chunks now
+        for (let start = chunk.start; start < chunk.end; start += INSERT_CHUNK_SIZE) {
+          const end = Math.min(start + INSERT_CHUNK_SIZE, chunk.end);
+          try {
+            await this.insertChunk(this.buildRows(source, start, end, projectId, user?.id, batchId));
+            insertedReferences += end - start;
+            onProgress?.({ inserted: insertedReferences, total });
+          } catch (error) {
+            stillFailing.push(this.failedChunk(chunk.sourceIndex, source, batchId, start, end, error));
+          }
+        }
+      } catch (error) {
+        stillFailing.push({ ...chunk, message: this.errorMessage(error) });
+      }
+    }
+
+    if (insertedReferences > 0) {
+      await this.incrementReferenceCount(projectId, insertedReferences);
+    }
+    return { batchIds: Array.from(createdBatches.values()), insertedReferences, failedChunks: stillFailing };
+  }
+
+  // PRISMA "records identified from each database", summed over all import batches
+  static async getIdentificationCounts(projectId: string): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('import_batches')
+      .select('source_database, record_count')
+      .eq('project_id', projectId);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).reduce<Record<string, number>>((counts, batch) => {
+      counts[batch.source_database] = (counts[batch.source_database] ?? 0) + (batch.record_count ?? 0);
+      return counts;
+    }, {});
+  }
+
+  private static async createBatch(projectId: string, userId: string | undefined, source: ImportSource): Promise<string> {
+    const { data: batch, error } = await supabase
+      .from('import_batches')
+      .insert({
+        project_id: projectId,
+        user_id: userId,
+        file_name: source.fileName,
+        file_size: source.fileSize,
+        format: source.format,
+        source_database: source.sourceDatabase,
+        record_count: source.references.length,
+        warning_count: source.warningCount,
+        skipped_count: source.report?.skippedRecords ?? 0,
+        report: source.report as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+    return batch.id;
+  }
+
+  private static buildRows(source: ImportSource, start: number, end: number, projectId: string, userId: string | undefined, batchId: string) {
+    return source.references.slice(start, end).map(ref => ({
+      project_id: projectId,
+      user_id: userId,
+      import_batch_id: batchId,
+      source_database: source.sourceDatabase,
+      title: ref.title,
+      authors: ref.authors,
+      abstract: ref.abstract,
+      journal: ref.journal,
+      year: ref.year,
+      doi: ref.doi,
+      pmid: ref.pmid,
+      url: ref.url,
+      metadata: { ...ref.metadata, keywords: ref.keywords, source_file: source.fileName },
+      status: 'pending'
+    }));
+  }
+
+  // Retries transient failures (timeouts, rate limits) with a growing pause
+  private static async insertChunk(rows: ReturnType<typeof ReferenceImportService.buildRows>) {
+    for (let attempt = 1; ; attempt++) {
+      const { error } = await supabase.from('references').insert(rows);
+      if (!error) return;
+      if (attempt >= INSERT_ATTEMPTS) throw error;
+      await delay(attempt * 1000);
+    }
+  }
+
+  private static async incrementReferenceCount(projectId: string, count: number) {
+    const { error } = await supabase.rpc('increment_project_references_by', {
+      project_id: projectId,
+      count
+    });
+    if (error) {
+      throw error;
+    }
+  }
+
+  private static failedChunk(sourceIndex: number, source: ImportSource, batchId: string | undefined, start: number, end: number, error: unknown): FailedChunk {
+    return { sourceIndex, fileName: source.fileName, batchId, start, end, message: this.errorMessage(error) };
+  }
+
+  private static errorMessage(error: unknown): string {
+    if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+      return error.message;
+    }
+    return 'Insert failed';
+  }
+
+  private static async rollback(createdProjectId: string | undefined, batchIds: string[]) {
+    if (batchIds.length > 0) {
+      await supabase.from('references').delete().in('import_batch_id', batchIds);
+      await supabase.from('import_batches').delete().in('id', batchIds);
+    }
+    if (createdProjectId) {
+      await supabase.from('references').delete().eq('project_id', createdProjectId);
+      await supabase.from('review_projects').delete().eq('id', createdProjectId);
+    }
+  }
+}
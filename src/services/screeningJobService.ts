@@ -0,0 +1,188 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { fetchAllPages } from '@/lib/pagination';
+import { DualLLMScreener, DualScreeningResult, ScreeningCriteria } from '@/services/aiScreeningService';
+import type { ScreeningBatchItemResult } from '@shared/contract';
+import { STALE_JOB_MS } from '@shared/jobs';
+
+export type ScreeningJob = Tables<'screening_jobs'>;
+
+export type ScreeningJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+// Jobs a worker is, or should be, making progress on
+export const ACTIVE_JOB_STATUSES: ScreeningJobStatus[] = ['queued', 'running', 'paused'];
+
+// Rows per insert when queueing a job's references
+const ITEM_INSERT_CHUNK = 500;
+
+export class ScreeningJobService {
+  /**
+   * Queues every reference for screening against the criteria and starts
+   * the worker. The job runs server-side from here on, so it carries on
+   * when the page is closed.
+   */
+  static async createJob(
+    projectId: string,
+    referenceIds: string[],
+    criteria: ScreeningCriteria,
+    runId?: string
+  ): Promise<ScreeningJob> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('No authenticated user');
+
+    const active = await this.getActiveJob(projectId);
+    if (active) throw new Error('A screening job is already in progress for this project');
+
+    const { data: job, error } = await supabase
+      .from('screening_jobs')
+      .insert({
+        project_id: projectId,
+        user_id: user.id,
+        run_id: runId ?? null,
+        status: 'queued',
+        criteria: DualLLMScreener.toRequestCriteria(criteria) as Json,
+        total_references: referenceIds.length
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    for (let i = 0; i < referenceIds.length; i += ITEM_INSERT_CHUNK) {
+      const { error: itemsError } = await supabase
+        .from('screening_job_items')
+        .insert(referenceIds.slice(i, i + ITEM_INSERT_CHUNK).map((referenceId, offset) => ({
+          job_id: job.id,
+          reference_id: referenceId,
+          position: i + offset
+        })));
+
+      if (itemsError) {
+        await supabase.from('screening_jobs').update({ status: 'failed', last_error: itemsError.message }).eq('id', job.id);
+        throw itemsError;
+      }
+    }
+
+    await this.kickWorker(job.id);
+    return job;
+  }
+
+  static async getJob(jobId: string): Promise<ScreeningJob> {
+    const { data, error } = await supabase
+      .from('screening_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // The project's most recent job that has not finished, if any
+  static async getActiveJob(projectId: string): Promise<ScreeningJob | null> {
+    const { data, error } = await supabase
+      .from('screening_jobs')
+      .select('*')
+      .eq('project_id', projectId)
+      .in('status', ACTIVE_JOB_STATUSES)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Items in flight finish; the worker leases no more until the job is resumed
+  static async pauseJob(jobId: string): Promise<ScreeningJob> {
+    return this.setStatus(jobId, 'paused', ['queued', 'running']);
+  }
+
+  static async resumeJob(jobId: string): Promise<ScreeningJob> {
+    const job = await this.setStatus(jobId, 'running', ['paused']);
+    await this.kickWorker(jobId);
+    return job;
+  }
+
+  // References already screened keep their decisions; the rest are left unscreened
+  static async cancelJob(jobId: string): Promise<ScreeningJob> {
+    return this.setStatus(jobId, 'cancelled', ACTIVE_JOB_STATUSES, { completed_at: new Date().toISOString() });
+  }
+
+  static isStale(job: ScreeningJob): boolean {
+    const lastSeen = job.heartbeat_at || job.started_at || job.created_at;
+    return job.status === 'running' && !!lastSeen && Date.now() - new Date(lastSeen).getTime() > STALE_JOB_MS;
+  }
+
+  // Starts a worker on the job; one that is already running it is unaffected, as items are leased
+  static async kickWorker(jobId: string) {
+    const { error } = await supabase.functions.invoke('screening-worker', { body: { jobId } });
+    if (error) {
+      console.error('Failed to start screening worker:', error);
+    }
+  }
+
+  /**
+   * Results of the job's references completed at or after the given time,
+   * oldest first. Items completed in the same instant as the last one seen
+   * are returned again rather than skipped; callers drop those they already
+   * have by reference id.
+   */
+  static async getCompletedResults(jobId: string, completedSince?: string): Promise<{ results: DualScreeningResult[]; lastCompletedAt?: string }> {
+    const items = await fetchAllPages((from, to) => {
+      let query = supabase
+        .from('screening_job_items')
+        .select('id, reference_id, result, completed_at, references(title)')
+        .eq('job_id', jobId)
+        .eq('status', 'completed');
+
+      if (completedSince) query = query.gte('completed_at', completedSince);
+      return query
+        .order('completed_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+    });
+
+    const results = items
+      .filter(item => item.result)
+      .map(item => DualLLMScreener.toDualResult(
+        { id: item.reference_id, title: item.references?.title || '', abstract: '', authors: '' },
+        item.result as unknown as Extract<ScreeningBatchItemResult, { success: true }>
+      ));
+    return { results, lastCompletedAt: items[items.length - 1]?.completed_at ?? completedSince };
+  }
+
+  // The first reference a worker currently holds, shown as the one being screened
+  static async getCurrentReference(jobId: string): Promise<{ id: string; title: string | null; authors: string | null } | null> {
+    const { data, error } = await supabase
+      .from('screening_job_items')
+      .select('reference_id, references(title, authors)')
+      .eq('job_id', jobId)
+      .eq('status', 'leased')
+      .order('position', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { id: data.reference_id, title: data.references?.title ?? null, authors: data.references?.authors ?? null } : null;
+  }
+
+  private static async setStatus(
+    jobId: string,
+    status: ScreeningJobStatus,
+    from: ScreeningJobStatus[],
+    extra: Partial<ScreeningJob> = {}
+  ): Promise<ScreeningJob> {
+    const { data, error } = await supabase
+      .from('screening_jobs')
+      .update({ status, ...extra })
+      .eq('id', jobId)
+      .in('status', from)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error(`Screening job can no longer be ${status === 'running' ? 'resumed' : status}`);
+    return data;
+  }
+}
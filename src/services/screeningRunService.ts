@@ -0,0 +1,415 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllPages } from '@/lib/pagination';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { ScreeningCriteria } from '@/services/aiScreeningService';
+import {
+  AIScreeningConfigService,
+  DEFAULT_REVIEWER_MODELS,
+  ReviewerModels,
+  ReviewerSettings,
+  SCREENING_STAGE
+} from '@/services/aiScreeningConfigService';
+import { ConflictResolutionMethod, normalizeConflictResolutionMethod } from '@shared/arbitration';
+import type { ScreeningDecision } from '@shared/contract';
+import { normalizePersonas, ReviewerPersona } from '@shared/personas';
+
+export type ScreeningRunMode = 'unscreened' | 'uncertain' | 'changed' | 'full';
+
+export const SCREENING_RUN_MODES: { value: ScreeningRunMode; label: string; description: string }[] = [
+  {
+    value: 'unscreened',
+    label: 'Only unscreened',
+    description: 'References the AI reviewers have not screened yet.',
+  },
+  {
+    value: 'uncertain',
+    label: 'Only conflicts and uncertain',
+    description: 'AI conflicts and uncertain decisions that no human has decided yet.',
+  },
+  {
+    value: 'changed',
+    label: 'Only changed since last run',
+    description: 'References added, or whose title, abstract or other details were edited, since they were last screened.',
+  },
+  {
+    value: 'full',
+    label: 'Full re-screen',
+    description: 'Every reference, e.g. after the criteria changed.',
+  },
+];
+
+export const DEFAULT_SCREENING_RUN_MODE: ScreeningRunMode = 'unscreened';
+
+export type RunReference = Pick<
+  Tables<'references'>,
+  'id' | 'title' | 'abstract' | 'authors' | 'journal' | 'year' | 'doi' | 'status' | 'ai_recommendation' | 'ai_screening_details' | 'ai_conflict_flag' | 'user_decision'
+>;
+
+export interface RunEstimate {
+  references: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // provider:model specs the estimate was priced for
+  models: { primary: string; secondary: string; arbiter: string | null };
+}
+
+export interface RunPlan {
+  mode: ScreeningRunMode;
+  references: RunReference[];
+  estimate: RunEstimate;
+}
+
+export type ScreeningRun = Tables<'screening_runs'>;
+
+// What screened the run's references, frozen in screening_runs.configuration.snapshot when the run is created
+export interface RunSnapshot {
+  // Fallback chains, with the built-in defaults filled in
+  models: ReviewerModels;
+  conflict_resolution: ConflictResolutionMethod;
+  reviewer_personas: ReviewerPersona[];
+  prompt: {
+    prompt_version_id: string | null;
+    system_prompt: string | null;
+    user_prompt_template: string | null;
+    additional_instructions: Json | null;
+  };
+  thresholds: {
+    confidence_threshold: number | null;
+    agreement_threshold: number | null;
+  };
+  calibrations: { model: string; method: string; fitted_at: string }[];
+}
+
+export interface RunDecisionChange {
+  referenceId: string;
+  title: string;
+  // null when the reference was not screened in that run
+  base: ScreeningDecision | null;
+  compare: ScreeningDecision | null;
+}
+
+export interface RunComparison {
+  rows: RunDecisionChange[];
+  // How many references went from each decision to each other one, most frequent first
+  transitions: { from: ScreeningDecision | null; to: ScreeningDecision | null; count: number }[];
+  // Criteria and snapshot values that differ between the runs
+  settingChanges: { setting: string; base: string; compare: string }[];
+}
+
+// Reference ids per in() filter, to keep the request URL short
+const ID_CHUNK = 200;
+
+// Nested settings as "path: value" pairs; arrays are compared as a whole
+function flattenSettings(value: unknown, prefix: string, into: Record<string, string>) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) =>
+      flattenSettings(child, prefix ? `${prefix}.${key}` : key, into));
+  } else if (value !== undefined && value !== null && value !== '') {
+    into[prefix] = typeof value === 'string' ? value : JSON.stringify(value);
+  }
+  return into;
+}
+
+const runSettings = (run: ScreeningRun) => {
+  const configuration = run.configuration && typeof run.configuration === 'object' && !Array.isArray(run.configuration)
+    ? run.configuration as Record<string, unknown>
+    : {};
+  return flattenSettings({ criteria: run.criteria_snapshot, mode: configuration.mode, ...(configuration.snapshot as object) }, '', {});
+};
+
+// List prices in USD per million tokens; a model not listed is priced at its provider's fallback
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'openai:o3-2025-04-16': { input: 2, output: 8 },
+  'openai:gpt-4.1': { input: 2, output: 8 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'anthropic:claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'anthropic:claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'groq:llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'groq:deepseek-r1-distill-llama-70b': { input: 0.75, output: 0.99 },
+  'openrouter:deepseek/deepseek-r1-distill-llama-70b': { input: 0.1, output: 0.4 },
+  'gemini:gemini-2.0-flash-exp': { input: 0.1, output: 0.4 },
+};
+
+const PROVIDER_FALLBACK_PRICES: Record<string, { input: number; output: number }> = {
+  openai: { input: 2.5, output: 10 },
+  anthropic: { input: 3, output: 15 },
+  groq: { input: 0.6, output: 0.8 },
+  openrouter: { input: 1, output: 3 },
+  gemini: { input: 0.3, output: 1.2 },
+  local: { input: 0, output: 0 },
+};
+
+// Instructions, response schema and security notice around the reference and criteria in a reviewer prompt
+const PROMPT_OVERHEAD_TOKENS = 1200;
+// A reviewer's JSON answer with its PICOTT and criteria assessments
+const RESPONSE_TOKENS = 900;
+// Share of references expected to reach the arbiter when conflicts are resolved by one
+const ARBITER_SHARE = 0.2;
+
+// Same rough measure the provider rate limiter uses
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+// The first model of a fallback chain, which is the one normally billed
+const firstModel = (chain: string, fallback: string) =>
+  (chain.trim() || fallback).split(',').map(spec => spec.trim()).filter(Boolean)[0] || '';
+
+function priceFor(spec: string) {
+  const provider = spec.slice(0, spec.indexOf(':')).toLowerCase();
+  return MODEL_PRICES[spec] ?? PROVIDER_FALLBACK_PRICES[provider] ?? PROVIDER_FALLBACK_PRICES.openai;
+}
+
+// Screened by the AI reviewers at some point, whatever a human has decided since
+export const isAIScreened = (reference: RunReference) => !!reference.ai_recommendation || !!reference.ai_screening_details;
+
+export class ScreeningRunService {
+  // References added or edited since they were last screened; see changed_screening_references
+  static async getChangedReferenceIds(projectId: string): Promise<Set<string>> {
+    const rows = await fetchAllPages((from, to) => supabase
+      .rpc('changed_screening_references', { p_project_id: projectId })
+      .order('reference_id', { ascending: true })
+      .range(from, to));
+    return new Set(rows.map(row => row.reference_id));
+  }
+
+  static selectReferences(mode: ScreeningRunMode, references: RunReference[], changedIds: Set<string>): RunReference[] {
+    switch (mode) {
+      case 'unscreened':
+        return references.filter(reference => !isAIScreened(reference));
+      case 'uncertain':
+        return references.filter(reference =>
+          !reference.user_decision &&
+          (reference.ai_conflict_flag || reference.status === 'conflict' || reference.status === 'uncertain'));
+      case 'changed':
+        return references.filter(reference => changedIds.has(reference.id));
+      case 'full':
+        return references;
+    }
+  }
+
+  /**
+   * Rough token use and cost of screening the references: two reviewer
+   * calls each, plus the arbiter for a share of them when conflicts go to
+   * one. Priced at the first model of each chain, so fallbacks and repair
+   * attempts are not included.
+   */
+  static estimate(references: RunReference[], criteria: ScreeningCriteria, settings: ReviewerSettings): RunEstimate {
+    const models = {
+      primary: firstModel(settings.models.primary, DEFAULT_REVIEWER_MODELS.primary),
+      secondary: firstModel(settings.models.secondary, DEFAULT_REVIEWER_MODELS.secondary),
+      arbiter: settings.conflictResolution === 'arbiter_model' ? firstModel(settings.models.arbiter, DEFAULT_REVIEWER_MODELS.arbiter) : null,
+    };
+    const criteriaTokens = countTokens(JSON.stringify(criteria));
+    const calls = [
+      { spec: models.primary, share: 1 },
+      { spec: models.secondary, share: 1 },
+      // The arbiter also reads both reviews
+      ...(models.arbiter ? [{ spec: models.arbiter, share: ARBITER_SHARE, extraInput: 2 * RESPONSE_TOKENS }] : []),
+    ];
+
+    const estimate: RunEstimate = { references: references.length, inputTokens: 0, outputTokens: 0, costUsd: 0, models };
+    references.forEach(reference => {
+      const referenceTokens = countTokens([reference.title, reference.abstract, reference.authors, reference.journal, reference.year, reference.doi]
+        .filter(Boolean).join('\n'));
+      calls.forEach(({ spec, share, extraInput = 0 }) => {
+        const input = (PROMPT_OVERHEAD_TOKENS + criteriaTokens + referenceTokens + extraInput) * share;
+        const output = RESPONSE_TOKENS * share;
+        const price = priceFor(spec);
+        estimate.inputTokens += input;
+        estimate.outputTokens += output;
+        estimate.costUsd += (input * price.input + output * price.output) / 1_000_000;
+      });
+    });
+    estimate.inputTokens = Math.round(estimate.inputTokens);
+    estimate.outputTokens = Math.round(estimate.outputTokens);
+    return estimate;
+  }
+
+  // The references and estimate of every mode, for choosing one before the run
+  static async planRuns(
+    projectId: string,
+    references: RunReference[],
+    criteria: ScreeningCriteria
+  ): Promise<Record<ScreeningRunMode, RunPlan>> {
+    const [changedIds, settings] = await Promise.all([
+      this.getChangedReferenceIds(projectId),
+      AIScreeningConfigService.getReviewerSettings(projectId)
+    ]);
+
+    const plans = {} as Record<ScreeningRunMode, RunPlan>;
+    SCREENING_RUN_MODES.forEach(({ value: mode }) => {
+      const selected = this.selectReferences(mode, references, changedIds);
+      plans[mode] = { mode, references: selected, estimate: this.estimate(selected, criteria, settings) };
+    });
+    return plans;
+  }
+
+  static async buildSnapshot(projectId: string): Promise<RunSnapshot> {
+    const [{ data: config, error: configError }, { data: calibrations, error: calibrationsError }] = await Promise.all([
+      supabase
+        .from('ai_screening_config')
+        .select('primary_model_name, secondary_model_name, arbiter_model_name, conflict_resolution_method, reviewer_personas, prompt_version_id, system_prompt, user_prompt_template, additional_instructions, confidence_threshold, agreement_threshold')
+        .eq('project_id', projectId)
+        .eq('screening_stage', SCREENING_STAGE)
+        .maybeSingle(),
+      supabase
+        .from('confidence_calibrations')
+        .select('model, method, fitted_at')
+        .eq('project_id', projectId)
+        .order('model', { ascending: true })
+    ]);
+
+    if (configError) throw configError;
+    if (calibrationsError) throw calibrationsError;
+
+    return {
+      models: {
+        primary: config?.primary_model_name?.trim() || DEFAULT_REVIEWER_MODELS.primary,
+        secondary: config?.secondary_model_name?.trim() || DEFAULT_REVIEWER_MODELS.secondary,
+        arbiter: config?.arbiter_model_name?.trim() || DEFAULT_REVIEWER_MODELS.arbiter,
+      },
+      conflict_resolution: normalizeConflictResolutionMethod(config?.conflict_resolution_method),
+      reviewer_personas: normalizePersonas(config?.reviewer_personas),
+      prompt: {
+        prompt_version_id: config?.prompt_version_id ?? null,
+        system_prompt: config?.system_prompt ?? null,
+        user_prompt_template: config?.user_prompt_template ?? null,
+        additional_instructions: config?.additional_instructions ?? null,
+      },
+      thresholds: {
+        confidence_threshold: config?.confidence_threshold ?? null,
+        agreement_threshold: config?.agreement_threshold ?? null,
+      },
+      calibrations: calibrations || [],
+    };
+  }
+
+  /**
+   * Records the run before its job is queued, with a snapshot of the
+   * criteria and screening config it starts with. The job links each
+   * decision to the run and keeps its status and counts up to date.
+   */
+  static async createRun(projectId: string, plan: RunPlan, criteria: ScreeningCriteria): Promise<ScreeningRun> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('No authenticated user');
+
+    const snapshot = await this.buildSnapshot(projectId);
+
+    const label = SCREENING_RUN_MODES.find(mode => mode.value === plan.mode)?.label ?? plan.mode;
+    const { data, error } = await supabase
+      .from('screening_runs')
+      .insert({
+        project_id: projectId,
+        user_id: user.id,
+        run_name: `${label} (${new Date().toLocaleString()})`,
+        criteria_snapshot: criteria as Json,
+        total_references: plan.references.length,
+        status: 'running',
+        configuration: {
+          mode: plan.mode,
+          reference_count: plan.references.length,
+          estimated_input_tokens: plan.estimate.inputTokens,
+          estimated_output_tokens: plan.estimate.outputTokens,
+          estimated_cost_usd: Number(plan.estimate.costUsd.toFixed(4)),
+          models: plan.estimate.models,
+          snapshot: snapshot as unknown as Json
+        }
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // For a run whose job could not be queued
+  static async failRun(runId: string) {
+    const { error } = await supabase
+      .from('screening_runs')
+      .update({ status: 'failed', end_time: new Date().toISOString() })
+      .eq('id', runId);
+
+    if (error) {
+      console.error('Failed to mark screening run as failed:', error);
+    }
+  }
+
+  static async listRuns(projectId: string): Promise<ScreeningRun[]> {
+    const { data, error } = await supabase
+      .from('screening_runs')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // The run's decision on each reference; a reference screened twice in the run keeps the later one
+  static async getRunDecisions(runId: string): Promise<Map<string, ScreeningDecision>> {
+    const rows = await fetchAllPages((from, to) => supabase
+      .from('ai_screening_log')
+      .select('reference_id, final_decision')
+      .eq('run_id', runId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    const decisions = new Map<string, ScreeningDecision>();
+    rows.forEach(row => {
+      if (row.reference_id && row.final_decision) decisions.set(row.reference_id, row.final_decision as ScreeningDecision);
+    });
+    return decisions;
+  }
+
+  // Decisions of two runs side by side, reference by reference, with what changed in between
+  static async compareRuns(base: ScreeningRun, compare: ScreeningRun): Promise<RunComparison> {
+    const [baseDecisions, compareDecisions] = await Promise.all([
+      this.getRunDecisions(base.id),
+      this.getRunDecisions(compare.id)
+    ]);
+
+    const referenceIds = Array.from(new Set([...baseDecisions.keys(), ...compareDecisions.keys()]));
+    const titles = new Map<string, string>();
+    for (let i = 0; i < referenceIds.length; i += ID_CHUNK) {
+      const { data, error } = await supabase
+        .from('references')
+        .select('id, title')
+        .in('id', referenceIds.slice(i, i + ID_CHUNK));
+
+      if (error) throw error;
+      (data || []).forEach(reference => titles.set(reference.id, reference.title || 'Untitled Reference'));
+    }
+
+    const rows = referenceIds
+      .map(referenceId => ({
+        referenceId,
+        title: titles.get(referenceId) || 'Deleted reference',
+        base: baseDecisions.get(referenceId) ?? null,
+        compare: compareDecisions.get(referenceId) ?? null
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title));
+
+    const transitionCounts = new Map<string, RunComparison['transitions'][number]>();
+    rows.forEach(row => {
+      const key = `${row.base}>${row.compare}`;
+      const transition = transitionCounts.get(key) || { from: row.base, to: row.compare, count: 0 };
+      transition.count++;
+      transitionCounts.set(key, transition);
+    });
+
+    const baseSettings = runSettings(base);
+    const compareSettings = runSettings(compare);
+    const settingChanges = Array.from(new Set([...Object.keys(baseSettings), ...Object.keys(compareSettings)]))
+      .filter(setting => baseSettings[setting] !== compareSettings[setting])
+      .sort()
+      .map(setting => ({ setting, base: baseSettings[setting] ?? '', compare: compareSettings[setting] ?? '' }));
+
+    return {
+      rows,
+      transitions: Array.from(transitionCounts.values()).sort((a, b) => b.count - a.count),
+      settingChanges
+    };
+  }
+}
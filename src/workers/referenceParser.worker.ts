@@ -0,0 +1,16 @@
+import { FileParserService, ParserWorkerMessage } from '@/services/fileParserService';
+
+// Parses one uploaded reference file; see FileParserService.parseFileInWorker
+const worker = self as unknown as Worker;
+
+const post = (message: ParserWorkerMessage) => worker.postMessage(message);
+
+worker.onmessage = async (event: MessageEvent<{ file: File; format: string }>) => {
+  const { file, format } = event.data;
+  try {
+    const parsed = await FileParserService.parseFileIncrementally(file, format, progress => post({ type: 'progress', progress }));
+    post({ type: 'result', parsed });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : `Could not parse ${file.name}` });
+  }
+};
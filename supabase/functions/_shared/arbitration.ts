@@ -0,0 +1,145 @@
+// Conflict resolution between the two AI reviewers, shared by ai-screening and the reviewer settings (imported there as @shared/arbitration)
+import { buildPromptVariables, PromptCriteria, PromptReference, renderPromptTemplate } from './prompts.ts';
+import { PromptGuard, renderGuardInstructions } from './injection.ts';
+
+export type ConflictResolutionMethod = 'higher_confidence' | 'conservative' | 'arbiter_model' | 'human_required';
+
+export const CONFLICT_RESOLUTION_METHODS: { value: ConflictResolutionMethod; label: string; description: string }[] = [
+  {
+    value: 'higher_confidence',
+    label: 'Higher confidence',
+    description: 'The more confident reviewer decides. Ties are resolved conservatively.',
+  },
+  {
+    value: 'conservative',
+    label: 'Conservative',
+    description: 'Disagreements are included so the full text is checked and no eligible study is lost.',
+  },
+  {
+    value: 'arbiter_model',
+    label: 'Arbiter model',
+    description: "A third model reads both reviewers' assessments and adjudicates. If it fails, the reference goes to human review.",
+  },
+  {
+    value: 'human_required',
+    label: 'Human review',
+    description: 'Disagreements are marked as conflicts and left for a human reviewer.',
+  },
+];
+
+export const DEFAULT_CONFLICT_RESOLUTION_METHOD: ConflictResolutionMethod = 'higher_confidence';
+
+// Reads ai_screening_config.conflict_resolution_method; unknown values use the default
+export function normalizeConflictResolutionMethod(value: unknown): ConflictResolutionMethod {
+  return CONFLICT_RESOLUTION_METHODS.find(method => method.value === value)?.value ?? DEFAULT_CONFLICT_RESOLUTION_METHOD;
+}
+
+// The part of a reviewer's result the arbiter gets to see
+export interface ReviewerOpinion {
+  reviewer: string;
+  recommendation: 'include' | 'exclude' | 'uncertain';
+  confidence: number;
+  reasoning: string;
+  picott_assessment?: unknown;
+  criteria_assessment?: unknown;
+}
+
+export interface ArbiterVerdict {
+  decision: 'include' | 'exclude' | 'uncertain';
+  confidence: number;
+  favoured_reviewer: 'reviewer_1' | 'reviewer_2' | 'neither';
+  points_of_disagreement: string[];
+  reasoning: string;
+}
+
+export const ARBITER_SYSTEM_PROMPT =
+  'You are a senior systematic review methodologist adjudicating a disagreement between two independent screeners. You judge the evidence in the reference, not the screeners.';
+
+export const ARBITER_RESPONSE_FORMAT = `{
+  "decision": "include|exclude|uncertain",
+  "confidence": 0.XX,
+  "favoured_reviewer": "reviewer_1|reviewer_2|neither",
+  "points_of_disagreement": ["Each PICOTT element or criterion the reviewers assessed differently, and which assessment the abstract supports"],
+  "reasoning": "Adjudication explaining which evidence in the title/abstract settles the disagreement"
+}`;
+
+// ARBITER_RESPONSE_FORMAT as a JSON Schema, for providers with a native structured output mode
+export const ARBITER_RESPONSE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    decision: { type: 'string', enum: ['include', 'exclude', 'uncertain'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    favoured_reviewer: { type: 'string', enum: ['reviewer_1', 'reviewer_2', 'neither'] },
+    points_of_disagreement: { type: 'array', items: { type: 'string' } },
+    reasoning: { type: 'string' },
+  },
+  required: ['decision', 'confidence', 'favoured_reviewer', 'points_of_disagreement', 'reasoning'],
+};
+
+const ARBITER_PROMPT_TEMPLATE = `Two reviewers screened the reference below against the review criteria and reached different decisions. Adjudicate the conflict.
+
+REFERENCE:
+Title: {{title}}
+Abstract: {{abstract}}
+Authors: {{authors}}
+Journal: {{journal}}
+Year: {{year}}
+
+SCREENING CRITERIA:
+Population: {{population}}
+Intervention: {{intervention}}
+Comparator: {{comparator}}
+Outcomes: {{outcome}}
+Timeframe: {{timeframe}}
+Study Designs: {{study_designs}}
+
+Inclusion Criteria:
+{{inclusion_criteria}}
+
+Exclusion Criteria:
+{{exclusion_criteria}}
+
+REVIEWER 1 ({{first_reviewer_name}}) recommended {{first_reviewer_recommendation}}:
+{{first_reviewer_assessment}}
+
+REVIEWER 2 ({{second_reviewer_name}}) recommended {{second_reviewer_recommendation}}:
+{{second_reviewer_assessment}}
+
+TASK:
+1. Identify each PICOTT element and criterion the reviewers assessed differently.
+2. For each one, check the title and abstract and decide which assessment the text supports. Quote the text where possible.
+3. Decide include or exclude. Do not side with a reviewer because of their stated confidence; an assessment not supported by the text carries no weight.
+4. At title/abstract stage, when the text genuinely cannot settle an essential criterion, prefer include so the full text is checked.
+5. Answer uncertain only when the disagreement turns on a judgement the criteria leave open; the reference then goes to a human reviewer.
+
+RESPONSE FORMAT: Respond with ONLY valid JSON in this exact structure:
+{{response_format}}`;
+
+const describeOpinion = (opinion: ReviewerOpinion) => JSON.stringify({
+  confidence: opinion.confidence,
+  reasoning: opinion.reasoning,
+  picott_assessment: opinion.picott_assessment ?? null,
+  criteria_assessment: opinion.criteria_assessment ?? null,
+}, null, 2);
+
+export function buildArbiterPrompt(
+  reference: PromptReference,
+  criteria: PromptCriteria,
+  [reviewer1, reviewer2]: [ReviewerOpinion, ReviewerOpinion],
+  guard?: PromptGuard
+): { system: string; prompt: string } {
+  const variables: Record<string, string> = {
+    ...buildPromptVariables(reference, criteria, undefined, undefined, guard),
+    first_reviewer_name: reviewer1.reviewer,
+    first_reviewer_recommendation: reviewer1.recommendation,
+    first_reviewer_assessment: describeOpinion(reviewer1),
+    second_reviewer_name: reviewer2.reviewer,
+    second_reviewer_recommendation: reviewer2.recommendation,
+    second_reviewer_assessment: describeOpinion(reviewer2),
+    response_format: ARBITER_RESPONSE_FORMAT,
+  };
+  return {
+    system: guard ? `${ARBITER_SYSTEM_PROMPT}\n\n${renderGuardInstructions(guard)}` : ARBITER_SYSTEM_PROMPT,
+    prompt: renderPromptTemplate(ARBITER_PROMPT_TEMPLATE, variables),
+  };
+}
@@ -0,0 +1,192 @@
+// Confidence calibration shared by the ai-screening function and the calibration service (imported there as @shared/calibration)
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+export type CalibrationParameters =
+  | { method: 'platt'; a: number; b: number }
+  // Step points of the fitted curve, interpolated linearly in between
+  | { method: 'isotonic'; thresholds: number[]; values: number[] };
+
+// One reviewer decision checked against the human decision for the same reference
+export interface CalibrationSample {
+  confidence: number;
+  correct: boolean;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  // Average stated confidence in the bin, and how often those decisions were right
+  meanConfidence: number;
+  accuracy: number;
+}
+
+// Fewer human decisions than this per model leave the model uncalibrated
+export const MIN_CALIBRATION_SAMPLES = 20;
+
+// Isotonic regression overfits small samples, so Platt scaling is used below this
+export const ISOTONIC_MIN_SAMPLES = 200;
+
+const EPSILON = 1e-4;
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+const logit = (p: number) => Math.log(clamp(p, EPSILON, 1 - EPSILON) / (1 - clamp(p, EPSILON, 1 - EPSILON)));
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Platt scaling on the log-odds of the stated confidence: p = sigmoid(a *
+ * logit(confidence) + b), fitted by Newton's method with Platt's smoothed
+ * targets so a perfect sample does not push the curve to 0 and 1. An
+ * already calibrated model fits a = 1, b = 0.
+ */
+export function fitPlatt(samples: CalibrationSample[]): CalibrationParameters {
+  const positives = samples.filter(sample => sample.correct).length;
+  const negatives = samples.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+  const points = samples.map(sample => ({ x: logit(sample.confidence), t: sample.correct ? high : low }));
+
+  const loss = (a: number, b: number) => points.reduce((sum, { x, t }) => {
+    const p = clamp(sigmoid(a * x + b), 1e-12, 1 - 1e-12);
+    return sum - t * Math.log(p) - (1 - t) * Math.log(1 - p);
+  }, 0);
+
+  let a = 1;
+  let b = 0;
+  let current = loss(a, b);
+  for (let iteration = 0; iteration < 100; iteration++) {
+    // Gradient and Hessian of the log loss; the small ridge keeps the Hessian invertible
+    let ga = 0, gb = 0, haa = 1e-6, hab = 0, hbb = 1e-6;
+    for (const { x, t } of points) {
+      const p = sigmoid(a * x + b);
+      const w = p * (1 - p);
+      ga += (p - t) * x;
+      gb += p - t;
+      haa += w * x * x;
+      hab += w * x;
+      hbb += w;
+    }
+    const determinant = haa * hbb - hab * hab;
+    if (Math.abs(determinant) < 1e-12) break;
+    const da = (hbb * ga - hab * gb) / determinant;
+    const db = (haa * gb - hab * ga) / determinant;
+
+    // Halve the Newton step until the loss goes down
+    let step = 1;
+    while (step > 1e-8 && loss(a - step * da, b - step * db) > current) step /= 2;
+    if (step <= 1e-8) break;
+    a -= step * da;
+    b -= step * db;
+    const next = loss(a, b);
+    if (current - next < 1e-10) break;
+    current = next;
+  }
+  return { method: 'platt', a, b };
+}
+
+// Pool adjacent violators: the monotone step function closest to the observed accuracy
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationParameters {
+  const blocks: { sumConfidence: number; sumCorrect: number; count: number }[] = [];
+  [...samples]
+    .sort((first, second) => first.confidence - second.confidence)
+    .forEach(sample => {
+      blocks.push({ sumConfidence: sample.confidence, sumCorrect: sample.correct ? 1 : 0, count: 1 });
+      while (blocks.length > 1) {
+        const last = blocks[blocks.length - 1];
+        const previous = blocks[blocks.length - 2];
+        if (previous.sumCorrect / previous.count < last.sumCorrect / last.count) break;
+        blocks.splice(-2, 2, {
+          sumConfidence: previous.sumConfidence + last.sumConfidence,
+          sumCorrect: previous.sumCorrect + last.sumCorrect,
+          count: previous.count + last.count,
+        });
+      }
+    });
+
+  return {
+    method: 'isotonic',
+    thresholds: blocks.map(block => block.sumConfidence / block.count),
+    values: blocks.map(block => block.sumCorrect / block.count),
+  };
+}
+
+/**
+ * Fits a calibration curve, or returns null when the samples cannot
+ * support one: too few of them, or every decision right (or wrong), which
+ * says nothing about how confidence relates to accuracy.
+ */
+export function fitCalibration(samples: CalibrationSample[], method?: CalibrationMethod): CalibrationParameters | null {
+  const correct = samples.filter(sample => sample.correct).length;
+  if (samples.length < MIN_CALIBRATION_SAMPLES || correct === 0 || correct === samples.length) return null;
+
+  const chosen = method ?? (samples.length >= ISOTONIC_MIN_SAMPLES ? 'isotonic' : 'platt');
+  return chosen === 'isotonic' ? fitIsotonic(samples) : fitPlatt(samples);
+}
+
+export function applyCalibration(parameters: CalibrationParameters, confidence: number): number {
+  if (parameters.method === 'platt') {
+    return sigmoid(parameters.a * logit(confidence) + parameters.b);
+  }
+
+  const { thresholds, values } = parameters;
+  if (thresholds.length === 0) return confidence;
+  if (confidence <= thresholds[0]) return values[0];
+  if (confidence >= thresholds[thresholds.length - 1]) return values[values.length - 1];
+  const upper = thresholds.findIndex(threshold => threshold >= confidence);
+  const span = thresholds[upper] - thresholds[upper - 1];
+  const weight = span > 0 ? (confidence - thresholds[upper - 1]) / span : 1;
+  return values[upper - 1] + weight * (values[upper] - values[upper - 1]);
+}
+
+// Reads confidence_calibrations.parameters; anything malformed counts as no calibration
+export function normalizeCalibration(value: unknown): CalibrationParameters | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Record<string, unknown>;
+  if (candidate.method === 'platt' && Number.isFinite(candidate.a) && Number.isFinite(candidate.b)) {
+    return { method: 'platt', a: candidate.a as number, b: candidate.b as number };
+  }
+  const isNumbers = (list: unknown): list is number[] => Array.isArray(list) && list.every(item => Number.isFinite(item));
+  if (candidate.method === 'isotonic' && isNumbers(candidate.thresholds) && isNumbers(candidate.values) &&
+      candidate.thresholds.length === candidate.values.length) {
+    return { method: 'isotonic', thresholds: candidate.thresholds, values: candidate.values };
+  }
+  return null;
+}
+
+// Mean squared error of the confidences against the outcomes; lower is better calibrated
+export function brierScore(samples: CalibrationSample[], calibrate: (confidence: number) => number = confidence => confidence): number {
+  if (samples.length === 0) return 0;
+  return samples.reduce((sum, sample) => sum + (calibrate(sample.confidence) - (sample.correct ? 1 : 0)) ** 2, 0) / samples.length;
+}
+
+// Equal-width confidence bins for a reliability diagram; empty bins are left out
+export function reliabilityBins(
+  samples: CalibrationSample[],
+  binCount = 10,
+  calibrate: (confidence: number) => number = confidence => confidence
+): ReliabilityBin[] {
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    lower: index / binCount,
+    upper: (index + 1) / binCount,
+    count: 0,
+    sumConfidence: 0,
+    sumCorrect: 0,
+  }));
+  samples.forEach(sample => {
+    const confidence = clamp(calibrate(sample.confidence));
+    const bin = bins[Math.min(binCount - 1, Math.floor(confidence * binCount))];
+    bin.count++;
+    bin.sumConfidence += confidence;
+    bin.sumCorrect += sample.correct ? 1 : 0;
+  });
+  return bins
+    .filter(bin => bin.count > 0)
+    .map(({ lower, upper, count, sumConfidence, sumCorrect }) => ({
+      lower,
+      upper,
+      count,
+      meanConfidence: sumConfidence / count,
+      accuracy: sumCorrect / count,
+    }));
+}
@@ -0,0 +1,203 @@
+// Request/response contract of the ai-screening function, validated by the function and by DualLLMScreener (imported there as @shared/contract)
+import { z } from 'zod';
+import type { ArbiterVerdict } from './arbitration.ts';
+import type { InjectionCheck } from './injection.ts';
+import type { ReviewerPersona } from './personas.ts';
+import type { QuoteVerification } from './quotes.ts';
+
+// Bump on any breaking change to the schemas below; both sides reject a version they do not know
+export const SCREENING_CONTRACT_VERSION = 1;
+
+// Missing values arrive as null from database rows and as undefined otherwise; the function only sees undefined
+const optional = <T>(schema: z.ZodType<T>) => schema.nullish().transform(value => value ?? undefined);
+const optionalText = optional(z.string());
+
+// References per batch request; each takes two to three model calls, and the batch must finish within the function's time limit
+export const MAX_BATCH_SIZE = 20;
+
+const ReferenceSchema = z.object({
+  title: optionalText,
+  abstract: optionalText,
+  authors: optional(z.union([z.string(), z.array(z.string())])),
+  journal: optionalText,
+  year: optional(z.union([z.number(), z.string()])),
+  doi: optionalText,
+});
+
+const CriteriaSchema = z.object({
+  population: optionalText,
+  intervention: optionalText,
+  comparator: optionalText,
+  outcome: optionalText,
+  studyDesigns: optional(z.array(z.string())),
+  timeframeStart: optionalText,
+  timeframeEnd: optionalText,
+  timeframeDescription: optionalText,
+  inclusionCriteria: optional(z.array(z.string())),
+  exclusionCriteria: optional(z.array(z.string())),
+});
+
+export const ScreeningRequestSchema = z.object({
+  contractVersion: z.literal(SCREENING_CONTRACT_VERSION),
+  referenceId: z.string().min(10),
+  projectId: z.string().min(1),
+  sessionId: optionalText,
+  // The screening_runs row the decision belongs to; added within v1, so older callers leave it out
+  runId: optionalText,
+  reference: ReferenceSchema,
+  criteria: CriteriaSchema,
+});
+
+// Several references of one project screened against the same criteria in one call
+export const ScreeningBatchRequestSchema = z.object({
+  contractVersion: z.literal(SCREENING_CONTRACT_VERSION),
+  projectId: z.string().min(1),
+  sessionId: optionalText,
+  runId: optionalText,
+  references: z.array(z.object({ referenceId: z.string().min(10), reference: ReferenceSchema })).min(1).max(MAX_BATCH_SIZE),
+  criteria: CriteriaSchema,
+});
+
+// Final decisions as stored in ai_screening_log.final_decision; uncertain and conflict go to human review
+export const ScreeningDecisionSchema = z.enum(['included', 'excluded', 'uncertain', 'conflict']);
+
+export const ReviewerRecommendationSchema = z.enum(['include', 'exclude', 'uncertain']);
+
+const ReviewerResultSchema = z.object({
+  name: z.string(),
+  recommendation: ReviewerRecommendationSchema,
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string(),
+  picott_assessment: z.unknown().optional(),
+  criteria_assessment: z.unknown().optional(),
+  processing_time_ms: z.number().optional(),
+  tokens_used: z.number().optional(),
+  reported_confidence: z.number().optional(),
+  // Present when confidence is the model's calibrated value
+  raw_confidence: z.number().optional(),
+  calibration_method: z.enum(['platt', 'isotonic']).optional(),
+  quote_verification: z.custom<QuoteVerification>().optional(),
+});
+
+const OutputValidationSchema = z.object({
+  status: z.enum(['valid', 'invalid', 'error']),
+  repair_attempts: z.number(),
+});
+
+const ProviderHealthSchema = z.object({
+  provider: z.string(),
+  healthy: z.boolean(),
+  last_error: z.string().optional(),
+  response_time_ms: z.number().optional(),
+});
+
+export const ScreeningSuccessResponseSchema = z.object({
+  contractVersion: z.literal(SCREENING_CONTRACT_VERSION),
+  success: z.literal(true),
+  decision: ScreeningDecisionSchema,
+  confidence: z.number(),
+  reasoning: z.string(),
+  agreement: z.boolean(),
+  conflict_resolution: z.object({
+    method: z.string(),
+    arbiter: z.custom<ArbiterVerdict & { arbiter: string }>().nullable(),
+  }).nullable(),
+  requires_human_review: z.boolean(),
+  // Reviewer 1 then reviewer 2
+  reviewers: z.array(ReviewerResultSchema).length(2),
+  telemetry: z.object({
+    primary_provider: z.string(),
+    prompt_version_id: z.string().nullable(),
+    reviewer_personas: z.custom<ReviewerPersona[]>(),
+    output_validation: z.object({ reviewer1: OutputValidationSchema, reviewer2: OutputValidationSchema }),
+    total_processing_time_ms: z.number(),
+    total_tokens_used: z.number(),
+    provider_health: z.array(ProviderHealthSchema),
+    // Added within v1, so older functions leave it out
+    injection_check: z.custom<InjectionCheck>().optional(),
+  }),
+});
+
+export const ScreeningErrorResponseSchema = z.object({
+  contractVersion: z.literal(SCREENING_CONTRACT_VERSION),
+  success: z.literal(false),
+  error: z.string(),
+  // Present when the request did not match the contract
+  issues: z.array(z.string()).optional(),
+  details: z.string().optional(),
+  provider_health: z.array(ProviderHealthSchema).optional(),
+});
+
+export const ScreeningResponseSchema = z.discriminatedUnion('success', [
+  ScreeningSuccessResponseSchema,
+  ScreeningErrorResponseSchema,
+]);
+
+const RateLimitStatsSchema = z.object({
+  provider: z.string(),
+  limits: z.object({ maxConcurrent: z.number(), requestsPerMinute: z.number(), tokensPerMinute: z.number() }),
+  in_flight: z.number(),
+  queued: z.number(),
+  throttled_ms: z.number(),
+  rate_limit_errors: z.number(),
+});
+
+// One entry per requested reference, in request order; a failed reference does not fail the batch
+const BatchItemResultSchema = z.discriminatedUnion('success', [
+  ScreeningSuccessResponseSchema.omit({ contractVersion: true }).extend({ referenceId: z.string() }),
+  z.object({ referenceId: z.string(), success: z.literal(false), error: z.string() }),
+]);
+
+export const ScreeningBatchSuccessResponseSchema = z.object({
+  contractVersion: z.literal(SCREENING_CONTRACT_VERSION),
+  success: z.literal(true),
+  results: z.array(BatchItemResultSchema),
+  succeeded: z.number(),
+  failed: z.number(),
+  telemetry: z.object({
+    total_processing_time_ms: z.number(),
+    rate_limits: z.array(RateLimitStatsSchema),
+  }),
+});
+
+// A batch request that is rejected as a whole gets a ScreeningErrorResponse
+export const ScreeningBatchResponseSchema = z.discriminatedUnion('success', [
+  ScreeningBatchSuccessResponseSchema,
+  ScreeningErrorResponseSchema,
+]);
+
+// What callers send; the function works with the parsed z.infer form
+export type ScreeningRequest = z.input<typeof ScreeningRequestSchema>;
+export type ScreeningBatchRequest = z.input<typeof ScreeningBatchRequestSchema>;
+export type ScreeningDecision = z.infer<typeof ScreeningDecisionSchema>;
+export type ScreeningReviewerResult = z.infer<typeof ReviewerResultSchema>;
+export type ScreeningSuccessResponse = z.infer<typeof ScreeningSuccessResponseSchema>;
+export type ScreeningErrorResponse = z.infer<typeof ScreeningErrorResponseSchema>;
+export type ScreeningResponse = z.infer<typeof ScreeningResponseSchema>;
+export type ScreeningBatchItemResult = z.infer<typeof BatchItemResultSchema>;
+export type ScreeningBatchSuccessResponse = z.infer<typeof ScreeningBatchSuccessResponseSchema>;
+export type ScreeningBatchResponse = z.infer<typeof ScreeningBatchResponseSchema>;
+
+export type ContractCheck<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+/**
+ * Validates a request or response against the contract. A version mismatch
+ * is reported on its own, since the rest of the issues would only restate
+ * it: one side was deployed without the other.
+ */
+export function checkContract<T>(schema: z.ZodType<T>, value: unknown): ContractCheck<T> {
+  const version = value && typeof value === 'object' ? (value as { contractVersion?: unknown }).contractVersion : undefined;
+  if (version !== SCREENING_CONTRACT_VERSION) {
+    return {
+      success: false,
+      issues: [`contractVersion: expected ${SCREENING_CONTRACT_VERSION}, received ${version === undefined ? 'none' : JSON.stringify(version)}`],
+    };
+  }
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return { success: true, data: parsed.data };
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+  };
+}
@@ -0,0 +1,8 @@
+// Screening job timing shared by screening-worker and the screening page (imported there as @shared/jobs)
+
+// Longer than a full batch takes, so a live worker never loses its items to another
+export const SCREENING_LEASE_SECONDS = 600;
+
+// A running job whose worker has not reported for this long has lost it. The worker reports after each
+// batch, so this is a lease plus a margin; both the page and the scheduled sweep restart such a job.
+export const STALE_JOB_MS = (SCREENING_LEASE_SECONDS + 120) * 1000;
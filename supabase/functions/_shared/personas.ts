@@ -0,0 +1,109 @@
+// Reviewer personas shared by the ai-screening function and the reviewer settings (imported there as @shared/personas)
+
+export type InclusionBias = 'inclusive' | 'balanced' | 'conservative';
+
+export interface FewShotExample {
+  title: string;
+  abstract: string;
+  decision: 'include' | 'exclude' | 'uncertain';
+  rationale: string;
+}
+
+export interface ReviewerPersona {
+  name: string;
+  instructions: string;
+  inclusionBias: InclusionBias;
+  temperature: number;
+  fewShotExamples: FewShotExample[];
+}
+
+export const INCLUSION_BIAS_LABELS: Record<InclusionBias, string> = {
+  inclusive: 'Inclusive (favour recall)',
+  balanced: 'Balanced',
+  conservative: 'Conservative (favour precision)',
+};
+
+const INCLUSION_BIAS_GUIDANCE: Record<InclusionBias, string> = {
+  inclusive:
+    'When the title and abstract do not give enough information to decide, recommend include so the full text can be checked. Exclude only when a criterion is clearly not met.',
+  balanced:
+    'Weigh the evidence for and against each criterion evenly. Recommend include when the criteria appear to be met on balance, and uncertain when the evidence is evenly split.',
+  conservative:
+    'Recommend include only when the title and abstract explicitly show that every key criterion is met. Missing essential information counts against inclusion.',
+};
+
+export const MAX_TEMPERATURE = 1;
+
+// Two deliberately different screening perspectives, so disagreement reflects methodology rather than sampling noise
+export const DEFAULT_PERSONAS: [ReviewerPersona, ReviewerPersona] = [
+  {
+    name: 'Conservative',
+    instructions:
+      'You are a methodologist focused on study design and internal validity. Check the study design, population and comparator strictly against the protocol and do not infer details the abstract does not state.',
+    inclusionBias: 'conservative',
+    temperature: 0.1,
+    fewShotExamples: [],
+  },
+  {
+    name: 'Comprehensive',
+    instructions:
+      'You are a clinical domain expert focused on not missing relevant evidence. Consider synonyms, broader or differently worded population descriptions, and indirect or surrogate outcome measures that could satisfy the criteria.',
+    inclusionBias: 'inclusive',
+    temperature: 0.3,
+    fewShotExamples: [],
+  },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function normalizeExample(value: unknown): FewShotExample | null {
+  if (!isRecord(value) || typeof value.title !== 'string' || !value.title.trim()) return null;
+  return {
+    title: value.title.trim(),
+    abstract: typeof value.abstract === 'string' ? value.abstract.trim() : '',
+    decision: value.decision === 'include' || value.decision === 'uncertain' ? value.decision : 'exclude',
+    rationale: typeof value.rationale === 'string' ? value.rationale.trim() : '',
+  };
+}
+
+function normalizePersona(value: unknown, fallback: ReviewerPersona): ReviewerPersona {
+  if (!isRecord(value)) return fallback;
+  const temperature = Number(value.temperature);
+  return {
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : fallback.name,
+    instructions: typeof value.instructions === 'string' ? value.instructions.trim() : fallback.instructions,
+    inclusionBias: value.inclusionBias === 'inclusive' || value.inclusionBias === 'balanced' || value.inclusionBias === 'conservative'
+      ? value.inclusionBias
+      : fallback.inclusionBias,
+    temperature: Number.isFinite(temperature) ? Math.min(MAX_TEMPERATURE, Math.max(0, temperature)) : fallback.temperature,
+    fewShotExamples: Array.isArray(value.fewShotExamples)
+      ? value.fewShotExamples.map(normalizeExample).filter((example): example is FewShotExample => example !== null)
+      : [],
+  };
+}
+
+// Reads ai_screening_config.reviewer_personas; anything missing or malformed falls back to the defaults
+export function normalizePersonas(value: unknown): [ReviewerPersona, ReviewerPersona] {
+  const stored = Array.isArray(value) ? value : [];
+  return [normalizePersona(stored[0], DEFAULT_PERSONAS[0]), normalizePersona(stored[1], DEFAULT_PERSONAS[1])];
+}
+
+// The persona's part of the prompt: its perspective, how to treat uncertainty, and worked examples
+export function renderPersonaInstructions(persona: ReviewerPersona): string {
+  const sections = [`YOUR REVIEWER ROLE: ${persona.name}`];
+  if (persona.instructions) sections.push(persona.instructions);
+  sections.push(INCLUSION_BIAS_GUIDANCE[persona.inclusionBias]);
+
+  if (persona.fewShotExamples.length > 0) {
+    const examples = persona.fewShotExamples.map((example, index) => [
+      `Example ${index + 1}`,
+      `Title: ${example.title}`,
+      ...(example.abstract ? [`Abstract: ${example.abstract}`] : []),
+      `Decision: ${example.decision}`,
+      ...(example.rationale ? [`Rationale: ${example.rationale}`] : []),
+    ].join('\n'));
+    sections.push(`EXAMPLE DECISIONS FROM THIS REVIEW:\n${examples.join('\n\n')}`);
+  }
+  return sections.join('\n\n');
+}
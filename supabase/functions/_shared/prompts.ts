@@ -0,0 +1,307 @@
+// Prompt templating shared by the ai-screening function and the prompt editor (imported there as @shared/prompts)
+import { renderPersonaInstructions, ReviewerPersona } from './personas.ts';
+import { delimitUntrusted, PromptGuard, renderGuardInstructions } from './injection.ts';
+
+export interface PromptReference {
+  title?: string;
+  abstract?: string;
+  authors?: string | string[];
+  journal?: string;
+  year?: number | string;
+  doi?: string;
+}
+
+export interface PromptCriteria {
+  population?: string;
+  intervention?: string;
+  comparator?: string;
+  outcome?: string;
+  studyDesigns?: string[];
+  timeframeStart?: string;
+  timeframeEnd?: string;
+  timeframeDescription?: string;
+  inclusionCriteria?: string[];
+  exclusionCriteria?: string[];
+}
+
+export interface PromptSettings {
+  systemPrompt?: string | null;
+  userPromptTemplate?: string | null;
+  // ai_screening_config.additional_instructions: a string or a list of strings
+  additionalInstructions?: unknown;
+}
+
+export const PROMPT_VARIABLES = [
+  { name: 'title', description: 'Reference title' },
+  { name: 'abstract', description: 'Reference abstract' },
+  { name: 'authors', description: 'Authors, comma separated' },
+  { name: 'journal', description: 'Journal name' },
+  { name: 'year', description: 'Publication year' },
+  { name: 'doi', description: 'DOI' },
+  { name: 'population', description: 'Population (P)' },
+  { name: 'intervention', description: 'Intervention (I)' },
+  { name: 'comparator', description: 'Comparator (C)' },
+  { name: 'outcome', description: 'Outcome (O)' },
+  { name: 'timeframe', description: 'Timeframe (T)' },
+  { name: 'study_designs', description: 'Accepted study designs' },
+  { name: 'inclusion_criteria', description: 'Numbered inclusion criteria' },
+  { name: 'exclusion_criteria', description: 'Numbered exclusion criteria' },
+  { name: 'additional_instructions', description: 'Project-specific instructions' },
+  { name: 'reviewer_persona', description: "The reviewer's role, inclusion bias and examples (appended when missing)" },
+  { name: 'response_format', description: 'Required JSON structure (appended when missing)' },
+] as const;
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number]['name'];
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are an expert systematic review researcher conducting literature screening with rigorous PICOTT assessment methodology.';
+
+export const RESPONSE_FORMAT = `{
+  "recommendation": "include|exclude|uncertain",
+  "confidence": 0.XX,
+  "picott_assessment": {
+    "population": {
+      "status": "present|absent|unclear",
+      "evidence": "Detailed analysis of population criteria",
+      "quote": "EXACT quote from abstract if status is present"
+    },
+    "intervention": {
+      "status": "present|absent|unclear",
+      "evidence": "Detailed analysis of intervention criteria",
+      "quote": "EXACT quote from abstract if status is present"
+    },
+    "comparator": {
+      "status": "present|absent|unclear",
+      "evidence": "Detailed analysis of comparator criteria",
+      "quote": "EXACT quote from abstract if status is present"
+    },
+    "outcome": {
+      "status": "present|absent|unclear",
+      "evidence": "Detailed analysis of outcome criteria",
+      "quote": "EXACT quote from abstract if status is present"
+    },
+    "timeframe": {
+      "status": "present|absent|unclear",
+      "evidence": "Detailed analysis of timeframe/follow-up",
+      "quote": "EXACT quote from abstract if status is present"
+    },
+    "study_design": {
+      "status": "present|absent|unclear",
+      "evidence": "Detailed analysis of study design",
+      "quote": "EXACT quote from abstract if status is present"
+    }
+  },
+  "criteria_assessment": {
+    "inclusion_criteria": [
+      {
+        "criterion": "specific inclusion criterion text",
+        "status": "met|not_met|unclear",
+        "evidence": "Detailed rationale for this assessment",
+        "quote": "EXACT supporting quote if available"
+      }
+    ],
+    "exclusion_criteria": [
+      {
+        "criterion": "specific exclusion criterion text",
+        "status": "violated|not_violated|unclear",
+        "evidence": "Detailed rationale for this assessment",
+        "quote": "EXACT supporting quote if available"
+      }
+    ]
+  },
+  "reasoning": "Comprehensive final decision rationale explaining how PICOTT assessment and criteria evaluation led to the include/exclude/uncertain decision, highlighting key evidence and any uncertainties"
+}`;
+
+const assessmentSchema = (statuses: string[]) => ({
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: statuses },
+    evidence: { type: 'string' },
+    quote: { type: 'string' },
+  },
+  required: ['status', 'evidence'],
+});
+
+const criterionSchema = (statuses: string[]) => ({
+  type: 'object',
+  properties: {
+    criterion: { type: 'string' },
+    ...assessmentSchema(statuses).properties,
+  },
+  required: ['criterion', 'status', 'evidence'],
+});
+
+const PICOTT_ELEMENTS = ['population', 'intervention', 'comparator', 'outcome', 'timeframe', 'study_design'];
+
+// RESPONSE_FORMAT as a JSON Schema, for providers with a native structured output mode
+export const RESPONSE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    recommendation: { type: 'string', enum: ['include', 'exclude', 'uncertain'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    picott_assessment: {
+      type: 'object',
+      properties: Object.fromEntries(PICOTT_ELEMENTS.map(element => [element, assessmentSchema(['present', 'absent', 'unclear'])])),
+      required: PICOTT_ELEMENTS,
+    },
+    criteria_assessment: {
+      type: 'object',
+      properties: {
+        inclusion_criteria: { type: 'array', items: criterionSchema(['met', 'not_met', 'unclear']) },
+        exclusion_criteria: { type: 'array', items: criterionSchema(['violated', 'not_violated', 'unclear']) },
+      },
+      required: ['inclusion_criteria', 'exclusion_criteria'],
+    },
+    reasoning: { type: 'string' },
+  },
+  required: ['recommendation', 'confidence', 'picott_assessment', 'criteria_assessment', 'reasoning'],
+};
+
+export const DEFAULT_USER_PROMPT_TEMPLATE = `You are an expert systematic review researcher conducting a literature screening for inclusion/exclusion decisions.
+
+REFERENCE TO SCREEN:
+Title: {{title}}
+Abstract: {{abstract}}
+Authors: {{authors}}
+Journal: {{journal}}
+Year: {{year}}
+DOI: {{doi}}
+
+SCREENING CRITERIA:
+Population: {{population}}
+Intervention: {{intervention}}
+Comparator: {{comparator}}
+Outcomes: {{outcome}}
+Timeframe: {{timeframe}}
+Study Designs: {{study_designs}}
+
+Inclusion Criteria:
+{{inclusion_criteria}}
+
+Exclusion Criteria:
+{{exclusion_criteria}}
+
+CRITICAL TASK: You must provide a comprehensive PICOTT assessment with EXACT QUOTES from the abstract where evidence is found.
+
+For each PICOTT element, you MUST:
+1. Determine if it's "present", "absent", or "unclear"
+2. If present: Provide the EXACT quote from the title/abstract that supports this
+3. If absent: Explain why it's missing and what you'd expect to see
+4. If unclear: Explain what's ambiguous and what additional information is needed
+
+Be precise and conservative in your assessments. This is for systematic review screening - accuracy is paramount.
+
+RECOMMENDATION:
+- "include": the title/abstract meets the criteria, or gives no reason to exclude it
+- "exclude": the title/abstract clearly fails at least one essential criterion
+- "uncertain": the title/abstract is too ambiguous or incomplete to decide either way; a human reviewer will decide
+
+{{additional_instructions}}
+
+{{reviewer_persona}}
+
+RESPONSE FORMAT: Respond with ONLY valid JSON in this exact structure:
+{{response_format}}`;
+
+const orNotProvided = (value: unknown, fallback = 'Not provided') =>
+  value === undefined || value === null || String(value).trim() === '' ? fallback : String(value);
+
+const numberedList = (items: string[] | undefined, fallback: string) => {
+  const filled = (items || []).filter(item => item && item.trim());
+  return filled.length > 0 ? filled.map((item, index) => `${index + 1}. ${item}`).join('\n') : fallback;
+};
+
+export function formatAdditionalInstructions(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean).map(item => `- ${item}`).join('\n');
+  }
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// With a guard, reference fields are wrapped in its delimiters; the fallback is not reference text and stays bare
+const untrusted = (value: unknown, guard?: PromptGuard) => {
+  const provided = orNotProvided(value, '');
+  return provided && guard ? delimitUntrusted(provided, guard) : orNotProvided(value);
+};
+
+export function buildPromptVariables(
+  reference: PromptReference,
+  criteria: PromptCriteria,
+  additionalInstructions?: unknown,
+  persona?: ReviewerPersona,
+  guard?: PromptGuard
+): Record<PromptVariable, string> {
+  const timeframe = criteria.timeframeDescription?.trim() ||
+    [criteria.timeframeStart, criteria.timeframeEnd].filter(Boolean).join(' to ');
+
+  return {
+    title: untrusted(reference.title, guard),
+    abstract: untrusted(reference.abstract, guard),
+    authors: untrusted(Array.isArray(reference.authors) ? reference.authors.join(', ') : reference.authors, guard),
+    journal: untrusted(reference.journal, guard),
+    year: untrusted(reference.year, guard),
+    doi: untrusted(reference.doi, guard),
+    population: orNotProvided(criteria.population, 'Not specified'),
+    intervention: orNotProvided(criteria.intervention, 'Not specified'),
+    comparator: orNotProvided(criteria.comparator, 'Not specified'),
+    outcome: orNotProvided(criteria.outcome, 'Not specified'),
+    timeframe: orNotProvided(timeframe, 'Not specified'),
+    study_designs: orNotProvided(criteria.studyDesigns?.join(', '), 'Not specified'),
+    inclusion_criteria: numberedList(criteria.inclusionCriteria, 'None specified'),
+    exclusion_criteria: numberedList(criteria.exclusionCriteria, 'None specified'),
+    additional_instructions: formatAdditionalInstructions(additionalInstructions),
+    reviewer_persona: persona ? renderPersonaInstructions(persona) : '',
+    response_format: RESPONSE_FORMAT,
+  };
+}
+
+// Variables used in a template that the renderer does not know; they are left in the output as written
+export function findUnknownVariables(template: string): string[] {
+  const known = new Set<string>(PROMPT_VARIABLES.map(variable => variable.name));
+  const unknown = Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]).filter(name => !known.has(name));
+  return Array.from(new Set(unknown));
+}
+
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => variables[name] ?? placeholder);
+}
+
+const usesVariable = (template: string, name: PromptVariable) =>
+  Array.from(template.matchAll(VARIABLE_PATTERN)).some(match => match[1] === name);
+
+/**
+ * Renders the project's prompts for one reference and reviewer. Additional
+ * instructions, the reviewer persona and the JSON response format are
+ * appended when a custom template leaves them out, because the reviewers'
+ * output cannot be parsed without the latter. With a guard, the reference
+ * fields are delimited and the system prompt tells the model to treat them
+ * as data only.
+ */
+export function buildScreeningPrompt(
+  settings: PromptSettings,
+  reference: PromptReference,
+  criteria: PromptCriteria,
+  persona?: ReviewerPersona,
+  guard?: PromptGuard
+): { system: string; prompt: string } {
+  const template = settings.userPromptTemplate?.trim() || DEFAULT_USER_PROMPT_TEMPLATE;
+  const variables = buildPromptVariables(reference, criteria, settings.additionalInstructions, persona, guard);
+  const system = renderPromptTemplate(settings.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT, variables);
+
+  let prompt = renderPromptTemplate(template, variables);
+  (['additional_instructions', 'reviewer_persona'] as const).forEach(name => {
+    if (variables[name] && !usesVariable(template, name)) {
+      prompt += `\n\n${variables[name]}`;
+    }
+  });
+  if (!usesVariable(template, 'response_format')) {
+    prompt += `\n\nRESPONSE FORMAT: Respond with ONLY valid JSON in this exact structure:\n${RESPONSE_FORMAT}`;
+  }
+
+  return {
+    system: guard ? `${system}\n\n${renderGuardInstructions(guard)}` : system,
+    prompt: prompt.replace(/\n{3,}/g, '\n\n'),
+  };
+}
@@ -0,0 +1,58 @@
+import { classifyHttpStatus, CompletionRequest, CompletionResult, ProviderAdapter, ProviderError } from './types.ts';
+
+interface MessagesResponse {
+  content?: { type: string; text?: string; input?: unknown }[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+
+  apiKey: () => Deno.env.get('ANTHROPIC_API_KEY')?.trim() || undefined,
+
+  // A responseSchema becomes a forced tool call, so the output arrives as the tool's JSON input
+  buildRequest(request: CompletionRequest, apiKey: string) {
+    const schema = request.responseSchema;
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.system && { system: request.system }),
+          messages: [{ role: 'user', content: request.prompt }],
+          ...(schema && {
+            tools: [{ name: schema.name, description: 'Record the screening result', input_schema: schema.schema }],
+            tool_choice: { type: 'tool', name: schema.name },
+          }),
+        }),
+      },
+    };
+  },
+
+  parseResponse(response: unknown): CompletionResult {
+    const data = response as MessagesResponse;
+    const toolUse = data?.content?.find(block => block.type === 'tool_use');
+    const content = toolUse ? JSON.stringify(toolUse.input ?? null) : (data?.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+    if (!content.trim()) {
+      throw new ProviderError('anthropic', 'invalid_response', 'Invalid Anthropic response structure');
+    }
+    const inputTokens = data.usage?.input_tokens || 0;
+    const outputTokens = data.usage?.output_tokens || 0;
+    return { content, usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens } };
+  },
+
+  // 529 means the API is overloaded, which clears up like a rate limit
+  classifyError: (status: number) => status === 529 ? 'rate_limit' : classifyHttpStatus(status),
+};
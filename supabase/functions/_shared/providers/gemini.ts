@@ -0,0 +1,52 @@
+import { classifyHttpStatus, CompletionRequest, CompletionResult, ProviderAdapter, ProviderError } from './types.ts';
+
+interface GenerateContentResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  label: 'Gemini',
+
+  apiKey: () => Deno.env.get('GEMINI_API_KEY')?.trim() || undefined,
+
+  buildRequest(request: CompletionRequest, apiKey: string) {
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent?key=${apiKey}`,
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(request.system && { systemInstruction: { parts: [{ text: request.system }] } }),
+          contents: [{ parts: [{ text: request.prompt }] }],
+          generationConfig: {
+            ...(request.temperature !== undefined && { temperature: request.temperature }),
+            maxOutputTokens: request.maxTokens,
+            // Gemini's responseSchema only accepts an OpenAPI subset, so the schema itself is enforced by validation
+            ...(request.responseSchema && { responseMimeType: 'application/json' }),
+          },
+        }),
+      },
+    };
+  },
+
+  parseResponse(response: unknown): CompletionResult {
+    const data = response as GenerateContentResponse;
+    const parts = data?.candidates?.[0]?.content?.parts;
+    const content = Array.isArray(parts) ? parts.map(part => part.text || '').join('') : '';
+    if (!content.trim()) {
+      throw new ProviderError('gemini', 'invalid_response', 'Invalid Gemini response structure');
+    }
+    const inputTokens = data.usageMetadata?.promptTokenCount || 0;
+    const outputTokens = data.usageMetadata?.candidatesTokenCount || 0;
+    return {
+      content,
+      usage: { inputTokens, outputTokens, totalTokens: data.usageMetadata?.totalTokenCount || inputTokens + outputTokens },
+    };
+  },
+
+  // Gemini reports an invalid key as 400 INVALID_ARGUMENT rather than 401
+  classifyError: (status: number, body: string) =>
+    status === 400 && /API_KEY_INVALID|API key not valid/i.test(body) ? 'auth' : classifyHttpStatus(status),
+};
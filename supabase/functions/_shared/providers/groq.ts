@@ -0,0 +1,10 @@
+import { createOpenAICompatibleAdapter } from './openaiCompatible.ts';
+
+export const groqAdapter = createOpenAICompatibleAdapter({
+  id: 'groq',
+  label: 'Groq',
+  baseUrl: 'https://api.groq.com/openai/v1',
+  apiKeyEnv: 'GROQ_API_KEY',
+  // JSON schema mode is limited to a few Groq models; JSON mode works on all of them
+  structuredOutput: 'json_object',
+});
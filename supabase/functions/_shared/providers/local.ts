@@ -0,0 +1,25 @@
+import { createOpenAICompatibleAdapter } from './openaiCompatible.ts';
+import { CompletionRequest, ProviderAdapter } from './types.ts';
+
+/**
+ * Any self-hosted OpenAI-compatible server (Ollama, vLLM, llama.cpp server),
+ * e.g. LOCAL_LLM_BASE_URL=http://localhost:11434/v1. Requests never leave the
+ * configured endpoint. "local:default" uses the model named in LOCAL_LLM_MODEL.
+ */
+const compatible = createOpenAICompatibleAdapter({
+  id: 'local',
+  label: 'Local',
+  baseUrl: () => Deno.env.get('LOCAL_LLM_BASE_URL')?.trim(),
+  apiKeyEnv: 'LOCAL_LLM_API_KEY',
+  apiKeyOptional: true,
+  // Supported by Ollama, vLLM and llama.cpp alike; not all of them accept a JSON schema
+  structuredOutput: 'json_object',
+});
+
+export const localAdapter: ProviderAdapter = {
+  ...compatible,
+  buildRequest(request: CompletionRequest, apiKey: string) {
+    const model = request.model === 'default' ? Deno.env.get('LOCAL_LLM_MODEL')?.trim() || request.model : request.model;
+    return compatible.buildRequest({ ...request, model }, apiKey);
+  },
+};
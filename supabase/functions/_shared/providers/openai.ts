@@ -0,0 +1,10 @@
+import { createOpenAICompatibleAdapter } from './openaiCompatible.ts';
+
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  id: 'openai',
+  label: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  structuredOutput: 'json_schema',
+  isReasoningModel: model => /^(o\d|gpt-5|gpt-4\.1)/.test(model),
+});
@@ -0,0 +1,94 @@
+import { classifyHttpStatus, CompletionRequest, CompletionResult, ProviderAdapter, ProviderError } from './types.ts';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+export interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  // Read per request so endpoints configured through the environment can change between deploys
+  baseUrl: string | (() => string | undefined);
+  apiKeyEnv: string;
+  // Self-hosted servers usually accept unauthenticated requests
+  apiKeyOptional?: boolean;
+  headers?: Record<string, string>;
+  // Models that take max_completion_tokens and reject a temperature
+  isReasoningModel?: (model: string) => boolean;
+  // How the endpoint enforces a responseSchema: the schema itself, or only well-formed JSON
+  structuredOutput?: 'json_schema' | 'json_object';
+}
+
+/**
+ * Adapter for any endpoint speaking the OpenAI chat completions format.
+ * OpenAI, Groq, OpenRouter and self-hosted servers differ only in base URL,
+ * key and headers.
+ */
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): ProviderAdapter {
+  const baseUrl = () => (typeof options.baseUrl === 'function' ? options.baseUrl() : options.baseUrl)?.replace(/\/+$/, '');
+
+  return {
+    id: options.id,
+    label: options.label,
+
+    apiKey() {
+      if (!baseUrl()) return undefined;
+      const key = Deno.env.get(options.apiKeyEnv)?.trim();
+      return key || (options.apiKeyOptional ? '' : undefined);
+    },
+
+    buildRequest(request: CompletionRequest, apiKey: string) {
+      const body: Record<string, unknown> = {
+        model: request.model,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          { role: 'user', content: request.prompt },
+        ],
+      };
+      if (options.isReasoningModel?.(request.model)) {
+        body.max_completion_tokens = request.maxTokens;
+      } else {
+        body.max_tokens = request.maxTokens;
+        if (request.temperature !== undefined) body.temperature = request.temperature;
+      }
+      if (request.responseSchema && options.structuredOutput === 'json_schema') {
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema },
+        };
+      } else if (request.responseSchema && options.structuredOutput === 'json_object') {
+        body.response_format = { type: 'json_object' };
+      }
+
+      return {
+        url: `${baseUrl()}/chat/completions`,
+        init: {
+          method: 'POST',
+          headers: {
+            ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+            'Content-Type': 'application/json',
+            ...options.headers,
+          },
+          body: JSON.stringify(body),
+        },
+      };
+    },
+
+    parseResponse(response: unknown): CompletionResult {
+      const data = response as ChatCompletionResponse;
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new ProviderError(options.id, 'invalid_response', `Invalid ${options.label} response structure`);
+      }
+      const inputTokens = data.usage?.prompt_tokens || 0;
+      const outputTokens = data.usage?.completion_tokens || 0;
+      return {
+        content,
+        usage: { inputTokens, outputTokens, totalTokens: data.usage?.total_tokens || inputTokens + outputTokens },
+      };
+    },
+
+    classifyError: (status: number) => classifyHttpStatus(status),
+  };
+}
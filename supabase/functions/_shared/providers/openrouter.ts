@@ -0,0 +1,14 @@
+import { createOpenAICompatibleAdapter } from './openaiCompatible.ts';
+
+export const openrouterAdapter = createOpenAICompatibleAdapter({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  baseUrl: 'https://openrouter.ai/api/v1',
+  apiKeyEnv: 'OPENROUTER_API_KEY',
+  // Passed on to the underlying model; models without structured output ignore it
+  structuredOutput: 'json_schema',
+  headers: {
+    'HTTP-Referer': 'https://ai-screening.lovable.dev',
+    'X-Title': 'AI Literature Screening',
+  },
+});
@@ -0,0 +1,194 @@
+// Per-provider concurrency and rate limits, shared by every request a function instance sends to a provider
+import { ProviderAdapter } from './types.ts';
+
+export interface ProviderLimits {
+  // Requests in flight at once
+  maxConcurrent: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface RateLimitStats {
+  provider: string;
+  limits: ProviderLimits;
+  in_flight: number;
+  queued: number;
+  // Time requests spent waiting for a slot or for the buckets to refill, since the instance started
+  throttled_ms: number;
+  rate_limit_errors: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Refills continuously at refillPerMinute up to capacity. A take larger than
+ * the capacity is clamped to it, so one oversized request waits for a full
+ * bucket instead of forever.
+ */
+export class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(private capacity: number, private refillPerMinute: number) {
+    this.available = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.updatedAt) * this.refillPerMinute / 60_000);
+    this.updatedAt = now;
+  }
+
+  async take(amount: number): Promise<void> {
+    const needed = Math.min(amount, this.capacity);
+    for (;;) {
+      this.refill();
+      if (this.available >= needed) {
+        this.available -= needed;
+        return;
+      }
+      await sleep(Math.max(50, (needed - this.available) * 60_000 / this.refillPerMinute));
+    }
+  }
+
+  // Settles the difference once the actual amount is known; the balance may go negative until it refills
+  adjust(delta: number) {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available - delta);
+  }
+
+  // Empties the bucket after the provider itself reported a rate limit
+  drain() {
+    this.refill();
+    this.available = Math.min(this.available, 0);
+  }
+}
+
+class Semaphore {
+  active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private limit: number) {}
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot straight over, so active stays the same
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  release() {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+// Defaults for each provider's entry-level paid tier; override with e.g. OPENAI_MAX_CONCURRENT, OPENAI_RPM and OPENAI_TPM
+export const DEFAULT_PROVIDER_LIMITS: Record<string, ProviderLimits> = {
+  openai: { maxConcurrent: 8, requestsPerMinute: 500, tokensPerMinute: 200_000 },
+  anthropic: { maxConcurrent: 4, requestsPerMinute: 50, tokensPerMinute: 40_000 },
+  groq: { maxConcurrent: 4, requestsPerMinute: 30, tokensPerMinute: 12_000 },
+  openrouter: { maxConcurrent: 8, requestsPerMinute: 200, tokensPerMinute: 400_000 },
+  gemini: { maxConcurrent: 4, requestsPerMinute: 15, tokensPerMinute: 1_000_000 },
+  // A self-hosted server is usually limited by its own hardware rather than a quota
+  local: { maxConcurrent: 2, requestsPerMinute: 600, tokensPerMinute: 10_000_000 },
+};
+
+const FALLBACK_LIMITS: ProviderLimits = { maxConcurrent: 4, requestsPerMinute: 60, tokensPerMinute: 100_000 };
+
+const envNumber = (name: string): number | undefined => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+export function resolveProviderLimits(providerId: string): ProviderLimits {
+  const defaults = DEFAULT_PROVIDER_LIMITS[providerId] ?? FALLBACK_LIMITS;
+  const prefix = providerId.toUpperCase();
+  return {
+    maxConcurrent: Math.floor(envNumber(`${prefix}_MAX_CONCURRENT`) ?? defaults.maxConcurrent),
+    requestsPerMinute: envNumber(`${prefix}_RPM`) ?? defaults.requestsPerMinute,
+    tokensPerMinute: envNumber(`${prefix}_TPM`) ?? defaults.tokensPerMinute,
+  };
+}
+
+interface ProviderLimiter {
+  limits: ProviderLimits;
+  slots: Semaphore;
+  requests: TokenBucket;
+  tokens: TokenBucket;
+  throttledMs: number;
+  rateLimitErrors: number;
+}
+
+const limiters = new Map<string, ProviderLimiter>();
+
+function limiterFor(providerId: string): ProviderLimiter {
+  let limiter = limiters.get(providerId);
+  if (!limiter) {
+    const limits = resolveProviderLimits(providerId);
+    limiter = {
+      limits,
+      slots: new Semaphore(limits.maxConcurrent),
+      // Bursts of a few seconds' worth of requests are allowed, not a whole minute's
+      requests: new TokenBucket(Math.max(1, Math.ceil(limits.requestsPerMinute / 10)), limits.requestsPerMinute),
+      tokens: new TokenBucket(limits.tokensPerMinute, limits.tokensPerMinute),
+      throttledMs: 0,
+      rateLimitErrors: 0,
+    };
+    limiters.set(providerId, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Waits for a request slot with the provider and takes the estimated tokens
+ * from its budget. The returned release function frees the slot and settles
+ * the budget with the tokens actually used, when the response reported them.
+ */
+export async function acquireProviderSlot(
+  adapter: ProviderAdapter,
+  estimatedTokens: number
+): Promise<(tokensUsed?: number) => void> {
+  const limiter = limiterFor(adapter.id);
+  const waitStart = Date.now();
+  await limiter.slots.acquire();
+  await limiter.requests.take(1);
+  await limiter.tokens.take(estimatedTokens);
+  limiter.throttledMs += Date.now() - waitStart;
+
+  let released = false;
+  return (tokensUsed?: number) => {
+    if (released) return;
+    released = true;
+    if (tokensUsed) limiter.tokens.adjust(tokensUsed - estimatedTokens);
+    limiter.slots.release();
+  };
+}
+
+// Called when the provider answered 429 or similar: later requests wait for the request budget to refill
+export function reportRateLimited(adapter: ProviderAdapter) {
+  const limiter = limiterFor(adapter.id);
+  limiter.rateLimitErrors++;
+  limiter.requests.drain();
+}
+
+// Rough prompt size in tokens plus the most the model may write
+export const estimateTokens = (text: string, maxTokens: number) => Math.ceil(text.length / 4) + maxTokens;
+
+export function getRateLimitStats(): RateLimitStats[] {
+  return Array.from(limiters.entries()).map(([provider, limiter]) => ({
+    provider,
+    limits: limiter.limits,
+    in_flight: limiter.slots.active,
+    queued: limiter.slots.queued,
+    throttled_ms: limiter.throttledMs,
+    rate_limit_errors: limiter.rateLimitErrors,
+  }));
+}
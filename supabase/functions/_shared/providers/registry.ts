@@ -0,0 +1,125 @@
+import { anthropicAdapter } from './anthropic.ts';
+import { geminiAdapter } from './gemini.ts';
+import { groqAdapter } from './groq.ts';
+import { localAdapter } from './local.ts';
+import { openaiAdapter } from './openai.ts';
+import { openrouterAdapter } from './openrouter.ts';
+import { acquireProviderSlot, estimateTokens, reportRateLimited } from './rateLimit.ts';
+import { CompletionRequest, CompletionResult, ProviderAdapter, ProviderError } from './types.ts';
+
+export * from './types.ts';
+export { getRateLimitStats } from './rateLimit.ts';
+export type { ProviderLimits, RateLimitStats } from './rateLimit.ts';
+
+export interface ModelSpec {
+  provider: string;
+  model: string;
+}
+
+const MAX_ATTEMPTS = 3;
+
+const providers = new Map<string, ProviderAdapter>();
+
+export function registerProvider(adapter: ProviderAdapter) {
+  providers.set(adapter.id, adapter);
+}
+
+export function getProvider(id: string): ProviderAdapter | undefined {
+  return providers.get(id);
+}
+
+export function listProviders(): ProviderAdapter[] {
+  return Array.from(providers.values());
+}
+
+[openaiAdapter, anthropicAdapter, groqAdapter, openrouterAdapter, geminiAdapter, localAdapter].forEach(registerProvider);
+
+// "provider:model"; only the first colon separates them because model names may contain colons
+export function parseModelSpec(spec: string): ModelSpec {
+  const separator = spec.indexOf(':');
+  const provider = separator > 0 ? spec.slice(0, separator).trim().toLowerCase() : '';
+  const model = separator > 0 ? spec.slice(separator + 1).trim() : '';
+  if (!provider || !model) {
+    throw new Error(`Invalid model "${spec}", expected provider:model`);
+  }
+  if (!providers.has(provider)) {
+    throw new Error(`Unknown provider "${provider}" in "${spec}"`);
+  }
+  return { provider, model };
+}
+
+/**
+ * A reviewer's fallback chain is a comma-separated list of model specs, tried
+ * in order, e.g. "openai:o3-2025-04-16, groq:llama-3.3-70b-versatile".
+ */
+export function parseModelChain(value: string): ModelSpec[] {
+  return value.split(',').map(spec => spec.trim()).filter(Boolean).map(parseModelSpec);
+}
+
+export const formatModelSpec = (spec: ModelSpec) => `${spec.provider}:${spec.model}`;
+
+/**
+ * Sends one completion request, retrying on errors the adapter classifies as
+ * transient. Everything else is thrown as a ProviderError straight away so the
+ * caller can move on to the next model in the chain. Every attempt waits for
+ * a slot within the provider's concurrency and rate limits.
+ */
+export async function complete(spec: ModelSpec, request: Omit<CompletionRequest, 'model'>): Promise<CompletionResult> {
+  const adapter = providers.get(spec.provider);
+  if (!adapter) {
+    throw new ProviderError(spec.provider, 'not_configured', `Unknown provider "${spec.provider}"`);
+  }
+  const apiKey = adapter.apiKey();
+  if (apiKey === undefined) {
+    throw new ProviderError(adapter.id, 'not_configured', `${adapter.label} is not configured (missing API key or endpoint)`);
+  }
+
+  const estimatedTokens = estimateTokens(`${request.system ?? ''}${request.prompt}`, request.maxTokens);
+  let lastError: ProviderError;
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const release = await acquireProviderSlot(adapter, estimatedTokens);
+    let tokensUsed: number | undefined;
+    try {
+      console.log(`${adapter.label} attempt ${attempt}/${MAX_ATTEMPTS} with model: ${spec.model}`);
+      const { url, init } = adapter.buildRequest({ ...request, model: spec.model }, apiKey);
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        throw new ProviderError(adapter.id, 'network', `${adapter.label} request failed: ${error.message}`);
+      }
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new ProviderError(
+          adapter.id,
+          adapter.classifyError(response.status, body),
+          `${adapter.label} API error (${response.status}): ${body}`,
+          response.status
+        );
+      }
+
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch {
+        throw new ProviderError(adapter.id, 'invalid_response', `${adapter.label} returned a non-JSON response`);
+      }
+      const result = adapter.parseResponse(data);
+      tokensUsed = result.usage.totalTokens;
+      return result;
+    } catch (error) {
+      lastError = error instanceof ProviderError ? error : new ProviderError(adapter.id, 'invalid_response', error.message);
+      console.error(`${adapter.label} attempt ${attempt} failed (${lastError.kind}):`, lastError.message);
+      if (lastError.kind === 'rate_limit') reportRateLimited(adapter);
+      if (!lastError.retryable || attempt === MAX_ATTEMPTS) break;
+    } finally {
+      release(tokensUsed);
+    }
+    // The slot is freed while backing off, so other requests to the provider are not held up
+    await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+  }
+
+  throw lastError;
+}
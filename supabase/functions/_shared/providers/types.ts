@@ -0,0 +1,84 @@
+// Common contract for LLM provider adapters used by the screening edge functions
+
+export interface CompletionRequest {
+  model: string;
+  system?: string;
+  prompt: string;
+  maxTokens: number;
+  temperature?: number;
+  responseSchema?: ResponseSchema;
+}
+
+// JSON Schema the output must follow; adapters use the provider's native structured output mode where it has one
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage: TokenUsage;
+}
+
+export interface HttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * How a failed call should be handled: retryable errors are tried again on
+ * the same model, the others move straight on to the next model in the chain.
+ */
+export type ProviderErrorKind =
+  | 'not_configured'
+  | 'auth'
+  | 'rate_limit'
+  | 'server'
+  | 'bad_request'
+  | 'invalid_response'
+  | 'network';
+
+export const RETRYABLE_ERRORS: ProviderErrorKind[] = ['rate_limit', 'server', 'invalid_response', 'network'];
+
+export class ProviderError extends Error {
+  constructor(
+    public provider: string,
+    public kind: ProviderErrorKind,
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_ERRORS.includes(this.kind);
+  }
+}
+
+export interface ProviderAdapter {
+  // Prefix used in model specs, e.g. "openai" in "openai:o3-2025-04-16"
+  id: string;
+  label: string;
+  // Returns undefined when the provider has no credentials or endpoint in this environment
+  apiKey(): string | undefined;
+  buildRequest(request: CompletionRequest, apiKey: string): HttpRequest;
+  parseResponse(data: unknown): CompletionResult;
+  classifyError(status: number, body: string): ProviderErrorKind;
+}
+
+// Status-based classification shared by the adapters; providers with their own error shapes refine it
+export function classifyHttpStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 429) return 'rate_limit';
+  if (status >= 500) return 'server';
+  return 'bad_request';
+}
+
+export const emptyUsage = (): TokenUsage => ({ inputTokens: 0, outputTokens: 0, totalTokens: 0 });
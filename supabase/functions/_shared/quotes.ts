@@ -0,0 +1,196 @@
+// Quote verification shared by the ai-screening function and the reference details panel (imported there as @shared/quotes)
+
+export interface QuoteSource {
+  title?: string | null;
+  abstract?: string | null;
+}
+
+export interface QuoteMatch {
+  field: 'title' | 'abstract';
+  // Character offsets into the field, end exclusive
+  start: number;
+  end: number;
+}
+
+export interface QuoteCheck {
+  // Where the quote sits in the review, e.g. "picott_assessment.population"
+  path: string;
+  quote: string;
+  verified: boolean;
+  // Similarity of the best match, 0 to 1
+  score: number;
+  // One match per ellipsis-separated part of the quote; empty when nothing matched
+  matches: QuoteMatch[];
+}
+
+export interface QuoteVerification {
+  checks: QuoteCheck[];
+  verified: number;
+  failed: number;
+  // Applied to the reviewer's confidence: 1 when every quote was found
+  confidence_factor: number;
+}
+
+// Minimum word-level similarity for a quote to count as found; allows for small transcription slips
+export const QUOTE_MATCH_THRESHOLD = 0.85;
+
+// Confidence lost when every quote fails; partial failures lose proportionally less
+export const QUOTE_FAILURE_PENALTY = 0.5;
+
+// Placeholders models write when they have nothing to quote
+const NO_QUOTE_PATTERN = /^(?:n\/?a|none|-|not (?:available|applicable|stated|reported|found|provided|mentioned)|no (?:quote|evidence)(?: available)?)\.?$/i;
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    text: match[0].normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+// Inflections ("trial" / "trials") cost half an edit
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  if (Math.min(a.length, b.length) >= 4 && (a.startsWith(b) || b.startsWith(a))) return 0.5;
+  return 1;
+}
+
+/**
+ * Finds the closest match for the quote's words anywhere in the source
+ * words: an edit distance over words where the match may start and end at
+ * any position in the source.
+ */
+function alignTokens(quote: Token[], source: Token[]): { score: number; start: number; end: number } | null {
+  const rows = quote.length;
+  const cols = source.length;
+  if (rows === 0 || cols === 0) return null;
+
+  // cost[i][j]: cheapest alignment of the first i quote words ending at source word j; origin[i][j]: where it starts
+  const cost: number[][] = [new Array(cols + 1).fill(0)];
+  const origin: number[][] = [Array.from({ length: cols + 1 }, (_, j) => j)];
+  for (let i = 1; i <= rows; i++) {
+    cost.push([i]);
+    origin.push([0]);
+    for (let j = 1; j <= cols; j++) {
+      const substitute = cost[i - 1][j - 1] + substitutionCost(quote[i - 1].text, source[j - 1].text);
+      const skipQuoteWord = cost[i - 1][j] + 1;
+      const skipSourceWord = cost[i][j - 1] + 1;
+      if (substitute <= skipQuoteWord && substitute <= skipSourceWord) {
+        cost[i][j] = substitute;
+        origin[i][j] = origin[i - 1][j - 1];
+      } else if (skipQuoteWord <= skipSourceWord) {
+        cost[i][j] = skipQuoteWord;
+        origin[i][j] = origin[i - 1][j];
+      } else {
+        cost[i][j] = skipSourceWord;
+        origin[i][j] = origin[i][j - 1];
+      }
+    }
+  }
+
+  let bestEnd = 1;
+  for (let j = 2; j <= cols; j++) {
+    if (cost[rows][j] < cost[rows][bestEnd]) bestEnd = j;
+  }
+  const startWord = Math.min(origin[rows][bestEnd], bestEnd - 1);
+  return {
+    score: Math.max(0, 1 - cost[rows][bestEnd] / rows),
+    start: source[startWord].start,
+    end: source[bestEnd - 1].end,
+  };
+}
+
+// Checks one quote against the title and abstract; quotes elided with "..." must match part by part
+export function findQuote(quote: string, source: QuoteSource): Omit<QuoteCheck, 'path'> {
+  const fields = (['abstract', 'title'] as const)
+    .filter(field => source[field]?.trim())
+    .map(field => ({ field, tokens: tokenize(source[field] as string) }));
+  const parts = quote.split(/\s*(?:\.{3}|…|\[\.{3}\])\s*/).map(tokenize).filter(tokens => tokens.length > 0);
+
+  const matches: QuoteMatch[] = [];
+  let score = parts.length > 0 ? 1 : 0;
+  for (const part of parts) {
+    let best: (QuoteMatch & { score: number }) | null = null;
+    for (const { field, tokens } of fields) {
+      const aligned = alignTokens(part, tokens);
+      if (aligned && (!best || aligned.score > best.score)) best = { field, ...aligned };
+    }
+    score = Math.min(score, best?.score ?? 0);
+    if (best && best.score >= QUOTE_MATCH_THRESHOLD) {
+      matches.push({ field: best.field, start: best.start, end: best.end });
+    }
+  }
+
+  const verified = parts.length > 0 && score >= QUOTE_MATCH_THRESHOLD;
+  return { quote, verified, score: Math.round(score * 100) / 100, matches: verified ? matches : [] };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Every non-empty quote in a review's PICOTT and criteria assessments, with its path
+function collectQuotes(review: { picott_assessment?: unknown; criteria_assessment?: unknown }): { path: string; quote: string }[] {
+  const quotes: { path: string; quote: string }[] = [];
+  const add = (path: string, value: unknown) => {
+    if (!isRecord(value) || typeof value.quote !== 'string') return;
+    const quote = value.quote.trim().replace(/^["“']+|["”']+$/g, '');
+    if (quote && !NO_QUOTE_PATTERN.test(quote)) quotes.push({ path, quote });
+  };
+
+  if (isRecord(review.picott_assessment)) {
+    Object.entries(review.picott_assessment).forEach(([element, value]) => add(`picott_assessment.${element}`, value));
+  }
+  if (isRecord(review.criteria_assessment)) {
+    (['inclusion_criteria', 'exclusion_criteria'] as const).forEach(list => {
+      const items = (review.criteria_assessment as Record<string, unknown>)[list];
+      if (Array.isArray(items)) items.forEach((item, index) => add(`criteria_assessment.${list}[${index}]`, item));
+    });
+  }
+  return quotes;
+}
+
+export function verifyReviewQuotes(
+  review: { picott_assessment?: unknown; criteria_assessment?: unknown },
+  source: QuoteSource
+): QuoteVerification {
+  const checks = collectQuotes(review).map(({ path, quote }) => ({ path, ...findQuote(quote, source) }));
+  const failed = checks.filter(check => !check.verified).length;
+  return {
+    checks,
+    verified: checks.length - failed,
+    failed,
+    confidence_factor: checks.length > 0 ? 1 - QUOTE_FAILURE_PENALTY * (failed / checks.length) : 1,
+  };
+}
+
+// Splits text into plain and highlighted runs for the given ranges, merging overlaps
+export function splitHighlights(text: string, ranges: { start: number; end: number }[]): { text: string; highlighted: boolean }[] {
+  const merged: { start: number; end: number }[] = [];
+  [...ranges]
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start)
+    .forEach(range => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    });
+
+  const runs: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+  merged.forEach(({ start, end }) => {
+    if (start > position) runs.push({ text: text.slice(position, start), highlighted: false });
+    runs.push({ text: text.slice(Math.max(start, position), end), highlighted: true });
+    position = end;
+  });
+  if (position < text.length) runs.push({ text: text.slice(position), highlighted: false });
+  return runs;
+}
@@ -1,16 +1,52 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { z } from "zod";
+import {
+  complete,
+  CompletionRequest,
+  formatModelSpec,
+  getProvider,
+  getRateLimitStats,
+  ModelSpec,
+  parseModelChain,
+  ProviderError
+} from "../_shared/providers/registry.ts";
+import { buildScreeningPrompt, PromptCriteria, PromptReference, PromptSettings, RESPONSE_SCHEMA } from "../_shared/prompts.ts";
+import { normalizePersonas, ReviewerPersona } from "../_shared/personas.ts";
+import { QuoteVerification, verifyReviewQuotes } from "../_shared/quotes.ts";
+import { applyCalibration, CalibrationMethod, CalibrationParameters, normalizeCalibration } from "../_shared/calibration.ts";
+import {
+  createPromptGuard,
+  detectInjection,
+  InjectionCheck,
+  leaksCanary,
+  PromptGuard,
+  sanitizeReference
+} from "../_shared/injection.ts";
+import {
+  ARBITER_RESPONSE_SCHEMA,
+  ArbiterVerdict,
+  buildArbiterPrompt,
+  ConflictResolutionMethod,
+  normalizeConflictResolutionMethod
+} from "../_shared/arbitration.ts";
+import {
+  checkContract,
+  SCREENING_CONTRACT_VERSION,
+  ScreeningBatchItemResult,
+  ScreeningBatchRequestSchema,
+  ScreeningBatchSuccessResponse,
+  ScreeningBatchSuccessResponseSchema,
+  ScreeningErrorResponse,
+  ScreeningRequestSchema,
+  ScreeningSuccessResponse,
+  ScreeningSuccessResponseSchema
+} from "../_shared/contract.ts";
 
 // Environment variables
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-const groqApiKey = Deno.env.get('GROQ_API_KEY');
-const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
-const openrouterApiKey = Deno.env.get('OPENROUTER_API_KEY');
 
 // Initialize Supabase client
 const supabase = createClient(supabaseUrl, supabaseKey);
@@ -71,7 +107,7 @@ const CriteriaAssessmentSchema = z.object({
 });
 
 const AIReviewResultSchema = z.object({
-  recommendation: z.enum(['include', 'exclude']),
+  recommendation: z.enum(['include', 'exclude', 'uncertain']),
   confidence: z.number().min(0).max(1),
   reasoning: z.string(),
   reviewer: z.string(),
@@ -82,8 +118,33 @@ const AIReviewResultSchema = z.object({
   model_version: z.string().optional()
 });
 
+// What a reviewer model must return; a response only counts as a decision once it passes
+const ReviewOutputSchema = z.object({
+  recommendation: z.enum(['include', 'exclude', 'uncertain']),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().min(1),
+  picott_assessment: PICOTTAssessmentSchema,
+  criteria_assessment: CriteriaAssessmentSchema
+});
+
+const ArbiterVerdictSchema = z.object({
+  decision: z.enum(['include', 'exclude', 'uncertain']),
+  confidence: z.number().min(0).max(1),
+  favoured_reviewer: z.enum(['reviewer_1', 'reviewer_2', 'neither']),
+  points_of_disagreement: z.array(z.string()),
+  reasoning: z.string().min(1)
+});
+
+// How many times a model is re-asked with the validation errors before its output is marked invalid
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// References of a batch screened at once; the provider limits bound the model calls themselves
+const BATCH_CONCURRENCY = 10;
+
+type ParsedScreeningRequest = z.infer<typeof ScreeningRequestSchema>;
+
 interface AIReviewResult {
-  recommendation: 'include' | 'exclude';
+  recommendation: 'include' | 'exclude' | 'uncertain';
   confidence: number;
   reasoning: string;
   reviewer: string;
@@ -92,6 +153,17 @@ interface AIReviewResult {
   tokens_used?: number;
   processing_time_ms?: number;
   model_version?: string;
+  // invalid: every model that answered failed validation even after repair; error: no model answered
+  validation_status: 'valid' | 'invalid' | 'error';
+  repair_attempts?: number;
+  quote_verification?: QuoteVerification;
+  // The model's own confidence, before the quote verification downgrade
+  reported_confidence?: number;
+  // Set when the model is calibrated for the project: confidence is then the calibrated value
+  raw_confidence?: number;
+  calibration_method?: CalibrationMethod;
+  // The output contained the prompt canary, so the model followed instructions from the reference text
+  canary_leaked?: boolean;
 }
 
 interface ProviderHealthStatus {
@@ -126,1101 +198,896 @@ serve(async (req) => {
   try {
     console.log('🔍 AI Screening Service - Enhanced with PICOTT Telemetry');
     
-    const { 
-      reference, 
-      criteria, 
-      projectId, 
-      sessionId,
-      referenceId 
-    } = await req.json();
-
-    // Validate required inputs
-    if (!reference || !criteria || !projectId) {
-      throw new Error('Missing required parameters: reference, criteria, or projectId');
+    const body = await req.json().catch(() => null);
+    // A body with a references list is a batch; anything else is checked as a single-reference request
+    if (body && typeof body === 'object' && Array.isArray((body as { references?: unknown }).references)) {
+      return await screenBatch(body);
     }
 
-    // Security validation
-    if (!referenceId || typeof referenceId !== 'string' || referenceId.length < 10) {
-      throw new Error('Invalid reference ID format');
+    // A request that does not match the contract is rejected before any model is called
+    const request = checkContract(ScreeningRequestSchema, body);
+    if (!request.success) {
+      console.warn('Request does not match the screening contract:', request.issues);
+      return errorResponse(400, {
+        error: `Request does not match screening contract v${SCREENING_CONTRACT_VERSION}`,
+        issues: request.issues
+      });
     }
 
     console.log('Security validation passed for request:', {
-      referenceId: referenceId.substring(0, 50) + '...',
-      projectId: projectId.substring(0, 20) + '...',
-      referenceTitle: reference.title?.substring(0, 80) + '...'
+      referenceId: request.data.referenceId.substring(0, 50) + '...',
+      projectId: request.data.projectId.substring(0, 20) + '...',
+      referenceTitle: request.data.reference.title?.substring(0, 80) + '...'
     });
 
-    // Enhanced PICOTT-focused prompts
-    const basePrompt = `
-You are an expert systematic review researcher conducting a literature screening for inclusion/exclusion decisions.
-
-REFERENCE TO SCREEN:
-Title: ${reference.title}
-Abstract: ${reference.abstract}
-Authors: ${Array.isArray(reference.authors) ? reference.authors.join(', ') : (reference.authors || 'Not provided')}
-Journal: ${reference.journal || 'Not provided'}
-Year: ${reference.year || 'Not provided'}
-DOI: ${reference.doi || 'Not provided'}
-
-SCREENING CRITERIA:
-Population: ${criteria.population}
-Intervention: ${criteria.intervention}
-Comparator: ${criteria.comparator}
-Outcomes: ${criteria.outcomes}
-Study Designs: ${Array.isArray(criteria.studyDesigns) ? criteria.studyDesigns.join(', ') : (criteria.studyDesigns || 'Not specified')}
-
-Inclusion Criteria:
-${Array.isArray(criteria.inclusionCriteria) ? criteria.inclusionCriteria.map((c: string, i: number) => `${i+1}. ${c}`).join('\n') : (criteria.inclusionCriteria || 'None specified')}
-
-Exclusion Criteria:  
-${Array.isArray(criteria.exclusionCriteria) ? criteria.exclusionCriteria.map((c: string, i: number) => `${i+1}. ${c}`).join('\n') : (criteria.exclusionCriteria || 'None specified')}
-
-CRITICAL TASK: You must provide a comprehensive PICOTT assessment with EXACT QUOTES from the abstract where evidence is found.
-
-For each PICOTT element, you MUST:
-1. Determine if it's "present", "absent", or "unclear"
-2. If present: Provide the EXACT quote from the title/abstract that supports this
-3. If absent: Explain why it's missing and what you'd expect to see
-4. If unclear: Explain what's ambiguous and what additional information is needed
-
-RESPONSE FORMAT: Respond with ONLY valid JSON in this exact structure:`;
-
-    const jsonStructure = `
-{
-  "recommendation": "include|exclude",
-  "confidence": 0.XX,
-  "picott_assessment": {
-    "population": {
-      "status": "present|absent|unclear",
-      "evidence": "Detailed analysis of population criteria",
-      "quote": "EXACT quote from abstract if status is present"
-    },
-    "intervention": {
-      "status": "present|absent|unclear", 
-      "evidence": "Detailed analysis of intervention criteria",
-      "quote": "EXACT quote from abstract if status is present"
-    },
-    "comparator": {
-      "status": "present|absent|unclear",
-      "evidence": "Detailed analysis of comparator criteria", 
-      "quote": "EXACT quote from abstract if status is present"
-    },
-    "outcome": {
-      "status": "present|absent|unclear",
-      "evidence": "Detailed analysis of outcome criteria",
-      "quote": "EXACT quote from abstract if status is present"
-    },
-    "timeframe": {
-      "status": "present|absent|unclear",
-      "evidence": "Detailed analysis of timeframe/follow-up",
-      "quote": "EXACT quote from abstract if status is present"
-    },
-    "study_design": {
-      "status": "present|absent|unclear",
-      "evidence": "Detailed analysis of study design",
-      "quote": "EXACT quote from abstract if status is present"
-    }
-  },
-  "criteria_assessment": {
-    "inclusion_criteria": [
-      {
-        "criterion": "specific inclusion criterion text",
-        "status": "met|not_met|unclear",
-        "evidence": "Detailed rationale for this assessment",
-        "quote": "EXACT supporting quote if available"
-      }
-    ],
-    "exclusion_criteria": [
-      {
-        "criterion": "specific exclusion criterion text", 
-        "status": "violated|not_violated|unclear",
-        "evidence": "Detailed rationale for this assessment",
-        "quote": "EXACT supporting quote if available"
-      }
-    ]
-  },
-  "reasoning": "Comprehensive final decision rationale explaining how PICOTT assessment and criteria evaluation led to include/exclude decision, highlighting key evidence and any uncertainties"
-}`;
+    const config = await loadScreeningConfig(request.data.projectId);
+    const response = await screenReference(request.data, config);
 
-    const reviewer1Prompt = basePrompt + jsonStructure;
-    const reviewer2Prompt = basePrompt + jsonStructure;
+    return new Response(JSON.stringify(response), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
 
-    console.log('🚀 Starting enhanced dual AI screening with reasoning models...');
+  } catch (error) {
+    console.error('❌ AI Screening Service Error:', error);
     
-    let reviewer1Result: AIReviewResult;
-    let reviewer2Result: AIReviewResult;
-    let primaryProvider = '';
+    // Log error for debugging
+    const errorDetails = {
+      message: error.message,
+      stack: error.stack,
+      timestamp: new Date().toISOString()
+    };
     
-    // Enhanced provider selection with health tracking
-    try {
-      console.log('💡 Attempting primary reasoning models: OpenAI O3 + Anthropic Claude 4...');
-      const startTime = Date.now();
-      
-      // Call providers in parallel for better performance
-      const [result1, result2] = await Promise.allSettled([
-        callOpenAI(reviewer1Prompt, 'o3-2025-04-16', 'OpenAI O3 Reasoning (Conservative)'),
-        callAnthropic(reviewer2Prompt, 'Anthropic Claude 4 Sonnet (Comprehensive)')
-      ]);
-
-      const endTime = Date.now();
-      const totalTime = endTime - startTime;
-
-      if (result1.status === 'fulfilled') {
-        reviewer1Result = result1.value;
-        reviewer1Result.processing_time_ms = totalTime / 2;
-        updateProviderHealth('openai', true, undefined, totalTime / 2);
-      } else {
-        console.error('OpenAI failed:', result1.reason);
-        updateProviderHealth('openai', false, result1.reason.message);
-        throw result1.reason;
-      }
+    console.error('Error details:', errorDetails);
+    
+    return errorResponse(500, {
+      error: error.message,
+      details: 'Check function logs for more information',
+      provider_health: getProviderHealth()
+    });
+  }
+});
 
-      if (result2.status === 'fulfilled') {
-        reviewer2Result = result2.value;
-        reviewer2Result.processing_time_ms = totalTime / 2;
-        updateProviderHealth('anthropic', true, undefined, totalTime / 2);
-      } else {
-        console.error('Anthropic failed:', result2.reason);
-        updateProviderHealth('anthropic', false, result2.reason.message);
-        throw result2.reason;
-      }
+function errorResponse(status: number, body: Omit<ScreeningErrorResponse, 'contractVersion' | 'success'>): Response {
+  const payload: ScreeningErrorResponse = { contractVersion: SCREENING_CONTRACT_VERSION, success: false, ...body };
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
 
-      primaryProvider = 'openai-anthropic-reasoning';
-      console.log('✅ Primary reasoning models successful');
-      
-    } catch (primaryError) {
-      console.warn('⚠️ Primary reasoning models failed, trying secondary providers:', primaryError.message);
-      
-      try {
-        // Secondary reasoning models: DeepSeek R1 + Groq
-        console.log('🔄 Attempting secondary reasoning models: DeepSeek R1 + Groq...');
-        const startTime = Date.now();
-        
-        const [result1, result2] = await Promise.allSettled([
-          callOpenRouter(reviewer1Prompt, 'deepseek/deepseek-r1-distill-llama-70b', 'DeepSeek R1 (Conservative)'),
-          callGroq(reviewer2Prompt, 'deepseek-r1-distill-llama-70b', 'Groq DeepSeek R1 (Comprehensive)')
-        ]);
-
-        const endTime = Date.now();
-        const totalTime = endTime - startTime;
-
-        if (result1.status === 'fulfilled') {
-          reviewer1Result = result1.value;
-          reviewer1Result.processing_time_ms = totalTime / 2;
-          updateProviderHealth('openrouter', true, undefined, totalTime / 2);
-        } else {
-          updateProviderHealth('openrouter', false, result1.reason.message);
-          throw result1.reason;
-        }
+/**
+ * Screens one reference with both reviewers, resolves the decision, logs it
+ * and stores it on the reference. Throws when the result cannot be produced,
+ * so a batch can report the reference as failed and carry on.
+ */
+async function screenReference(request: ParsedScreeningRequest, config: ScreeningConfig): Promise<ScreeningSuccessResponse> {
+  const { reference, criteria, projectId, sessionId, referenceId, runId } = request;
+
+  // Reference text is untrusted: it is stripped of control sequences and delimited in the prompts, and text that
+  // addresses the model sends the reference to human review whatever the reviewers decide
+  const promptReference = sanitizeReference(reference);
+  const guard = createPromptGuard();
+  const injectionFindings = detectInjection(reference);
+  if (injectionFindings.length > 0) {
+    console.warn('⚠️ Possible prompt injection in reference:', injectionFindings.map(finding => `${finding.field}/${finding.kind}`));
+  }
 
-        if (result2.status === 'fulfilled') {
-          reviewer2Result = result2.value;
-          reviewer2Result.processing_time_ms = totalTime / 2;
-          updateProviderHealth('groq', true, undefined, totalTime / 2);
-        } else {
-          updateProviderHealth('groq', false, result2.reason.message);
-          throw result2.reason;
-        }
+  const { primaryChain, secondaryChain } = config;
+  const [persona1, persona2] = config.personas;
 
-        primaryProvider = 'deepseek-reasoning';
-        console.log('✅ Secondary reasoning models successful');
-        
-      } catch (secondaryError) {
-        console.error('❌ Secondary reasoning models failed, using emergency fallback:', secondaryError.message);
-        
-        // Emergency fallback with basic models
-        const startTime = Date.now();
-        const [result1, result2] = await Promise.allSettled([
-          callGroq(reviewer1Prompt, 'llama-3.3-70b-versatile', 'Groq Llama 3.3 (Conservative)'),
-          callGemini(reviewer2Prompt, 'gemini-2.0-flash-exp', 'Gemini 2.0 Flash (Comprehensive)')
-        ]);
-
-        const endTime = Date.now();
-        const totalTime = endTime - startTime;
-
-        if (result1.status === 'fulfilled') {
-          reviewer1Result = result1.value;
-          reviewer1Result.processing_time_ms = totalTime / 2;
-          updateProviderHealth('groq-fallback', true, undefined, totalTime / 2);
-        } else {
-          updateProviderHealth('groq-fallback', false, result1.reason.message);
-          // Final fallback: create minimal valid response
-          reviewer1Result = {
-            recommendation: 'exclude',
-            confidence: 0.1,
-            reasoning: `Emergency fallback due to provider failures: ${result1.reason.message}. Manual review required.`,
-            reviewer: 'Groq Llama 3.3 (Error)',
-            processing_time_ms: totalTime / 2
-          };
-        }
+  console.log('🚀 Starting dual AI screening:', {
+    reviewer1: primaryChain.map(formatModelSpec),
+    reviewer2: secondaryChain.map(formatModelSpec)
+  });
 
-        if (result2.status === 'fulfilled') {
-          reviewer2Result = result2.value;
-          reviewer2Result.processing_time_ms = totalTime / 2;
-          updateProviderHealth('gemini', true, undefined, totalTime / 2);
-        } else {
-          updateProviderHealth('gemini', false, result2.reason.message);
-          // Final fallback: create minimal valid response
-          reviewer2Result = {
-            recommendation: 'exclude',
-            confidence: 0.1,
-            reasoning: `Emergency fallback due to provider failures: ${result2.reason.message}. Manual review required.`,
-            reviewer: 'Gemini 2.0 Flash (Error)',
-            processing_time_ms: totalTime / 2
-          };
-        }
+  const screeningStart = new Date();
 
-        primaryProvider = 'emergency-fallback';
-        console.log('⚠️ Emergency fallback models used');
-      }
-    }
+  // Each reviewer walks its own fallback chain, so one provider outage does not take down the other reviewer
+  const [reviewer1Result, reviewer2Result] = (await Promise.all([
+    runReviewer(primaryChain, buildScreeningPrompt(config.prompt, promptReference, criteria, persona1, guard), persona1, guard),
+    runReviewer(secondaryChain, buildScreeningPrompt(config.prompt, promptReference, criteria, persona2, guard), persona2, guard)
+  ])).map(result => applyConfidenceCalibration(applyQuoteVerification(result, reference), config.calibrations));
 
-    console.log(`Primary provider used: ${primaryProvider}`);
+  const primaryProvider = `${reviewer1Result.model_version || 'none'} + ${reviewer2Result.model_version || 'none'}`;
 
-    // Enhanced validation with Zod schemas
-    try {
-      if (reviewer1Result.picott_assessment) {
-        PICOTTAssessmentSchema.parse(reviewer1Result.picott_assessment);
-      }
-      if (reviewer2Result.picott_assessment) {
-        PICOTTAssessmentSchema.parse(reviewer2Result.picott_assessment);
-      }
-      console.log('✅ PICOTT assessments validated successfully');
-    } catch (validationError) {
-      console.warn('⚠️ PICOTT validation failed:', validationError.message);
-    }
+  console.log(`Primary provider used: ${primaryProvider}`);
 
-    console.log('📊 Enhanced Screening Results Summary:');
-    console.log('Reviewer 1 result:', {
-      reviewer: reviewer1Result.reviewer,
-      recommendation: reviewer1Result.recommendation,
-      confidence: reviewer1Result.confidence,
-      processing_time: reviewer1Result.processing_time_ms + 'ms',
-      tokens: reviewer1Result.tokens_used || 'unknown'
-    });
-    
-    console.log('Reviewer 2 result:', {
-      reviewer: reviewer2Result.reviewer,
-      recommendation: reviewer2Result.recommendation,
-      confidence: reviewer2Result.confidence,
-      processing_time: reviewer2Result.processing_time_ms + 'ms',
-      tokens: reviewer2Result.tokens_used || 'unknown'
-    });
+  console.log('📊 Enhanced Screening Results Summary:');
+  console.log('Reviewer 1 result:', {
+    reviewer: reviewer1Result.reviewer,
+    recommendation: reviewer1Result.recommendation,
+    confidence: reviewer1Result.confidence,
+    processing_time: reviewer1Result.processing_time_ms + 'ms',
+    tokens: reviewer1Result.tokens_used || 'unknown'
+  });
+  
+  console.log('Reviewer 2 result:', {
+    reviewer: reviewer2Result.reviewer,
+    recommendation: reviewer2Result.recommendation,
+    confidence: reviewer2Result.confidence,
+    processing_time: reviewer2Result.processing_time_ms + 'ms',
+    tokens: reviewer2Result.tokens_used || 'unknown'
+  });
 
-    // Enhanced agreement evaluation with detailed reasoning
-    const bothReviewersValid = reviewer1Result.confidence > 0 && reviewer2Result.confidence > 0;
-    const agreement = bothReviewersValid && (reviewer1Result.recommendation === reviewer2Result.recommendation);
-    let finalDecision: string;
-    let averageConfidence: number;
-    let consensusReasoning: string;
-    
-    if (agreement && bothReviewersValid) {
+  // Enhanced agreement evaluation with detailed reasoning
+  const bothReviewersValid = reviewer1Result.validation_status === 'valid' && reviewer2Result.validation_status === 'valid';
+  const invalidReviewers = [reviewer1Result, reviewer2Result].filter(result => result.validation_status === 'invalid');
+  const agreement = bothReviewersValid && (reviewer1Result.recommendation === reviewer2Result.recommendation);
+  const uncertainReviewers = [reviewer1Result, reviewer2Result].filter(result =>
+    result.validation_status === 'valid' && result.recommendation === 'uncertain');
+  let finalDecision: string;
+  let averageConfidence: number;
+  let consensusReasoning: string;
+  let arbiterResult: ArbiterResult | null = null;
+  let conflictResolved = false;
+  let arbiterLeakedCanary = false;
+  
+  if (invalidReviewers.length > 0) {
+    // Output that never passed validation is not a decision, so neither reviewer's answer is used
+    finalDecision = 'conflict';
+    averageConfidence = 0;
+    consensusReasoning = `${invalidReviewers.map(result => result.reviewer).join(' and ')} returned output that failed validation ` +
+      `after ${MAX_REPAIR_ATTEMPTS} repair attempts. Routed to human review.`;
+    console.warn('⚠️ Invalid reviewer output, routing to human review');
+  } else if (agreement && bothReviewersValid) {
+    finalDecision = reviewer1Result.recommendation;
+    averageConfidence = (reviewer1Result.confidence + reviewer2Result.confidence) / 2;
+    consensusReasoning = `Both reviewers agreed on "${finalDecision}" with average confidence ${averageConfidence.toFixed(2)}. Consensus reached through consistent PICOTT assessment.`;
+    console.log('✅ Reviewers in agreement:', finalDecision);
+  } else if (bothReviewersValid && uncertainReviewers.length > 0) {
+    // A reviewer that could not decide is not outvoted: the reference goes to human review
+    finalDecision = 'uncertain';
+    averageConfidence = (reviewer1Result.confidence + reviewer2Result.confidence) / 2;
+    consensusReasoning = `${uncertainReviewers.map(result => result.reviewer).join(' and ')} could not decide from the title and abstract. ` +
+      `Reviewer 1 recommended ${reviewer1Result.recommendation}, Reviewer 2 recommended ${reviewer2Result.recommendation}. Routed to human review.`;
+    console.log('❔ Reviewer uncertain, routing to human review');
+  } else if (bothReviewersValid) {
+    const resolution = await resolveConflict(config, promptReference, criteria, reviewer1Result, reviewer2Result, guard);
+    finalDecision = resolution.decision;
+    averageConfidence = resolution.confidence;
+    consensusReasoning = resolution.reasoning;
+    arbiterResult = resolution.arbiter;
+    arbiterLeakedCanary = resolution.canary_leaked === true;
+    conflictResolved = true;
+    console.log(`⚠️ Conflict detected and resolved (${config.conflictResolution}):`, consensusReasoning);
+  } else {
+    // One or both reviewers failed - use the valid one or leave the decision to a human
+    if (reviewer1Result.validation_status === 'valid') {
       finalDecision = reviewer1Result.recommendation;
-      averageConfidence = (reviewer1Result.confidence + reviewer2Result.confidence) / 2;
-      consensusReasoning = `Both reviewers agreed on "${finalDecision}" with average confidence ${averageConfidence.toFixed(2)}. Consensus reached through consistent PICOTT assessment.`;
-      console.log('✅ Reviewers in agreement:', finalDecision);
-    } else if (bothReviewersValid) {
-      // Enhanced conflict resolution with PICOTT analysis
-      if (reviewer1Result.confidence > reviewer2Result.confidence) {
-        finalDecision = reviewer1Result.recommendation;
-        averageConfidence = reviewer1Result.confidence;
-        consensusReasoning = `Conflict resolved in favor of Reviewer 1 (${reviewer1Result.reviewer}) due to higher confidence (${reviewer1Result.confidence} vs ${reviewer2Result.confidence}). Decision: ${finalDecision}`;
-      } else if (reviewer2Result.confidence > reviewer1Result.confidence) {
-        finalDecision = reviewer2Result.recommendation;
-        averageConfidence = reviewer2Result.confidence;
-        consensusReasoning = `Conflict resolved in favor of Reviewer 2 (${reviewer2Result.reviewer}) due to higher confidence (${reviewer2Result.confidence} vs ${reviewer1Result.confidence}). Decision: ${finalDecision}`;
-      } else {
-        // Equal confidence: Default to conservative approach (exclude)
-        finalDecision = 'exclude';
-        averageConfidence = Math.max(reviewer1Result.confidence, reviewer2Result.confidence);
-        consensusReasoning = `Equal confidence conflict resolved using conservative approach. Both reviewers had confidence ${reviewer1Result.confidence}. Defaulting to exclude for safety.`;
-      }
-      console.log('⚠️ Conflict detected and resolved:', consensusReasoning);
+      averageConfidence = reviewer1Result.confidence;
+      consensusReasoning = `Using Reviewer 1 result due to Reviewer 2 failure. Decision based on ${reviewer1Result.reviewer} with confidence ${reviewer1Result.confidence}.`;
+      console.log('Using Reviewer 1 result due to Reviewer 2 failure');
+    } else if (reviewer2Result.validation_status === 'valid') {
+      finalDecision = reviewer2Result.recommendation;
+      averageConfidence = reviewer2Result.confidence;
+      consensusReasoning = `Using Reviewer 2 result due to Reviewer 1 failure. Decision based on ${reviewer2Result.reviewer} with confidence ${reviewer2Result.confidence}.`;
+      console.log('Using Reviewer 2 result due to Reviewer 1 failure');
     } else {
-      // One or both reviewers failed - use the valid one or default to exclude
-      if (reviewer1Result.confidence > 0) {
-        finalDecision = reviewer1Result.recommendation;
-        averageConfidence = reviewer1Result.confidence;
-        consensusReasoning = `Using Reviewer 1 result due to Reviewer 2 failure. Decision based on ${reviewer1Result.reviewer} with confidence ${reviewer1Result.confidence}.`;
-        console.log('Using Reviewer 1 result due to Reviewer 2 failure');
-      } else if (reviewer2Result.confidence > 0) {
-        finalDecision = reviewer2Result.recommendation;
-        averageConfidence = reviewer2Result.confidence;
-        consensusReasoning = `Using Reviewer 2 result due to Reviewer 1 failure. Decision based on ${reviewer2Result.reviewer} with confidence ${reviewer2Result.confidence}.`;
-        console.log('Using Reviewer 2 result due to Reviewer 1 failure');
-      } else {
-        // Both failed - default to exclude for safety
-        finalDecision = 'exclude';
-        averageConfidence = 0.1;
-        consensusReasoning = `Both reviewers failed - defaulting to exclude for safety. Manual review required. Errors: R1(${reviewer1Result.reasoning}) R2(${reviewer2Result.reasoning})`;
-        console.warn('Both reviewers failed - defaulting to exclude');
-      }
+      // Both failed - nothing was decided, so the reference goes to human review
+      finalDecision = 'uncertain';
+      averageConfidence = 0;
+      consensusReasoning = `Both reviewers failed - marked uncertain. Manual review required. Errors: R1(${reviewer1Result.reasoning}) R2(${reviewer2Result.reasoning})`;
+      console.warn('Both reviewers failed - marking uncertain');
     }
+  }
 
-    // Map decisions to database-compatible values
-    const mapDecision = (decision: string) => {
-      switch (decision) {
-        case 'include': return 'included';
-        case 'exclude': return 'excluded';
-        default: return 'excluded'; // Default to excluded for safety
-      }
-    };
+  const canaryLeaks = [
+    ...[reviewer1Result, reviewer2Result].filter(result => result.canary_leaked).map(result => result.reviewer),
+    ...(arbiterLeakedCanary ? ['Arbiter'] : [])
+  ];
+  const injectionCheck: InjectionCheck = {
+    suspected: injectionFindings.length > 0 || canaryLeaks.length > 0,
+    findings: injectionFindings,
+    canary_leaks: canaryLeaks
+  };
+  if (injectionCheck.suspected && (finalDecision === 'include' || finalDecision === 'exclude')) {
+    const reasons = [
+      injectionCheck.findings.length > 0 && `instruction-like text in the ${Array.from(new Set(injectionCheck.findings.map(finding => finding.field))).join(' and ')}`,
+      injectionCheck.canary_leaks.length > 0 && `${injectionCheck.canary_leaks.join(' and ')} output contained the prompt canary`
+    ].filter(Boolean).join('; ');
+    consensusReasoning = `${consensusReasoning} Possible prompt injection (${reasons}): the ${finalDecision} decision is held for human review.`;
+    finalDecision = 'uncertain';
+    console.warn('⚠️ Possible prompt injection, routing to human review');
+  }
 
-    const finalDecisionMapped = mapDecision(finalDecision);
-
-    // Enhanced telemetry logging with PICOTT details
-    const telemetryData = {
-      project_id: projectId,
-      reference_id: referenceId,
-      screening_stage: 'title_abstract_screening',
-      primary_model_decision: mapDecision(reviewer1Result.recommendation),
-      primary_model_confidence: reviewer1Result.confidence,
-      secondary_model_decision: mapDecision(reviewer2Result.recommendation),
-      secondary_model_confidence: reviewer2Result.confidence,
-      final_decision: finalDecisionMapped,
+  // Map decisions to database-compatible values
+  const mapDecision = (decision: string) => {
+    switch (decision) {
+      case 'include': return 'included';
+      case 'exclude': return 'excluded';
+      case 'conflict': return 'conflict';
+      default: return 'uncertain'; // Anything undecided goes to human review
+    }
+  };
+
+  const finalDecisionMapped = mapDecision(finalDecision);
+  const conflictResolution = conflictResolved ? {
+    method: config.conflictResolution,
+    arbiter: arbiterResult
+  } : null;
+  const outputValidation = {
+    reviewer1: { status: reviewer1Result.validation_status, repair_attempts: reviewer1Result.repair_attempts || 0 },
+    reviewer2: { status: reviewer2Result.validation_status, repair_attempts: reviewer2Result.repair_attempts || 0 }
+  };
+  const quoteVerification = {
+    reviewer1: reviewer1Result.quote_verification ?? null,
+    reviewer2: reviewer2Result.quote_verification ?? null
+  };
+  const calibration = {
+    reviewer1: calibrationDetails(reviewer1Result),
+    reviewer2: calibrationDetails(reviewer2Result)
+  };
+  const totalTokensUsed = (reviewer1Result.tokens_used || 0) + (reviewer2Result.tokens_used || 0) + (arbiterResult?.tokens_used || 0);
+
+  // Telemetry goes into the log's decision_reason; prompt_version_id ties the decision to the prompt that produced it
+  const screeningEnd = new Date();
+  const telemetryData = {
+    project_id: projectId,
+    reference_id: referenceId,
+    screening_stage: 'title_abstract_screening',
+    primary_model_decision: mapDecision(reviewer1Result.recommendation),
+    primary_model_confidence: calibration.reviewer1.raw_confidence,
+    primary_model_calibrated_confidence: calibration.reviewer1.calibrated_confidence,
+    secondary_model_decision: mapDecision(reviewer2Result.recommendation),
+    secondary_model_confidence: calibration.reviewer2.raw_confidence,
+    secondary_model_calibrated_confidence: calibration.reviewer2.calibrated_confidence,
+    final_decision: finalDecisionMapped,
+    model_agreement_score: agreement ? 1.0 : 0.0,
+    screening_start_time: screeningStart.toISOString(),
+    screening_end_time: screeningEnd.toISOString(),
+    processing_duration_ms: screeningEnd.getTime() - screeningStart.getTime(),
+    prompt_version_id: config.promptVersionId,
+    run_id: runId ?? null,
+    injection_suspected: injectionCheck.suspected,
+    injection_check: injectionCheck,
+    decision_reason: {
       average_confidence: averageConfidence,
       agreement_status: agreement ? 'agreement' : 'conflict',
       primary_model_name: reviewer1Result.reviewer,
       secondary_model_name: reviewer2Result.reviewer,
       consensus_reasoning: consensusReasoning,
       primary_provider: primaryProvider,
-      total_tokens_used: (reviewer1Result.tokens_used || 0) + (reviewer2Result.tokens_used || 0),
-      total_processing_time_ms: (reviewer1Result.processing_time_ms || 0) + (reviewer2Result.processing_time_ms || 0),
-      picott_telemetry: JSON.stringify({
+      total_tokens_used: totalTokensUsed,
+      conflict_resolution: conflictResolution,
+      output_validation: outputValidation,
+      quote_verification: quoteVerification,
+      // The calibration service reads each reviewer's model from here
+      calibration,
+      picott_telemetry: {
         reviewer1_picott: reviewer1Result.picott_assessment,
         reviewer2_picott: reviewer2Result.picott_assessment,
         criteria_assessment_1: reviewer1Result.criteria_assessment,
         criteria_assessment_2: reviewer2Result.criteria_assessment
-      }),
-      provider_health: JSON.stringify(getProviderHealth())
-    };
-
-    // Log enhanced screening results
-    const { error: logError } = await supabase
-      .from('ai_screening_log')
-      .insert(telemetryData);
-
-    if (logError) {
-      console.error('Failed to log screening results:', logError);
-    } else {
-      console.log('✅ Enhanced telemetry logged successfully');
+      },
+      provider_health: getProviderHealth(),
+      reviewer_personas: config.personas
     }
+  };
 
-    // Update progress if session provided
-    if (sessionId) {
-      const { error: progressError } = await supabase
-        .from('screening_progress')
-        .update({
-          completed_references: 1,
-          last_updated: new Date().toISOString()
-        })
-        .eq('session_id', sessionId);
-
-      if (progressError) {
-        console.error('Failed to update progress:', progressError);
-      }
+  // Log enhanced screening results
+  const { error: logError } = await supabase
+    .from('ai_screening_log')
+    .insert(telemetryData);
 
-      // Log detailed reasoning steps for telemetry
-      const { error: reasoningError } = await supabase
-        .from('screening_reasoning_steps')
-        .insert({
-          session_id: sessionId,
-          reference_id: referenceId,
-          step_type: 'picott_analysis',
-          step_data: JSON.stringify({
-            reviewer1_analysis: {
-              reviewer: reviewer1Result.reviewer,
-              picott_assessment: reviewer1Result.picott_assessment,
-              criteria_assessment: reviewer1Result.criteria_assessment,
-              reasoning: reviewer1Result.reasoning,
-              confidence: reviewer1Result.confidence
-            },
-            reviewer2_analysis: {
-              reviewer: reviewer2Result.reviewer,
-              picott_assessment: reviewer2Result.picott_assessment,
-              criteria_assessment: reviewer2Result.criteria_assessment,
-              reasoning: reviewer2Result.reasoning,
-              confidence: reviewer2Result.confidence
-            },
-            consensus_analysis: {
-              final_decision: finalDecision,
-              average_confidence: averageConfidence,
-              consensus_reasoning: consensusReasoning,
-              agreement_status: agreement ? 'agreement' : 'conflict'
-            }
-          }),
-          created_at: new Date().toISOString()
-        });
-
-      if (reasoningError) {
-        console.error('Failed to log reasoning steps:', reasoningError);
-      } else {
-        console.log('✅ Detailed reasoning steps logged successfully');
-      }
-    }
+  if (logError) {
+    console.error('Failed to log screening results:', logError);
+  } else {
+    console.log('✅ Enhanced telemetry logged successfully');
+  }
 
-    // Construct enhanced response with telemetry
-    const response = {
-      success: true,
-      decision: finalDecisionMapped,
-      confidence: averageConfidence,
-      reasoning: consensusReasoning,
-      agreement: agreement,
-      reviewers: [
-        {
-          name: reviewer1Result.reviewer,
-          recommendation: reviewer1Result.recommendation,
-          confidence: reviewer1Result.confidence,
-          reasoning: reviewer1Result.reasoning,
-          picott_assessment: reviewer1Result.picott_assessment,
-          criteria_assessment: reviewer1Result.criteria_assessment,
-          processing_time_ms: reviewer1Result.processing_time_ms,
-          tokens_used: reviewer1Result.tokens_used
-        },
-        {
-          name: reviewer2Result.reviewer,
-          recommendation: reviewer2Result.recommendation,
-          confidence: reviewer2Result.confidence,
-          reasoning: reviewer2Result.reasoning,
-          picott_assessment: reviewer2Result.picott_assessment,
-          criteria_assessment: reviewer2Result.criteria_assessment,
-          processing_time_ms: reviewer2Result.processing_time_ms,
-          tokens_used: reviewer2Result.tokens_used
-        }
-      ],
-      telemetry: {
-        primary_provider: primaryProvider,
-        total_processing_time_ms: (reviewer1Result.processing_time_ms || 0) + (reviewer2Result.processing_time_ms || 0),
-        total_tokens_used: (reviewer1Result.tokens_used || 0) + (reviewer2Result.tokens_used || 0),
-        provider_health: getProviderHealth()
+  // The status puts uncertain and unresolved references in the human review queue; the reference details
+  // panel reads each reviewer's assessment and verified quotes from ai_screening_details
+  const { error: detailsError } = await supabase
+    .from('references')
+    .update({
+      status: finalDecisionMapped,
+      // Marks the reference as AI-screened, which the run modes rely on even after a human decision changes status
+      ai_recommendation: finalDecisionMapped,
+      ai_conflict_flag: finalDecisionMapped === 'conflict',
+      ai_screening_details: {
+        final_decision: finalDecisionMapped,
+        agreement_score: agreement ? averageConfidence : 0,
+        processed_at: screeningEnd.toISOString(),
+        reviewer1: reviewerDetails(reviewer1Result),
+        reviewer2: reviewerDetails(reviewer2Result),
+        conflict_resolution: conflictResolution,
+        injection_check: injectionCheck
       }
-    };
+    })
+    .eq('id', referenceId);
 
-    console.log('🎉 Enhanced AI screening completed successfully');
-    
-    return new Response(JSON.stringify(response), {
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
-
-  } catch (error) {
-    console.error('❌ AI Screening Service Error:', error);
-    
-    // Log error for debugging
-    const errorDetails = {
-      message: error.message,
-      stack: error.stack,
-      timestamp: new Date().toISOString()
-    };
-    
-    console.error('Error details:', errorDetails);
-    
-    return new Response(JSON.stringify({ 
-      success: false, 
-      error: error.message,
-      details: 'Check function logs for more information',
-      provider_health: getProviderHealth()
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+  if (detailsError) {
+    console.error('Failed to store screening details on reference:', detailsError);
   }
-});
 
-// Enhanced OpenAI function with O3 reasoning support
-async function callOpenAI(prompt: string, model: string = 'o3-2025-04-16', reviewerName: string = 'OpenAI O3 Reasoning'): Promise<AIReviewResult> {
-  const apiKey = openaiApiKey;
-  if (!apiKey) throw new Error('OpenAI API key not configured');
-
-  const startTime = Date.now();
-  const maxRetries = 3;
-  let lastError;
+  // Update progress if session provided
+  if (sessionId) {
+    const { error: progressError } = await supabase
+      .from('screening_progress')
+      .update({
+        completed_references: 1,
+        last_updated: new Date().toISOString()
+      })
+      .eq('session_id', sessionId);
+
+    if (progressError) {
+      console.error('Failed to update progress:', progressError);
+    }
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`OpenAI attempt ${attempt}/${maxRetries}`);
-
-      // Enhanced prompt with strict PICOTT instructions
-      const enhancedPrompt = `${prompt}
-
-CRITICAL INSTRUCTIONS FOR PICOTT ASSESSMENT:
-- For each PICOTT element, you MUST provide exact quotes from the abstract/title
-- If an element is present, the "quote" field must contain the EXACT text that supports it
-- If absent, explain what's missing and what you'd expect to see
-- If unclear, explain the ambiguity and what additional info is needed
-- Be precise and conservative in your assessments
-
-Remember: This is for systematic review screening - accuracy is paramount.`;
-
-      const requestBody: any = {
-        model: model,
-        messages: [
-          { 
-            role: 'system', 
-            content: 'You are an expert systematic review researcher conducting literature screening with rigorous PICOTT assessment methodology.' 
+    // Log detailed reasoning steps for telemetry
+    const { error: reasoningError } = await supabase
+      .from('screening_reasoning_steps')
+      .insert({
+        session_id: sessionId,
+        reference_id: referenceId,
+        step_type: 'picott_analysis',
+        step_data: JSON.stringify({
+          reviewer1_analysis: {
+            reviewer: reviewer1Result.reviewer,
+            picott_assessment: reviewer1Result.picott_assessment,
+            criteria_assessment: reviewer1Result.criteria_assessment,
+            reasoning: reviewer1Result.reasoning,
+            confidence: reviewer1Result.confidence
           },
-          { 
-            role: 'user', 
-            content: enhancedPrompt 
+          reviewer2_analysis: {
+            reviewer: reviewer2Result.reviewer,
+            picott_assessment: reviewer2Result.picott_assessment,
+            criteria_assessment: reviewer2Result.criteria_assessment,
+            reasoning: reviewer2Result.reasoning,
+            confidence: reviewer2Result.confidence
+          },
+          consensus_analysis: {
+            final_decision: finalDecision,
+            average_confidence: averageConfidence,
+            consensus_reasoning: consensusReasoning,
+            agreement_status: agreement ? 'agreement' : 'conflict',
+            conflict_resolution: conflictResolution
           }
-        ]
-      };
-
-      // Handle model-specific parameters
-      if (model.startsWith('o3') || model.startsWith('o4') || model.startsWith('gpt-5') || model.startsWith('gpt-4.1')) {
-        requestBody.max_completion_tokens = 2000;
-        // No temperature for reasoning models
-      } else {
-        requestBody.max_tokens = 2000;
-        requestBody.temperature = 0.1;
-      }
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+        }),
+        created_at: new Date().toISOString()
       });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        lastError = new Error(`OpenAI API error (${response.status}): ${errorText}`);
-        console.error(`OpenAI attempt ${attempt} failed:`, lastError.message);
-        
-        if (attempt === maxRetries) throw lastError;
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-        continue;
-      }
-
-      const data = await response.json();
-      console.log('OpenAI raw response:', JSON.stringify(data, null, 2));
-
-      if (!data.choices || !data.choices[0] || !data.choices[0].message || !data.choices[0].message.content) {
-        throw new Error('Invalid OpenAI response structure');
-      }
+    if (reasoningError) {
+      console.error('Failed to log reasoning steps:', reasoningError);
+    } else {
+      console.log('✅ Detailed reasoning steps logged successfully');
+    }
+  }
 
-      const content = data.choices[0].message.content;
-      const processingTime = Date.now() - startTime;
-
-      // Enhanced JSON parsing with better error handling
-      let result;
-      try {
-        // Clean content - remove markdown formatting if present
-        let cleanContent = content.trim();
-        if (cleanContent.startsWith('```json')) {
-          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (cleanContent.startsWith('```')) {
-          cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        result = JSON.parse(cleanContent);
-      } catch (parseError) {
-        console.error('JSON parse error from OpenAI:', parseError, 'Content:', content);
-        
-        // Try to extract JSON from text if parsing fails
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          try {
-            result = JSON.parse(jsonMatch[0]);
-          } catch (secondParseError) {
-            throw new Error(`Could not parse JSON from OpenAI: ${parseError.message}`);
-          }
-        } else {
-          throw new Error(`No valid JSON found in OpenAI response: ${content}`);
-        }
+  // Construct enhanced response with telemetry
+  const response: ScreeningSuccessResponse = {
+    contractVersion: SCREENING_CONTRACT_VERSION,
+    success: true,
+    decision: finalDecisionMapped,
+    confidence: averageConfidence,
+    reasoning: consensusReasoning,
+    agreement: agreement,
+    conflict_resolution: conflictResolution,
+    requires_human_review: finalDecision === 'conflict' || finalDecision === 'uncertain',
+    reviewers: [
+      {
+        name: reviewer1Result.reviewer,
+        recommendation: reviewer1Result.recommendation,
+        confidence: reviewer1Result.confidence,
+        reasoning: reviewer1Result.reasoning,
+        picott_assessment: reviewer1Result.picott_assessment,
+        criteria_assessment: reviewer1Result.criteria_assessment,
+        processing_time_ms: reviewer1Result.processing_time_ms,
+        tokens_used: reviewer1Result.tokens_used,
+        reported_confidence: reviewer1Result.reported_confidence,
+        raw_confidence: reviewer1Result.raw_confidence,
+        calibration_method: reviewer1Result.calibration_method,
+        quote_verification: reviewer1Result.quote_verification
+      },
+      {
+        name: reviewer2Result.reviewer,
+        recommendation: reviewer2Result.recommendation,
+        confidence: reviewer2Result.confidence,
+        reasoning: reviewer2Result.reasoning,
+        picott_assessment: reviewer2Result.picott_assessment,
+        criteria_assessment: reviewer2Result.criteria_assessment,
+        processing_time_ms: reviewer2Result.processing_time_ms,
+        tokens_used: reviewer2Result.tokens_used,
+        reported_confidence: reviewer2Result.reported_confidence,
+        raw_confidence: reviewer2Result.raw_confidence,
+        calibration_method: reviewer2Result.calibration_method,
+        quote_verification: reviewer2Result.quote_verification
       }
+    ],
+    telemetry: {
+      primary_provider: primaryProvider,
+      prompt_version_id: config.promptVersionId,
+      reviewer_personas: config.personas,
+      output_validation: outputValidation,
+      total_processing_time_ms: (reviewer1Result.processing_time_ms || 0) + (reviewer2Result.processing_time_ms || 0) +
+        (arbiterResult?.processing_time_ms || 0),
+      total_tokens_used: totalTokensUsed,
+      provider_health: getProviderHealth(),
+      injection_check: injectionCheck
+    }
+  };
 
-      // Validate required fields
-      if (!result.recommendation || typeof result.confidence !== 'number') {
-        throw new Error('Missing required fields in OpenAI response');
-      }
+  // Checked on the way out as well, so drift shows up here rather than as a broken client
+  const checkedResponse = checkContract(ScreeningSuccessResponseSchema, response);
+  if (!checkedResponse.success) {
+    throw new Error(`Response does not match screening contract v${SCREENING_CONTRACT_VERSION}: ${checkedResponse.issues.join('; ')}`);
+  }
 
-      // Ensure confidence is between 0 and 1
-      result.confidence = Math.max(0, Math.min(1, result.confidence));
+  console.log('🎉 Enhanced AI screening completed successfully');
+  return checkedResponse.data;
+}
 
-      // Validate recommendation
-      if (!['include', 'exclude'].includes(result.recommendation)) {
-        console.warn('Invalid recommendation from OpenAI:', result.recommendation, 'defaulting to exclude');
-        result.recommendation = 'exclude';
-      }
+/**
+ * Screens up to MAX_BATCH_SIZE references of one project. References are
+ * fanned out BATCH_CONCURRENCY at a time and every model call waits for its
+ * provider's concurrency and rate limits, so a batch can use each provider's
+ * full quota without tripping it. A reference that fails is reported in its
+ * result entry; only a malformed request fails the batch as a whole.
+ */
+async function screenBatch(body: unknown): Promise<Response> {
+  const request = checkContract(ScreeningBatchRequestSchema, body);
+  if (!request.success) {
+    console.warn('Batch request does not match the screening contract:', request.issues);
+    return errorResponse(400, {
+      error: `Batch request does not match screening contract v${SCREENING_CONTRACT_VERSION}`,
+      issues: request.issues
+    });
+  }
 
-      return {
-        recommendation: result.recommendation,
-        confidence: result.confidence,
-        reasoning: result.reasoning || 'No reasoning provided',
-        reviewer: reviewerName,
-        picott_assessment: result.picott_assessment,
-        criteria_assessment: result.criteria_assessment,
-        tokens_used: data.usage?.total_tokens || 0,
-        processing_time_ms: processingTime,
-        model_version: model
-      };
+  const { references, ...shared } = request.data;
+  const batchStart = Date.now();
+  console.log(`📦 Batch screening ${references.length} references`);
 
+  const config = await loadScreeningConfig(shared.projectId);
+  const results = await mapWithConcurrency(references, BATCH_CONCURRENCY, async ({ referenceId, reference }): Promise<ScreeningBatchItemResult> => {
+    try {
+      const { contractVersion, ...result } = await screenReference({ ...shared, referenceId, reference }, config);
+      return { referenceId, ...result };
     } catch (error) {
-      lastError = error;
-      console.error(`OpenAI attempt ${attempt} failed:`, error.message);
-      
-      if (attempt === maxRetries) {
-        throw new Error(`OpenAI failed after ${maxRetries} attempts: ${error.message}`);
-      }
-      
-      // Wait before retry
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      console.error(`❌ Screening failed for reference ${referenceId}:`, error);
+      return { referenceId, success: false, error: error.message };
+    }
+  });
+
+  const failed = results.filter(result => !result.success).length;
+  const response: ScreeningBatchSuccessResponse = {
+    contractVersion: SCREENING_CONTRACT_VERSION,
+    success: true,
+    results,
+    succeeded: results.length - failed,
+    failed,
+    telemetry: {
+      total_processing_time_ms: Date.now() - batchStart,
+      rate_limits: getRateLimitStats()
     }
+  };
+
+  const checkedResponse = checkContract(ScreeningBatchSuccessResponseSchema, response);
+  if (!checkedResponse.success) {
+    throw new Error(`Batch response does not match screening contract v${SCREENING_CONTRACT_VERSION}: ${checkedResponse.issues.join('; ')}`);
   }
 
-  throw lastError;
+  console.log(`📦 Batch completed: ${response.succeeded} screened, ${failed} failed in ${response.telemetry.total_processing_time_ms}ms`);
+  return new Response(JSON.stringify(checkedResponse.data), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
 }
 
-// Enhanced Anthropic function with better error handling
-async function callAnthropic(prompt: string, reviewerName: string = 'Anthropic Claude 4 Sonnet'): Promise<AIReviewResult> {
-  const apiKey = anthropicApiKey;
-  if (!apiKey || apiKey.trim() === '') {
-    throw new Error('Anthropic API key not configured or empty');
-  }
+// Runs fn over items with at most limit calls in flight; results keep the order of items
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
-  const startTime = Date.now();
-  const maxRetries = 3;
-  let lastError;
+// Used when a project has no ai_screening_config row or leaves a model name empty
+const DEFAULT_PRIMARY_CHAIN = 'openai:o3-2025-04-16, openrouter:deepseek/deepseek-r1-distill-llama-70b, groq:llama-3.3-70b-versatile';
+const DEFAULT_SECONDARY_CHAIN = 'anthropic:claude-3-5-sonnet-20241022, groq:deepseek-r1-distill-llama-70b, gemini:gemini-2.0-flash-exp';
+const DEFAULT_ARBITER_CHAIN = 'openai:gpt-4.1, gemini:gemini-2.0-flash-exp';
+
+interface ScreeningConfig {
+  primaryChain: ModelSpec[];
+  secondaryChain: ModelSpec[];
+  prompt: PromptSettings;
+  promptVersionId: string | null;
+  personas: [ReviewerPersona, ReviewerPersona];
+  conflictResolution: ConflictResolutionMethod;
+  // Only parsed when conflicts go to an arbiter model
+  arbiterChain: ModelSpec[];
+  // Keyed by provider:model spec
+  calibrations: Map<string, CalibrationParameters>;
+}
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Anthropic attempt ${attempt}/${maxRetries}`);
-
-      // Enhanced prompt with PICOTT focus
-      const enhancedPrompt = `${prompt}
-
-CRITICAL PICOTT ASSESSMENT REQUIREMENTS:
-- Extract EXACT quotes from the abstract for each PICOTT element
-- Be extremely precise with quote attribution
-- If information is missing, clearly state what's absent
-- Provide detailed evidence for each assessment
-- Use conservative judgment for systematic review standards`;
-
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'x-api-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: 'claude-3-5-sonnet-20241022', // Use stable model for now
-          max_tokens: 2000,
-          temperature: 0.1,
-          messages: [
-            { 
-              role: 'user', 
-              content: enhancedPrompt 
-            }
-          ]
-        }),
-      });
+/**
+ * Reads the project's screening config. primary_model_name and
+ * secondary_model_name each hold a fallback chain of provider:model specs;
+ * empty prompt fields fall back to the built-in prompt and missing reviewer
+ * personas to the defaults. arbiter_model_name is a chain in the same format.
+ */
+async function loadScreeningConfig(projectId: string): Promise<ScreeningConfig> {
+  const { data: config, error } = await supabase
+    .from('ai_screening_config')
+    .select('primary_model_name, secondary_model_name, system_prompt, user_prompt_template, additional_instructions, prompt_version_id, reviewer_personas, conflict_resolution_method, arbiter_model_name')
+    .eq('project_id', projectId)
+    .eq('screening_stage', 'title_abstract_screening')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load screening config, using default models and prompt:', error);
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        let errorDetails;
-        try {
-          errorDetails = JSON.parse(errorText);
-        } catch {
-          errorDetails = { message: errorText };
-        }
-        
-        lastError = new Error(`Anthropic API error (${response.status}): ${JSON.stringify(errorDetails)}`);
-        console.error(`Anthropic attempt ${attempt} failed:`, {
-          status: response.status,
-          error: errorDetails,
-          attempt: attempt,
-          maxRetries: maxRetries
-        });
-        
-        if (attempt === maxRetries) throw lastError;
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-        continue;
-      }
+  const primaryChain = parseModelChain(config?.primary_model_name?.trim() || DEFAULT_PRIMARY_CHAIN);
+  const secondaryChain = parseModelChain(config?.secondary_model_name?.trim() || DEFAULT_SECONDARY_CHAIN);
+  if (primaryChain.length === 0 || secondaryChain.length === 0) {
+    throw new Error('Screening config must name at least one model for each reviewer');
+  }
+  const { data: calibrationRows, error: calibrationError } = await supabase
+    .from('confidence_calibrations')
+    .select('model, parameters')
+    .eq('project_id', projectId);
 
-      const data = await response.json();
-      console.log('Anthropic raw response:', JSON.stringify(data, null, 2));
+  if (calibrationError) {
+    console.error('Failed to load confidence calibrations, using raw confidences:', calibrationError);
+  }
 
-      if (!data.content || !data.content[0] || !data.content[0].text) {
-        throw new Error('Invalid Anthropic response structure');
-      }
+  const calibrations = new Map<string, CalibrationParameters>();
+  (calibrationRows || []).forEach(row => {
+    const parameters = normalizeCalibration(row.parameters);
+    if (parameters) calibrations.set(row.model, parameters);
+  });
 
-      const content = data.content[0].text;
-      const processingTime = Date.now() - startTime;
-      
-      // Enhanced JSON parsing
-      let result;
-      try {
-        let cleanContent = content.trim();
-        if (cleanContent.startsWith('```json')) {
-          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        } else if (cleanContent.startsWith('```')) {
-          cleanContent = cleanContent.replace(/^```\s*/, '').replace(/\s*```$/, '');
-        }
-        
-        result = JSON.parse(cleanContent);
-      } catch (parseError) {
-        console.error('JSON parse error from Anthropic:', parseError, 'Content:', content);
-        
-        // Try to extract JSON from text
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          try {
-            result = JSON.parse(jsonMatch[0]);
-          } catch (secondParseError) {
-            throw new Error(`Could not parse JSON from Anthropic: ${parseError.message}`);
-          }
-        } else {
-          throw new Error(`No valid JSON found in Anthropic response: ${content}`);
-        }
-      }
+  const conflictResolution = normalizeConflictResolutionMethod(config?.conflict_resolution_method);
+  const arbiterChain = conflictResolution === 'arbiter_model'
+    ? parseModelChain(config?.arbiter_model_name?.trim() || DEFAULT_ARBITER_CHAIN)
+    : [];
+  return {
+    primaryChain,
+    secondaryChain,
+    prompt: {
+      systemPrompt: config?.system_prompt,
+      userPromptTemplate: config?.user_prompt_template,
+      additionalInstructions: config?.additional_instructions
+    },
+    promptVersionId: config?.prompt_version_id ?? null,
+    personas: normalizePersonas(config?.reviewer_personas),
+    conflictResolution,
+    arbiterChain,
+    calibrations
+  };
+}
 
-      // Validate and clean response
-      if (!result.recommendation || typeof result.confidence !== 'number' || !result.reasoning) {
-        throw new Error('Missing required fields in Anthropic response');
-      }
+interface ChainCompletion<T> {
+  value: T;
+  // The raw output that passed validation
+  content: string;
+  spec: ModelSpec;
+  tokensUsed: number;
+  responseTimeMs: number;
+  repairAttempts: number;
+}
 
-      result.confidence = Math.max(0, Math.min(1, result.confidence));
+interface ChainOutcome<T> {
+  completion: ChainCompletion<T> | null;
+  errors: string[];
+  // True when at least one model answered but its output never passed validation
+  invalidOutput: boolean;
+}
 
-      if (!['include', 'exclude'].includes(result.recommendation)) {
-        console.warn('Invalid recommendation from Anthropic:', result.recommendation, 'defaulting to exclude');
-        result.recommendation = 'exclude';
-      }
+type OutputCheck<T> = { success: true; value: T } | { success: false; issues: string[] };
 
-      return {
-        recommendation: result.recommendation,
-        confidence: result.confidence,
-        reasoning: result.reasoning,
-        reviewer: reviewerName,
-        picott_assessment: result.picott_assessment,
-        criteria_assessment: result.criteria_assessment,
-        tokens_used: data.usage?.input_tokens + data.usage?.output_tokens || 0,
-        processing_time_ms: processingTime,
-        model_version: 'claude-3-5-sonnet-20241022'
-      };
+// Extracts a JSON object from model output, tolerating markdown fences and surrounding prose
+function extractJson(content: string): unknown {
+  let cleanContent = content.trim();
+  if (cleanContent.startsWith('```')) {
+    cleanContent = cleanContent.replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  }
 
-    } catch (error) {
-      lastError = error;
-      console.error(`Anthropic attempt ${attempt} failed:`, error.message);
-      
-      if (attempt === maxRetries) {
-        // Return error result instead of throwing
-        console.error('All Anthropic attempts failed, returning fallback response');
-        return {
-          recommendation: 'exclude',
-          confidence: 0.0,
-          reasoning: `Error occurred during Anthropic screening: ${error.message}. Manual review required. Defaulting to exclude for safety.`,
-          reviewer: `${reviewerName} (Error)`,
-          processing_time_ms: Date.now() - startTime
-        };
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+  try {
+    return JSON.parse(cleanContent);
+  } catch {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return undefined;
+    try {
+      return JSON.parse(jsonMatch[0]);
+    } catch {
+      return undefined;
     }
   }
-
-  throw lastError;
 }
 
-// Enhanced Groq function with DeepSeek R1 support
-async function callGroq(prompt: string, model: string = 'deepseek-r1-distill-llama-70b', reviewerName: string = 'Groq DeepSeek R1'): Promise<AIReviewResult> {
-  const apiKey = groqApiKey;
-  if (!apiKey) throw new Error('Groq API key not configured');
-
-  const startTime = Date.now();
-  const maxRetries = 3;
-  let lastError;
+function checkOutput<T>(schema: z.ZodType<T>, content: string): OutputCheck<T> {
+  const data = extractJson(content);
+  if (data === undefined) {
+    return { success: false, issues: ['The response is not a valid JSON object'] };
+  }
+  const parsed = schema.safeParse(data);
+  if (parsed.success) {
+    return { success: true, value: parsed.data };
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+  };
+}
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Groq attempt ${attempt}/${maxRetries} with model: ${model}`);
+function buildRepairPrompt(prompt: string, previousOutput: string, issues: string[]): string {
+  return `${prompt}
 
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert systematic review researcher with expertise in PICOTT methodology for literature screening.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 2000,
-          temperature: 0.1
-        }),
-      });
+YOUR PREVIOUS RESPONSE:
+${previousOutput.slice(0, 4000)}
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        lastError = new Error(`Groq API error (${response.status}): ${errorText}`);
-        console.error(`Groq attempt ${attempt} failed:`, lastError.message);
-        
-        if (attempt === maxRetries) throw lastError;
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-        continue;
-      }
-
-      const data = await response.json();
-      const processingTime = Date.now() - startTime;
+That response failed validation:
+${issues.map(issue => `- ${issue}`).join('\n')}
 
-      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-        throw new Error('Invalid Groq response structure');
-      }
+Respond again with ONLY valid JSON in the required structure, correcting these problems.`;
+}
 
-      const content = data.choices[0].message.content;
+/**
+ * Tries each model in the chain until one returns output that passes the
+ * schema. Output that fails validation is sent back to the same model with
+ * the errors, up to MAX_REPAIR_ATTEMPTS times, before moving on. Provider
+ * health is recorded for every model tried.
+ */
+async function completeWithFallback<T>(
+  chain: ModelSpec[],
+  request: Omit<CompletionRequest, 'model'>,
+  schema: z.ZodType<T>
+): Promise<ChainOutcome<T>> {
+  const errors: string[] = [];
+  let invalidOutput = false;
+
+  for (const spec of chain) {
+    const specName = formatModelSpec(spec);
+    const callStart = Date.now();
+    let attemptRequest = request;
+    let tokensUsed = 0;
 
-      // Parse JSON response
-      let result;
-      try {
-        let cleanContent = content.trim();
-        if (cleanContent.startsWith('```json')) {
-          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        }
-        result = JSON.parse(cleanContent);
-      } catch (parseError) {
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error(`Could not parse JSON from Groq: ${parseError.message}`);
+    try {
+      for (let repair = 0; repair <= MAX_REPAIR_ATTEMPTS; repair++) {
+        const completion = await complete(spec, attemptRequest);
+        tokensUsed += completion.usage.totalTokens;
+        const checked = checkOutput(schema, completion.content);
+
+        if (checked.success) {
+          const responseTime = Date.now() - callStart;
+          updateProviderHealth(specName, true, undefined, responseTime);
+          return {
+            completion: {
+              value: checked.value,
+              content: completion.content,
+              spec,
+              tokensUsed,
+              responseTimeMs: responseTime,
+              repairAttempts: repair
+            },
+            errors,
+            invalidOutput
+          };
         }
-      }
 
-      // Validate and return
-      result.confidence = Math.max(0, Math.min(1, result.confidence || 0.5));
-      if (!['include', 'exclude'].includes(result.recommendation)) {
-        result.recommendation = 'exclude';
+        console.warn(`⚠️ ${specName} output failed validation (attempt ${repair + 1}):`, checked.issues.slice(0, 5));
+        if (repair === MAX_REPAIR_ATTEMPTS) {
+          throw new ProviderError(spec.provider, 'invalid_response', `Output failed validation: ${checked.issues.slice(0, 3).join('; ')}`);
+        }
+        attemptRequest = { ...request, prompt: buildRepairPrompt(request.prompt, completion.content, checked.issues) };
       }
-
-      return {
-        recommendation: result.recommendation,
-        confidence: result.confidence,
-        reasoning: result.reasoning || 'No reasoning provided',
-        reviewer: reviewerName,
-        picott_assessment: result.picott_assessment,
-        criteria_assessment: result.criteria_assessment,
-        tokens_used: data.usage?.total_tokens || 0,
-        processing_time_ms: processingTime,
-        model_version: model
-      };
-
     } catch (error) {
-      lastError = error;
-      console.error(`Groq attempt ${attempt} failed:`, error.message);
-      
-      if (attempt === maxRetries) throw lastError;
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      const kind = error instanceof ProviderError ? error.kind : 'invalid_response';
+      if (kind === 'invalid_response') invalidOutput = true;
+      console.warn(`⚠️ ${specName} failed (${kind}), trying next model in chain:`, error.message);
+      updateProviderHealth(specName, false, error.message, Date.now() - callStart);
+      errors.push(`${specName}: ${error.message}`);
     }
   }
-
-  throw lastError;
+  return { completion: null, errors, invalidOutput };
 }
 
-// Enhanced OpenRouter function with DeepSeek R1
-async function callOpenRouter(prompt: string, model: string = 'deepseek/deepseek-r1-distill-llama-70b', reviewerName: string = 'DeepSeek R1'): Promise<AIReviewResult> {
-  const apiKey = openrouterApiKey;
-  if (!apiKey) throw new Error('OpenRouter API key not configured');
+const modelLabel = (spec: ModelSpec) => `${getProvider(spec.provider)?.label ?? spec.provider} ${spec.model}`;
 
+// Runs one reviewer over its fallback chain; a fully failed chain yields a zero-confidence result
+async function runReviewer(
+  chain: ModelSpec[],
+  prompt: { system: string; prompt: string },
+  persona: ReviewerPersona,
+  guard: PromptGuard
+): Promise<AIReviewResult> {
   const startTime = Date.now();
-  const maxRetries = 3;
-  let lastError;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`OpenRouter attempt ${attempt}/${maxRetries} with model: ${model}`);
-
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://ai-screening.lovable.dev',
-          'X-Title': 'AI Literature Screening'
-        },
-        body: JSON.stringify({
-          model: model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert systematic review researcher specializing in rigorous PICOTT-based literature screening.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          max_tokens: 2000,
-          temperature: 0.1
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        lastError = new Error(`OpenRouter API error (${response.status}): ${errorText}`);
-        console.error(`OpenRouter attempt ${attempt} failed:`, lastError.message);
-        
-        if (attempt === maxRetries) throw lastError;
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-        continue;
-      }
-
-      const data = await response.json();
-      const processingTime = Date.now() - startTime;
-
-      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-        throw new Error('Invalid OpenRouter response structure');
-      }
-
-      const content = data.choices[0].message.content;
-
-      // Parse and validate response
-      let result;
-      try {
-        let cleanContent = content.trim();
-        if (cleanContent.startsWith('```json')) {
-          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        }
-        result = JSON.parse(cleanContent);
-      } catch (parseError) {
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error(`Could not parse JSON from OpenRouter: ${parseError.message}`);
-        }
-      }
-
-      result.confidence = Math.max(0, Math.min(1, result.confidence || 0.5));
-      if (!['include', 'exclude'].includes(result.recommendation)) {
-        result.recommendation = 'exclude';
-      }
-
-      return {
-        recommendation: result.recommendation,
-        confidence: result.confidence,
-        reasoning: result.reasoning || 'No reasoning provided',
-        reviewer: reviewerName,
-        picott_assessment: result.picott_assessment,
-        criteria_assessment: result.criteria_assessment,
-        tokens_used: data.usage?.total_tokens || 0,
-        processing_time_ms: processingTime,
-        model_version: model
-      };
+  const { completion, errors, invalidOutput } = await completeWithFallback(
+    chain,
+    {
+      ...prompt,
+      maxTokens: 2000,
+      temperature: persona.temperature,
+      responseSchema: { name: 'screening_review', schema: RESPONSE_SCHEMA }
+    },
+    ReviewOutputSchema
+  );
 
-    } catch (error) {
-      lastError = error;
-      console.error(`OpenRouter attempt ${attempt} failed:`, error.message);
-      
-      if (attempt === maxRetries) throw lastError;
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+  if (completion) {
+    const canaryLeaked = leaksCanary(completion.content, guard);
+    if (canaryLeaked) {
+      console.warn(`⚠️ ${formatModelSpec(completion.spec)} output contained the prompt canary`);
     }
+    return {
+      ...completion.value,
+      reviewer: `${modelLabel(completion.spec)} (${persona.name})`,
+      tokens_used: completion.tokensUsed,
+      processing_time_ms: completion.responseTimeMs,
+      model_version: formatModelSpec(completion.spec),
+      validation_status: 'valid',
+      repair_attempts: completion.repairAttempts,
+      canary_leaked: canaryLeaked
+    };
   }
 
-  throw lastError;
+  console.error(`❌ All models failed for ${persona.name} reviewer`);
+  return {
+    recommendation: 'uncertain',
+    confidence: 0,
+    reasoning: `All configured models failed: ${errors.join('; ')}. Manual review required.`,
+    reviewer: `${persona.name} reviewer (${invalidOutput ? 'Invalid output' : 'Error'})`,
+    processing_time_ms: Date.now() - startTime,
+    validation_status: invalidOutput ? 'invalid' : 'error'
+  };
 }
 
-// Enhanced Gemini function for fallback
-async function callGemini(prompt: string, model: string = 'gemini-2.0-flash-exp', reviewerName: string = 'Gemini 2.0 Flash'): Promise<AIReviewResult> {
-  const apiKey = geminiApiKey;
-  if (!apiKey) throw new Error('Gemini API key not configured');
-
-  const startTime = Date.now();
-  const maxRetries = 3;
-  let lastError;
+/**
+ * Checks every quote in a valid review against the reference's title and
+ * abstract. Quotes that cannot be found lower the reviewer's confidence, so
+ * a reviewer citing text that is not there carries less weight in conflicts.
+ */
+function applyQuoteVerification(result: AIReviewResult, reference: PromptReference): AIReviewResult {
+  if (result.validation_status !== 'valid') return result;
+
+  const verification = verifyReviewQuotes(result, reference);
+  if (verification.failed > 0) {
+    console.warn(`⚠️ ${result.reviewer}: ${verification.failed} of ${verification.checks.length} quotes not found in the reference`);
+  }
+  return {
+    ...result,
+    confidence: Math.round(result.confidence * verification.confidence_factor * 1000) / 1000,
+    reported_confidence: result.confidence,
+    quote_verification: verification
+  };
+}
 
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Gemini attempt ${attempt}/${maxRetries} with model: ${model}`);
+/**
+ * Self-reported confidences are not comparable across models, so a model
+ * calibrated against the project's human decisions has its confidence
+ * replaced by the calibrated value before conflicts are resolved.
+ */
+function applyConfidenceCalibration(result: AIReviewResult, calibrations: Map<string, CalibrationParameters>): AIReviewResult {
+  const parameters = result.validation_status === 'valid' && result.model_version
+    ? calibrations.get(result.model_version)
+    : undefined;
+  if (!parameters) return result;
+
+  return {
+    ...result,
+    confidence: Math.round(applyCalibration(parameters, result.confidence) * 1000) / 1000,
+    raw_confidence: result.confidence,
+    calibration_method: parameters.method
+  };
+}
 
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 2000
-          }
-        }),
-      });
+const calibrationDetails = (result: AIReviewResult) => ({
+  model: result.model_version ?? null,
+  raw_confidence: result.raw_confidence ?? result.confidence,
+  calibrated_confidence: result.raw_confidence !== undefined ? result.confidence : null,
+  method: result.calibration_method ?? null
+});
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        lastError = new Error(`Gemini API error (${response.status}): ${errorText}`);
-        console.error(`Gemini attempt ${attempt} failed:`, lastError.message);
-        
-        if (attempt === maxRetries) throw lastError;
-        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-        continue;
-      }
+const reviewerDetails = (result: AIReviewResult) => ({
+  reviewer: result.reviewer,
+  recommendation: result.recommendation,
+  confidence: result.confidence,
+  reported_confidence: result.reported_confidence,
+  raw_confidence: result.raw_confidence,
+  reasoning: result.reasoning,
+  validation_status: result.validation_status,
+  quote_verification: result.quote_verification ?? null
+});
 
-      const data = await response.json();
-      const processingTime = Date.now() - startTime;
+interface ArbiterResult extends ArbiterVerdict {
+  arbiter: string;
+  model_version: string;
+  tokens_used: number;
+  processing_time_ms: number;
+}
 
-      if (!data.candidates || !data.candidates[0] || !data.candidates[0].content || !data.candidates[0].content.parts) {
-        throw new Error('Invalid Gemini response structure');
-      }
+interface ConflictResolution {
+  decision: 'include' | 'exclude' | 'uncertain' | 'conflict';
+  confidence: number;
+  reasoning: string;
+  arbiter: ArbiterResult | null;
+  canary_leaked?: boolean;
+}
 
-      const content = data.candidates[0].content.parts[0].text;
+// Applies the project's conflict_resolution_method when one reviewer recommends include and the other exclude
+async function resolveConflict(
+  config: ScreeningConfig,
+  reference: PromptReference,
+  criteria: PromptCriteria,
+  reviewer1: AIReviewResult,
+  reviewer2: AIReviewResult,
+  guard: PromptGuard
+): Promise<ConflictResolution> {
+  const disagreement = `Reviewer 1 (${reviewer1.reviewer}) recommended ${reviewer1.recommendation} with confidence ${reviewer1.confidence}; ` +
+    `Reviewer 2 (${reviewer2.reviewer}) recommended ${reviewer2.recommendation} with confidence ${reviewer2.confidence}.`;
+  const includer = reviewer1.recommendation === 'include' ? reviewer1 : reviewer2;
+  const conservative = (prefix: string): ConflictResolution => ({
+    decision: 'include',
+    confidence: includer.confidence,
+    reasoning: `${prefix}${disagreement} Included conservatively so the full text is checked.`,
+    arbiter: null
+  });
+  const humanRequired = (prefix: string): ConflictResolution => ({
+    decision: 'conflict',
+    confidence: (reviewer1.confidence + reviewer2.confidence) / 2,
+    reasoning: `${prefix}${disagreement} Left for human review.`,
+    arbiter: null
+  });
 
-      // Parse and validate
-      let result;
-      try {
-        let cleanContent = content.trim();
-        if (cleanContent.startsWith('```json')) {
-          cleanContent = cleanContent.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        }
-        result = JSON.parse(cleanContent);
-      } catch (parseError) {
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          result = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error(`Could not parse JSON from Gemini: ${parseError.message}`);
-        }
+  switch (config.conflictResolution) {
+    case 'conservative':
+      return conservative('');
+    case 'human_required':
+      return humanRequired('');
+    case 'arbiter_model': {
+      const startTime = Date.now();
+      const { completion, errors } = await completeWithFallback(
+        config.arbiterChain,
+        {
+          ...buildArbiterPrompt(reference, criteria, [reviewer1, reviewer2], guard),
+          maxTokens: 2000,
+          temperature: 0,
+          responseSchema: { name: 'conflict_adjudication', schema: ARBITER_RESPONSE_SCHEMA }
+        },
+        ArbiterVerdictSchema
+      );
+      if (!completion) {
+        console.error('❌ All arbiter models failed:', errors);
+        return humanRequired(`Arbiter failed (${errors.join('; ')}). `);
       }
-
-      result.confidence = Math.max(0, Math.min(1, result.confidence || 0.5));
-      if (!['include', 'exclude'].includes(result.recommendation)) {
-        result.recommendation = 'exclude';
+      if (leaksCanary(completion.content, guard)) {
+        console.warn(`⚠️ Arbiter ${formatModelSpec(completion.spec)} output contained the prompt canary`);
+        return { ...humanRequired('Arbiter output contained the prompt canary and was discarded. '), canary_leaked: true };
       }
-
+      const arbiter: ArbiterResult = {
+        ...completion.value,
+        arbiter: modelLabel(completion.spec),
+        model_version: formatModelSpec(completion.spec),
+        tokens_used: completion.tokensUsed,
+        processing_time_ms: Date.now() - startTime
+      };
       return {
-        recommendation: result.recommendation,
-        confidence: result.confidence,
-        reasoning: result.reasoning || 'No reasoning provided',
-        reviewer: reviewerName,
-        picott_assessment: result.picott_assessment,
-        criteria_assessment: result.criteria_assessment,
-        tokens_used: data.usageMetadata?.totalTokenCount || 0,
-        processing_time_ms: processingTime,
-        model_version: model
+        decision: arbiter.decision,
+        confidence: arbiter.confidence,
+        reasoning: `${disagreement} Adjudicated by ${arbiter.arbiter}: ${arbiter.reasoning}`,
+        arbiter
+      };
+    }
+    default: {
+      // higher_confidence
+      if (reviewer1.confidence === reviewer2.confidence) {
+        return conservative('Equal confidence. ');
+      }
+      const [winner, label, loser] = reviewer1.confidence > reviewer2.confidence
+        ? [reviewer1, 'Reviewer 1', reviewer2]
+        : [reviewer2, 'Reviewer 2', reviewer1];
+      return {
+        decision: winner.recommendation,
+        confidence: winner.confidence,
+        reasoning: `Conflict resolved in favor of ${label} (${winner.reviewer}) due to higher confidence (${winner.confidence} vs ${loser.confidence}). Decision: ${winner.recommendation}`,
+        arbiter: null
       };
-
-    } catch (error) {
-      lastError = error;
-      console.error(`Gemini attempt ${attempt} failed:`, error.message);
-      
-      if (attempt === maxRetries) throw lastError;
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
     }
   }
-
-  throw lastError;
-}
\ No newline at end of file
+}
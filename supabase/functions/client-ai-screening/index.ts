@@ -7,7 +7,7 @@ const corsHeaders = {
 };
 
 interface AIReviewResult {
-  recommendation: 'include' | 'exclude';
+  recommendation: 'include' | 'exclude' | 'uncertain';
   confidence: number;
   reasoning: string;
   reviewer: string;
@@ -40,7 +40,8 @@ serve(async (req) => {
 
     // Evaluate agreement
     const agreement = reviewer1Result.recommendation === reviewer2Result.recommendation;
-    const finalDecision = agreement ? reviewer1Result.recommendation : 'exclude';
+    // Disagreements are left to a human reviewer rather than excluded
+    const finalDecision = agreement ? reviewer1Result.recommendation : 'uncertain';
     const averageConfidence = (reviewer1Result.confidence + reviewer2Result.confidence) / 2;
 
     console.log('Client-side screening completed:', {
@@ -60,7 +61,7 @@ serve(async (req) => {
         primary_model_confidence: reviewer1Result.confidence,
         secondary_model_decision: reviewer2Result.recommendation,
         secondary_model_confidence: reviewer2Result.confidence,
-        final_decision: finalDecision,
+        final_decision: { include: 'included', exclude: 'excluded', uncertain: 'uncertain' }[finalDecision],
         model_agreement_score: agreement ? 1.0 : 0.0,
         decision_reason: {
           reviewer1: reviewer1Result,
@@ -201,7 +202,8 @@ async function performRuleBasedScreening(reference: any, criteria: any, reviewer
 
   // Determine final recommendation
   const confidence = Math.abs(score - 0.5) * 2; // Convert to 0-1 confidence
-  const recommendation = score > 0.5 ? 'include' : 'exclude';
+  // Scores close to the threshold are too weak a signal either way
+  const recommendation = Math.abs(score - 0.5) < 0.05 ? 'uncertain' : score > 0.5 ? 'include' : 'exclude';
 
   return {
     recommendation,
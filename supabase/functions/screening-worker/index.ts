@@ -0,0 +1,373 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  checkContract,
+  MAX_BATCH_SIZE,
+  SCREENING_CONTRACT_VERSION,
+  ScreeningBatchItemResult,
+  ScreeningBatchRequest,
+  ScreeningBatchResponseSchema
+} from "../_shared/contract.ts";
+import { SCREENING_LEASE_SECONDS, STALE_JOB_MS } from "../_shared/jobs.ts";
+
+// Supabase keeps background tasks of a finished request alive with EdgeRuntime.waitUntil
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Environment variables
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+// Sent by the screening-worker-sweep cron job, which has no service role key
+const workerSecret = Deno.env.get('SCREENING_WORKER_SECRET')?.trim();
+
+// Initialize Supabase client
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Attempts per reference before it is marked failed
+const MAX_ITEM_ATTEMPTS = 3;
+
+const workerId = crypto.randomUUID();
+
+type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+interface ScreeningJob {
+  id: string;
+  project_id: string;
+  run_id: string | null;
+  status: JobStatus;
+  criteria: ScreeningBatchRequest['criteria'];
+}
+
+interface JobItem {
+  id: string;
+  reference_id: string;
+  attempts: number;
+}
+
+interface BatchSummary {
+  jobId: string;
+  status: JobStatus;
+  claimed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    const jobId = body && typeof body === 'object' ? (body as { jobId?: unknown }).jobId : undefined;
+
+    // Every call spends model budget with the service role, so callers are checked here rather than by the gateway
+    const denied = await authorize(req, typeof jobId === 'string' ? jobId : undefined);
+    if (denied) {
+      return jsonResponse({ success: false, error: denied.error }, denied.status);
+    }
+
+    // Without a job id, as from the screening-worker-sweep cron job, every running job that lost its worker is restarted
+    if (typeof jobId !== 'string') {
+      const restarted = await sweepStaleJobs();
+      return jsonResponse({ success: true, restarted });
+    }
+
+    const summary = await processNextBatch(jobId);
+    // Nothing claimed while still running means another worker holds the rest and continues the job
+    if (summary.status === 'running' && summary.claimed > 0) {
+      // The next batch runs in a fresh invocation so no single one approaches the function time limit
+      schedule(invokeSelf(jobId));
+    }
+    return jsonResponse({ success: true, ...summary });
+
+  } catch (error) {
+    console.error('❌ Screening worker error:', error);
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+});
+
+// Compares in constant time, so the secret cannot be guessed from response timings
+function secretsMatch(given: string, expected: string | undefined): boolean {
+  if (!expected || given.length !== expected.length) return false;
+  let difference = 0;
+  for (let i = 0; i < given.length; i++) {
+    difference |= given.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * The service role key (the worker continuing its own job) and the worker
+ * secret (the sweep) may do anything. A signed-in user may only start the
+ * worker on one of their own jobs; sweeping takes a key.
+ */
+async function authorize(req: Request, jobId?: string): Promise<{ status: number; error: string } | null> {
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token) return { status: 401, error: 'Missing authorization' };
+  if (secretsMatch(token, supabaseKey) || secretsMatch(token, workerSecret)) return null;
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) return { status: 401, error: 'Invalid authorization' };
+  if (!jobId) return { status: 403, error: 'Only the scheduled sweep can restart all jobs' };
+
+  const { data: job, error } = await supabase
+    .from('screening_jobs')
+    .select('user_id')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return job && job.user_id === user.id ? null : { status: 403, error: 'Not your screening job' };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function schedule(task: Promise<unknown>) {
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(task);
+}
+
+async function invokeSelf(jobId: string) {
+  try {
+    await fetch(`${supabaseUrl}/functions/v1/screening-worker`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${supabaseKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobId }),
+    });
+  } catch (error) {
+    // The job keeps its items; the next sweep or the page polling it restarts the worker
+    console.error(`Failed to continue screening job ${jobId}:`, error);
+  }
+}
+
+async function sweepStaleJobs(): Promise<string[]> {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS).toISOString();
+  const { data: jobs, error } = await supabase
+    .from('screening_jobs')
+    .select('id')
+    .eq('status', 'running')
+    .or(`heartbeat_at.is.null,heartbeat_at.lt.${staleBefore}`);
+
+  if (error) throw error;
+
+  const ids = (jobs || []).map(job => job.id as string);
+  ids.forEach(id => schedule(invokeSelf(id)));
+  console.log(`🧹 Restarting ${ids.length} stalled screening jobs`);
+  return ids;
+}
+
+/**
+ * Leases the job's next MAX_BATCH_SIZE pending references, screens them in
+ * one ai-screening batch call and records each outcome. A reference that
+ * fails goes back to pending until it has used MAX_ITEM_ATTEMPTS, so a run
+ * resumes from the last completed reference whatever interrupted it.
+ */
+async function processNextBatch(jobId: string): Promise<BatchSummary> {
+  let job = await loadJob(jobId);
+
+  if (job.status === 'queued') {
+    const { error } = await supabase
+      .from('screening_jobs')
+      .update({ status: 'running', started_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'queued');
+    if (error) throw error;
+    job = { ...job, status: 'running' };
+  }
+
+  const summary: BatchSummary = { jobId, status: job.status, claimed: 0, completed: 0, retried: 0, failed: 0 };
+  if (job.status !== 'running') {
+    console.log(`Screening job ${jobId} is ${job.status}, nothing to do`);
+    return summary;
+  }
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_screening_job_items', {
+    p_job_id: jobId,
+    p_worker: workerId,
+    p_limit: MAX_BATCH_SIZE,
+    p_lease_seconds: SCREENING_LEASE_SECONDS,
+    p_max_attempts: MAX_ITEM_ATTEMPTS
+  });
+  if (claimError) throw claimError;
+
+  const items = (claimed || []) as JobItem[];
+  summary.claimed = items.length;
+
+  if (items.length > 0) {
+    console.log(`📦 Screening job ${jobId}: leased ${items.length} references`);
+    const results = await screenItems(job, items);
+    // The decisions stand without their reasoning steps, but the job reports that the steps were lost
+    let reasoningError: string | undefined;
+
+    for (const item of items) {
+      const result = results.get(item.reference_id);
+      if (result && result.success === true) {
+        const { referenceId, ...stored } = result;
+        await updateItem(item, {
+          status: 'completed',
+          decision: result.decision,
+          result: stored,
+          last_error: null,
+          completed_at: new Date().toISOString()
+        });
+        reasoningError = await recordReasoning(jobId, item.reference_id, result) ?? reasoningError;
+        summary.completed++;
+        continue;
+      }
+
+      const message = result && result.success === false
+        ? result.error
+        : results.error ?? 'The batch returned no result for the reference';
+      if (item.attempts >= MAX_ITEM_ATTEMPTS) {
+        await updateItem(item, { status: 'failed', last_error: message, completed_at: new Date().toISOString() });
+        summary.failed++;
+      } else {
+        await updateItem(item, { status: 'pending', last_error: message });
+        summary.retried++;
+      }
+    }
+
+    if (results.error || reasoningError) {
+      await supabase.from('screening_jobs').update({ last_error: results.error ?? reasoningError }).eq('id', jobId);
+    }
+  }
+
+  // Recounts the job and completes it once nothing is left; also the heartbeat
+  const { data: refreshed, error: refreshError } = await supabase.rpc('refresh_screening_job', { p_job_id: jobId });
+  if (refreshError) throw refreshError;
+
+  summary.status = refreshed.status;
+  if (items.length === 0 && summary.status === 'running') {
+    console.log(`Screening job ${jobId}: the remaining references are leased by another worker`);
+    return summary;
+  }
+
+  console.log(`✅ Screening job ${jobId}: ${summary.completed} screened, ${summary.retried} to retry, ${summary.failed} failed (${refreshed.completed_count}/${refreshed.total_references})`);
+  return summary;
+}
+
+async function loadJob(jobId: string): Promise<ScreeningJob> {
+  const { data, error } = await supabase
+    .from('screening_jobs')
+    .select('id, project_id, run_id, status, criteria')
+    .eq('id', jobId)
+    .single();
+
+  if (error) throw error;
+  return data as ScreeningJob;
+}
+
+async function updateItem(item: JobItem, values: Record<string, unknown>) {
+  const { error } = await supabase
+    .from('screening_job_items')
+    .update({ ...values, leased_by: null, lease_expires_at: null })
+    .eq('id', item.id)
+    // The lease may have expired and been taken over; the new holder's outcome wins
+    .eq('leased_by', workerId);
+
+  if (error) {
+    console.error(`Failed to update screening job item ${item.id}:`, error);
+  }
+}
+
+type BatchResults = Map<string, ScreeningBatchItemResult> & { error?: string };
+
+// The batch result for each reference; when the call as a whole fails, an empty map carrying the error
+async function screenItems(job: ScreeningJob, items: JobItem[]): Promise<BatchResults> {
+  const results: BatchResults = new Map();
+
+  const { data: references, error } = await supabase
+    .from('references')
+    .select('id, title, abstract, authors, journal, year, doi')
+    .in('id', items.map(item => item.reference_id));
+
+  if (error) {
+    results.error = `Failed to load references: ${error.message}`;
+    return results;
+  }
+
+  const request: ScreeningBatchRequest = {
+    contractVersion: SCREENING_CONTRACT_VERSION,
+    projectId: job.project_id,
+    runId: job.run_id ?? undefined,
+    references: (references || []).map(reference => ({
+      referenceId: reference.id,
+      reference: {
+        // Missing fields stay missing; the prompt marks them as not provided, outside the reference text
+        title: reference.title || null,
+        abstract: reference.abstract || null,
+        authors: reference.authors || null,
+        journal: reference.journal,
+        year: reference.year,
+        doi: reference.doi
+      }
+    })),
+    criteria: job.criteria
+  };
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/ai-screening`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${supabaseKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    const checked = checkContract(ScreeningBatchResponseSchema, await response.json().catch(() => null));
+
+    if (checked.success === false) {
+      results.error = `Batch response does not match screening contract v${SCREENING_CONTRACT_VERSION}: ${checked.issues.join('; ')}`;
+    } else if (checked.data.success === false) {
+      results.error = checked.data.error;
+    } else {
+      checked.data.results.forEach(result => results.set(result.referenceId, result));
+    }
+  } catch (error) {
+    results.error = `Batch screening call failed: ${error.message}`;
+  }
+
+  if (results.error) console.error(`Screening job ${job.id}: ${results.error}`);
+  return results;
+}
+
+// Each reviewer's decision and the consensus, in the order the screening page shows them; returns the error if they were not saved
+async function recordReasoning(
+  jobId: string,
+  referenceId: string,
+  result: Extract<ScreeningBatchItemResult, { success: true }>
+): Promise<string | undefined> {
+  const [reviewer1, reviewer2] = result.reviewers;
+  const consensus = result.agreement
+    ? `Both reviewers agreed on "${result.decision}" (Confidence: ${Math.round(result.confidence * 100)}%)`
+    : `Reviewers disagreed - ${reviewer1.name}: ${reviewer1.recommendation}, ${reviewer2.name}: ${reviewer2.recommendation}. Final: ${result.decision}`;
+  const createdAt = Date.now();
+
+  const { error } = await supabase
+    .from('screening_reasoning_steps')
+    .insert([
+      { reviewer: reviewer1.name, step_description: `Decision: ${reviewer1.recommendation}`, reasoning: reviewer1.reasoning, confidence: reviewer1.confidence },
+      { reviewer: reviewer2.name, step_description: `Decision: ${reviewer2.recommendation}`, reasoning: reviewer2.reasoning, confidence: reviewer2.confidence },
+      { reviewer: 'System', step_description: 'Final consensus', reasoning: consensus, confidence: 1.0 }
+    ].map((step, index) => ({
+      ...step,
+      job_id: jobId,
+      reference_id: referenceId,
+      // Distinct timestamps keep the steps in order when read back by created_at
+      created_at: new Date(createdAt + index).toISOString()
+    })));
+
+  if (error) {
+    console.error(`Screening job ${jobId}: failed to record reasoning steps for ${referenceId}:`, error);
+    return `Failed to record reasoning steps: ${error.message}`;
+  }
+}
@@ -0,0 +1,191 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import path from 'node:path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  checkContract,
+  SCREENING_CONTRACT_VERSION,
+  ScreeningBatchRequest,
+  ScreeningBatchResponseSchema,
+  ScreeningRequest,
+  ScreeningResponseSchema
+} from '../_shared/contract.ts';
+import { handler } from './stubs/server.ts';
+import { resetDatabase, tables, writes } from './stubs/supabase.ts';
+
+// The function's providers are the mock LLM server (npm run mock-llm), reached through the local provider
+let mockServer: ChildProcess;
+
+beforeAll(async () => {
+  mockServer = spawn(process.execPath, [path.resolve(__dirname, '../../../scripts/mock-llm-server.mjs')], {
+    env: { ...process.env, MOCK_LLM_PORT: '0' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  process.env.LOCAL_LLM_BASE_URL = await new Promise<string>((resolve, reject) => {
+    mockServer.once('error', reject);
+    mockServer.stdout!.on('data', (chunk: Buffer) => {
+      const url = chunk.toString().match(/listening on (\S+)/)?.[1];
+      if (url) resolve(url);
+    });
+  });
+
+  // Registers the handler with the serve() stub
+  await import('../ai-screening/index.ts');
+});
+
+afterAll(() => {
+  mockServer?.kill();
+});
+
+beforeEach(() => {
+  resetDatabase();
+});
+
+const useReviewers = (primary: string, secondary: string) => {
+  tables.ai_screening_config = [{ primary_model_name: primary, secondary_model_name: secondary }];
+};
+
+const call = async (body: unknown) => {
+  const response = await handler()(new Request('http://localhost/functions/v1/ai-screening', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+  return { status: response.status, body: await response.json() };
+};
+
+const reference = {
+  title: 'Exercise therapy for adults with knee osteoarthritis',
+  abstract: 'A randomised trial of supervised exercise in 120 adults.',
+  authors: 'Smith J, Doe A',
+  year: 2021,
+};
+
+const criteria = { population: 'Adults with knee osteoarthritis', intervention: 'Exercise', studyDesigns: ['RCT'] };
+
+const request: ScreeningRequest = {
+  contractVersion: SCREENING_CONTRACT_VERSION,
+  referenceId: 'reference-0001',
+  projectId: 'project-1',
+  runId: 'run-1',
+  reference,
+  criteria,
+};
+
+describe('ai-screening single requests', () => {
+  it('answers a valid request with a response that matches the contract', async () => {
+    useReviewers('local:mock-include', 'local:mock-include');
+
+    const { status, body } = await call(request);
+    const checked = checkContract(ScreeningResponseSchema, body);
+
+    expect(status).toBe(200);
+    expect(checked.success).toBe(true);
+    if (checked.success === false || checked.data.success === false) return;
+    expect(checked.data.decision).toBe('included');
+    expect(checked.data.agreement).toBe(true);
+    expect(checked.data.reviewers.map(reviewer => reviewer.recommendation)).toEqual(['include', 'include']);
+    expect(checked.data.telemetry.output_validation.reviewer1.status).toBe('valid');
+  });
+
+  it('logs the decision with its run and stores it on the reference', async () => {
+    useReviewers('local:mock-exclude', 'local:mock-exclude');
+
+    await call(request);
+
+    const log = writes.find(write => write.table === 'ai_screening_log');
+    const update = writes.find(write => write.table === 'references');
+    expect(log?.values).toMatchObject({ reference_id: request.referenceId, run_id: 'run-1', final_decision: 'excluded' });
+    expect(update?.values).toMatchObject({ status: 'excluded', ai_recommendation: 'excluded' });
+  });
+
+  it('flags a reviewer conflict for human review', async () => {
+    useReviewers('local:mock-include', 'local:mock-exclude');
+
+    const { body } = await call({ ...request, reference: { ...reference, abstract: null, authors: null } });
+    const checked = checkContract(ScreeningResponseSchema, body);
+
+    expect(checked.success).toBe(true);
+    if (checked.success === false || checked.data.success === false) return;
+    expect(checked.data.agreement).toBe(false);
+    expect(checked.data.reviewers.map(reviewer => reviewer.recommendation)).toEqual(['include', 'exclude']);
+  });
+
+  it('falls back along the chain when a provider fails', async () => {
+    useReviewers('local:mock-error, local:mock-include', 'local:mock-include');
+
+    const { body } = await call(request);
+
+    expect(body.success).toBe(true);
+    expect(body.reviewers[0].recommendation).toBe('include');
+  });
+
+  it('rejects a request that does not match the contract before calling a model', async () => {
+    useReviewers('local:mock-include', 'local:mock-include');
+
+    const { status, body } = await call({ ...request, referenceId: 'short' });
+    const checked = checkContract(ScreeningResponseSchema, body);
+
+    expect(status).toBe(400);
+    expect(checked.success).toBe(true);
+    expect(body.success).toBe(false);
+    expect(body.issues).toEqual([expect.stringMatching(/^referenceId: /)]);
+    expect(writes).toEqual([]);
+  });
+
+  it('rejects a request from another contract version', async () => {
+    const { status, body } = await call({ ...request, contractVersion: SCREENING_CONTRACT_VERSION + 1 });
+
+    expect(status).toBe(400);
+    expect(body.issues).toEqual([`contractVersion: expected ${SCREENING_CONTRACT_VERSION}, received ${SCREENING_CONTRACT_VERSION + 1}`]);
+  });
+});
+
+describe('ai-screening batch requests', () => {
+  const batch: ScreeningBatchRequest = {
+    contractVersion: SCREENING_CONTRACT_VERSION,
+    projectId: 'project-1',
+    references: [
+      { referenceId: 'reference-0001', reference },
+      { referenceId: 'reference-0002', reference: { ...reference, title: 'Knee replacement outcomes' } },
+    ],
+    criteria,
+  };
+
+  it('answers each reference in request order with a response that matches the contract', async () => {
+    useReviewers('local:mock-uncertain', 'local:mock-uncertain');
+
+    const { status, body } = await call(batch);
+    const checked = checkContract(ScreeningBatchResponseSchema, body);
+
+    expect(status).toBe(200);
+    expect(checked.success).toBe(true);
+    if (checked.success === false || checked.data.success === false) return;
+    expect(checked.data.results.map(result => result.referenceId)).toEqual(['reference-0001', 'reference-0002']);
+    expect(checked.data.results.every(result => result.success === true && result.decision === 'uncertain')).toBe(true);
+    expect(checked.data).toMatchObject({ succeeded: 2, failed: 0 });
+  });
+
+  it('screens with the other reviewer when every model of one chain fails', async () => {
+    useReviewers('local:mock-error', 'local:mock-include');
+
+    const { status, body } = await call(batch);
+    const checked = checkContract(ScreeningBatchResponseSchema, body);
+
+    expect(status).toBe(200);
+    expect(checked.success).toBe(true);
+    if (checked.success === false || checked.data.success === false) return;
+    expect(checked.data).toMatchObject({ succeeded: 2, failed: 0 });
+    checked.data.results.forEach(result => {
+      if (result.success === false) return;
+      expect(result.telemetry.output_validation.reviewer1.status).toBe('error');
+      expect(result.reviewers[1].recommendation).toBe('include');
+    });
+  });
+
+  it('rejects a batch that does not match the contract as a whole', async () => {
+    const { status, body } = await call({ ...batch, references: [...batch.references, { referenceId: 'short', reference }] });
+
+    expect(status).toBe(400);
+    expect(body.issues).toEqual([expect.stringMatching(/^references\.2\.referenceId: /)]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkContract,
+  MAX_BATCH_SIZE,
+  SCREENING_CONTRACT_VERSION,
+  ScreeningBatchRequestSchema,
+  ScreeningRequest,
+  ScreeningRequestSchema,
+  ScreeningResponseSchema
+} from '../_shared/contract.ts';
+
+const request: ScreeningRequest = {
+  contractVersion: SCREENING_CONTRACT_VERSION,
+  referenceId: 'reference-0001',
+  projectId: 'project-1',
+  reference: { title: 'Exercise for knee osteoarthritis', abstract: null, authors: ['Smith J', 'Doe A'], year: 2021 },
+  criteria: { population: 'Adults with knee osteoarthritis', studyDesigns: ['RCT'] },
+};
+
+describe('screening request contract', () => {
+  it('accepts a valid request and turns null fields into undefined', () => {
+    const checked = checkContract(ScreeningRequestSchema, request);
+
+    expect(checked.success).toBe(true);
+    if (checked.success === false) return;
+    expect(checked.data.reference.abstract).toBeUndefined();
+    expect(checked.data.reference.authors).toEqual(['Smith J', 'Doe A']);
+  });
+
+  it('reports each field that does not match', () => {
+    const checked = checkContract(ScreeningRequestSchema, { ...request, referenceId: 'short', criteria: { studyDesigns: 'RCT' } });
+
+    expect(checked.success).toBe(false);
+    if (checked.success === true) return;
+    expect(checked.issues).toHaveLength(2);
+    expect(checked.issues[0]).toMatch(/^referenceId: /);
+    expect(checked.issues[1]).toMatch(/^criteria\.studyDesigns: /);
+  });
+
+  it('reports a version mismatch on its own', () => {
+    const checked = checkContract(ScreeningRequestSchema, { ...request, contractVersion: SCREENING_CONTRACT_VERSION + 1, referenceId: 'short' });
+
+    expect(checked).toEqual({
+      success: false,
+      issues: [`contractVersion: expected ${SCREENING_CONTRACT_VERSION}, received ${SCREENING_CONTRACT_VERSION + 1}`],
+    });
+  });
+
+  it('reports a missing version', () => {
+    const { contractVersion, ...unversioned } = request;
+
+    expect(checkContract(ScreeningRequestSchema, unversioned)).toEqual({
+      success: false,
+      issues: [`contractVersion: expected ${SCREENING_CONTRACT_VERSION}, received none`],
+    });
+    expect(checkContract(ScreeningRequestSchema, null).success).toBe(false);
+  });
+
+  it('limits a batch to MAX_BATCH_SIZE references', () => {
+    const batch = (size: number) => ({
+      contractVersion: SCREENING_CONTRACT_VERSION,
+      projectId: request.projectId,
+      references: Array.from({ length: size }, (_, index) => ({ referenceId: `reference-${1000 + index}`, reference: request.reference })),
+      criteria: request.criteria,
+    });
+
+    expect(checkContract(ScreeningBatchRequestSchema, batch(MAX_BATCH_SIZE)).success).toBe(true);
+    expect(checkContract(ScreeningBatchRequestSchema, batch(MAX_BATCH_SIZE + 1)).success).toBe(false);
+    expect(checkContract(ScreeningBatchRequestSchema, batch(0)).success).toBe(false);
+  });
+});
+
+describe('screening response contract', () => {
+  it('rejects the reviewer1/reviewer2 shape the client once expected', () => {
+    const checked = checkContract(ScreeningResponseSchema, {
+      contractVersion: SCREENING_CONTRACT_VERSION,
+      success: true,
+      finalDecision: 'include',
+      reviewer1: { decision: 'include', confidence: 0.8, reasoning: 'Relevant' },
+      reviewer2: { decision: 'include', confidence: 0.7, reasoning: 'Relevant' },
+    });
+
+    expect(checked.success).toBe(false);
+  });
+
+  it('accepts an error response with its issues', () => {
+    const checked = checkContract(ScreeningResponseSchema, {
+      contractVersion: SCREENING_CONTRACT_VERSION,
+      success: false,
+      error: 'Request does not match screening contract v1',
+      issues: ['referenceId: Too small'],
+    });
+
+    expect(checked.success).toBe(true);
+  });
+});
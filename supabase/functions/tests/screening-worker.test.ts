@@ -0,0 +1,48 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { handler } from './stubs/server.ts';
+import { resetDatabase, tables, users } from './stubs/supabase.ts';
+
+const SERVICE_KEY = 'service-role-key';
+const WORKER_SECRET = 'worker-secret';
+
+beforeAll(async () => {
+  process.env.SUPABASE_SERVICE_ROLE_KEY = SERVICE_KEY;
+  process.env.SCREENING_WORKER_SECRET = WORKER_SECRET;
+  // Registers the handler with the serve() stub
+  await import('../screening-worker/index.ts');
+});
+
+beforeEach(() => {
+  resetDatabase();
+  users['owner-token'] = { id: 'owner' };
+  users['other-token'] = { id: 'other' };
+  // Paused, so an authorized call returns without screening anything
+  tables.screening_jobs = [{ id: 'job-1', project_id: 'project-1', user_id: 'owner', run_id: null, status: 'paused', criteria: {} }];
+});
+
+const call = async (body: unknown, token?: string) => {
+  const response = await handler()(new Request('http://localhost/functions/v1/screening-worker', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+    body: JSON.stringify(body),
+  }));
+  return { status: response.status, body: await response.json() };
+};
+
+describe('screening-worker authorization', () => {
+  it('rejects calls without a valid key or session', async () => {
+    expect((await call({ jobId: 'job-1' })).status).toBe(401);
+    expect((await call({}, 'guessed-secret')).status).toBe(401);
+  });
+
+  it('lets the service role key and the worker secret sweep', async () => {
+    expect(await call({}, SERVICE_KEY)).toMatchObject({ status: 200, body: { success: true } });
+    expect(await call({}, WORKER_SECRET)).toMatchObject({ status: 200, body: { success: true } });
+  });
+
+  it('lets a user start the worker on their own job only', async () => {
+    expect(await call({ jobId: 'job-1' }, 'owner-token')).toMatchObject({ status: 200, body: { success: true, status: 'paused' } });
+    expect((await call({ jobId: 'job-1' }, 'other-token')).status).toBe(403);
+    expect((await call({}, 'owner-token')).status).toBe(403);
+  });
+});
@@ -0,0 +1,4 @@
+// The Deno globals the functions use, backed by the Node process
+(globalThis as { Deno?: unknown }).Deno = {
+  env: { get: (name: string) => process.env[name] },
+};
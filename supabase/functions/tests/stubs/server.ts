@@ -0,0 +1,13 @@
+type Handler = (req: Request) => Response | Promise<Response>;
+
+let registered: Handler | null = null;
+
+// Keeps the function's handler instead of listening, so tests can call it with a Request
+export function serve(handler: Handler) {
+  registered = handler;
+}
+
+export function handler(): Handler {
+  if (!registered) throw new Error('No function has called serve()');
+  return registered;
+}
@@ -0,0 +1,72 @@
+type Row = Record<string, unknown>;
+
+export interface Write {
+  table: string;
+  operation: 'insert' | 'update';
+  values: unknown;
+}
+
+// Rows every select on the table returns; filters are not applied
+export const tables: Record<string, Row[]> = {};
+// Inserts and updates in the order they were made
+export const writes: Write[] = [];
+// Signed-in users by access token
+export const users: Record<string, { id: string }> = {};
+
+export function resetDatabase() {
+  Object.keys(tables).forEach(table => delete tables[table]);
+  Object.keys(users).forEach(token => delete users[token]);
+  writes.length = 0;
+}
+
+class Query implements PromiseLike<{ data: unknown; error: null }> {
+  private writing = false;
+
+  constructor(private table: string) {}
+
+  select() { return this; }
+  eq() { return this; }
+  neq() { return this; }
+  in() { return this; }
+  is() { return this; }
+  gt() { return this; }
+  lt() { return this; }
+  or() { return this; }
+  order() { return this; }
+  limit() { return this; }
+  range() { return this; }
+
+  insert(values: unknown) { return this.write('insert', values); }
+  update(values: unknown) { return this.write('update', values); }
+
+  single() { return Promise.resolve({ data: this.rows()[0] ?? null, error: null }); }
+  maybeSingle() { return this.single(); }
+
+  then<T1 = { data: unknown; error: null }, T2 = never>(
+    onfulfilled?: ((value: { data: unknown; error: null }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve({ data: this.writing ? null : this.rows(), error: null }).then(onfulfilled, onrejected);
+  }
+
+  private write(operation: Write['operation'], values: unknown) {
+    writes.push({ table: this.table, operation, values });
+    this.writing = true;
+    return this;
+  }
+
+  private rows() {
+    return tables[this.table] ?? [];
+  }
+}
+
+// An in-memory stand-in for the service-role client the functions create
+export function createClient() {
+  return {
+    from: (table: string) => new Query(table),
+    rpc: () => Promise.resolve({ data: null, error: null }),
+    auth: {
+      getUser: (token: string) => Promise.resolve({ data: { user: users[token] ?? null }, error: null }),
+    },
+  };
+}
@@ -0,0 +1,2 @@
+// Node has fetch built in; the functions' XMLHttpRequest polyfill is not needed
+export {};
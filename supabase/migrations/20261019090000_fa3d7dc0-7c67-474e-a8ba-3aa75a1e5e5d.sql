@@ -0,0 +1,38 @@
+-- Track each imported file so references keep their provenance (PRISMA identification counts)
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES review_projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_size integer,
+  format text NOT NULL,
+  source_database text NOT NULL,
+  record_count integer DEFAULT 0,
+  warning_count integer DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE "references"
+ADD COLUMN IF NOT EXISTS import_batch_id uuid REFERENCES import_batches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS source_database text;
+
+COMMENT ON COLUMN "references".source_database IS 'Database the record was exported from (e.g. PubMed, Embase, Scopus)';
+
+-- Enable RLS
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches" ON import_batches
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own import batches" ON import_batches
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own import batches" ON import_batches
+FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own import batches" ON import_batches
+FOR DELETE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_project_id ON import_batches(project_id);
+CREATE INDEX IF NOT EXISTS idx_references_import_batch_id ON "references"(import_batch_id);
+CREATE INDEX IF NOT EXISTS idx_references_source_database ON "references"(project_id, source_database);
@@ -0,0 +1,42 @@
+-- Duplicate detection: candidate clusters and the record each duplicate was merged into
+CREATE TABLE IF NOT EXISTS duplicate_clusters (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES review_projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  reference_ids uuid[] NOT NULL,
+  primary_reference_id uuid REFERENCES "references"(id) ON DELETE SET NULL,
+  similarity numeric NOT NULL,
+  match_reasons text[] DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'merged', 'rejected')),
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+ALTER TABLE "references"
+ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES "references"(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN "references".duplicate_of IS 'Record this reference was identified as a duplicate of; such references have status duplicate and are not screened';
+
+-- Enable RLS
+ALTER TABLE duplicate_clusters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own duplicate clusters" ON duplicate_clusters
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own duplicate clusters" ON duplicate_clusters
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own duplicate clusters" ON duplicate_clusters
+FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own duplicate clusters" ON duplicate_clusters
+FOR DELETE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_clusters_project_id ON duplicate_clusters(project_id, status);
+CREATE INDEX IF NOT EXISTS idx_references_duplicate_of ON "references"(duplicate_of);
+
+CREATE TRIGGER update_duplicate_clusters_updated_at
+  BEFORE UPDATE ON duplicate_clusters
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,6 @@
+-- Validation report per imported file: skipped records and field-level issues with line numbers
+ALTER TABLE import_batches
+ADD COLUMN IF NOT EXISTS skipped_count integer DEFAULT 0,
+ADD COLUMN IF NOT EXISTS report jsonb;
+
+COMMENT ON COLUMN import_batches.report IS 'ImportReport produced by the parser: issue codes, line numbers and counts';
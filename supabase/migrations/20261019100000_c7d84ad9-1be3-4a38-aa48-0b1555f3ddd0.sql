@@ -0,0 +1,35 @@
+-- Saved spreadsheet column mappings, so recurring spreadsheets import with one click
+CREATE TABLE IF NOT EXISTS import_mapping_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  mapping jsonb NOT NULL DEFAULT '{}',
+  headers text[] DEFAULT '{}',
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON COLUMN import_mapping_templates.mapping IS 'Spreadsheet column name -> reference field (title, authors, abstract, ...)';
+
+-- Enable RLS
+ALTER TABLE import_mapping_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mapping templates" ON import_mapping_templates
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own mapping templates" ON import_mapping_templates
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own mapping templates" ON import_mapping_templates
+FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own mapping templates" ON import_mapping_templates
+FOR DELETE USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_import_mapping_templates_user_id ON import_mapping_templates(user_id);
+
+CREATE TRIGGER update_import_mapping_templates_updated_at
+  BEFORE UPDATE ON import_mapping_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
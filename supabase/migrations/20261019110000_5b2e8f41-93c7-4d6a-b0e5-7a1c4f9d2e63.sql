@@ -0,0 +1,31 @@
+-- Versioned screening prompts: every save of the prompt editor creates a new immutable version
+CREATE TABLE IF NOT EXISTS ai_prompt_versions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES review_projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  version integer NOT NULL,
+  system_prompt text,
+  user_prompt_template text NOT NULL,
+  additional_instructions jsonb,
+  notes text,
+  created_at timestamp with time zone DEFAULT now(),
+  UNIQUE (project_id, version)
+);
+
+-- The version currently in use, and the version each logged decision was made with
+ALTER TABLE ai_screening_config
+ADD COLUMN IF NOT EXISTS prompt_version_id uuid REFERENCES ai_prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE ai_screening_log
+ADD COLUMN IF NOT EXISTS prompt_version_id uuid REFERENCES ai_prompt_versions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN ai_screening_log.prompt_version_id IS 'Prompt version used for this decision; NULL means the built-in default prompt';
+
+-- Enable RLS
+ALTER TABLE ai_prompt_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage prompt versions for own projects" ON ai_prompt_versions
+FOR ALL USING (EXISTS (SELECT 1 FROM review_projects WHERE review_projects.id = project_id AND review_projects.user_id = auth.uid()));
+
+CREATE INDEX IF NOT EXISTS idx_ai_prompt_versions_project_id ON ai_prompt_versions(project_id);
+CREATE INDEX IF NOT EXISTS idx_ai_screening_log_prompt_version_id ON ai_screening_log(prompt_version_id);
@@ -0,0 +1,5 @@
+-- Reviewer personas: per-reviewer instructions, inclusion bias, temperature and few-shot examples
+ALTER TABLE ai_screening_config
+ADD COLUMN IF NOT EXISTS reviewer_personas jsonb;
+
+COMMENT ON COLUMN ai_screening_config.reviewer_personas IS 'Array of two ReviewerPersona objects (reviewer 1, reviewer 2); NULL uses the built-in personas';
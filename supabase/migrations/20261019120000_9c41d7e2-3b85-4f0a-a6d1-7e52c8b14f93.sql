@@ -0,0 +1,6 @@
+-- Conflict arbitration: how reviewer disagreements are resolved, and the third model used to adjudicate them
+ALTER TABLE ai_screening_config
+ADD COLUMN IF NOT EXISTS arbiter_model_name text;
+
+COMMENT ON COLUMN ai_screening_config.conflict_resolution_method IS 'higher_confidence, conservative, arbiter_model or human_required; NULL or unknown values use higher_confidence';
+COMMENT ON COLUMN ai_screening_config.arbiter_model_name IS 'Comma-separated fallback chain of provider:model specs used when conflict_resolution_method is arbiter_model; NULL uses the built-in chain';
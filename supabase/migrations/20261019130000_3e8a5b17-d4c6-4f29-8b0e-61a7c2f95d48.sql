@@ -0,0 +1,58 @@
+-- Three-way screening decisions: uncertain is a final decision in its own right and sends the reference to human review
+COMMENT ON COLUMN ai_screening_log.final_decision IS 'included, excluded, uncertain (reviewers could not decide; human review) or conflict (unresolved disagreement; human review)';
+
+ALTER TABLE ai_screening_log
+DROP CONSTRAINT IF EXISTS ai_screening_log_final_decision_check;
+
+ALTER TABLE ai_screening_log
+ADD CONSTRAINT ai_screening_log_final_decision_check
+CHECK (final_decision IS NULL OR final_decision IN ('included', 'excluded', 'uncertain', 'conflict')) NOT VALID;
+
+-- The reference status follows the decision the ai-screening function reached (consensus rules, conflict
+-- resolution, uncertain answers); the agreement evaluation is only used for rows logged without one
+CREATE OR REPLACE FUNCTION public.process_ai_screening()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+    screening_result RECORD;
+    resolved_decision TEXT;
+BEGIN
+    -- Evaluate AI screening
+    SELECT 
+        final_decision, 
+        conflict_flag, 
+        agreement_score 
+    INTO screening_result
+    FROM public.evaluate_ai_screening_agreement(
+        NEW.primary_model_decision,
+        NEW.secondary_model_decision,
+        NEW.primary_model_confidence,
+        NEW.secondary_model_confidence
+    );
+
+    resolved_decision := CASE
+        WHEN NEW.final_decision IN ('included', 'excluded', 'uncertain', 'conflict') THEN NEW.final_decision
+        ELSE screening_result.final_decision
+    END;
+    
+    -- Update reference with AI screening results, keeping the reviewer details stored by the function
+    UPDATE public.references r
+    SET 
+        status = resolved_decision,
+        ai_conflict_flag = CASE
+            WHEN resolved_decision = NEW.final_decision THEN resolved_decision = 'conflict'
+            ELSE screening_result.conflict_flag
+        END,
+        ai_screening_details = COALESCE(r.ai_screening_details, '{}'::jsonb) || jsonb_build_object(
+            'final_decision', resolved_decision,
+            'agreement_score', screening_result.agreement_score,
+            'processed_at', NOW()
+        )
+    WHERE r.id = NEW.reference_id;
+    
+    RETURN NEW;
+END;
+$function$;
@@ -0,0 +1,96 @@
+-- Confidence calibration: per project and model, fitted from human decisions in user_decisions
+CREATE TABLE IF NOT EXISTS confidence_calibrations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES review_projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  model text NOT NULL,
+  method text NOT NULL CHECK (method IN ('platt', 'isotonic')),
+  parameters jsonb NOT NULL,
+  sample_size integer NOT NULL,
+  brier_raw numeric,
+  brier_calibrated numeric,
+  fitted_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (project_id, model)
+);
+
+COMMENT ON COLUMN confidence_calibrations.model IS 'provider:model spec as recorded in ai_screening_log, e.g. openai:gpt-4o';
+COMMENT ON COLUMN confidence_calibrations.parameters IS 'platt: {method, a, b} applied to the log-odds of the confidence; isotonic: {method, thresholds, values}';
+
+ALTER TABLE ai_screening_log
+ADD COLUMN IF NOT EXISTS primary_model_calibrated_confidence numeric,
+ADD COLUMN IF NOT EXISTS secondary_model_calibrated_confidence numeric;
+
+COMMENT ON COLUMN ai_screening_log.primary_model_confidence IS 'Confidence before calibration (after the quote verification downgrade)';
+COMMENT ON COLUMN ai_screening_log.primary_model_calibrated_confidence IS 'Confidence after the model''s calibration for the project; NULL when the model was not calibrated';
+COMMENT ON COLUMN ai_screening_log.secondary_model_confidence IS 'Confidence before calibration (after the quote verification downgrade)';
+COMMENT ON COLUMN ai_screening_log.secondary_model_calibrated_confidence IS 'Confidence after the model''s calibration for the project; NULL when the model was not calibrated';
+
+-- Enable RLS
+ALTER TABLE confidence_calibrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own confidence calibrations" ON confidence_calibrations
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own confidence calibrations" ON confidence_calibrations
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own confidence calibrations" ON confidence_calibrations
+FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own confidence calibrations" ON confidence_calibrations
+FOR DELETE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_confidence_calibrations_updated_at
+  BEFORE UPDATE ON confidence_calibrations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Thresholds in the agreement evaluation use the calibrated confidence where there is one
+CREATE OR REPLACE FUNCTION public.process_ai_screening()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+    screening_result RECORD;
+    resolved_decision TEXT;
+BEGIN
+    -- Evaluate AI screening
+    SELECT 
+        final_decision, 
+        conflict_flag, 
+        agreement_score 
+    INTO screening_result
+    FROM public.evaluate_ai_screening_agreement(
+        NEW.primary_model_decision,
+        NEW.secondary_model_decision,
+        COALESCE(NEW.primary_model_calibrated_confidence, NEW.primary_model_confidence),
+        COALESCE(NEW.secondary_model_calibrated_confidence, NEW.secondary_model_confidence)
+    );
+
+    resolved_decision := CASE
+        WHEN NEW.final_decision IN ('included', 'excluded', 'uncertain', 'conflict') THEN NEW.final_decision
+        ELSE screening_result.final_decision
+    END;
+    
+    -- Update reference with AI screening results, keeping the reviewer details stored by the function
+    UPDATE public.references r
+    SET 
+        status = resolved_decision,
+        ai_conflict_flag = CASE
+            WHEN resolved_decision = NEW.final_decision THEN resolved_decision = 'conflict'
+            ELSE screening_result.conflict_flag
+        END,
+        ai_screening_details = COALESCE(r.ai_screening_details, '{}'::jsonb) || jsonb_build_object(
+            'final_decision', resolved_decision,
+            'agreement_score', screening_result.agreement_score,
+            'processed_at', NOW()
+        )
+    WHERE r.id = NEW.reference_id;
+    
+    RETURN NEW;
+END;
+$function$;
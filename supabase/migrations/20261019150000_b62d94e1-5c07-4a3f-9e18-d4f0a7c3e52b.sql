@@ -0,0 +1,11 @@
+-- Prompt-injection checks: references whose text addresses the screening models, or whose screening output leaked the prompt canary
+ALTER TABLE ai_screening_log
+ADD COLUMN IF NOT EXISTS injection_suspected boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS injection_check jsonb;
+
+COMMENT ON COLUMN ai_screening_log.injection_suspected IS 'Instruction-like text was found in the reference or a model output contained the prompt canary; the reference was held for human review';
+COMMENT ON COLUMN ai_screening_log.injection_check IS '{suspected, findings: [{field, kind, excerpt}], canary_leaks: [reviewer names]}';
+
+CREATE INDEX IF NOT EXISTS idx_ai_screening_log_injection_suspected
+ON ai_screening_log (project_id)
+WHERE injection_suspected;
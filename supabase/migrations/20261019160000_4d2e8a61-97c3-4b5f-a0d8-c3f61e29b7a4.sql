@@ -0,0 +1,173 @@
+-- Durable screening jobs: the screening-worker function screens a job's references in batches,
+-- so a run survives the browser closing and resumes from the last completed reference
+CREATE TABLE IF NOT EXISTS screening_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES review_projects(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'paused', 'completed', 'cancelled', 'failed')),
+  criteria jsonb NOT NULL,
+  total_references integer NOT NULL DEFAULT 0,
+  completed_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  included_count integer NOT NULL DEFAULT 0,
+  excluded_count integer NOT NULL DEFAULT 0,
+  uncertain_count integer NOT NULL DEFAULT 0,
+  conflict_count integer NOT NULL DEFAULT 0,
+  last_error text,
+  heartbeat_at timestamp with time zone,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now()
+);
+
+COMMENT ON COLUMN screening_jobs.criteria IS 'Screening criteria in the ai-screening contract form, fixed when the job is created';
+COMMENT ON COLUMN screening_jobs.heartbeat_at IS 'Last time a worker finished a batch of the job; a running job with an old heartbeat has lost its worker';
+
+CREATE TABLE IF NOT EXISTS screening_job_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id uuid NOT NULL REFERENCES screening_jobs(id) ON DELETE CASCADE,
+  reference_id uuid NOT NULL REFERENCES "references"(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'leased', 'completed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  leased_by text,
+  lease_expires_at timestamp with time zone,
+  decision text CHECK (decision IN ('included', 'excluded', 'uncertain', 'conflict')),
+  result jsonb,
+  last_error text,
+  completed_at timestamp with time zone,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  UNIQUE (job_id, reference_id)
+);
+
+COMMENT ON COLUMN screening_job_items.attempts IS 'Times the item has been leased; an item is failed once its last allowed attempt fails or its lease expires';
+COMMENT ON COLUMN screening_job_items.result IS 'The ai-screening batch result entry for the reference, without referenceId';
+
+CREATE INDEX IF NOT EXISTS idx_screening_jobs_project_status ON screening_jobs(project_id, status);
+CREATE INDEX IF NOT EXISTS idx_screening_job_items_job_status ON screening_job_items(job_id, status, position);
+
+-- Enable RLS
+ALTER TABLE screening_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE screening_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own screening jobs" ON screening_jobs
+FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own screening jobs" ON screening_jobs
+FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own screening jobs" ON screening_jobs
+FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own screening jobs" ON screening_jobs
+FOR DELETE USING (user_id = auth.uid());
+
+-- Items are leased and completed by the worker with the service role; users only queue and read them
+CREATE POLICY "Users can view items of their own screening jobs" ON screening_job_items
+FOR SELECT USING (EXISTS (SELECT 1 FROM screening_jobs j WHERE j.id = job_id AND j.user_id = auth.uid()));
+
+CREATE POLICY "Users can create items of their own screening jobs" ON screening_job_items
+FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM screening_jobs j WHERE j.id = job_id AND j.user_id = auth.uid()));
+
+CREATE TRIGGER update_screening_jobs_updated_at
+  BEFORE UPDATE ON screening_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_screening_job_items_updated_at
+  BEFORE UPDATE ON screening_job_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Leases the next items of a running job in order. Items whose lease expired are taken over, so a
+-- worker that died mid-batch costs one lease period; SKIP LOCKED keeps concurrent workers apart.
+CREATE OR REPLACE FUNCTION public.claim_screening_job_items(
+  p_job_id uuid,
+  p_worker text,
+  p_limit integer,
+  p_lease_seconds integer,
+  p_max_attempts integer
+)
+RETURNS SETOF public.screening_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+    -- A lease that expired on the last allowed attempt is a failure, not another try
+    UPDATE public.screening_job_items
+    SET status = 'failed',
+        leased_by = NULL,
+        lease_expires_at = NULL,
+        last_error = COALESCE(last_error, 'Worker lease expired'),
+        completed_at = NOW()
+    WHERE job_id = p_job_id
+      AND status = 'leased'
+      AND lease_expires_at < NOW()
+      AND attempts >= p_max_attempts;
+
+    RETURN QUERY
+    UPDATE public.screening_job_items i
+    SET status = 'leased',
+        leased_by = p_worker,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = i.attempts + 1
+    WHERE i.id IN (
+        SELECT c.id
+        FROM public.screening_job_items c
+        JOIN public.screening_jobs j ON j.id = c.job_id
+        WHERE c.job_id = p_job_id
+          AND j.status = 'running'
+          AND (c.status = 'pending' OR (c.status = 'leased' AND c.lease_expires_at < NOW()))
+        ORDER BY c.position
+        LIMIT p_limit
+        FOR UPDATE OF c SKIP LOCKED
+    )
+    RETURNING i.*;
+END;
+$function$;
+
+-- Recounts a job from its items and completes it once no item is left to screen
+CREATE OR REPLACE FUNCTION public.refresh_screening_job(p_job_id uuid)
+RETURNS public.screening_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+DECLARE
+    counts RECORD;
+    job public.screening_jobs;
+BEGIN
+    SELECT
+        COUNT(*) FILTER (WHERE status = 'completed') AS completed,
+        COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+        COUNT(*) FILTER (WHERE status IN ('pending', 'leased')) AS remaining,
+        COUNT(*) FILTER (WHERE decision = 'included') AS included,
+        COUNT(*) FILTER (WHERE decision = 'excluded') AS excluded,
+        COUNT(*) FILTER (WHERE decision = 'uncertain') AS uncertain,
+        COUNT(*) FILTER (WHERE decision = 'conflict') AS conflict
+    INTO counts
+    FROM public.screening_job_items
+    WHERE job_id = p_job_id;
+
+    UPDATE public.screening_jobs
+    SET completed_count = counts.completed,
+        failed_count = counts.failed,
+        included_count = counts.included,
+        excluded_count = counts.excluded,
+        uncertain_count = counts.uncertain,
+        conflict_count = counts.conflict,
+        heartbeat_at = NOW(),
+        status = CASE WHEN status = 'running' AND counts.remaining = 0 THEN 'completed' ELSE status END,
+        completed_at = CASE WHEN status = 'running' AND counts.remaining = 0 THEN NOW() ELSE completed_at END
+    WHERE id = p_job_id
+    RETURNING * INTO job;
+
+    RETURN job;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_screening_job_items(uuid, text, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_screening_job(uuid) FROM PUBLIC, anon, authenticated;
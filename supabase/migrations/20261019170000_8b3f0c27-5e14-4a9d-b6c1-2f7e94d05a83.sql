@@ -0,0 +1,133 @@
+-- Screening run modes: every job belongs to a screening_runs row recording its mode, and job items
+-- remember the content they were screened with so a later run can pick out changed references
+ALTER TABLE screening_jobs
+ADD COLUMN IF NOT EXISTS run_id uuid REFERENCES screening_runs(id) ON DELETE SET NULL;
+
+ALTER TABLE screening_job_items
+ADD COLUMN IF NOT EXISTS content_hash text;
+
+COMMENT ON COLUMN screening_job_items.content_hash IS 'reference_content_hash of the reference when it was leased for screening';
+COMMENT ON COLUMN screening_runs.configuration IS 'mode (unscreened, uncertain, changed or full), reference_count and the pre-run estimate: estimated_input_tokens, estimated_output_tokens, estimated_cost_usd and the models it was priced for';
+
+CREATE INDEX IF NOT EXISTS idx_screening_jobs_run_id ON screening_jobs(run_id);
+CREATE INDEX IF NOT EXISTS idx_screening_job_items_reference_completed ON screening_job_items(reference_id, completed_at DESC) WHERE status = 'completed';
+
+-- The fields sent to the reviewers; a change to any of them calls for re-screening
+CREATE OR REPLACE FUNCTION public.reference_content_hash(r public.references)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO ''
+AS $function$
+    SELECT md5(concat_ws(chr(31), r.title, r.abstract, r.authors, r.journal, r.year::text, r.doi));
+$function$;
+
+-- References of the project added or edited since they were last screened by a job. References
+-- screened before jobs existed only count when they have no AI screening at all.
+CREATE OR REPLACE FUNCTION public.changed_screening_references(p_project_id uuid)
+RETURNS TABLE (reference_id uuid)
+LANGUAGE sql
+STABLE
+SET search_path TO ''
+AS $function$
+    SELECT r.id
+    FROM public.references r
+    LEFT JOIN LATERAL (
+        SELECT i.content_hash
+        FROM public.screening_job_items i
+        WHERE i.reference_id = r.id
+          AND i.status = 'completed'
+        ORDER BY i.completed_at DESC
+        LIMIT 1
+    ) last_screening ON true
+    WHERE r.project_id = p_project_id
+      AND CASE
+          WHEN last_screening.content_hash IS NOT NULL THEN last_screening.content_hash <> public.reference_content_hash(r)
+          ELSE r.ai_recommendation IS NULL AND r.ai_screening_details IS NULL
+      END
+    ORDER BY r.id;
+$function$;
+
+-- Leases record the content hash, so it matches what the worker sends to the reviewers
+CREATE OR REPLACE FUNCTION public.claim_screening_job_items(
+  p_job_id uuid,
+  p_worker text,
+  p_limit integer,
+  p_lease_seconds integer,
+  p_max_attempts integer
+)
+RETURNS SETOF public.screening_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+    -- A lease that expired on the last allowed attempt is a failure, not another try
+    UPDATE public.screening_job_items
+    SET status = 'failed',
+        leased_by = NULL,
+        lease_expires_at = NULL,
+        last_error = COALESCE(last_error, 'Worker lease expired'),
+        completed_at = NOW()
+    WHERE job_id = p_job_id
+      AND status = 'leased'
+      AND lease_expires_at < NOW()
+      AND attempts >= p_max_attempts;
+
+    RETURN QUERY
+    UPDATE public.screening_job_items i
+    SET status = 'leased',
+        leased_by = p_worker,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        attempts = i.attempts + 1,
+        content_hash = (SELECT public.reference_content_hash(r) FROM public.references r WHERE r.id = i.reference_id)
+    WHERE i.id IN (
+        SELECT c.id
+        FROM public.screening_job_items c
+        JOIN public.screening_jobs j ON j.id = c.job_id
+        WHERE c.job_id = p_job_id
+          AND j.status = 'running'
+          AND (c.status = 'pending' OR (c.status = 'leased' AND c.lease_expires_at < NOW()))
+        ORDER BY c.position
+        LIMIT p_limit
+        FOR UPDATE OF c SKIP LOCKED
+    )
+    RETURNING i.*;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_screening_job_items(uuid, text, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Keeps a job's run in step with the job's progress and outcome
+CREATE OR REPLACE FUNCTION public.sync_screening_run()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+    IF NEW.run_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE public.screening_runs
+    SET completed_references = NEW.completed_count,
+        status = CASE
+            WHEN NEW.status IN ('completed', 'cancelled', 'failed') THEN NEW.status
+            ELSE 'running'
+        END,
+        end_time = CASE
+            WHEN NEW.status IN ('completed', 'cancelled', 'failed') THEN COALESCE(NEW.completed_at, NOW())
+            ELSE NULL
+        END
+    WHERE id = NEW.run_id;
+
+    RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_screening_run_from_job
+  AFTER UPDATE ON screening_jobs
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.completed_count IS DISTINCT FROM NEW.completed_count)
+  EXECUTE FUNCTION sync_screening_run();
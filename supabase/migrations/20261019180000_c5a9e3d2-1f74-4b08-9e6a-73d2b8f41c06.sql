@@ -0,0 +1,43 @@
+-- Screening run history: every AI decision is linked to the run that made it, so two runs can be compared
+ALTER TABLE ai_screening_log
+ADD COLUMN IF NOT EXISTS run_id uuid REFERENCES screening_runs(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN ai_screening_log.run_id IS 'The screening run the decision was made in; NULL for decisions made outside a run';
+COMMENT ON COLUMN screening_runs.criteria_snapshot IS 'The criteria sent to the reviewers, frozen when the run was created';
+COMMENT ON COLUMN screening_runs.configuration IS 'mode, reference_count and the pre-run estimate, plus snapshot: the models, conflict resolution, reviewer personas, prompt, thresholds and calibrations in effect when the run was created';
+COMMENT ON COLUMN screening_runs.agreement_rate IS 'Share of the run''s decisions on which both reviewers agreed, between 0 and 1';
+
+CREATE INDEX IF NOT EXISTS idx_ai_screening_log_run_reference ON ai_screening_log(run_id, reference_id);
+
+-- Also keeps the run's agreement rate current from the decisions linked to it
+CREATE OR REPLACE FUNCTION public.sync_screening_run()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+    IF NEW.run_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE public.screening_runs
+    SET completed_references = NEW.completed_count,
+        status = CASE
+            WHEN NEW.status IN ('completed', 'cancelled', 'failed') THEN NEW.status
+            ELSE 'running'
+        END,
+        end_time = CASE
+            WHEN NEW.status IN ('completed', 'cancelled', 'failed') THEN COALESCE(NEW.completed_at, NOW())
+            ELSE NULL
+        END,
+        agreement_rate = (
+            SELECT AVG(l.model_agreement_score)
+            FROM public.ai_screening_log l
+            WHERE l.run_id = NEW.run_id
+        )
+    WHERE id = NEW.run_id;
+
+    RETURN NEW;
+END;
+$function$;
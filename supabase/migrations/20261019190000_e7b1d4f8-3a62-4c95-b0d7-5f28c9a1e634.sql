@@ -0,0 +1,26 @@
+-- Reasoning steps of screening jobs: jobs have no screening_progress session, so their steps are keyed by the job
+ALTER TABLE public.screening_reasoning_steps
+ALTER COLUMN session_id DROP NOT NULL;
+
+ALTER TABLE public.screening_reasoning_steps
+ADD COLUMN IF NOT EXISTS job_id uuid REFERENCES public.screening_jobs(id) ON DELETE CASCADE;
+
+ALTER TABLE public.screening_reasoning_steps
+ADD CONSTRAINT screening_reasoning_steps_owner_check CHECK (session_id IS NOT NULL OR job_id IS NOT NULL);
+
+COMMENT ON COLUMN public.screening_reasoning_steps.job_id IS 'The screening job the step was recorded by; NULL for steps of a screening_progress session';
+
+CREATE INDEX IF NOT EXISTS idx_reasoning_steps_job_id ON public.screening_reasoning_steps(job_id);
+
+-- Users can only view reasoning steps of jobs in their own projects
+CREATE POLICY "Users can view reasoning steps of own screening jobs"
+ON public.screening_reasoning_steps
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.screening_jobs j
+    JOIN public.review_projects rp ON j.project_id = rp.id
+    WHERE j.id = screening_reasoning_steps.job_id
+    AND rp.user_id = auth.uid()
+  )
+);
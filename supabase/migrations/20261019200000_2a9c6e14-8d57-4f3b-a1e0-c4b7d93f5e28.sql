@@ -0,0 +1,21 @@
+-- Restarts screening jobs that lost their worker when nobody has the screening page open.
+-- screening-worker called without a jobId sweeps running jobs whose heartbeat is older than STALE_JOB_MS
+-- (supabase/functions/_shared/jobs.ts). It is deployed with verify_jwt = false, so the call needs no key;
+-- the project URL is read from the project_url Vault secret, e.g.
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Scheduling under an existing name replaces that job, so this can be re-run
+SELECT cron.schedule(
+  'screening-worker-sweep',
+  '*/5 * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/screening-worker',
+    headers := jsonb_build_object('Content-Type', 'application/json'),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'project_url');
+  $cron$
+);
@@ -0,0 +1,20 @@
+-- screening-worker now rejects unauthenticated calls, so the sweep sends the worker secret.
+-- The secret is the function's SCREENING_WORKER_SECRET, also stored in Vault, e.g.
+--   SELECT vault.create_secret('<secret>', 'screening_worker_secret');
+-- Replaces the screening-worker-sweep job scheduled without a key.
+SELECT cron.schedule(
+  'screening-worker-sweep',
+  '*/5 * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/screening-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'screening_worker_secret')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'project_url')
+    AND EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'screening_worker_secret');
+  $cron$
+);
@@ -0,0 +1,23 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+const stub = (name: string) => path.resolve(__dirname, `./supabase/functions/tests/stubs/${name}`);
+
+// Runs the edge functions under Node: their remote Deno imports resolve to the stubs in supabase/functions/tests/stubs.
+// Tests for the app's own modules sit in a tests folder next to them, e.g. src/services/parsers/tests
+export default defineConfig({
+  resolve: {
+    alias: {
+      "https://deno.land/x/xhr@0.1.0/mod.ts": stub("xhr.ts"),
+      "https://deno.land/std@0.168.0/http/server.ts": stub("server.ts"),
+      "https://esm.sh/@supabase/supabase-js@2": stub("supabase.ts"),
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  test: {
+    include: ["supabase/functions/tests/**/*.test.ts", "src/**/tests/**/*.test.ts"],
+    environment: "node",
+    setupFiles: [stub("deno.ts")],
+  },
+});